@@ -0,0 +1,96 @@
+import { ActivityStats } from '@/domain/models/Activity';
+import { ActivityAggregator } from '@/domain/services/ActivityAggregator';
+
+describe('Activity Domain Model', () => {
+  describe('ActivityStats', () => {
+    it('should create stats with activity', () => {
+      const stats = new ActivityStats(30, 12, 4, 500, 120, 2.8);
+
+      expect(stats.commits).toBe(12);
+      expect(stats.mergedPullRequests).toBe(4);
+      expect(stats.getCodeChurn()).toBe(620);
+      expect(stats.hasActivity()).toBe(true);
+    });
+
+    it('should detect no activity', () => {
+      const stats = new ActivityStats(30, 0, 0, 0, 0, 0);
+
+      expect(stats.hasActivity()).toBe(false);
+    });
+
+    it('should reject negative counts', () => {
+      expect(() => new ActivityStats(30, -1, 0, 0, 0, 0)).toThrow('Activity counts cannot be negative');
+    });
+
+    it('should reject non-positive window', () => {
+      expect(() => new ActivityStats(0, 0, 0, 0, 0, 0)).toThrow('Activity window must be positive');
+    });
+  });
+});
+
+describe('ActivityAggregator Service', () => {
+  const now = new Date('2025-06-30T12:00:00Z');
+
+  describe('countCommits', () => {
+    it('should only count days inside the range', () => {
+      const commitActivity = [
+        // Week starting Sunday 2025-05-25: first days fall before the range
+        { weekStart: new Date('2025-05-25T00:00:00Z'), days: [1, 1, 1, 1, 1, 1, 1] },
+        { weekStart: new Date('2025-06-22T00:00:00Z'), days: [0, 2, 0, 3, 0, 0, 0] },
+      ];
+
+      const commits = ActivityAggregator.countCommits(
+        commitActivity,
+        new Date('2025-05-30T12:00:00Z'),
+        now
+      );
+
+      expect(commits).toBe(2 + 5); // Friday and Saturday of the first week
+    });
+  });
+
+  describe('sumCodeFrequency', () => {
+    it('should sum weeks overlapping the window', () => {
+      const codeFrequency = [
+        { weekStart: new Date('2025-05-18T00:00:00Z'), additions: 1000, deletions: 1000 },
+        { weekStart: new Date('2025-05-25T00:00:00Z'), additions: 100, deletions: 50 },
+        { weekStart: new Date('2025-06-22T00:00:00Z'), additions: 10, deletions: 5 },
+      ];
+
+      const totals = ActivityAggregator.sumCodeFrequency(codeFrequency, new Date('2025-05-31T12:00:00Z'));
+
+      expect(totals).toEqual({ additions: 110, deletions: 55 });
+    });
+  });
+
+  describe('calculateAveragePerWeek', () => {
+    it('should average over weeks in the period', () => {
+      expect(ActivityAggregator.calculateAveragePerWeek(30, 30)).toBe(7);
+    });
+
+    it('should return 0 for an empty period', () => {
+      expect(ActivityAggregator.calculateAveragePerWeek(5, 0)).toBe(0);
+    });
+  });
+
+  describe('calculateStats', () => {
+    it('should combine commits, churn and merged pull requests', () => {
+      const stats = ActivityAggregator.calculateStats(
+        [{ weekStart: new Date('2025-06-22T00:00:00Z'), days: [0, 2, 0, 3, 0, 0, 0] }],
+        [{ weekStart: new Date('2025-06-22T00:00:00Z'), additions: 10, deletions: 5 }],
+        [
+          { number: 2, mergedAt: new Date('2025-06-20T10:00:00Z') },
+          { number: 1, mergedAt: new Date('2025-04-01T10:00:00Z') },
+        ],
+        now
+      );
+
+      expect(stats.windowDays).toBe(ActivityAggregator.WINDOW_DAYS);
+      expect(stats.commits).toBe(5);
+      expect(stats.mergedPullRequests).toBe(1);
+      expect(stats.linesAdded).toBe(10);
+      expect(stats.linesDeleted).toBe(5);
+      expect(stats.averageCommitsPerWeek).toBe(1.2);
+    });
+  });
+});
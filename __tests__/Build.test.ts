@@ -0,0 +1,103 @@
+import { BuildStats, WorkflowRun } from '@/domain/models/Build';
+import { BuildStatistics } from '@/domain/services/BuildStatistics';
+
+describe('Build Domain Model', () => {
+  describe('WorkflowRun', () => {
+    it('should classify completed runs by conclusion', () => {
+      const success = new WorkflowRun(1, 'completed', 'success', new Date());
+      const failure = new WorkflowRun(2, 'completed', 'failure', new Date());
+      const timedOut = new WorkflowRun(3, 'completed', 'timed_out', new Date());
+      const cancelled = new WorkflowRun(4, 'completed', 'cancelled', new Date());
+
+      expect(success.isSuccessful()).toBe(true);
+      expect(failure.isFailed()).toBe(true);
+      expect(timedOut.isFailed()).toBe(true);
+      expect(cancelled.isCancelled()).toBe(true);
+      expect(cancelled.isSuccessful()).toBe(false);
+    });
+
+    it('should not classify runs that are still in progress', () => {
+      const inProgress = new WorkflowRun(1, 'in_progress', null, new Date());
+
+      expect(inProgress.isCompleted()).toBe(false);
+      expect(inProgress.isSuccessful()).toBe(false);
+      expect(inProgress.isFailed()).toBe(false);
+      expect(inProgress.isCancelled()).toBe(false);
+    });
+  });
+
+  describe('BuildStats', () => {
+    it('should create stats with builds', () => {
+      const stats = new BuildStats(8, 1, 1, 10, 80);
+
+      expect(stats.successfulBuilds).toBe(8);
+      expect(stats.failedBuilds).toBe(1);
+      expect(stats.cancelledBuilds).toBe(1);
+      expect(stats.totalBuilds).toBe(10);
+      expect(stats.successRate).toBe(80);
+      expect(stats.hasBuilds()).toBe(true);
+    });
+
+    it('should create empty stats', () => {
+      const stats = new BuildStats(0, 0, 0, 0, 0);
+
+      expect(stats.hasBuilds()).toBe(false);
+    });
+
+    it('should reject negative counts', () => {
+      expect(() => new BuildStats(-1, 0, 0, 0, 0)).toThrow('Build counts cannot be negative');
+    });
+
+    it('should reject success rate out of range', () => {
+      expect(() => new BuildStats(1, 0, 0, 1, 101)).toThrow('Success rate must be between 0 and 100');
+    });
+  });
+});
+
+describe('BuildStatistics Service', () => {
+  describe('calculateStats', () => {
+    it('should calculate stats for empty runs', () => {
+      const stats = BuildStatistics.calculateStats([]);
+
+      expect(stats.totalBuilds).toBe(0);
+      expect(stats.successRate).toBe(0);
+    });
+
+    it('should count completed runs by conclusion', () => {
+      const runs = [
+        new WorkflowRun(1, 'completed', 'success', new Date()),
+        new WorkflowRun(2, 'completed', 'success', new Date()),
+        new WorkflowRun(3, 'completed', 'failure', new Date()),
+        new WorkflowRun(4, 'completed', 'cancelled', new Date()),
+        new WorkflowRun(5, 'in_progress', null, new Date()),
+      ];
+
+      const stats = BuildStatistics.calculateStats(runs);
+
+      expect(stats.successfulBuilds).toBe(2);
+      expect(stats.failedBuilds).toBe(1);
+      expect(stats.cancelledBuilds).toBe(1);
+      expect(stats.totalBuilds).toBe(4); // In-progress run is ignored
+      expect(stats.successRate).toBe(50);
+    });
+  });
+
+  describe('calculateSuccessRate', () => {
+    it('should round to one decimal place', () => {
+      expect(BuildStatistics.calculateSuccessRate(2, 3)).toBe(66.7);
+    });
+
+    it('should return 0 when there are no builds', () => {
+      expect(BuildStatistics.calculateSuccessRate(0, 0)).toBe(0);
+    });
+  });
+
+  describe('getWindowStart', () => {
+    it('should go back 12 months', () => {
+      const start = BuildStatistics.getWindowStart(new Date('2025-06-15T00:00:00Z'));
+
+      expect(start.getFullYear()).toBe(2024);
+      expect(start.getMonth()).toBe(new Date('2025-06-15T00:00:00Z').getMonth());
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { Contributor, ContributorStats } from '@/domain/models/Contributor';
+import { ContributorStatistics } from '@/domain/services/ContributorStatistics';
+
+describe('Contributor Domain Model', () => {
+  describe('Contributor', () => {
+    it('should create a contributor with valid data', () => {
+      const contributor = new Contributor('octocat', 'https://avatars.example.com/octocat', 42);
+
+      expect(contributor.login).toBe('octocat');
+      expect(contributor.avatarUrl).toBe('https://avatars.example.com/octocat');
+      expect(contributor.contributions).toBe(42);
+      expect(contributor.isBot).toBe(false);
+    });
+
+    it('should throw error for empty login', () => {
+      expect(() => new Contributor('', null, 1)).toThrow('Contributor login is required');
+    });
+
+    it('should throw error for negative contributions', () => {
+      expect(() => new Contributor('octocat', null, -1)).toThrow('Contribution count cannot be negative');
+    });
+
+    it('should match login patterns with wildcards', () => {
+      const dependabot = new Contributor('dependabot[bot]', null, 10);
+      const renovate = new Contributor('Renovate-Bot', null, 10);
+      const human = new Contributor('octocat', null, 10);
+      const patterns = ['*[bot]', 'renovate*'];
+
+      expect(dependabot.matchesAny(patterns)).toBe(true);
+      expect(renovate.matchesAny(patterns)).toBe(true);
+      expect(human.matchesAny(patterns)).toBe(false);
+    });
+  });
+
+  describe('ContributorStats', () => {
+    it('should check if has contributors', () => {
+      expect(new ContributorStats(3, 1, []).hasContributors()).toBe(true);
+      expect(new ContributorStats(0, 0, []).hasContributors()).toBe(false);
+    });
+
+    it('should reject negative counts', () => {
+      expect(() => new ContributorStats(-1, 0, [])).toThrow('Contributor counts cannot be negative');
+    });
+  });
+});
+
+describe('ContributorStatistics Service', () => {
+  describe('calculateStats', () => {
+    it('should exclude bots from totals, active count and top contributors', () => {
+      const contributors = [
+        new Contributor('dependabot[bot]', null, 500, true),
+        new Contributor('renovate-bot', null, 300),
+        new Contributor('alice', null, 120),
+        new Contributor('bob', null, 80),
+      ];
+
+      const stats = ContributorStatistics.calculateStats(
+        contributors,
+        ['alice', 'dependabot[bot]'],
+        ContributorStatistics.DEFAULT_BOT_PATTERNS
+      );
+
+      expect(stats.totalContributors).toBe(2);
+      expect(stats.activeContributors).toBe(1);
+      expect(stats.topContributors.map(c => c.login)).toEqual(['alice', 'bob']);
+    });
+
+    it('should keep only the top five contributors by contributions', () => {
+      const contributors = ['a', 'b', 'c', 'd', 'e', 'f', 'g'].map(
+        (login, index) => new Contributor(login, null, index)
+      );
+
+      const stats = ContributorStatistics.calculateStats(contributors, []);
+
+      expect(stats.totalContributors).toBe(7);
+      expect(stats.topContributors).toHaveLength(ContributorStatistics.TOP_CONTRIBUTORS);
+      expect(stats.topContributors[0].login).toBe('g');
+    });
+
+    it('should use custom bot patterns', () => {
+      const contributors = [
+        new Contributor('ci-robot', null, 50),
+        new Contributor('alice', null, 10),
+      ];
+
+      const stats = ContributorStatistics.calculateStats(contributors, ['ci-robot'], ['ci-*']);
+
+      expect(stats.totalContributors).toBe(1);
+      expect(stats.activeContributors).toBe(0);
+    });
+  });
+});
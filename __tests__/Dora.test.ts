@@ -0,0 +1,192 @@
+import { DoraMetrics } from '@/domain/models/Dora';
+import { WorkflowRun } from '@/domain/models/Build';
+import { DoraCalculator } from '@/domain/services/DoraCalculator';
+import { ReleaseCalculator } from '@/domain/services/ReleaseCalculator';
+
+describe('Dora Domain Model', () => {
+  const now = new Date('2025-06-30T12:00:00Z');
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+  const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+  const parseTags = (tags: [string, Date][]) =>
+    ReleaseCalculator.parseTags(tags.map(([name, date]) => ({ name, date, dateSource: 'tagger' as const })));
+
+  describe('DoraMetrics', () => {
+    const levels = { deploymentFrequency: 'low' as const, leadTime: null, changeFailureRate: null, timeToRestore: null };
+
+    it('should create metrics without deployments', () => {
+      const metrics = new DoraMetrics(90, 0, 0, 0, null, null, null, levels);
+
+      expect(metrics.hasDeployments()).toBe(false);
+    });
+
+    it('should reject more failed deployments than deployments', () => {
+      expect(() => new DoraMetrics(90, 1, 2, 0.1, null, 100, null, levels))
+        .toThrow('Failed deployments cannot exceed deployments');
+    });
+
+    it('should reject a change failure rate above 100', () => {
+      expect(() => new DoraMetrics(90, 1, 1, 0.1, null, 120, null, levels))
+        .toThrow('Change failure rate must be between 0 and 100');
+    });
+  });
+
+  describe('DoraCalculator', () => {
+    it('should count stable and unversioned releases in the window as deployments', () => {
+      const releases = parseTags([
+        ['v2.0.0-rc.1', daysAgo(5)],
+        ['v1.1.0', daysAgo(10)],
+        ['nightly', daysAgo(20)],
+        ['v1.0.0', daysAgo(120)],
+      ]);
+
+      const deployments = DoraCalculator.getDeployments(releases, now);
+
+      expect(deployments.map(release => release.tagName)).toEqual(['nightly', 'v1.1.0']);
+    });
+
+    it('should mark releases followed by a patch of the same line within the hotfix window as failed', () => {
+      const releases = parseTags([
+        ['v1.2.1', daysAgo(28)],
+        ['v1.2.0', daysAgo(30)],
+        ['v1.1.1', daysAgo(45)],
+        ['v1.1.0', daysAgo(60)],
+        ['v1.0.0', daysAgo(80)],
+      ]);
+      const deployments = DoraCalculator.getDeployments(releases, now);
+
+      // v1.2.0 is hotfixed after 2 days; v1.1.0 only after 15 days
+      expect(DoraCalculator.countFailedDeployments(deployments, releases, 7)).toBe(1);
+      expect(DoraCalculator.countFailedDeployments(deployments, releases, 30)).toBe(2);
+    });
+
+    it('should not count a patch of another version line as a hotfix', () => {
+      const releases = parseTags([
+        ['v1.0.1', daysAgo(9)],
+        ['v2.0.0', daysAgo(10)],
+        ['v1.0.0', daysAgo(60)],
+      ]);
+      const deployments = DoraCalculator.getDeployments(releases, now);
+
+      expect(DoraCalculator.countFailedDeployments(deployments, releases, 7)).toBe(0);
+    });
+
+    it('should pair releases with the next lower version', () => {
+      const releases = parseTags([
+        ['v1.0.1', daysAgo(5)],
+        ['v2.0.0', daysAgo(10)],
+        ['v1.0.0', daysAgo(60)],
+      ]);
+
+      const changes = DoraCalculator.getReleaseChanges(releases, now);
+
+      expect(changes.map(change => `${change.previous.tagName}..${change.release.tagName}`))
+        .toEqual(['v1.0.1..v2.0.0', 'v1.0.0..v1.0.1']);
+    });
+
+    it('should calculate lead times from commit dates, never below zero', () => {
+      const [release] = parseTags([['v1.0.0', now]]);
+
+      const leadTimes = DoraCalculator.calculateLeadTimes(release, [hoursAgo(30), hoursAgo(6), hoursAgo(-1)]);
+
+      expect(leadTimes).toEqual([30, 6, 0]);
+    });
+
+    it('should measure time from the first failed build to the next green one on the branch', () => {
+      const runs = [
+        new WorkflowRun(1, 'completed', 'success', hoursAgo(50), 'main'),
+        new WorkflowRun(2, 'completed', 'failure', hoursAgo(40), 'main'),
+        new WorkflowRun(3, 'completed', 'failure', hoursAgo(38), 'main'),
+        new WorkflowRun(4, 'completed', 'success', hoursAgo(34), 'feature'),
+        new WorkflowRun(5, 'completed', 'cancelled', hoursAgo(33), 'main'),
+        new WorkflowRun(6, 'completed', 'success', hoursAgo(30), 'main'),
+        new WorkflowRun(7, 'completed', 'timed_out', hoursAgo(4), 'main'),
+      ];
+
+      expect(DoraCalculator.calculateRestoreTimes(runs, 'main', now)).toEqual([10]);
+      expect(DoraCalculator.calculateRestoreTimes(runs, null, now)).toEqual([6]);
+    });
+
+    it('should calculate and band all four metrics', () => {
+      const releases = parseTags([
+        ['v1.1.1', daysAgo(8)],
+        ['v1.1.0', daysAgo(10)],
+        ['v1.0.0', daysAgo(40)],
+      ]);
+      const runs = [
+        new WorkflowRun(1, 'completed', 'failure', hoursAgo(10), 'main'),
+        new WorkflowRun(2, 'completed', 'success', hoursAgo(7), 'main'),
+      ];
+
+      const metrics = DoraCalculator.calculateMetrics(releases, [2, 30, 100], runs, 'main', 7, now);
+
+      expect(metrics.windowDays).toBe(90);
+      expect(metrics.deployments).toBe(3);
+      expect(metrics.deploymentsPerWeek).toBe(0.23);
+      expect(metrics.failedDeployments).toBe(1);
+      expect(metrics.changeFailureRate).toBe(33.3);
+      expect(metrics.leadTimeHours).toBe(30);
+      expect(metrics.timeToRestoreHours).toBe(3);
+      expect(metrics.levels).toEqual({
+        deploymentFrequency: 'medium',
+        leadTime: 'high',
+        changeFailureRate: 'low',
+        timeToRestore: 'high',
+      });
+    });
+
+    it('should leave unmeasured metrics without a band', () => {
+      const metrics = DoraCalculator.calculateMetrics([], null, null, null, 7, now);
+
+      expect(metrics.hasDeployments()).toBe(false);
+      expect(metrics.changeFailureRate).toBeNull();
+      expect(metrics.levels.deploymentFrequency).toBe('low');
+      expect(metrics.levels.leadTime).toBeNull();
+      expect(metrics.levels.changeFailureRate).toBeNull();
+      expect(metrics.levels.timeToRestore).toBeNull();
+    });
+
+    it('should band each metric at the DORA thresholds', () => {
+      expect(DoraCalculator.classifyDeploymentFrequency(7)).toBe('elite');
+      expect(DoraCalculator.classifyDeploymentFrequency(1)).toBe('high');
+      expect(DoraCalculator.classifyDeploymentFrequency(0.25)).toBe('medium');
+      expect(DoraCalculator.classifyDeploymentFrequency(0.1)).toBe('low');
+
+      expect(DoraCalculator.classifyLeadTime(23)).toBe('elite');
+      expect(DoraCalculator.classifyLeadTime(24)).toBe('high');
+      expect(DoraCalculator.classifyLeadTime(24 * 7)).toBe('medium');
+      expect(DoraCalculator.classifyLeadTime(24 * 30)).toBe('low');
+
+      expect(DoraCalculator.classifyChangeFailureRate(5)).toBe('elite');
+      expect(DoraCalculator.classifyChangeFailureRate(10)).toBe('high');
+      expect(DoraCalculator.classifyChangeFailureRate(15)).toBe('medium');
+      expect(DoraCalculator.classifyChangeFailureRate(15.1)).toBe('low');
+
+      expect(DoraCalculator.classifyTimeToRestore(0.5)).toBe('elite');
+      expect(DoraCalculator.classifyTimeToRestore(1)).toBe('high');
+      expect(DoraCalculator.classifyTimeToRestore(24)).toBe('medium');
+      expect(DoraCalculator.classifyTimeToRestore(24 * 7)).toBe('low');
+    });
+
+    it('should pool deployments and take the median durations across repositories', () => {
+      const levels = { deploymentFrequency: 'low' as const, leadTime: null, changeFailureRate: null, timeToRestore: null };
+      const metrics = DoraCalculator.aggregate([
+        new DoraMetrics(90, 6, 1, 0.47, 10, 16.7, 2, levels),
+        new DoraMetrics(90, 4, 0, 0.31, 50, 0, null, levels),
+        new DoraMetrics(90, 0, 0, 0, null, null, 6, levels),
+        null,
+      ]);
+
+      expect(metrics).not.toBeNull();
+      expect(metrics!.deployments).toBe(10);
+      expect(metrics!.failedDeployments).toBe(1);
+      expect(metrics!.changeFailureRate).toBe(10);
+      expect(metrics!.leadTimeHours).toBe(30);
+      expect(metrics!.timeToRestoreHours).toBe(4);
+      expect(metrics!.levels.changeFailureRate).toBe('high');
+    });
+
+    it('should return no organization metrics without repository metrics', () => {
+      expect(DoraCalculator.aggregate([null, null])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { EmailAllowlist } from '@/domain/models/EmailAllowlist';
+
+describe('EmailAllowlist', () => {
+  describe('constructor', () => {
+    it('should normalize domains and emails', () => {
+      const allowlist = new EmailAllowlist([' Example.com ', '@corp.example.org', ''], ['Guest@Partner.com ']);
+
+      expect(allowlist.domains).toEqual(['example.com', 'corp.example.org']);
+      expect(allowlist.emails).toEqual(['guest@partner.com']);
+    });
+  });
+
+  describe('isAllowed', () => {
+    const allowlist = new EmailAllowlist(['example.com', 'example.org'], ['contractor@gmail.com']);
+
+    it('should allow emails from allowed domains', () => {
+      expect(allowlist.isAllowed('alice@example.com')).toBe(true);
+      expect(allowlist.isAllowed('bob@example.org')).toBe(true);
+    });
+
+    it('should match case-insensitively', () => {
+      expect(allowlist.isAllowed('Alice@EXAMPLE.com')).toBe(true);
+      expect(allowlist.isAllowed('Contractor@Gmail.com')).toBe(true);
+    });
+
+    it('should allow individual email exceptions', () => {
+      expect(allowlist.isAllowed('contractor@gmail.com')).toBe(true);
+      expect(allowlist.isAllowed('someone@gmail.com')).toBe(false);
+    });
+
+    it('should not allow subdomains or lookalike domains', () => {
+      expect(allowlist.isAllowed('alice@mail.example.com')).toBe(false);
+      expect(allowlist.isAllowed('alice@notexample.com')).toBe(false);
+      expect(allowlist.isAllowed('alice@example.com.evil.io')).toBe(false);
+    });
+
+    it('should reject missing or malformed emails', () => {
+      expect(allowlist.isAllowed(null)).toBe(false);
+      expect(allowlist.isAllowed('')).toBe(false);
+      expect(allowlist.isAllowed('@example.com')).toBe(false);
+    });
+  });
+
+  describe('isEmpty', () => {
+    it('should deny everyone when empty', () => {
+      const allowlist = new EmailAllowlist([], []);
+
+      expect(allowlist.isEmpty()).toBe(true);
+      expect(allowlist.isAllowed('alice@example.com')).toBe(false);
+    });
+  });
+});
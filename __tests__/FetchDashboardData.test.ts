@@ -0,0 +1,107 @@
+import { mock, instance, when, verify, anything } from 'ts-mockito';
+import { FetchDashboardData } from '@/usecase/FetchDashboardData';
+import { FetchOrganizationData, OrganizationData } from '@/usecase/FetchOrganizationData';
+import { Logger } from '@/domain/ports/Logger';
+import { Repository } from '@/domain/models/Repository';
+import { RepositorySource } from '@/domain/models/RepositorySource';
+import { OrganizationStatistics } from '@/domain/services/OrganizationStatistics';
+
+describe('FetchDashboardData', () => {
+  let mockFetchOrganizationData: FetchOrganizationData;
+  let mockLogger: Logger;
+  let fetchDashboardData: FetchDashboardData;
+
+  const acme = RepositorySource.organization('acme');
+  const octocat = RepositorySource.parse('user:octocat');
+  const acmeApi = RepositorySource.parse('acme/api');
+
+  const repository = (owner: string, name: string) =>
+    new Repository(name, owner, `https://github.com/${owner}/${name}`, null, null, 0, new Date());
+
+  const organizationData = (repositories: Repository[], cachedAt: Date, overrides: Partial<OrganizationData> = {}) => ({
+    repositories,
+    truncated: false,
+    stats: OrganizationStatistics.calculateStats(repositories),
+    dora: null,
+    cachedAt,
+    isStale: false,
+    isRefreshed: true,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockFetchOrganizationData = mock(FetchOrganizationData);
+    mockLogger = mock<Logger>();
+
+    fetchDashboardData = new FetchDashboardData(instance(mockFetchOrganizationData), instance(mockLogger));
+  });
+
+  describe('execute', () => {
+    it('should combine sources and keep a repository listed twice once', async () => {
+      when(mockFetchOrganizationData.execute(acme, false)).thenResolve(
+        organizationData([repository('acme', 'api'), repository('acme', 'web')], new Date('2025-06-01T10:00:00Z'))
+      );
+      when(mockFetchOrganizationData.execute(octocat, false)).thenResolve(
+        organizationData([repository('octocat', 'dotfiles')], new Date('2025-06-01T09:00:00Z'), { isStale: true })
+      );
+      when(mockFetchOrganizationData.execute(acmeApi, false)).thenResolve(
+        organizationData([repository('acme', 'api')], new Date('2025-06-01T11:00:00Z'))
+      );
+
+      const result = await fetchDashboardData.execute([acme, octocat, acmeApi]);
+
+      expect(result.repositories.map(repo => repo.getFullName())).toEqual(['acme/api', 'acme/web', 'octocat/dotfiles']);
+      expect(result.stats.totalRepositories).toBe(3);
+      expect(result.sources.map(summary => summary.stats.totalRepositories)).toEqual([2, 1, 1]);
+      expect(result.cachedAt).toEqual(new Date('2025-06-01T09:00:00Z'));
+      expect(result.isStale).toBe(true);
+    });
+
+    it('should report the repositories of the sources fetched from their provider as refreshed', async () => {
+      when(mockFetchOrganizationData.execute(acme, false)).thenResolve(
+        organizationData([repository('acme', 'api')], new Date())
+      );
+      when(mockFetchOrganizationData.execute(octocat, false)).thenResolve(
+        organizationData([repository('octocat', 'dotfiles')], new Date(), { isRefreshed: false })
+      );
+
+      const result = await fetchDashboardData.execute([acme, octocat]);
+
+      expect(result.refreshedRepositories.map(repo => repo.getFullName())).toEqual(['acme/api']);
+      expect(result.sources.map(summary => summary.isRefreshed)).toEqual([true, false]);
+    });
+
+    it('should pass the refresh flag to every source', async () => {
+      when(mockFetchOrganizationData.execute(anything(), true)).thenResolve(organizationData([], new Date()));
+
+      await fetchDashboardData.execute([acme, octocat], true);
+
+      verify(mockFetchOrganizationData.execute(anything(), true)).twice();
+    });
+
+    it('should report a failing source and keep the others', async () => {
+      when(mockFetchOrganizationData.execute(acme, false)).thenResolve(
+        organizationData([repository('acme', 'api')], new Date(), { truncated: true })
+      );
+      when(mockFetchOrganizationData.execute(octocat, false)).thenReject(new Error("User 'octocat' not found"));
+
+      const result = await fetchDashboardData.execute([acme, octocat]);
+
+      expect(result.repositories).toHaveLength(1);
+      expect(result.truncated).toBe(true);
+      expect(result.sources[1].error).toBe("User 'octocat' not found");
+      expect(result.sources[1].stats.totalRepositories).toBe(0);
+      verify(mockLogger.warn(anything(), anything())).once();
+    });
+
+    it('should rethrow when no source could be fetched', async () => {
+      when(mockFetchOrganizationData.execute(anything(), false)).thenReject(new Error('GitHub API error'));
+
+      await expect(fetchDashboardData.execute([acme, octocat])).rejects.toThrow('GitHub API error');
+    });
+
+    it('should require a source', async () => {
+      await expect(fetchDashboardData.execute([])).rejects.toThrow('At least one repository source is required');
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { mock, instance, when, verify, anything, deepEqual } from 'ts-mockito';
+import { FetchMetricTrends } from '@/usecase/FetchMetricTrends';
+import { RecordSnapshots } from '@/usecase/RecordSnapshots';
+import { SnapshotStore } from '@/domain/ports/SnapshotStore';
+import { Logger } from '@/domain/ports/Logger';
+import { Repository } from '@/domain/models/Repository';
+import { RepositoryMetrics, RepositorySnapshot } from '@/domain/models/Snapshot';
+
+describe('Snapshot use cases', () => {
+  const now = new Date('2025-06-30T12:00:00Z');
+  let mockSnapshotStore: SnapshotStore;
+  let mockLogger: Logger;
+
+  const metrics = { starCount: 0, releasesLast30Days: 1 } as RepositoryMetrics;
+
+  beforeEach(() => {
+    mockSnapshotStore = mock<SnapshotStore>();
+    mockLogger = mock<Logger>();
+  });
+
+  describe('RecordSnapshots', () => {
+    const repositories = [
+      new Repository('api', 'acme', 'https://github.com/acme/api', null, null, 1, now),
+      new Repository('web', 'acme', 'https://github.com/acme/web', null, null, 2, now),
+    ];
+
+    it('should save a snapshot of every repository for the day', async () => {
+      let saved: RepositorySnapshot[] = [];
+      when(mockSnapshotStore.save(anything())).thenCall(async (snapshots: RepositorySnapshot[]) => {
+        saved = snapshots;
+      });
+
+      const count = await new RecordSnapshots(instance(mockSnapshotStore), instance(mockLogger))
+        .execute(repositories, now);
+
+      expect(count).toBe(2);
+      expect(saved.map(snapshot => `${snapshot.date} ${snapshot.getFullName()}`))
+        .toEqual(['2025-06-30 acme/api', '2025-06-30 acme/web']);
+    });
+
+    it('should log and swallow storage failures', async () => {
+      when(mockSnapshotStore.save(anything())).thenReject(new Error('database is locked'));
+
+      const count = await new RecordSnapshots(instance(mockSnapshotStore), instance(mockLogger))
+        .execute(repositories, now);
+
+      expect(count).toBe(0);
+      verify(mockLogger.error('Failed to record repository snapshots', anything(), anything())).once();
+    });
+  });
+
+  describe('FetchMetricTrends', () => {
+    it('should return organization totals and the requested repository series', async () => {
+      when(mockSnapshotStore.find(deepEqual({ owner: 'acme', since: '2025-04-01' }))).thenResolve([
+        new RepositorySnapshot('2025-06-01', 'acme', 'api', metrics),
+        new RepositorySnapshot('2025-06-01', 'acme', 'web', metrics),
+        new RepositorySnapshot('2025-06-02', 'acme', 'api', metrics),
+      ]);
+
+      const trends = await new FetchMetricTrends(instance(mockSnapshotStore)).execute('acme', 'api', 90, now);
+
+      expect(trends.since).toBe('2025-04-01');
+      expect(trends.organization.map(day => [day.date, day.releasesLast30Days])).toEqual([
+        ['2025-06-01', 2],
+        ['2025-06-02', 1],
+      ]);
+      expect(trends.repository!.map(snapshot => snapshot.date)).toEqual(['2025-06-01', '2025-06-02']);
+    });
+
+    it('should cap the period and omit the repository series when none is requested', async () => {
+      when(mockSnapshotStore.find(anything())).thenResolve([]);
+
+      const trends = await new FetchMetricTrends(instance(mockSnapshotStore)).execute(null, null, 10000, now);
+
+      expect(trends.since).toBe('2020-07-01');
+      expect(trends.repository).toBeNull();
+    });
+
+    it('should require an owner for repository trends', async () => {
+      await expect(new FetchMetricTrends(instance(mockSnapshotStore)).execute(null, 'api', 90, now))
+        .rejects.toThrow('Repository trends require an owner');
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { mock, instance, when, verify, anything } from 'ts-mockito';
+import { FetchOrganizationData } from '@/usecase/FetchOrganizationData';
+import { FetchRepositories } from '@/usecase/FetchRepositories';
+import { CacheProvider, CacheEntry } from '@/domain/ports/CacheProvider';
+import { RepositoryList } from '@/domain/ports/RepositoryProvider';
+import { Logger } from '@/domain/ports/Logger';
+import { Repository } from '@/domain/models/Repository';
+
+describe('FetchOrganizationData', () => {
+  let mockFetchRepositories: FetchRepositories;
+  let mockCacheProvider: CacheProvider<RepositoryList>;
+  let mockLogger: Logger;
+  let fetchOrganizationData: FetchOrganizationData;
+
+  const repositoryList: RepositoryList = {
+    repositories: [
+      new Repository(
+        'repo1',
+        'test-org',
+        'https://github.com/test-org/repo1',
+        null,
+        null,
+        0,
+        new Date()
+      ),
+    ],
+    truncated: false,
+  };
+
+  const entry = (ageMinutes: number, ttlMinutes: number = 15): CacheEntry<RepositoryList> => {
+    const cachedAt = new Date(Date.now() - ageMinutes * 60 * 1000);
+    return {
+      value: repositoryList,
+      cachedAt,
+      expiresAt: new Date(cachedAt.getTime() + ttlMinutes * 60 * 1000),
+    };
+  };
+
+  beforeEach(() => {
+    mockFetchRepositories = mock(FetchRepositories);
+    mockCacheProvider = mock<CacheProvider<RepositoryList>>();
+    mockLogger = mock<Logger>();
+
+    fetchOrganizationData = new FetchOrganizationData(
+      instance(mockFetchRepositories),
+      instance(mockCacheProvider),
+      instance(mockLogger)
+    );
+  });
+
+  describe('execute', () => {
+    it('should serve fresh cached data without fetching', async () => {
+      const cached = entry(5);
+      when(mockCacheProvider.get('test-org')).thenResolve(cached);
+
+      const result = await fetchOrganizationData.execute('test-org');
+
+      expect(result.repositories).toBe(repositoryList.repositories);
+      expect(result.cachedAt).toEqual(cached.cachedAt);
+      expect(result.isStale).toBe(false);
+      expect(result.isRefreshed).toBe(false);
+      expect(result.stats.totalRepositories).toBe(1);
+      verify(mockFetchRepositories.execute(anything())).never();
+    });
+
+    it('should fetch and cache when nothing is cached', async () => {
+      const stored = entry(0);
+      when(mockCacheProvider.get('test-org')).thenResolve(null);
+      when(mockFetchRepositories.execute('test-org', true, undefined)).thenResolve(repositoryList);
+      when(mockCacheProvider.set('test-org', repositoryList)).thenResolve(stored);
+
+      const result = await fetchOrganizationData.execute('test-org');
+
+      expect(result.repositories).toBe(repositoryList.repositories);
+      expect(result.cachedAt).toEqual(stored.cachedAt);
+      expect(result.isStale).toBe(false);
+      expect(result.isRefreshed).toBe(true);
+      verify(mockCacheProvider.set('test-org', repositoryList)).once();
+    });
+
+    it('should refetch when cached data has expired', async () => {
+      when(mockCacheProvider.get('test-org')).thenResolve(entry(20));
+      when(mockFetchRepositories.execute('test-org', true, repositoryList.repositories)).thenResolve(repositoryList);
+      when(mockCacheProvider.set('test-org', repositoryList)).thenResolve(entry(0));
+
+      await fetchOrganizationData.execute('test-org');
+
+      verify(mockFetchRepositories.execute('test-org', true, repositoryList.repositories)).once();
+    });
+
+    it('should bypass fresh cache and refetch every repository when refresh is forced', async () => {
+      when(mockCacheProvider.get('test-org')).thenResolve(entry(1));
+      when(mockFetchRepositories.execute('test-org', true, undefined)).thenResolve(repositoryList);
+      when(mockCacheProvider.set('test-org', repositoryList)).thenResolve(entry(0));
+
+      await fetchOrganizationData.execute('test-org', true);
+
+      verify(mockFetchRepositories.execute('test-org', true, undefined)).once();
+      verify(mockFetchRepositories.execute('test-org', true, repositoryList.repositories)).never();
+    });
+
+    it('should share a running refresh between concurrent requests', async () => {
+      const refreshes = new Map();
+      const other = new FetchOrganizationData(
+        instance(mockFetchRepositories),
+        instance(mockCacheProvider),
+        instance(mockLogger),
+        refreshes
+      );
+      const shared = new FetchOrganizationData(
+        instance(mockFetchRepositories),
+        instance(mockCacheProvider),
+        instance(mockLogger),
+        refreshes
+      );
+      const stored = entry(0);
+      when(mockCacheProvider.get('test-org')).thenResolve(null);
+      when(mockFetchRepositories.execute('test-org', true, undefined)).thenResolve(repositoryList);
+      when(mockCacheProvider.set('test-org', repositoryList)).thenResolve(stored);
+
+      const results = await Promise.all([shared.execute('test-org'), other.execute('test-org', true)]);
+
+      expect(results.map(result => result.cachedAt)).toEqual([stored.cachedAt, stored.cachedAt]);
+      verify(mockFetchRepositories.execute(anything(), anything(), anything())).once();
+      expect(refreshes.size).toBe(0);
+
+      await shared.execute('test-org');
+      verify(mockFetchRepositories.execute(anything(), anything(), anything())).twice();
+    });
+
+    it('should serve stale cache when refresh fails', async () => {
+      const cached = entry(20);
+      when(mockCacheProvider.get('test-org')).thenResolve(cached);
+      when(mockFetchRepositories.execute('test-org', true, repositoryList.repositories)).thenReject(new Error('GitHub API error'));
+
+      const result = await fetchOrganizationData.execute('test-org');
+
+      expect(result.repositories).toBe(repositoryList.repositories);
+      expect(result.isStale).toBe(true);
+      expect(result.isRefreshed).toBe(false);
+    });
+
+    it('should rethrow when refresh fails and nothing is cached', async () => {
+      when(mockCacheProvider.get('test-org')).thenResolve(null);
+      when(mockFetchRepositories.execute('test-org', true, undefined)).thenReject(new Error('GitHub API error'));
+
+      await expect(fetchOrganizationData.execute('test-org'))
+        .rejects.toThrow('GitHub API error');
+    });
+  });
+});
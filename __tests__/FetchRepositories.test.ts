@@ -1,8 +1,11 @@
-import { mock, instance, when, verify } from 'ts-mockito';
+import { mock, instance, when, verify, anything, anyString, deepEqual } from 'ts-mockito';
 import { FetchRepositories } from '@/usecase/FetchRepositories';
 import { RepositoryProvider } from '@/domain/ports/RepositoryProvider';
 import { Logger } from '@/domain/ports/Logger';
+import { BuildProvider } from '@/domain/ports/BuildProvider';
 import { Repository } from '@/domain/models/Repository';
+import { RepositorySource } from '@/domain/models/RepositorySource';
+import { ReleaseCalculator } from '@/domain/services/ReleaseCalculator';
 
 describe('FetchRepositories', () => {
   let mockRepositoryProvider: RepositoryProvider;
@@ -43,23 +46,25 @@ describe('FetchRepositories', () => {
         ),
       ];
 
-      when(mockRepositoryProvider.listRepositories(orgName)).thenResolve(mockRepos);
+      when(mockRepositoryProvider.listRepositories(orgName)).thenResolve({ repositories: mockRepos, truncated: false });
+      when(mockRepositoryProvider.getRepositoryTags(orgName, anyString())).thenResolve({ tags: [], truncated: false });
 
       const result = await fetchRepositories.execute(orgName);
 
-      expect(result).toEqual(mockRepos);
-      expect(result).toHaveLength(2);
+      expect(result.repositories.map(repo => repo.getFullName())).toEqual(['test-org/repo1', 'test-org/repo2']);
+      expect(result.repositories.every(repo => repo.syncedAt !== null)).toBe(true);
+      expect(result.truncated).toBe(false);
       verify(mockRepositoryProvider.listRepositories(orgName)).once();
     });
 
     it('should handle empty repository list', async () => {
       const orgName = 'empty-org';
-      when(mockRepositoryProvider.listRepositories(orgName)).thenResolve([]);
+      when(mockRepositoryProvider.listRepositories(orgName)).thenResolve({ repositories: [], truncated: false });
 
       const result = await fetchRepositories.execute(orgName);
 
-      expect(result).toEqual([]);
-      expect(result).toHaveLength(0);
+      expect(result.repositories).toEqual([]);
+      expect(result.repositories).toHaveLength(0);
     });
 
     it('should log and rethrow errors', async () => {
@@ -74,11 +79,227 @@ describe('FetchRepositories', () => {
 
     it('should pass organization name to provider', async () => {
       const orgName = 'specific-org';
-      when(mockRepositoryProvider.listRepositories(orgName)).thenResolve([]);
+      when(mockRepositoryProvider.listRepositories(orgName)).thenResolve({ repositories: [], truncated: false });
 
       await fetchRepositories.execute(orgName);
 
       verify(mockRepositoryProvider.listRepositories('specific-org')).once();
     });
+
+    it('should report a truncated repository list', async () => {
+      const orgName = 'large-org';
+      when(mockRepositoryProvider.listRepositories(orgName))
+        .thenResolve({ repositories: [], truncated: true });
+
+      const result = await fetchRepositories.execute(orgName, false);
+
+      expect(result.truncated).toBe(true);
+    });
+
+    it('should list the repositories of a user source', async () => {
+      when(mockRepositoryProvider.listUserRepositories('octocat'))
+        .thenResolve({ repositories: [], truncated: false });
+
+      await fetchRepositories.execute(RepositorySource.parse('user:octocat'), false);
+
+      verify(mockRepositoryProvider.listUserRepositories('octocat')).once();
+    });
+
+    it('should fetch the single repository of a repository source', async () => {
+      const repo = new Repository('api', 'acme', 'https://github.com/acme/api', null, null, 0, new Date());
+      when(mockRepositoryProvider.getRepository('acme', 'api')).thenResolve(repo);
+
+      const result = await fetchRepositories.execute(RepositorySource.parse('acme/api'), false);
+
+      expect(result.repositories).toEqual([repo]);
+      expect(result.truncated).toBe(false);
+    });
+
+    it('should only refetch repositories that changed since the previous sync', async () => {
+      const updatedAt = new Date('2025-06-01T00:00:00Z');
+      const repo = (name: string, pushedAt: string, syncedHoursAgo: number | null = null) =>
+        new Repository(
+          name,
+          'acme',
+          `https://github.com/acme/${name}`,
+          null,
+          null,
+          syncedHoursAgo === null ? 3 : 1,
+          updatedAt,
+          null,
+          null,
+          null,
+          null,
+          'main',
+          null,
+          new Date(pushedAt),
+          syncedHoursAgo === null ? null : new Date(Date.now() - syncedHoursAgo * 60 * 60 * 1000)
+        );
+      const listed = (name: string, pushedAt: string) => repo(name, pushedAt);
+      const synced = (name: string, pushedAt: string, hoursAgo: number) => repo(name, pushedAt, hoursAgo);
+      const previous = [
+        synced('api', '2025-06-01T00:00:00Z', 1),
+        synced('web', '2025-05-01T00:00:00Z', 1),
+        synced('cli', '2025-06-01T00:00:00Z', 30),
+      ];
+      when(mockRepositoryProvider.listRepositories('acme')).thenResolve({
+        repositories: [
+          listed('api', '2025-06-01T00:00:00Z'),
+          listed('web', '2025-06-01T00:00:00Z'),
+          listed('cli', '2025-06-01T00:00:00Z'),
+          listed('new', '2025-06-01T00:00:00Z'),
+        ],
+        truncated: false,
+      });
+      when(mockRepositoryProvider.getRepositoryTags('acme', anyString())).thenResolve({ tags: [], truncated: false });
+
+      const result = await fetchRepositories.execute('acme', true, previous);
+
+      verify(mockRepositoryProvider.getRepositoryTags('acme', 'api')).never();
+      verify(mockRepositoryProvider.getRepositoryTags('acme', 'web')).once();
+      verify(mockRepositoryProvider.getRepositoryTags('acme', 'cli')).once();
+      verify(mockRepositoryProvider.getRepositoryTags('acme', 'new')).once();
+      expect(result.repositories[0].syncedAt).toBe(previous[0].syncedAt);
+      expect(result.repositories[0].starCount).toBe(3);
+      verify(mockLogger.info('Successfully enriched repositories with release data', deepEqual({
+        organization: 'acme',
+        count: 4,
+        refetched: 3,
+        skipped: 1,
+      }))).once();
+    });
+
+    it('should re-enrich a new tag on an unchanged HEAD of a host that does not report pushes', async () => {
+      const updatedAt = new Date('2025-06-01T00:00:00Z');
+      const releaseStats = ReleaseCalculator.calculateStats([], false, 'semver');
+      const synced = new Repository(
+        'api',
+        'acme',
+        'http://localhost/acme/api',
+        null,
+        null,
+        0,
+        updatedAt,
+        releaseStats,
+        null,
+        null,
+        null,
+        'main',
+        null,
+        null,
+        new Date()
+      );
+      const listed = new Repository('api', 'acme', 'http://localhost/acme/api', null, null, 0, updatedAt);
+      when(mockRepositoryProvider.listRepositories('acme')).thenResolve({ repositories: [listed], truncated: false });
+      when(mockRepositoryProvider.getRepositoryTags('acme', 'api')).thenResolve({
+        tags: [{ name: 'v1.0.0', date: new Date(), dateSource: 'tagger' }],
+        truncated: false,
+      });
+
+      const result = await fetchRepositories.execute('acme', true, [synced]);
+
+      verify(mockRepositoryProvider.getRepositoryTags('acme', 'api')).once();
+      expect(result.repositories[0].releaseStats!.totalReleases).toBe(1);
+    });
+
+    it('should re-enrich a repository synced before the workflow runs of its last push could finish', async () => {
+      const pushedAt = new Date(Date.now() - 3 * 60 * 60 * 1000);
+      const repo = (name: string, syncedMinutesAfterPush: number | null = null) =>
+        new Repository(
+          name,
+          'acme',
+          `https://github.com/acme/${name}`,
+          null,
+          null,
+          0,
+          pushedAt,
+          null,
+          null,
+          null,
+          null,
+          'main',
+          null,
+          pushedAt,
+          syncedMinutesAfterPush === null ? null : new Date(pushedAt.getTime() + syncedMinutesAfterPush * 60 * 1000)
+        );
+      const mockBuildProvider = mock<BuildProvider>();
+      when(mockBuildProvider.getWorkflowRuns('acme', anyString(), 'CI', anything())).thenResolve([]);
+      when(mockRepositoryProvider.listRepositories('acme')).thenResolve({
+        repositories: [repo('api'), repo('web')],
+        truncated: false,
+      });
+      when(mockRepositoryProvider.getRepositoryTags('acme', anyString())).thenResolve({ tags: [], truncated: false });
+      const withBuilds = new FetchRepositories(instance(mockRepositoryProvider), instance(mockLogger), {
+        buildProvider: instance(mockBuildProvider),
+        workflowName: 'CI',
+      });
+
+      await withBuilds.execute('acme', true, [repo('api', 5), repo('web', 120)]);
+
+      verify(mockBuildProvider.getWorkflowRuns('acme', 'api', 'CI', anything())).once();
+      verify(mockBuildProvider.getWorkflowRuns('acme', 'web', 'CI', anything())).never();
+    });
+
+    it('should keep the stats of the previous sync when refetching a changed repository fails', async () => {
+      const releaseStats = ReleaseCalculator.calculateStats([], false, 'semver');
+      const synced = new Repository(
+        'api',
+        'acme',
+        'https://github.com/acme/api',
+        null,
+        null,
+        0,
+        new Date('2025-05-01T00:00:00Z'),
+        releaseStats,
+        null,
+        null,
+        null,
+        'main',
+        null,
+        new Date('2025-05-01T00:00:00Z'),
+        new Date()
+      );
+      const listed = new Repository('api', 'acme', 'https://github.com/acme/api', null, null, 0, new Date('2025-06-01T00:00:00Z'));
+      when(mockRepositoryProvider.listRepositories('acme')).thenResolve({ repositories: [listed], truncated: false });
+      when(mockRepositoryProvider.getRepositoryTags('acme', 'api')).thenReject(new Error('API error'));
+
+      const result = await fetchRepositories.execute('acme', true, [synced]);
+
+      expect(result.repositories[0].releaseStats).toBe(releaseStats);
+      expect(result.repositories[0].updatedAt).toEqual(new Date('2025-06-01T00:00:00Z'));
+      expect(result.repositories[0].syncedAt).toBeNull();
+    });
+
+    it('should stagger the enrichment of consecutive repositories', async () => {
+      jest.useFakeTimers();
+      try {
+        const repos = ['api', 'web', 'cli'].map(name =>
+          new Repository(name, 'acme', `https://github.com/acme/${name}`, null, null, 0, new Date())
+        );
+        const started: string[] = [];
+        when(mockRepositoryProvider.listRepositories('acme')).thenResolve({ repositories: repos, truncated: false });
+        when(mockRepositoryProvider.getRepositoryTags('acme', anyString())).thenCall(async (_owner, name) => {
+          started.push(name);
+          return { tags: [], truncated: false };
+        });
+        const staggered = new FetchRepositories(
+          instance(mockRepositoryProvider),
+          instance(mockLogger),
+          { staggerMs: 1000 }
+        );
+
+        const result = staggered.execute('acme');
+        await jest.advanceTimersByTimeAsync(0);
+        expect(started).toEqual(['api']);
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(started).toEqual(['api', 'web']);
+        await jest.advanceTimersByTimeAsync(1000);
+
+        expect((await result).repositories).toHaveLength(3);
+        expect(started).toEqual(['api', 'web', 'cli']);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
   });
 });
@@ -1,8 +1,17 @@
 import { mock, instance, when, verify, anything } from 'ts-mockito';
 import { FetchRepositoryData } from '@/usecase/FetchRepositoryData';
 import { RepositoryProvider, RepositoryTag } from '@/domain/ports/RepositoryProvider';
+import { BuildProvider } from '@/domain/ports/BuildProvider';
+import { ActivityProvider } from '@/domain/ports/ActivityProvider';
+import { ContributorProvider } from '@/domain/ports/ContributorProvider';
+import { CommitProvider } from '@/domain/ports/CommitProvider';
 import { Logger } from '@/domain/ports/Logger';
 import { Repository } from '@/domain/models/Repository';
+import { WorkflowRun } from '@/domain/models/Build';
+import { Contributor } from '@/domain/models/Contributor';
+import { RegexVersionScheme } from '@/domain/models/VersionScheme';
+import { RateLimitError } from '@/domain/ports/RateLimitError';
+import { BuildStatistics } from '@/domain/services/BuildStatistics';
 
 describe('FetchRepositoryData', () => {
   let mockRepositoryProvider: RepositoryProvider;
@@ -32,12 +41,12 @@ describe('FetchRepositoryData', () => {
       );
 
       const tags: RepositoryTag[] = [
-        { name: 'v2.0.0', date: new Date('2024-03-01') },
-        { name: 'v1.0.0', date: new Date('2024-01-01') },
+        { name: 'v2.0.0', date: new Date('2024-03-01'), dateSource: 'tagger' },
+        { name: 'v1.0.0', date: new Date('2024-01-01'), dateSource: 'tagger' },
       ];
 
       when(mockRepositoryProvider.getRepositoryTags('test-org', 'test-repo'))
-        .thenResolve(tags);
+        .thenResolve({ tags: tags, truncated: false });
 
       const result = await fetchRepositoryData.execute(repository);
 
@@ -45,7 +54,7 @@ describe('FetchRepositoryData', () => {
       expect(result.owner).toBe('test-org');
       expect(result.releaseStats).not.toBeNull();
       expect(result.releaseStats!.totalReleases).toBe(2);
-      expect(result.releaseStats!.semanticReleases).toBe(2);
+      expect(result.releaseStats!.versionedReleases).toBe(2);
       verify(mockRepositoryProvider.getRepositoryTags('test-org', 'test-repo')).once();
     });
 
@@ -61,7 +70,7 @@ describe('FetchRepositoryData', () => {
       );
 
       when(mockRepositoryProvider.getRepositoryTags('test-org', 'no-releases'))
-        .thenResolve([]);
+        .thenResolve({ tags: [], truncated: false });
 
       const result = await fetchRepositoryData.execute(repository);
 
@@ -89,6 +98,24 @@ describe('FetchRepositoryData', () => {
       // Should return original repository without release stats
       expect(result.name).toBe('error-repo');
       expect(result.releaseStats).toBeNull();
+      expect(result.syncedAt).toBeNull();
+    });
+
+    it('should fail instead of dropping stats when the rate limit is exceeded', async () => {
+      const repository = new Repository(
+        'limited-repo',
+        'test-org',
+        'https://github.com/test-org/limited-repo',
+        null,
+        null,
+        0,
+        new Date()
+      );
+
+      when(mockRepositoryProvider.getRepositoryTags('test-org', 'limited-repo'))
+        .thenReject(new RateLimitError('GitHub API rate limit exceeded'));
+
+      await expect(fetchRepositoryData.execute(repository)).rejects.toBeInstanceOf(RateLimitError);
     });
 
     it('should filter semantic versions correctly', async () => {
@@ -103,20 +130,20 @@ describe('FetchRepositoryData', () => {
       );
 
       const tags: RepositoryTag[] = [
-        { name: 'v2.0.0', date: new Date('2024-03-01') },
-        { name: 'v1.5.0-beta', date: new Date('2024-02-15') },
-        { name: 'v1.0.0', date: new Date('2024-01-01') },
-        { name: 'random-tag', date: new Date('2023-12-01') },
+        { name: 'v2.0.0', date: new Date('2024-03-01'), dateSource: 'tagger' },
+        { name: 'v1.5.0-beta', date: new Date('2024-02-15'), dateSource: 'tagger' },
+        { name: 'v1.0.0', date: new Date('2024-01-01'), dateSource: 'tagger' },
+        { name: 'random-tag', date: new Date('2023-12-01'), dateSource: 'tagger' },
       ];
 
       when(mockRepositoryProvider.getRepositoryTags('test-org', 'mixed-tags'))
-        .thenResolve(tags);
+        .thenResolve({ tags: tags, truncated: false });
 
       const result = await fetchRepositoryData.execute(repository);
 
       expect(result.releaseStats!.totalReleases).toBe(4);
-      expect(result.releaseStats!.semanticReleases).toBe(2); // Only v2.0.0 and v1.0.0
-      expect(result.releaseStats!.latestSemanticRelease?.tagName).toBe('v2.0.0');
+      expect(result.releaseStats!.versionedReleases).toBe(2); // Only v2.0.0 and v1.0.0
+      expect(result.releaseStats!.latestVersionedRelease?.tagName).toBe('v2.0.0');
     });
 
     it('should preserve all repository properties', async () => {
@@ -131,7 +158,7 @@ describe('FetchRepositoryData', () => {
       );
 
       when(mockRepositoryProvider.getRepositoryTags('test-org', 'preserve-test'))
-        .thenResolve([{ name: 'v1.0.0', date: new Date() }]);
+        .thenResolve({ tags: [{ name: 'v1.0.0', date: new Date(), dateSource: 'tagger' }], truncated: false });
 
       const result = await fetchRepositoryData.execute(repository);
 
@@ -143,5 +170,350 @@ describe('FetchRepositoryData', () => {
       expect(result.starCount).toBe(100);
       expect(result.updatedAt).toEqual(new Date('2024-06-01'));
     });
+
+    it('should enrich repository with build stats when a build provider is given', async () => {
+      const mockBuildProvider = mock<BuildProvider>();
+      const withBuilds = new FetchRepositoryData(
+        instance(mockRepositoryProvider),
+        instance(mockLogger),
+        { buildProvider: instance(mockBuildProvider), workflowName: 'Build and Push to ECR' }
+      );
+      const repository = new Repository(
+        'built-repo',
+        'test-org',
+        'https://github.com/test-org/built-repo',
+        null,
+        null,
+        0,
+        new Date()
+      );
+
+      when(mockRepositoryProvider.getRepositoryTags('test-org', 'built-repo'))
+        .thenResolve({ tags: [], truncated: false });
+      when(mockBuildProvider.getWorkflowRuns('test-org', 'built-repo', 'Build and Push to ECR', anything()))
+        .thenResolve([
+          new WorkflowRun(1, 'completed', 'success', new Date()),
+          new WorkflowRun(2, 'completed', 'success', new Date()),
+          new WorkflowRun(3, 'completed', 'success', new Date()),
+          new WorkflowRun(4, 'completed', 'failure', new Date()),
+        ]);
+
+      const result = await withBuilds.execute(repository);
+
+      expect(result.buildStats).not.toBeNull();
+      expect(result.buildStats!.totalBuilds).toBe(4);
+      expect(result.buildStats!.successfulBuilds).toBe(3);
+      expect(result.buildStats!.successRate).toBe(75);
+      expect(result.releaseStats).not.toBeNull();
+      expect(result.syncedAt).toBeInstanceOf(Date);
+    });
+
+    it('should keep release stats when build fetch fails', async () => {
+      const mockBuildProvider = mock<BuildProvider>();
+      const withBuilds = new FetchRepositoryData(
+        instance(mockRepositoryProvider),
+        instance(mockLogger),
+        { buildProvider: instance(mockBuildProvider), workflowName: 'Build and Push to ECR' }
+      );
+      const repository = new Repository(
+        'flaky-builds',
+        'test-org',
+        'https://github.com/test-org/flaky-builds',
+        null,
+        null,
+        0,
+        new Date()
+      );
+
+      when(mockRepositoryProvider.getRepositoryTags('test-org', 'flaky-builds'))
+        .thenResolve({ tags: [{ name: 'v1.0.0', date: new Date(), dateSource: 'tagger' }], truncated: false });
+      when(mockBuildProvider.getWorkflowRuns('test-org', 'flaky-builds', anything(), anything()))
+        .thenReject(new Error('API error'));
+
+      const result = await withBuilds.execute(repository);
+
+      expect(result.releaseStats!.totalReleases).toBe(1);
+      expect(result.buildStats).toBeNull();
+    });
+
+    it('should keep the previous build stats and not mark the repository as synced when build fetch fails', async () => {
+      const mockBuildProvider = mock<BuildProvider>();
+      const withBuilds = new FetchRepositoryData(
+        instance(mockRepositoryProvider),
+        instance(mockLogger),
+        { buildProvider: instance(mockBuildProvider), workflowName: 'Build and Push to ECR' }
+      );
+      const previousBuildStats = BuildStatistics.calculateStats([new WorkflowRun(1, 'completed', 'success', new Date())]);
+      const repository = new Repository(
+        'flaky-builds',
+        'test-org',
+        'https://github.com/test-org/flaky-builds',
+        null,
+        null,
+        0,
+        new Date(),
+        null,
+        previousBuildStats,
+        null,
+        null,
+        'main',
+        null,
+        null,
+        new Date('2025-06-01T00:00:00Z')
+      );
+
+      when(mockRepositoryProvider.getRepositoryTags('test-org', 'flaky-builds'))
+        .thenResolve({ tags: [], truncated: false });
+      when(mockBuildProvider.getWorkflowRuns('test-org', 'flaky-builds', anything(), anything()))
+        .thenReject(new Error('API error'));
+
+      const result = await withBuilds.execute(repository);
+
+      expect(result.buildStats).toBe(previousBuildStats);
+      expect(result.syncedAt).toBeNull();
+    });
+
+    it('should not fetch builds without a build provider', async () => {
+      const repository = new Repository(
+        'no-builds',
+        'test-org',
+        'https://github.com/test-org/no-builds',
+        null,
+        null,
+        0,
+        new Date()
+      );
+
+      when(mockRepositoryProvider.getRepositoryTags('test-org', 'no-builds'))
+        .thenResolve({ tags: [], truncated: false });
+
+      const result = await fetchRepositoryData.execute(repository);
+
+      expect(result.buildStats).toBeNull();
+    });
+
+    it('should mark release stats as truncated when tags are incomplete', async () => {
+      const repository = new Repository(
+        'many-tags',
+        'test-org',
+        'https://github.com/test-org/many-tags',
+        null,
+        null,
+        0,
+        new Date()
+      );
+
+      when(mockRepositoryProvider.getRepositoryTags('test-org', 'many-tags'))
+        .thenResolve({ tags: [{ name: 'v1.0.0', date: new Date(), dateSource: 'tagger' }], truncated: true });
+
+      const result = await fetchRepositoryData.execute(repository);
+
+      expect(result.releaseStats!.isTruncated).toBe(true);
+      expect(result.releaseStats!.isComplete()).toBe(false);
+    });
+
+    it('should enrich repository with activity stats when an activity provider is given', async () => {
+      const mockActivityProvider = mock<ActivityProvider>();
+      const withActivity = new FetchRepositoryData(
+        instance(mockRepositoryProvider),
+        instance(mockLogger),
+        { activityProvider: instance(mockActivityProvider) }
+      );
+      const repository = new Repository(
+        'active-repo',
+        'test-org',
+        'https://github.com/test-org/active-repo',
+        null,
+        null,
+        0,
+        new Date()
+      );
+      const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+      when(mockRepositoryProvider.getRepositoryTags('test-org', 'active-repo'))
+        .thenResolve({ tags: [], truncated: false });
+      when(mockActivityProvider.getCommitActivity('test-org', 'active-repo'))
+        .thenResolve([{ weekStart: yesterday, days: [4, 0, 0, 0, 0, 0, 0] }]);
+      when(mockActivityProvider.getCodeFrequency('test-org', 'active-repo'))
+        .thenResolve([{ weekStart: yesterday, additions: 120, deletions: 30 }]);
+      when(mockActivityProvider.getMergedPullRequests('test-org', 'active-repo', anything()))
+        .thenResolve([{ number: 7, mergedAt: yesterday }]);
+
+      const result = await withActivity.execute(repository);
+
+      expect(result.activityStats).not.toBeNull();
+      expect(result.activityStats!.commits).toBe(4);
+      expect(result.activityStats!.mergedPullRequests).toBe(1);
+      expect(result.activityStats!.linesAdded).toBe(120);
+      expect(result.activityStats!.linesDeleted).toBe(30);
+    });
+
+    it('should return repository without activity stats when activity fetch fails', async () => {
+      const mockActivityProvider = mock<ActivityProvider>();
+      const withActivity = new FetchRepositoryData(
+        instance(mockRepositoryProvider),
+        instance(mockLogger),
+        { activityProvider: instance(mockActivityProvider) }
+      );
+      const repository = new Repository(
+        'computing-repo',
+        'test-org',
+        'https://github.com/test-org/computing-repo',
+        null,
+        null,
+        0,
+        new Date()
+      );
+
+      when(mockRepositoryProvider.getRepositoryTags('test-org', 'computing-repo'))
+        .thenResolve({ tags: [], truncated: false });
+      when(mockActivityProvider.getCommitActivity('test-org', 'computing-repo'))
+        .thenReject(new Error('GitHub is still computing commit activity'));
+      when(mockActivityProvider.getCodeFrequency('test-org', 'computing-repo'))
+        .thenResolve([]);
+      when(mockActivityProvider.getMergedPullRequests('test-org', 'computing-repo', anything()))
+        .thenResolve([]);
+
+      const result = await withActivity.execute(repository);
+
+      expect(result.activityStats).toBeNull();
+      expect(result.releaseStats).not.toBeNull();
+    });
+
+    it('should enrich repository with contributor stats excluding bots', async () => {
+      const mockContributorProvider = mock<ContributorProvider>();
+      const withContributors = new FetchRepositoryData(
+        instance(mockRepositoryProvider),
+        instance(mockLogger),
+        { contributorProvider: instance(mockContributorProvider), botPatterns: ['*[bot]'] }
+      );
+      const repository = new Repository(
+        'team-repo',
+        'test-org',
+        'https://github.com/test-org/team-repo',
+        null,
+        null,
+        0,
+        new Date()
+      );
+
+      when(mockRepositoryProvider.getRepositoryTags('test-org', 'team-repo'))
+        .thenResolve({ tags: [], truncated: false });
+      when(mockContributorProvider.getContributors('test-org', 'team-repo'))
+        .thenResolve([
+          new Contributor('dependabot[bot]', null, 90),
+          new Contributor('alice', 'https://avatars.example.com/alice', 40),
+          new Contributor('bob', null, 10),
+        ]);
+      when(mockContributorProvider.getActiveContributorLogins('test-org', 'team-repo', anything()))
+        .thenResolve(['bob', 'dependabot[bot]']);
+
+      const result = await withContributors.execute(repository);
+
+      expect(result.contributorStats).not.toBeNull();
+      expect(result.contributorStats!.totalContributors).toBe(2);
+      expect(result.contributorStats!.activeContributors).toBe(1);
+      expect(result.contributorStats!.topContributors[0].login).toBe('alice');
+    });
+
+    it('should auto-detect CalVer tags', async () => {
+      const repository = new Repository('calver-repo', 'test-org', 'https://github.com/test-org/calver-repo', null, null);
+
+      when(mockRepositoryProvider.getRepositoryTags('test-org', 'calver-repo')).thenResolve({
+        tags: [
+          { name: '2025.03.1', date: new Date('2025-03-10'), dateSource: 'tagger' },
+          { name: '2025.02.0', date: new Date('2025-02-03'), dateSource: 'tagger' },
+        ],
+        truncated: false,
+      });
+
+      const result = await fetchRepositoryData.execute(repository);
+
+      expect(result.releaseStats!.versionScheme).toBe('calver');
+      expect(result.releaseStats!.versionedReleases).toBe(2);
+    });
+
+    it('should use the version scheme configured for the repository', async () => {
+      const withSchemes = new FetchRepositoryData(
+        instance(mockRepositoryProvider),
+        instance(mockLogger),
+        {
+          versionSchemes: { 'test-org/legacy-app': new RegexVersionScheme('^release-(?<major>\\d+)$') },
+        }
+      );
+      const repository = new Repository('legacy-app', 'test-org', 'https://github.com/test-org/legacy-app', null, null);
+
+      when(mockRepositoryProvider.getRepositoryTags('test-org', 'legacy-app')).thenResolve({
+        tags: [
+          { name: 'release-42', date: new Date('2025-03-10'), dateSource: 'release' },
+          { name: 'v1.0.0', date: new Date('2024-01-01'), dateSource: 'commit' },
+        ],
+        truncated: false,
+      });
+
+      const result = await withSchemes.execute(repository);
+
+      expect(result.releaseStats!.versionScheme).toBe('regex');
+      expect(result.releaseStats!.versionedReleases).toBe(1);
+      expect(result.releaseStats!.latestVersionedRelease?.tagName).toBe('release-42');
+    });
+
+    it('should calculate DORA metrics with lead time from release commits', async () => {
+      const mockCommitProvider = mock<CommitProvider>();
+      const withCommits = new FetchRepositoryData(
+        instance(mockRepositoryProvider),
+        instance(mockLogger),
+        { commitProvider: instance(mockCommitProvider) }
+      );
+      const repository = new Repository('test-repo', 'test-org', 'https://github.com/test-org/test-repo', null, null);
+      const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+      when(mockRepositoryProvider.getRepositoryTags('test-org', 'test-repo')).thenResolve({
+        tags: [
+          { name: 'v1.1.1', date: daysAgo(8), dateSource: 'tagger' },
+          { name: 'v1.1.0', date: daysAgo(10), dateSource: 'tagger' },
+          { name: 'v1.0.0', date: daysAgo(40), dateSource: 'tagger' },
+        ],
+        truncated: false,
+      });
+      when(mockCommitProvider.getCommitDates('test-org', 'test-repo', 'v1.0.0', 'v1.1.0'))
+        .thenResolve([daysAgo(11)]);
+      when(mockCommitProvider.getCommitDates('test-org', 'test-repo', 'v1.1.0', 'v1.1.1'))
+        .thenResolve([daysAgo(9)]);
+
+      const result = await withCommits.execute(repository);
+
+      expect(result.doraMetrics).not.toBeNull();
+      expect(result.doraMetrics!.deployments).toBe(3);
+      expect(result.doraMetrics!.failedDeployments).toBe(1);
+      expect(result.doraMetrics!.leadTimeHours).toBeCloseTo(24, 0);
+      expect(result.doraMetrics!.timeToRestoreHours).toBeNull();
+    });
+
+    it('should keep DORA metrics without lead time when release commits cannot be fetched', async () => {
+      const mockCommitProvider = mock<CommitProvider>();
+      const withCommits = new FetchRepositoryData(
+        instance(mockRepositoryProvider),
+        instance(mockLogger),
+        { commitProvider: instance(mockCommitProvider) }
+      );
+      const repository = new Repository('test-repo', 'test-org', 'https://github.com/test-org/test-repo', null, null);
+
+      when(mockRepositoryProvider.getRepositoryTags('test-org', 'test-repo')).thenResolve({
+        tags: [
+          { name: 'v1.1.0', date: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000), dateSource: 'tagger' },
+          { name: 'v1.0.0', date: new Date(Date.now() - 20 * 24 * 60 * 60 * 1000), dateSource: 'tagger' },
+        ],
+        truncated: false,
+      });
+      when(mockCommitProvider.getCommitDates(anything(), anything(), anything(), anything()))
+        .thenReject(new Error('Compare failed'));
+
+      const result = await withCommits.execute(repository);
+
+      expect(result.doraMetrics!.deployments).toBe(2);
+      expect(result.doraMetrics!.leadTimeHours).toBeNull();
+      verify(mockLogger.warn(anything(), anything())).once();
+    });
   });
 });
@@ -0,0 +1,88 @@
+import { mock, instance, when, verify } from 'ts-mockito';
+import { FetchRepositoryDetail, RepositoryDetail } from '@/usecase/FetchRepositoryDetail';
+import { RepositoryProvider } from '@/domain/ports/RepositoryProvider';
+import { Logger } from '@/domain/ports/Logger';
+import { Repository } from '@/domain/models/Repository';
+import { InMemoryCacheProvider } from '@/infrastructure/adapters/cache/InMemoryCacheProvider';
+
+describe('FetchRepositoryDetail', () => {
+  let mockRepositoryProvider: RepositoryProvider;
+  let cacheProvider: InMemoryCacheProvider<RepositoryDetail>;
+  let fetchRepositoryDetail: FetchRepositoryDetail;
+
+  const repository = new Repository('api', 'acme', 'https://github.com/acme/api', null, null, 0, new Date());
+
+  beforeEach(() => {
+    mockRepositoryProvider = mock<RepositoryProvider>();
+    cacheProvider = new InMemoryCacheProvider<RepositoryDetail>(900);
+    fetchRepositoryDetail = new FetchRepositoryDetail(
+      instance(mockRepositoryProvider),
+      cacheProvider,
+      instance(mock<Logger>())
+    );
+
+    when(mockRepositoryProvider.getRepository('acme', 'api')).thenResolve(repository);
+    when(mockRepositoryProvider.getRepositoryTags('acme', 'api')).thenResolve({
+      tags: [
+        { name: 'v2.0.0', date: new Date('2024-03-01'), dateSource: 'tagger' },
+        { name: 'v1.1.0', date: new Date('2024-02-01'), dateSource: 'tagger' },
+        { name: 'v1.0.0', date: new Date('2024-01-01'), dateSource: 'tagger' },
+      ],
+      truncated: false,
+    });
+  });
+
+  describe('execute', () => {
+    it('should fetch the repository with its full release history and cache it', async () => {
+      const result = await fetchRepositoryDetail.execute('acme', 'api');
+
+      expect(result.repository.releaseStats!.totalReleases).toBe(3);
+      expect(result.history!.releases.map(release => release.tagName)).toEqual(['v2.0.0', 'v1.1.0', 'v1.0.0']);
+      expect(result.history!.versionLines.map(line => line.name)).toEqual(['2.x', '1.x']);
+      expect(result.history!.gaps.map(gap => gap.days)).toEqual([29, 31]);
+      expect(result.isStale).toBe(false);
+      expect(await cacheProvider.get('acme/api')).not.toBeNull();
+    });
+
+    it('should serve fresh cached data without fetching', async () => {
+      await fetchRepositoryDetail.execute('acme', 'api');
+      const result = await fetchRepositoryDetail.execute('Acme', 'API');
+
+      expect(result.history!.releases).toHaveLength(3);
+      verify(mockRepositoryProvider.getRepository('acme', 'api')).once();
+    });
+
+    it('should refetch when forced', async () => {
+      await fetchRepositoryDetail.execute('acme', 'api');
+      await fetchRepositoryDetail.execute('acme', 'api', true);
+
+      verify(mockRepositoryProvider.getRepository('acme', 'api')).twice();
+    });
+
+    it('should serve stale cached data when the refresh fails', async () => {
+      await fetchRepositoryDetail.execute('acme', 'api');
+      when(mockRepositoryProvider.getRepository('acme', 'api')).thenReject(new Error('GitHub is down'));
+
+      const result = await fetchRepositoryDetail.execute('acme', 'api', true);
+
+      expect(result.isStale).toBe(true);
+      expect(result.history!.releases).toHaveLength(3);
+    });
+
+    it('should rethrow when the refresh fails and nothing is cached', async () => {
+      when(mockRepositoryProvider.getRepository('acme', 'api')).thenReject(new Error('Not Found'));
+
+      await expect(fetchRepositoryDetail.execute('acme', 'api')).rejects.toThrow('Not Found');
+    });
+  });
+
+  describe('invalidate', () => {
+    it('should drop the cached detail so the next request refetches', async () => {
+      await fetchRepositoryDetail.execute('acme', 'api');
+      await fetchRepositoryDetail.invalidate('ACME', 'api');
+      await fetchRepositoryDetail.execute('acme', 'api');
+
+      verify(mockRepositoryProvider.getRepository('acme', 'api')).twice();
+    });
+  });
+});
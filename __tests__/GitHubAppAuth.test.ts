@@ -0,0 +1,146 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { createVerify, generateKeyPairSync } from 'crypto';
+import { GitHubAppAuth } from '@/infrastructure/adapters/github/GitHubAppAuth';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+});
+
+const decode = (part: string) => JSON.parse(Buffer.from(part, 'base64url').toString());
+
+describe('GitHubAppAuth', () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: IncomingMessage[];
+  let installations: unknown[];
+  let tokenLifetimeMs: number;
+  let issuedTokens: number;
+
+  beforeAll(async () => {
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      requests.push(req);
+      const url = new URL(req.url || '/', 'http://localhost');
+      const tokenMatch = url.pathname.match(/^\/app\/installations\/(\d+)\/access_tokens$/);
+
+      if (url.pathname === '/app/installations') {
+        res.writeHead(200, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(installations));
+      } else if (tokenMatch && req.method === 'POST') {
+        issuedTokens++;
+        res.writeHead(201, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({
+          token: `token-${tokenMatch[1]}-${issuedTokens}`,
+          expires_at: new Date(Date.now() + tokenLifetimeMs).toISOString(),
+        }));
+      } else {
+        res.writeHead(404, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ message: 'Not Found' }));
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    issuedTokens = 0;
+    tokenLifetimeMs = 60 * 60 * 1000;
+    installations = [
+      { id: 11, account: { login: 'acme', type: 'Organization' } },
+      { id: 22, account: { login: 'octocat', type: 'User' } },
+    ];
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const createAuth = (installationId: number | null = null) =>
+    new GitHubAppAuth('12345', privateKey, { baseUrl, installationId });
+
+  describe('createJwt', () => {
+    it('should sign a backdated, short-lived JWT issued by the app', () => {
+      const now = new Date('2025-06-01T12:00:00Z');
+
+      const [header, payload, signature] = createAuth().createJwt(now).split('.');
+
+      expect(decode(header)).toEqual({ alg: 'RS256', typ: 'JWT' });
+      expect(decode(payload)).toEqual({ iat: 1748779140, exp: 1748779680, iss: '12345' });
+      const verifier = createVerify('RSA-SHA256').update(`${header}.${payload}`);
+      expect(verifier.verify(publicKey, signature, 'base64url')).toBe(true);
+    });
+  });
+
+  describe('getToken', () => {
+    it('should exchange the JWT for the installation token of the owner', async () => {
+      const token = await createAuth().getToken('Octocat');
+
+      expect(token).toBe('token-22-1');
+      expect(requests[1].method).toBe('POST');
+      expect(requests[1].headers.authorization).toMatch(/^Bearer [\w-]+\.[\w-]+\.[\w-]+$/);
+    });
+
+    it('should reuse a token until it is about to expire', async () => {
+      const auth = createAuth();
+
+      await auth.getToken('acme');
+      expect(await auth.getToken('acme')).toBe('token-11-1');
+
+      tokenLifetimeMs = 60 * 1000;
+      await auth.getToken('octocat');
+      expect(await auth.getToken('octocat')).toBe('token-22-3');
+    });
+
+    it('should use the configured installation for every owner', async () => {
+      const token = await createAuth(99).getToken('acme');
+
+      expect(token).toBe('token-99-1');
+      expect(requests).toHaveLength(1);
+    });
+
+    it('should rediscover installations once before rejecting an unknown owner', async () => {
+      const auth = createAuth();
+      await auth.listInstallations();
+
+      await expect(auth.getToken('globex')).rejects.toThrow("GitHub App is not installed on 'globex'");
+      expect(requests.filter(req => req.url?.startsWith('/app/installations?'))).toHaveLength(2);
+    });
+
+    it('should remember an unknown owner until the installations expire', async () => {
+      const auth = createAuth();
+      const installationRequests = () => requests.filter(req => req.url?.startsWith('/app/installations?'));
+      await expect(auth.getToken('globex')).rejects.toThrow("GitHub App is not installed on 'globex'");
+
+      await expect(auth.getToken('Globex')).rejects.toThrow("GitHub App is not installed on 'Globex'");
+      expect(installationRequests()).toHaveLength(2);
+
+      installations.push({ id: 33, account: { login: 'globex', type: 'Organization' } });
+      jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 10 * 60 * 1000);
+
+      expect(await auth.getToken('globex')).toBe('token-33-1');
+      expect(installationRequests()).toHaveLength(3);
+    });
+  });
+
+  describe('listInstallations', () => {
+    it('should list the accounts the app is installed on', async () => {
+      installations.reverse();
+
+      expect(await createAuth().listInstallations()).toEqual([
+        { id: 11, account: 'acme', accountType: 'Organization' },
+        { id: 22, account: 'octocat', accountType: 'User' },
+      ]);
+    });
+  });
+
+  it('should require an app ID and private key', () => {
+    expect(() => new GitHubAppAuth('', privateKey)).toThrow('GitHub App ID and private key are required');
+  });
+});
@@ -0,0 +1,86 @@
+import { GitHubRepositoryProvider } from '@/infrastructure/adapters/github/GitHubRepositoryProvider';
+import { OctokitClient } from '@/infrastructure/adapters/github/OctokitClient';
+
+describe('GitHubRepositoryProvider', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const daysAgo = (days: number) => new Date(Date.now() - days * DAY).toISOString();
+
+  // Lightweight tag dated by its commit
+  const tagRef = (name: string, days: number) => ({
+    name,
+    target: { __typename: 'Commit', committedDate: daysAgo(days) },
+  });
+
+  let tagPages: any[][];
+  let graphqlCalls: number;
+  let octokit: any;
+
+  const provider = (options: ConstructorParameters<typeof GitHubRepositoryProvider>[2] = {}) =>
+    new GitHubRepositoryProvider({ getClient: () => octokit } as unknown as OctokitClient, 'acme', options);
+
+  beforeEach(() => {
+    graphqlCalls = 0;
+    tagPages = [
+      [tagRef('v3.0.0', 10), tagRef('v2.0.0', 200)],
+      [tagRef('v1.0.0', 400), tagRef('v0.9.0', 500)],
+      [tagRef('v0.1.0', 800)],
+    ];
+    octokit = {
+      graphql: async (_query: string, { cursor }: { cursor: string | null }) => {
+        graphqlCalls++;
+        const page = cursor ? parseInt(cursor, 10) : 0;
+        return {
+          repository: {
+            refs: {
+              nodes: tagPages[page],
+              pageInfo: { hasNextPage: page < tagPages.length - 1, endCursor: String(page + 1) },
+            },
+          },
+        };
+      },
+      paginate: async () => [],
+      repos: { listReleases: {}, getCommit: async () => ({ data: { commit: {} } }) },
+    };
+  });
+
+  describe('getRepositoryTags', () => {
+    it('should walk every page without a tag history cap', async () => {
+      const { tags, truncated } = await provider().getRepositoryTags('acme', 'api');
+
+      expect(tags.map(tag => tag.name)).toEqual(['v3.0.0', 'v2.0.0', 'v1.0.0', 'v0.9.0', 'v0.1.0']);
+      expect(truncated).toBe(false);
+      expect(graphqlCalls).toBe(3);
+    });
+
+    it('should stop paginating once tags pass the tag history cap', async () => {
+      const { tags, truncated } = await provider({ tagHistoryMonths: 6 }).getRepositoryTags('acme', 'api');
+
+      expect(tags.map(tag => tag.name)).toEqual(['v3.0.0']);
+      expect(truncated).toBe(true);
+      expect(graphqlCalls).toBe(1);
+    });
+
+    it('should look up the commit dates of undated tags concurrently', async () => {
+      tagPages = [
+        Array.from({ length: 12 }, (_, i) => ({ name: `v1.${i}.0`, target: { __typename: 'Tree' } })),
+      ];
+      let inFlight = 0;
+      let maxInFlight = 0;
+      octokit.repos.getCommit = async ({ ref }: { ref: string }) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setImmediate(resolve));
+        inFlight--;
+        // Tags pointing at trees have no commit to date them by, except for one
+        return ref === 'tags/v1.11.0'
+          ? { data: { commit: { committer: { date: daysAgo(5) } } } }
+          : Promise.reject(Object.assign(new Error('Not Found'), { status: 404 }));
+      };
+
+      const { tags } = await provider().getRepositoryTags('acme', 'api');
+
+      expect(tags).toEqual([{ name: 'v1.11.0', date: expect.any(Date), dateSource: 'commit' }]);
+      expect(maxInFlight).toBe(10);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { createHmac } from 'crypto';
+import { GitHubWebhookVerifier } from '@/infrastructure/adapters/github/GitHubWebhookVerifier';
+import { WebhookMapper } from '@/infrastructure/adapters/github/mappers/WebhookMapper';
+
+describe('GitHub webhooks', () => {
+  describe('GitHubWebhookVerifier', () => {
+    const body = JSON.stringify({ zen: 'Keep it logically awesome.' });
+    const sign = (secret: string) => `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+    const verifier = new GitHubWebhookVerifier('s3cret');
+
+    it('should accept a delivery signed with the secret', () => {
+      expect(verifier.verify(body, sign('s3cret'))).toBe(true);
+    });
+
+    it('should reject a delivery signed with another secret or altered', () => {
+      expect(verifier.verify(body, sign('other'))).toBe(false);
+      expect(verifier.verify(`${body} `, sign('s3cret'))).toBe(false);
+    });
+
+    it('should reject a missing or malformed signature', () => {
+      expect(verifier.verify(body, null)).toBe(false);
+      expect(verifier.verify(body, sign('s3cret').replace('sha256=', 'sha1='))).toBe(false);
+      expect(verifier.verify(body, 'sha256=abc')).toBe(false);
+    });
+
+    it('should require a secret', () => {
+      expect(() => new GitHubWebhookVerifier('')).toThrow('GitHub webhook secret is required');
+    });
+  });
+
+  describe('WebhookMapper', () => {
+    const repository = { name: 'api', owner: { login: 'acme' }, default_branch: 'main' };
+    const changed = { owner: 'acme', name: 'api', removed: false };
+
+    it('should report tag creation but not branch creation', () => {
+      expect(WebhookMapper.toRepositoryChanges('create', { ref_type: 'tag', repository })).toEqual([changed]);
+      expect(WebhookMapper.toRepositoryChanges('create', { ref_type: 'branch', repository })).toEqual([]);
+    });
+
+    it('should report pushes to the default branch and tags only', () => {
+      expect(WebhookMapper.toRepositoryChanges('push', { ref: 'refs/heads/main', repository })).toEqual([changed]);
+      expect(WebhookMapper.toRepositoryChanges('push', { ref: 'refs/tags/v1.0.0', repository })).toEqual([changed]);
+      expect(WebhookMapper.toRepositoryChanges('push', { ref: 'refs/heads/feature', repository })).toEqual([]);
+    });
+
+    it('should report releases and completed workflow runs', () => {
+      expect(WebhookMapper.toRepositoryChanges('release', { action: 'published', repository })).toEqual([changed]);
+      expect(WebhookMapper.toRepositoryChanges('workflow_run', { action: 'completed', repository })).toEqual([changed]);
+      expect(WebhookMapper.toRepositoryChanges('workflow_run', { action: 'requested', repository })).toEqual([]);
+    });
+
+    it('should remove deleted repositories', () => {
+      expect(WebhookMapper.toRepositoryChanges('repository', { action: 'deleted', repository })).toEqual([
+        { ...changed, removed: true },
+      ]);
+    });
+
+    it('should move renamed and transferred repositories', () => {
+      expect(WebhookMapper.toRepositoryChanges('repository', {
+        action: 'renamed',
+        changes: { repository: { name: { from: 'old-api' } } },
+        repository,
+      })).toEqual([{ owner: 'acme', name: 'old-api', removed: true }, changed]);
+      expect(WebhookMapper.toRepositoryChanges('repository', {
+        action: 'transferred',
+        changes: { owner: { from: { user: { login: 'octocat' } } } },
+        repository,
+      })).toEqual([{ owner: 'octocat', name: 'api', removed: true }, changed]);
+    });
+
+    it('should ignore other events and deliveries without a repository', () => {
+      expect(WebhookMapper.toRepositoryChanges('ping', { zen: 'Design for failure.' })).toEqual([]);
+      expect(WebhookMapper.toRepositoryChanges('issues', { action: 'opened', repository })).toEqual([]);
+    });
+  });
+});
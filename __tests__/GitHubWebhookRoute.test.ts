@@ -0,0 +1,123 @@
+import { createHmac } from 'crypto';
+import { NextRequest } from 'next/server';
+import { DashboardServices } from '@/infrastructure/container';
+import { POST } from '../app/api/webhooks/github/route';
+
+// Work handed to after() runs when the test asks for it, as it would once the response is sent
+const mockAfterCallbacks: (() => Promise<void>)[] = [];
+jest.mock('next/server', () => ({
+  ...jest.requireActual('next/server'),
+  after: (callback: () => Promise<void>) => {
+    mockAfterCallbacks.push(callback);
+  },
+}));
+jest.mock('@octokit/rest', () => ({ Octokit: class {} }));
+jest.mock('@/infrastructure/container', () => ({ DashboardServices: { create: jest.fn() } }));
+
+describe('POST /api/webhooks/github', () => {
+  const secret = 's3cret';
+  const repository = { name: 'api', owner: { login: 'acme' }, default_branch: 'main' };
+  let syncRepository: { execute: jest.Mock };
+  let fetchRepositoryDetail: { invalidate: jest.Mock };
+  let deliveryCount = 0;
+
+  const webhook = (
+    body: string,
+    { event = 'push', delivery = `delivery-${++deliveryCount}`, signature = secret }: {
+      event?: string;
+      delivery?: string;
+      signature?: string;
+    } = {}
+  ) =>
+    new NextRequest('http://localhost/api/webhooks/github', {
+      method: 'POST',
+      body,
+      headers: {
+        'content-type': 'application/json',
+        'x-github-event': event,
+        'x-github-delivery': delivery,
+        'x-hub-signature-256': `sha256=${createHmac('sha256', signature).update(body).digest('hex')}`,
+      },
+    });
+  const push = JSON.stringify({ ref: 'refs/heads/main', repository });
+
+  const runAfterCallbacks = async () => {
+    for (const callback of mockAfterCallbacks.splice(0)) {
+      await callback();
+    }
+  };
+
+  beforeEach(() => {
+    process.env.GITHUB_WEBHOOK_SECRET = secret;
+    mockAfterCallbacks.length = 0;
+    syncRepository = { execute: jest.fn().mockResolvedValue(1) };
+    fetchRepositoryDetail = { invalidate: jest.fn().mockResolvedValue(undefined) };
+    (DashboardServices.create as jest.Mock).mockResolvedValue({ sources: [], syncRepository, fetchRepositoryDetail });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    delete process.env.GITHUB_WEBHOOK_SECRET;
+    jest.restoreAllMocks();
+  });
+
+  it('should reject a delivery with an invalid signature', async () => {
+    const response = await POST(webhook(push, { signature: 'other' }));
+
+    expect(response.status).toBe(401);
+    expect(mockAfterCallbacks).toHaveLength(0);
+  });
+
+  it('should accept a change and sync the repository after answering', async () => {
+    const response = await POST(webhook(push));
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual({ status: 'accepted', repositories: ['acme/api'] });
+    expect(syncRepository.execute).not.toHaveBeenCalled();
+
+    await runAfterCallbacks();
+
+    expect(fetchRepositoryDetail.invalidate).toHaveBeenCalledWith('acme', 'api');
+    expect(syncRepository.execute).toHaveBeenCalledWith([], { owner: 'acme', name: 'api', removed: false });
+  });
+
+  it('should ignore events that change nothing shown', async () => {
+    const response = await POST(webhook(JSON.stringify({ zen: 'Design for failure.' }), { event: 'ping' }));
+
+    expect(await response.json()).toEqual({ status: 'ignored' });
+    expect(mockAfterCallbacks).toHaveLength(0);
+  });
+
+  it('should ignore a replay of a synced delivery', async () => {
+    await POST(webhook(push, { delivery: 'synced' }));
+    await runAfterCallbacks();
+
+    const response = await POST(webhook(push, { delivery: 'synced' }));
+
+    expect(await response.json()).toEqual({ status: 'duplicate' });
+    expect(mockAfterCallbacks).toHaveLength(0);
+    expect(syncRepository.execute).toHaveBeenCalledTimes(1);
+  });
+
+  it('should process a redelivery of a delivery whose sync failed', async () => {
+    syncRepository.execute.mockRejectedValueOnce(new Error('GitHub API error'));
+    await POST(webhook(push, { delivery: 'failed' }));
+    await runAfterCallbacks();
+
+    const response = await POST(webhook(push, { delivery: 'failed' }));
+    await runAfterCallbacks();
+
+    expect(response.status).toBe(202);
+    expect(syncRepository.execute).toHaveBeenCalledTimes(2);
+  });
+
+  it('should process a redelivery of a delivery that could not be parsed', async () => {
+    const failed = await POST(webhook('{not json', { delivery: 'malformed' }));
+    const response = await POST(webhook(push, { delivery: 'malformed' }));
+
+    expect(failed.status).toBe(500);
+    expect(response.status).toBe(202);
+  });
+});
@@ -0,0 +1,179 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { GitLabClient } from '@/infrastructure/adapters/gitlab/GitLabClient';
+import { GitLabRepositoryProvider } from '@/infrastructure/adapters/gitlab/GitLabRepositoryProvider';
+import { RateLimitError } from '@/infrastructure/lib/errors';
+
+/**
+ * Stub responses of the GitLab REST API, keyed by path and page
+ */
+const PROJECT = {
+  path: 'api',
+  namespace: { full_path: 'platform/backend' },
+  web_url: 'https://gitlab.example.com/platform/backend/api',
+  description: 'Backend API',
+  star_count: 4,
+  last_activity_at: '2025-06-01T10:00:00Z',
+  default_branch: 'main',
+};
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const ROUTES: Record<string, { status?: number; body: unknown; headers?: Record<string, string> }> = {
+  '/api/v4/groups/platform/projects?page=1': {
+    body: [PROJECT, { ...PROJECT, path: 'worker', description: null }],
+    headers: { 'x-next-page': '2' },
+  },
+  '/api/v4/groups/platform/projects?page=2': {
+    body: [{ ...PROJECT, path: 'legacy', namespace: { full_path: 'platform' } }],
+    headers: { 'x-next-page': '' },
+  },
+  '/api/v4/projects/platform%2Fbackend%2Fapi/repository/tags?page=1': {
+    body: [
+      { name: 'v2.0.0', created_at: '2025-05-01T00:00:00Z', commit: { committed_date: '2025-04-30T00:00:00Z' } },
+      { name: 'v1.1.0', created_at: null, commit: { committed_date: '2025-02-27T00:00:00Z' } },
+      { name: 'v1.0.0', created_at: null, commit: { committed_date: '2025-01-10T00:00:00Z' } },
+      { name: 'broken', created_at: null, commit: null },
+    ],
+  },
+  '/api/v4/projects/platform%2Fbackend%2Fapi/releases?page=1': {
+    body: [
+      { tag_name: 'v1.1.0', released_at: '2025-03-01T00:00:00Z', upcoming_release: false },
+      { tag_name: 'v1.0.0', released_at: '2099-01-01T00:00:00Z', upcoming_release: true },
+    ],
+  },
+  '/api/v4/projects/platform%2Fbackend%2Fworker/repository/tags?page=1': {
+    body: [
+      { name: 'v3.0.0', created_at: null, commit: { committed_date: daysAgo(10) } },
+      { name: 'v2.0.0', created_at: null, commit: { committed_date: daysAgo(400) } },
+    ],
+    headers: { 'x-next-page': '2' },
+  },
+  '/api/v4/projects/platform%2Fbackend%2Fworker/repository/tags?page=2': {
+    body: [{ name: 'v1.0.0', created_at: null, commit: { committed_date: daysAgo(800) } }],
+  },
+  '/api/v4/projects/platform%2Fbackend%2Fworker/releases?page=1': { body: [] },
+  '/api/v4/groups/missing/projects?page=1': { status: 404, body: { message: '404 Group Not Found' } },
+  '/api/v4/groups/private/projects?page=1': { status: 401, body: { message: '401 Unauthorized' } },
+  '/api/v4/groups/busy/projects?page=1': {
+    status: 429,
+    body: { message: 'Retry later' },
+    headers: { 'ratelimit-reset': '4102444800' },
+  },
+};
+
+describe('GitLabRepositoryProvider', () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: IncomingMessage[];
+
+  beforeAll(async () => {
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      requests.push(req);
+      const url = new URL(req.url || '/', 'http://localhost');
+      const route = ROUTES[`${url.pathname}?page=${url.searchParams.get('page')}`];
+
+      res.writeHead(route?.status ?? (route ? 200 : 404), {
+        'content-type': 'application/json',
+        ...route?.headers,
+      });
+      res.end(JSON.stringify(route ? route.body : { message: '404 Not Found' }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  const createProvider = (options = {}) =>
+    new GitLabRepositoryProvider(new GitLabClient(baseUrl, 'test-token'), 'platform', options);
+
+  describe('listRepositories', () => {
+    it('should list projects of the group and its subgroups across pages', async () => {
+      const { repositories, truncated } = await createProvider().listRepositories('platform');
+
+      expect(truncated).toBe(false);
+      expect(repositories.map(repo => repo.getFullName())).toEqual([
+        'platform/backend/api',
+        'platform/backend/worker',
+        'platform/legacy',
+      ]);
+      expect(repositories[0].url).toBe('https://gitlab.example.com/platform/backend/api');
+      expect(repositories[0].starCount).toBe(4);
+      expect(repositories[0].defaultBranch).toBe('main');
+      expect(repositories[0].language).toBeNull();
+      expect(repositories[1].description).toBeNull();
+    });
+
+    it('should authenticate and include subgroups', async () => {
+      await createProvider().listRepositories('platform');
+
+      const url = new URL(requests[0].url || '/', 'http://localhost');
+      expect(requests[0].headers['private-token']).toBe('test-token');
+      expect(url.searchParams.get('include_subgroups')).toBe('true');
+      expect(url.searchParams.get('per_page')).toBe('100');
+    });
+
+    it('should stop listing at the repository limit and mark the list as truncated', async () => {
+      const { repositories, truncated } = await createProvider({ maxRepositories: 2 }).listRepositories('platform');
+
+      expect(repositories).toHaveLength(2);
+      expect(truncated).toBe(true);
+      expect(requests).toHaveLength(1);
+    });
+
+    it('should report a missing group', async () => {
+      await expect(createProvider().listRepositories('missing'))
+        .rejects.toThrow("GitLab group 'missing' not found");
+    });
+
+    it('should report failed authentication', async () => {
+      await expect(createProvider().listRepositories('private'))
+        .rejects.toThrow('GitLab authentication failed. Check your token.');
+    });
+
+    it('should raise a rate limit error with the reset time', async () => {
+      const error = await createProvider().listRepositories('busy').catch(e => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.resetAt).toEqual(new Date('2100-01-01T00:00:00Z'));
+    });
+  });
+
+  describe('getRepositoryTags', () => {
+    it('should date tags by tag creation, then release, then commit', async () => {
+      const { tags, truncated } = await createProvider().getRepositoryTags('platform/backend', 'api');
+
+      expect(truncated).toBe(false);
+      expect(tags).toEqual([
+        { name: 'v2.0.0', date: new Date('2025-05-01T00:00:00Z'), dateSource: 'tagger' },
+        { name: 'v1.1.0', date: new Date('2025-03-01T00:00:00Z'), dateSource: 'release' },
+        { name: 'v1.0.0', date: new Date('2025-01-10T00:00:00Z'), dateSource: 'commit' },
+      ]);
+    });
+
+    it('should stop walking tag pages past the tag history start', async () => {
+      const { tags, truncated } = await createProvider({ tagHistoryMonths: 6 })
+        .getRepositoryTags('platform/backend', 'worker');
+
+      const tagRequests = requests
+        .map(req => new URL(req.url || '/', 'http://localhost'))
+        .filter(url => url.pathname.endsWith('/repository/tags'));
+      expect(tags.map(tag => tag.name)).toEqual(['v3.0.0']);
+      expect(truncated).toBe(true);
+      expect(tagRequests).toHaveLength(1);
+      expect(tagRequests[0].searchParams.get('order_by')).toBe('updated');
+    });
+
+    it('should report a missing project', async () => {
+      await expect(createProvider().getRepositoryTags('platform', 'unknown'))
+        .rejects.toThrow("Repository 'platform/unknown' not found");
+    });
+  });
+});
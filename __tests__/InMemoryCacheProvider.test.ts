@@ -0,0 +1,44 @@
+import { InMemoryCacheProvider } from '@/infrastructure/adapters/cache/InMemoryCacheProvider';
+
+describe('InMemoryCacheProvider', () => {
+  it('should keep expired entries', async () => {
+    const cache = new InMemoryCacheProvider<string>(60);
+    const cachedAt = new Date(Date.now() - 120 * 1000);
+
+    await cache.set('acme', 'value', cachedAt);
+
+    const entry = await cache.get('acme');
+    expect(entry!.value).toBe('value');
+    expect(entry!.expiresAt).toEqual(new Date(cachedAt.getTime() + 60 * 1000));
+  });
+
+  it('should evict the least recently stored entries beyond the size limit', async () => {
+    const cache = new InMemoryCacheProvider<number>(60, { maxEntries: 2 });
+
+    await cache.set('a', 1);
+    await cache.set('b', 2);
+    await cache.set('a', 3);
+    await cache.set('c', 4);
+
+    expect(await cache.get('b')).toBeNull();
+    expect((await cache.get('a'))!.value).toBe(3);
+    expect((await cache.get('c'))!.value).toBe(4);
+  });
+
+  it('should drop expired entries when asked to', async () => {
+    const cache = new InMemoryCacheProvider<number>(60, { evictExpired: true });
+
+    await cache.set('old', 1, new Date(Date.now() - 120 * 1000));
+    expect(await cache.get('old')).toBeNull();
+
+    // Storing an entry sweeps out the expired ones, even if they are never read again
+    await cache.set('older', 2, new Date(Date.now() - 120 * 1000));
+    await cache.set('new', 3);
+    expect((cache as any).entries.has('older')).toBe(false);
+    expect((await cache.get('new'))!.value).toBe(3);
+  });
+
+  it('should reject a size limit that is not positive', () => {
+    expect(() => new InMemoryCacheProvider<number>(60, { maxEntries: 0 })).toThrow('Cache size must be positive');
+  });
+});
@@ -0,0 +1,191 @@
+import { execFileSync } from 'child_process';
+import { mkdirSync, mkdtempSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { mock, instance } from 'ts-mockito';
+import { LocalGitRepositoryProvider } from '@/infrastructure/adapters/git/LocalGitRepositoryProvider';
+import { GitCommandRunner } from '@/infrastructure/adapters/git/GitCommandRunner';
+import { FetchRepositoryData } from '@/usecase/FetchRepositoryData';
+import { Logger } from '@/domain/ports/Logger';
+
+/**
+ * Runs git with fixed identity and dates so fixtures are deterministic
+ */
+function git(cwd: string, args: string[], date: string = '2025-01-01T12:00:00Z'): void {
+  execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+    cwd,
+    env: { ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date },
+    stdio: 'ignore',
+  });
+}
+
+/**
+ * Creates a working repository with the given tagged commits, then a bare clone of it
+ */
+function createBareRepository(
+  rootDir: string,
+  name: string,
+  commits: { date: string; tag?: string; annotatedAt?: string }[]
+): string {
+  const workDir = mkdtempSync(path.join(tmpdir(), 'washhouse-work-'));
+  git(workDir, ['init', '--initial-branch=main']);
+
+  commits.forEach(({ date, tag, annotatedAt }, index) => {
+    writeFileSync(path.join(workDir, 'file.txt'), `change ${index}`);
+    git(workDir, ['add', 'file.txt']);
+    git(workDir, ['commit', '-m', `Change ${index}`], date);
+    if (tag && annotatedAt) {
+      git(workDir, ['tag', '-a', tag, '-m', `Release ${tag}`], annotatedAt);
+    } else if (tag) {
+      git(workDir, ['tag', tag]);
+    }
+  });
+
+  const gitDir = path.join(rootDir, `${name}.git`);
+  git(rootDir, ['clone', '--bare', workDir, gitDir]);
+  rmSync(workDir, { recursive: true, force: true });
+  return gitDir;
+}
+
+/**
+ * Creates a git runner that answers every command empty and records how many ran at once
+ */
+function createCountingRunner(): { gitRunner: GitCommandRunner; maxRunning: () => number } {
+  let running = 0;
+  let maxRunning = 0;
+  const gitRunner = {
+    run: async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setImmediate(resolve));
+      running--;
+      return '';
+    },
+  } as unknown as GitCommandRunner;
+  return { gitRunner, maxRunning: () => maxRunning };
+}
+
+describe('LocalGitRepositoryProvider', () => {
+  let rootDir: string;
+
+  beforeAll(() => {
+    rootDir = mkdtempSync(path.join(tmpdir(), 'washhouse-mirrors-'));
+
+    const apiDir = createBareRepository(rootDir, 'api', [
+      { date: '2025-01-10T09:00:00Z', tag: 'v1.0.0' },
+      { date: '2025-02-10T09:00:00Z', tag: 'v1.1.0', annotatedAt: '2025-02-12T15:30:00Z' },
+      { date: '2025-03-01T09:00:00Z' },
+    ]);
+    writeFileSync(path.join(apiDir, 'description'), 'Public API\n');
+
+    createBareRepository(rootDir, 'worker', [{ date: '2025-04-01T09:00:00Z' }]);
+    git(rootDir, ['init', '--bare', 'empty.git']);
+    mkdirSync(path.join(rootDir, 'not-a-repository'));
+  }, 30000);
+
+  afterAll(() => {
+    rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  describe('listRepositories', () => {
+    it('should list bare repositories with description, last commit and default branch', async () => {
+      const provider = new LocalGitRepositoryProvider(rootDir, { webUrl: 'https://git.example.com/' });
+
+      const { repositories, truncated } = await provider.listRepositories('acme');
+
+      expect(truncated).toBe(false);
+      expect(repositories.map(repo => repo.name)).toEqual(['api', 'empty', 'worker']);
+
+      const [api, empty] = repositories;
+      expect(api.owner).toBe('acme');
+      expect(api.url).toBe('https://git.example.com/acme/api');
+      expect(api.description).toBe('Public API');
+      expect(api.updatedAt).toEqual(new Date('2025-03-01T09:00:00Z'));
+      expect(api.defaultBranch).toBe('main');
+      expect(empty.description).toBeNull();
+      expect(empty.updatedAt).toEqual(statSync(path.join(rootDir, 'empty.git')).mtime);
+    });
+
+    it('should not run git for every repository at once', async () => {
+      for (let i = 0; i < 6; i++) {
+        git(rootDir, ['init', '--bare', path.join('many', `repo-${i}.git`)]);
+      }
+      const { gitRunner, maxRunning } = createCountingRunner();
+
+      const { repositories } = await new LocalGitRepositoryProvider(path.join(rootDir, 'many'), { gitRunner })
+        .listRepositories('acme');
+
+      expect(repositories).toHaveLength(6);
+      expect(maxRunning()).toBe(4);
+    });
+
+    it('should name the owner after the directory by default', async () => {
+      const { repositories } = await new LocalGitRepositoryProvider(rootDir).listRepositories('');
+
+      expect(repositories[0].owner).toBe(path.basename(rootDir));
+      expect(repositories[0].url.startsWith('http://localhost/')).toBe(true);
+    });
+
+    it('should stop at the repository limit and mark the list as truncated', async () => {
+      const provider = new LocalGitRepositoryProvider(rootDir, { maxRepositories: 2 });
+
+      const { repositories, truncated } = await provider.listRepositories('acme');
+
+      expect(repositories).toHaveLength(2);
+      expect(truncated).toBe(true);
+    });
+
+    it('should report a missing directory', async () => {
+      const provider = new LocalGitRepositoryProvider(path.join(rootDir, 'missing'));
+
+      await expect(provider.listRepositories('acme')).rejects.toThrow('not found');
+    });
+  });
+
+  describe('getRepositoryTags', () => {
+    it('should date annotated tags by tagger and lightweight tags by commit', async () => {
+      const provider = new LocalGitRepositoryProvider(rootDir);
+
+      const { tags, truncated } = await provider.getRepositoryTags('acme', 'api');
+
+      expect(truncated).toBe(false);
+      expect(tags).toEqual([
+        { name: 'v1.0.0', date: new Date('2025-01-10T09:00:00Z'), dateSource: 'commit' },
+        { name: 'v1.1.0', date: new Date('2025-02-12T15:30:00Z'), dateSource: 'tagger' },
+      ]);
+    });
+
+    it('should not run git for every repository at once', async () => {
+      const names = Array.from({ length: 6 }, (_, i) => `tagged-${i}`);
+      names.forEach(name => git(rootDir, ['init', '--bare', path.join('tagged', `${name}.git`)]));
+      const { gitRunner, maxRunning } = createCountingRunner();
+      const provider = new LocalGitRepositoryProvider(path.join(rootDir, 'tagged'), { gitRunner });
+
+      const results = await Promise.all(names.map(name => provider.getRepositoryTags('acme', name)));
+
+      expect(results).toHaveLength(6);
+      expect(maxRunning()).toBe(4);
+    });
+
+    it('should return no tags for an empty repository', async () => {
+      const { tags } = await new LocalGitRepositoryProvider(rootDir).getRepositoryTags('acme', 'empty');
+
+      expect(tags).toEqual([]);
+    });
+
+    it('should report a missing repository', async () => {
+      await expect(new LocalGitRepositoryProvider(rootDir).getRepositoryTags('acme', 'unknown'))
+        .rejects.toThrow("Repository 'acme/unknown' not found");
+    });
+  });
+
+  it('should feed release statistics without network access', async () => {
+    const provider = new LocalGitRepositoryProvider(rootDir);
+    const { repositories } = await provider.listRepositories('acme');
+
+    const enriched = await new FetchRepositoryData(provider, instance(mock<Logger>())).execute(repositories[0]);
+
+    expect(enriched.releaseStats!.totalReleases).toBe(2);
+    expect(enriched.releaseStats!.highestVersionedRelease?.tagName).toBe('v1.1.0');
+  });
+});
@@ -0,0 +1,211 @@
+import { ConditionalResponse, OctokitClient } from '@/infrastructure/adapters/github/OctokitClient';
+import { InMemoryCacheProvider } from '@/infrastructure/adapters/cache/InMemoryCacheProvider';
+import { RateLimitError } from '@/domain/ports/RateLimitError';
+
+// Stands in for Octokit, keeping the request hook the client installs
+jest.mock('@octokit/rest', () => ({
+  Octokit: class {
+    requestHook: any = null;
+    hook = { wrap: (_name: string, hook: any) => { this.requestHook = hook; } };
+    request = { endpoint: { parse: (options: any) => ({ url: options.url }) } };
+  },
+}));
+
+describe('OctokitClient', () => {
+  type Request = (options: Record<string, any>) => Promise<any>;
+
+  const requestOptions = { method: 'GET', url: 'https://api.github.com/repos/acme/api', headers: {} };
+  const ok = (headers: Record<string, string> = {}, data: unknown = {}) =>
+    ({ status: 200, url: requestOptions.url, headers, data });
+  const failure = (status: number, headers: Record<string, string> = {}, message: string = 'Request failed') =>
+    Object.assign(new Error(message), { status, response: { headers } });
+
+  // Sends a request through the client's hook, answered by the stubbed responses in order
+  const send = (client: OctokitClient, responses: (object | Error)[], calls: Record<string, any>[] = []) => {
+    const request: Request = async (options) => {
+      calls.push({ ...options, headers: { ...options.headers } });
+      const response = responses.shift();
+      if (response instanceof Error) {
+        throw response;
+      }
+      return response;
+    };
+    return (client.getClient() as any).requestHook(request, { ...requestOptions }) as Promise<any>;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('retries', () => {
+    it('should wait as long as retry-after asks on a secondary rate limit', async () => {
+      const client = new OctokitClient('token');
+      const calls: Record<string, any>[] = [];
+
+      const response = send(client, [failure(429, { 'retry-after': '5' }), ok()], calls);
+      await jest.advanceTimersByTimeAsync(4999);
+      expect(calls).toHaveLength(1);
+      await jest.advanceTimersByTimeAsync(1);
+
+      expect((await response).status).toBe(200);
+      expect(calls).toHaveLength(2);
+    });
+
+    it('should wait for the reset when the primary rate limit is used up', async () => {
+      const client = new OctokitClient('token');
+      const calls: Record<string, any>[] = [];
+      const reset = String(Math.floor(Date.now() / 1000) + 10);
+
+      const response = send(
+        client,
+        [failure(403, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': reset }), ok()],
+        calls
+      );
+      await jest.advanceTimersByTimeAsync(9000);
+      expect(calls).toHaveLength(1);
+      await jest.advanceTimersByTimeAsync(2000);
+
+      expect((await response).status).toBe(200);
+      expect(calls).toHaveLength(2);
+    });
+
+    it('should not retry a 403 that is not a rate limit', async () => {
+      const client = new OctokitClient('token');
+
+      await expect(send(client, [failure(403, {}, 'Resource not accessible')])).rejects.toMatchObject({
+        status: 403,
+      });
+    });
+
+    it('should back off exponentially on server errors', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+      const client = new OctokitClient('token', { baseDelayMs: 100 });
+      const calls: Record<string, any>[] = [];
+
+      const response = send(client, [failure(502), failure(503), ok()], calls);
+      await jest.advanceTimersByTimeAsync(100);
+      expect(calls).toHaveLength(2);
+      await jest.advanceTimersByTimeAsync(199);
+      expect(calls).toHaveLength(2);
+      await jest.advanceTimersByTimeAsync(1);
+
+      expect((await response).status).toBe(200);
+      expect(calls).toHaveLength(3);
+    });
+
+    it('should give up on server errors after the maximum number of retries', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+      const client = new OctokitClient('token', { baseDelayMs: 100, maxRetries: 1 });
+
+      const response = send(client, [failure(500), failure(500, {}, 'Still failing')]);
+      const assertion = expect(response).rejects.toThrow('Still failing');
+      await jest.advanceTimersByTimeAsync(100);
+
+      await assertion;
+    });
+
+    it('should give up with a RateLimitError when the reset is further away than it may wait', async () => {
+      const client = new OctokitClient('token', { maxRateLimitWaitMs: 60 * 1000 });
+      const calls: Record<string, any>[] = [];
+      const reset = Math.floor(Date.now() / 1000) + 3600;
+
+      const error = await send(
+        client,
+        [failure(403, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(reset) }, 'API rate limit exceeded')],
+        calls
+      ).catch(e => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.resetAt).toEqual(new Date(reset * 1000));
+      expect(calls).toHaveLength(1);
+    });
+
+    it('should give up with a RateLimitError when a GraphQL response reports its rate limit', async () => {
+      const client = new OctokitClient('token');
+      const reset = Math.floor(Date.now() / 1000) + 600;
+      const rateLimited = ok(
+        { 'x-ratelimit-resource': 'graphql', 'x-ratelimit-reset': String(reset) },
+        { data: null, errors: [{ type: 'RATE_LIMITED', message: 'API rate limit exceeded for user ID 1.' }] }
+      );
+
+      const error = await send(client, [rateLimited]).catch(e => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.message).toContain('API rate limit exceeded for user ID 1.');
+      expect(error.resetAt).toEqual(new Date(reset * 1000));
+    });
+  });
+
+  describe('conditional requests', () => {
+    const notModified = () => failure(304, {}, 'Not Modified');
+    let responseCache: InMemoryCacheProvider<ConditionalResponse>;
+
+    beforeEach(() => {
+      responseCache = new InMemoryCacheProvider<ConditionalResponse>(60);
+    });
+
+    it('should revalidate a cached response with its ETag and Last-Modified date', async () => {
+      const client = new OctokitClient('token', { responseCache });
+      const calls: Record<string, any>[] = [];
+      const lastModified = 'Mon, 02 Jun 2025 10:00:00 GMT';
+
+      await send(client, [ok({ etag: '"abc"', 'last-modified': lastModified }, { id: 1 })], calls);
+      await send(client, [ok({ etag: '"def"' }, { id: 2 })], calls);
+
+      expect(calls[0].headers['if-none-match']).toBeUndefined();
+      expect(calls[1].headers['if-none-match']).toBe('"abc"');
+      expect(calls[1].headers['if-modified-since']).toBe(lastModified);
+    });
+
+    it('should answer a 304 from the cache', async () => {
+      const client = new OctokitClient('token', { responseCache });
+
+      await send(client, [ok({ etag: '"abc"' }, { id: 1 })]);
+      const response = await send(client, [notModified()]);
+
+      expect(response).toEqual({
+        status: 200,
+        url: requestOptions.url,
+        headers: { etag: '"abc"' },
+        data: { id: 1 },
+      });
+    });
+
+    it('should not keep responses that are still being computed or cannot be revalidated', async () => {
+      const client = new OctokitClient('token', { responseCache });
+      const calls: Record<string, any>[] = [];
+
+      await send(client, [{ status: 202, url: requestOptions.url, headers: { etag: '"pending"' }, data: {} }], calls);
+      await send(client, [ok({}, { id: 1 })], calls);
+      await send(client, [ok()], calls);
+
+      expect(await responseCache.get(requestOptions.url)).toBeNull();
+      expect(calls[1].headers['if-none-match']).toBeUndefined();
+      expect(calls[2].headers['if-none-match']).toBeUndefined();
+    });
+
+    it('should pass on a 304 without a cached response', async () => {
+      const client = new OctokitClient('token', { responseCache });
+
+      await expect(send(client, [notModified()])).rejects.toMatchObject({ status: 304 });
+    });
+  });
+
+  describe('getRateLimitStatus', () => {
+    it('should track the core rate limit from response headers', async () => {
+      const client = new OctokitClient('token');
+      await send(client, [ok({ 'x-ratelimit-limit': '5000', 'x-ratelimit-remaining': '4321', 'x-ratelimit-reset': '1750000000' })]);
+
+      expect(await client.getRateLimitStatus()).toEqual({
+        limit: 5000,
+        remaining: 4321,
+        resetAt: new Date(1750000000 * 1000),
+      });
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { OrganizationStats } from '@/domain/models/Organization';
+import { Repository } from '@/domain/models/Repository';
+import { MonthlyRelease, ReleaseStats } from '@/domain/models/Release';
+import { BuildStats } from '@/domain/models/Build';
+import { OrganizationStatistics } from '@/domain/services/OrganizationStatistics';
+
+describe('Organization Domain Model', () => {
+  describe('OrganizationStats', () => {
+    it('should create stats with valid data', () => {
+      const stats = new OrganizationStats(10, 3, 4, 2, 87.5);
+
+      expect(stats.totalRepositories).toBe(10);
+      expect(stats.releasesThisMonth).toBe(3);
+      expect(stats.releasesLast30Days).toBe(4);
+      expect(stats.staleRepositories).toBe(2);
+      expect(stats.averageBuildSuccessRate).toBe(87.5);
+      expect(stats.hasBuildStats()).toBe(true);
+    });
+
+    it('should report missing build stats', () => {
+      expect(new OrganizationStats(1, 0, 0, 0, null).hasBuildStats()).toBe(false);
+    });
+
+    it('should reject negative counts', () => {
+      expect(() => new OrganizationStats(-1, 0, 0, 0, null)).toThrow('Organization counts cannot be negative');
+    });
+
+    it('should reject more stale repositories than total', () => {
+      expect(() => new OrganizationStats(1, 0, 0, 2, null)).toThrow(
+        'Stale repositories cannot exceed total repositories'
+      );
+    });
+  });
+});
+
+describe('OrganizationStatistics Service', () => {
+  const now = new Date('2025-03-20T12:00:00Z');
+
+  const createRepository = (
+    name: string,
+    releaseStats: ReleaseStats | null,
+    buildStats: BuildStats | null = null
+  ): Repository =>
+    new Repository(
+      name,
+      'test-org',
+      `https://github.com/test-org/${name}`,
+      null,
+      null,
+      0,
+      now,
+      releaseStats,
+      buildStats
+    );
+
+  const createReleaseStats = (
+    daysSinceLatest: number | null,
+    thisMonth: number,
+    last30Days: number
+  ): ReleaseStats =>
+    new ReleaseStats(
+      thisMonth,
+      thisMonth,
+      null,
+      null,
+      daysSinceLatest,
+      [new MonthlyRelease('2025-02', 0), new MonthlyRelease('2025-03', thisMonth)],
+      false,
+      last30Days
+    );
+
+  describe('calculateStats', () => {
+    it('should aggregate release counts across repositories', () => {
+      const repositories = [
+        createRepository('active', createReleaseStats(2, 3, 4)),
+        createRepository('steady', createReleaseStats(10, 1, 1)),
+      ];
+
+      const stats = OrganizationStatistics.calculateStats(repositories, now);
+
+      expect(stats.totalRepositories).toBe(2);
+      expect(stats.releasesThisMonth).toBe(4);
+      expect(stats.releasesLast30Days).toBe(5);
+      expect(stats.staleRepositories).toBe(0);
+    });
+
+    it('should count repositories without a release in 90+ days as stale', () => {
+      const repositories = [
+        createRepository('old', createReleaseStats(90, 0, 0)),
+        createRepository('never', createReleaseStats(null, 0, 0)),
+        createRepository('recent', createReleaseStats(89, 0, 0)),
+        createRepository('unknown', null),
+      ];
+
+      const stats = OrganizationStatistics.calculateStats(repositories, now);
+
+      expect(stats.totalRepositories).toBe(4);
+      expect(stats.staleRepositories).toBe(2);
+    });
+
+    it('should average build success rate over repositories with builds', () => {
+      const repositories = [
+        createRepository('a', null, new BuildStats(9, 1, 0, 10, 90)),
+        createRepository('b', null, new BuildStats(3, 1, 0, 4, 75)),
+        createRepository('c', null, new BuildStats(0, 0, 0, 0, 0)),
+        createRepository('d', null),
+      ];
+
+      const stats = OrganizationStatistics.calculateStats(repositories, now);
+
+      expect(stats.averageBuildSuccessRate).toBe(82.5);
+    });
+
+    it('should handle an empty organization', () => {
+      const stats = OrganizationStatistics.calculateStats([], now);
+
+      expect(stats.totalRepositories).toBe(0);
+      expect(stats.releasesThisMonth).toBe(0);
+      expect(stats.averageBuildSuccessRate).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { mock, instance, verify, anything, anyString } from 'ts-mockito';
+import { RefreshScheduler } from '@/infrastructure/scheduler/RefreshScheduler';
+import { Logger } from '@/domain/ports/Logger';
+
+describe('RefreshScheduler', () => {
+  const HOUR = 60 * 60 * 1000;
+  let mockLogger: Logger;
+  let scheduler: RefreshScheduler;
+
+  beforeEach(() => {
+    mockLogger = mock<Logger>();
+    scheduler = new RefreshScheduler(instance(mockLogger));
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+  });
+
+  it('should run the job at startup and record its success', async () => {
+    const job = jest.fn().mockResolvedValue(undefined);
+
+    await scheduler.start(job, HOUR);
+
+    const status = scheduler.getStatus();
+    expect(job).toHaveBeenCalledTimes(1);
+    expect(status.enabled).toBe(true);
+    expect(status.running).toBe(false);
+    expect(status.runs).toBe(1);
+    expect(status.lastSuccessAt).not.toBeNull();
+    expect(status.lastError).toBeNull();
+    expect(status.lastDurationMs).toBeGreaterThanOrEqual(0);
+    expect(status.nextRunAt!.getTime()).toBe(status.lastStartedAt!.getTime() + HOUR);
+  });
+
+  it('should record the error of a failed run', async () => {
+    await scheduler.start(() => Promise.reject(new Error('GitHub token not configured')), HOUR);
+
+    const status = scheduler.getStatus();
+    expect(status.lastSuccessAt).toBeNull();
+    expect(status.lastErrorAt).not.toBeNull();
+    expect(status.lastError).toBe('GitHub token not configured');
+    verify(mockLogger.error('Background refresh failed', anything(), anything())).once();
+  });
+
+  it('should skip a run while the previous one is still going', async () => {
+    let finish: () => void = () => {};
+    const job = jest.fn(() => new Promise<void>(resolve => { finish = resolve; }));
+
+    const first = scheduler.start(job, HOUR);
+    const skipped = scheduler.run();
+    expect(scheduler.getStatus().running).toBe(true);
+    finish();
+    await Promise.all([first, skipped]);
+
+    const status = scheduler.getStatus();
+    expect(job).toHaveBeenCalledTimes(1);
+    expect(status.runs).toBe(1);
+    expect(status.skippedRuns).toBe(1);
+    verify(mockLogger.warn(anyString(), anything())).once();
+  });
+
+  it('should run again on the interval', async () => {
+    jest.useFakeTimers();
+    try {
+      const job = jest.fn().mockResolvedValue(undefined);
+      await scheduler.start(job, HOUR);
+
+      await jest.advanceTimersByTimeAsync(2 * HOUR);
+
+      expect(job).toHaveBeenCalledTimes(3);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should stop scheduling runs', async () => {
+    await scheduler.start(() => Promise.resolve(), HOUR);
+
+    scheduler.stop();
+
+    expect(scheduler.getStatus().enabled).toBe(false);
+    expect(scheduler.getStatus().nextRunAt).toBeNull();
+  });
+
+  it('should reject a non-positive interval', () => {
+    expect(() => scheduler.start(() => Promise.resolve(), 0)).toThrow('Refresh interval must be positive');
+  });
+});
@@ -1,4 +1,4 @@
-import { Release, SemanticVersion, ReleaseStats } from '@/domain/models/Release';
+import { Release, SemanticVersion, ReleaseStats, MonthlyRelease, ReleaseCadence } from '@/domain/models/Release';
 import { ReleaseCalculator } from '@/domain/services/ReleaseCalculator';
 
 describe('Release Domain Model', () => {
@@ -54,6 +54,50 @@ describe('Release Domain Model', () => {
       expect(semantic.toString()).toBe('1.2.3');
       expect(prerelease.toString()).toBe('1.2.3-beta');
     });
+
+    it('should parse build metadata', () => {
+      const version = SemanticVersion.parse('v1.0.0-rc.1+build.42')!;
+
+      expect(version.preRelease).toBe('rc.1');
+      expect(version.buildMetadata).toBe('build.42');
+      expect(version.toString()).toBe('1.0.0-rc.1+build.42');
+      expect(SemanticVersion.parse('1.0.0+20250301')!.isSemantic()).toBe(true);
+    });
+
+    it('should reject versions that are not valid SemVer 2.0', () => {
+      expect(SemanticVersion.parse('01.2.3')).toBeNull();
+      expect(SemanticVersion.parse('1.2.3-01')).toBeNull();
+      expect(SemanticVersion.parse('1.2.3-beta..1')).toBeNull();
+      expect(SemanticVersion.parse('1.2.3+')).toBeNull();
+    });
+
+    it('should order versions by SemVer 2.0 precedence', () => {
+      const ordered = [
+        '1.0.0-alpha',
+        '1.0.0-alpha.1',
+        '1.0.0-alpha.beta',
+        '1.0.0-beta',
+        '1.0.0-beta.2',
+        '1.0.0-beta.11',
+        '1.0.0-rc.1',
+        '1.0.0',
+        '1.0.1',
+        '1.10.0',
+        '2.0.0',
+      ].map(version => SemanticVersion.parse(version)!);
+
+      for (let i = 1; i < ordered.length; i++) {
+        expect(ordered[i].compareTo(ordered[i - 1])).toBeGreaterThan(0);
+        expect(ordered[i - 1].isHigherThan(ordered[i])).toBe(false);
+      }
+    });
+
+    it('should ignore build metadata for precedence', () => {
+      const a = SemanticVersion.parse('1.0.0+build.1')!;
+      const b = SemanticVersion.parse('1.0.0+build.2')!;
+
+      expect(a.compareTo(b)).toBe(0);
+    });
   });
 
   describe('Release', () => {
@@ -75,7 +119,7 @@ describe('Release Domain Model', () => {
       expect(release.version).toBeNull();
     });
 
-    it('should check if has semantic version', () => {
+    it('should check if has stable version', () => {
       const withSemantic = new Release(
         'v1.0.0',
         new Date(),
@@ -88,9 +132,9 @@ describe('Release Domain Model', () => {
       );
       const withoutSemantic = new Release('tag', new Date(), null);
       
-      expect(withSemantic.hasSemanticVersion()).toBe(true);
-      expect(withPrerelease.hasSemanticVersion()).toBe(false);
-      expect(withoutSemantic.hasSemanticVersion()).toBe(false);
+      expect(withSemantic.hasStableVersion()).toBe(true);
+      expect(withPrerelease.hasStableVersion()).toBe(false);
+      expect(withoutSemantic.hasStableVersion()).toBe(false);
     });
 
     it('should calculate days since release', () => {
@@ -103,15 +147,52 @@ describe('Release Domain Model', () => {
     });
   });
 
+  describe('MonthlyRelease', () => {
+    it('should create monthly release count', () => {
+      const monthly = new MonthlyRelease('2025-01', 3);
+
+      expect(monthly.month).toBe('2025-01');
+      expect(monthly.count).toBe(3);
+    });
+
+    it('should reject invalid month format', () => {
+      expect(() => new MonthlyRelease('2025-1', 0)).toThrow('Month must be in YYYY-MM format');
+    });
+
+    it('should reject negative count', () => {
+      expect(() => new MonthlyRelease('2025-01', -1)).toThrow('Release count cannot be negative');
+    });
+
+    it('should reject bump counts above the release count', () => {
+      expect(() => new MonthlyRelease('2025-01', 1, { major: 1, minor: 1, patch: 0, prerelease: 0 })).toThrow(
+        'Bump counts cannot exceed release count'
+      );
+    });
+  });
+
+  describe('ReleaseCadence', () => {
+    it('should report intervals when at least two releases exist', () => {
+      expect(new ReleaseCadence(7, 7, 7, 0.25, 0.17, 'steady', [7]).hasIntervals()).toBe(true);
+      expect(new ReleaseCadence(null, null, null, 0, 0, 'steady').hasIntervals()).toBe(false);
+    });
+
+    it('should reject negative rates and intervals', () => {
+      expect(() => new ReleaseCadence(1, 1, 1, -1, 0, 'steady')).toThrow('Release rates cannot be negative');
+      expect(() => new ReleaseCadence(1, 1, 1, 0, 0, 'steady', [-1])).toThrow(
+        'Release intervals cannot be negative'
+      );
+    });
+  });
+
   describe('ReleaseStats', () => {
     it('should create stats with releases', () => {
       const release = new Release('v1.0.0', new Date(), SemanticVersion.parse('1.0.0')!);
       const stats = new ReleaseStats(5, 3, release, release, 10);
       
       expect(stats.totalReleases).toBe(5);
-      expect(stats.semanticReleases).toBe(3);
+      expect(stats.versionedReleases).toBe(3);
       expect(stats.latestRelease).toEqual(release);
-      expect(stats.latestSemanticRelease).toEqual(release);
+      expect(stats.latestVersionedRelease).toEqual(release);
       expect(stats.daysSinceLatestRelease).toBe(10);
     });
 
@@ -119,7 +200,7 @@ describe('Release Domain Model', () => {
       const stats = new ReleaseStats(0, 0, null, null, null);
       
       expect(stats.hasReleases()).toBe(false);
-      expect(stats.hasSemanticReleases()).toBe(false);
+      expect(stats.hasVersionedReleases()).toBe(false);
     });
 
     it('should check if has releases', () => {
@@ -130,12 +211,12 @@ describe('Release Domain Model', () => {
       expect(withoutReleases.hasReleases()).toBe(false);
     });
 
-    it('should check if has semantic releases', () => {
+    it('should check if has versioned releases', () => {
       const withSemantic = new ReleaseStats(5, 3, null, null, 0);
       const withoutSemantic = new ReleaseStats(5, 0, null, null, 0);
       
-      expect(withSemantic.hasSemanticReleases()).toBe(true);
-      expect(withoutSemantic.hasSemanticReleases()).toBe(false);
+      expect(withSemantic.hasVersionedReleases()).toBe(true);
+      expect(withoutSemantic.hasVersionedReleases()).toBe(false);
     });
   });
 });
@@ -146,9 +227,9 @@ describe('ReleaseCalculator Service', () => {
       const stats = ReleaseCalculator.calculateStats([]);
       
       expect(stats.totalReleases).toBe(0);
-      expect(stats.semanticReleases).toBe(0);
+      expect(stats.versionedReleases).toBe(0);
       expect(stats.latestRelease).toBeNull();
-      expect(stats.latestSemanticRelease).toBeNull();
+      expect(stats.latestVersionedRelease).toBeNull();
       expect(stats.daysSinceLatestRelease).toBeNull();
     });
 
@@ -162,9 +243,9 @@ describe('ReleaseCalculator Service', () => {
       const stats = ReleaseCalculator.calculateStats(releases);
       
       expect(stats.totalReleases).toBe(3);
-      expect(stats.semanticReleases).toBe(2); // v2.0.0 and v1.0.0
+      expect(stats.versionedReleases).toBe(2); // v2.0.0 and v1.0.0
       expect(stats.latestRelease?.tagName).toBe('v2.0.0');
-      expect(stats.latestSemanticRelease?.tagName).toBe('v2.0.0');
+      expect(stats.latestVersionedRelease?.tagName).toBe('v2.0.0');
       expect(stats.daysSinceLatestRelease).toBeGreaterThanOrEqual(0);
     });
 
@@ -177,13 +258,81 @@ describe('ReleaseCalculator Service', () => {
       const stats = ReleaseCalculator.calculateStats(releases);
       
       expect(stats.totalReleases).toBe(2);
-      expect(stats.semanticReleases).toBe(0);
-      expect(stats.latestSemanticRelease).toBeNull();
+      expect(stats.versionedReleases).toBe(0);
+      expect(stats.latestVersionedRelease).toBeNull();
     });
   });
 
-  describe('filterSemanticVersions', () => {
-    it('should filter only semantic versions', () => {
+  describe('calculateMonthlyBreakdown', () => {
+    const now = new Date('2025-06-15T12:00:00Z');
+
+    it('should zero-fill months without releases', () => {
+      const breakdown = ReleaseCalculator.calculateMonthlyBreakdown([], 12, now);
+
+      expect(breakdown).toHaveLength(12);
+      expect(breakdown[0].month).toBe('2024-07');
+      expect(breakdown[11].month).toBe('2025-06');
+      expect(breakdown.every(monthly => monthly.count === 0)).toBe(true);
+    });
+
+    it('should count releases per month', () => {
+      const releases = [
+        new Release('v1.2.0', new Date('2025-06-01T10:00:00Z'), SemanticVersion.parse('1.2.0')!),
+        new Release('v1.1.1', new Date('2025-04-20T10:00:00Z'), SemanticVersion.parse('1.1.1')!),
+        new Release('v1.1.0', new Date('2025-04-02T10:00:00Z'), SemanticVersion.parse('1.1.0')!),
+      ];
+
+      const breakdown = ReleaseCalculator.calculateMonthlyBreakdown(releases, 3, now);
+
+      expect(breakdown.map(monthly => [monthly.month, monthly.count])).toEqual([
+        ['2025-04', 2],
+        ['2025-05', 0],
+        ['2025-06', 1],
+      ]);
+    });
+
+    it('should ignore releases outside the window', () => {
+      const releases = [
+        new Release('v0.1.0', new Date('2023-01-10T10:00:00Z'), SemanticVersion.parse('0.1.0')!),
+      ];
+
+      const breakdown = ReleaseCalculator.calculateMonthlyBreakdown(releases, 12, now);
+
+      expect(breakdown.reduce((sum, monthly) => sum + monthly.count, 0)).toBe(0);
+    });
+
+    it('should be included in calculated stats', () => {
+      const stats = ReleaseCalculator.calculateStats([]);
+
+      expect(stats.monthlyReleases).toHaveLength(ReleaseCalculator.MONTHLY_WINDOW);
+    });
+  });
+
+  describe('countRecentReleases', () => {
+    it('should count releases within the trailing window', () => {
+      const now = new Date('2025-03-31T12:00:00Z');
+      const releases = [
+        new Release('v1.2.0', new Date('2025-03-30T00:00:00Z'), SemanticVersion.parse('1.2.0')),
+        new Release('v1.1.0', new Date('2025-03-02T00:00:00Z'), SemanticVersion.parse('1.1.0')),
+        new Release('v1.0.0', new Date('2025-02-15T00:00:00Z'), SemanticVersion.parse('1.0.0')),
+      ];
+
+      expect(ReleaseCalculator.countRecentReleases(releases, 30, now)).toBe(2);
+      expect(ReleaseCalculator.countRecentReleases(releases, 7, now)).toBe(1);
+    });
+
+    it('should be included in calculated stats', () => {
+      const releases = [
+        new Release('v1.0.0', new Date(), SemanticVersion.parse('1.0.0')),
+      ];
+
+      expect(ReleaseCalculator.calculateStats(releases).releasesLast30Days).toBe(1);
+      expect(ReleaseCalculator.calculateStats([]).releasesLast30Days).toBe(0);
+    });
+  });
+
+  describe('filterVersionedReleases', () => {
+    it('should filter only stable versions', () => {
       const releases = [
         new Release('v2.0.0', new Date(), SemanticVersion.parse('2.0.0')!),
         new Release('some-tag', new Date(), null),
@@ -191,7 +340,7 @@ describe('ReleaseCalculator Service', () => {
         new Release('v1.0.0', new Date(), SemanticVersion.parse('1.0.0')!),
       ];
       
-      const semantic = ReleaseCalculator.filterSemanticVersions(releases);
+      const semantic = ReleaseCalculator.filterVersionedReleases(releases);
       
       expect(semantic).toHaveLength(2);
       expect(semantic[0].tagName).toBe('v2.0.0');
@@ -199,6 +348,199 @@ describe('ReleaseCalculator Service', () => {
     });
   });
 
+  describe('sortByVersion', () => {
+    it('should order versioned releases from highest to lowest version', () => {
+      const releases = ReleaseCalculator.parseTags([
+        { name: 'v1.4.9', date: new Date('2024-04-01') },
+        { name: 'v2.0.0', date: new Date('2024-03-01') },
+        { name: 'nightly', date: new Date('2024-02-15') },
+        { name: 'v1.10.0', date: new Date('2024-02-01') },
+      ]);
+
+      const sorted = ReleaseCalculator.sortByVersion(releases);
+
+      expect(sorted.map(release => release.tagName)).toEqual(['v2.0.0', 'v1.10.0', 'v1.4.9']);
+    });
+  });
+
+  describe('flagBackports', () => {
+    it('should flag releases tagged after a higher version', () => {
+      const releases = ReleaseCalculator.parseTags([
+        { name: 'v1.4.9', date: new Date('2024-04-01') },
+        { name: 'v2.0.1', date: new Date('2024-03-15') },
+        { name: 'v2.0.0', date: new Date('2024-03-01') },
+        { name: 'v1.4.8', date: new Date('2024-02-01') },
+        { name: 'nightly', date: new Date('2024-01-15') },
+      ]);
+
+      const backports = releases.filter(release => release.isBackport).map(release => release.tagName);
+
+      expect(backports).toEqual(['v1.4.9']);
+    });
+
+    it('should not flag a release after its own pre-release', () => {
+      const releases = ReleaseCalculator.parseTags([
+        { name: 'v2.0.0', date: new Date('2024-03-01') },
+        { name: 'v2.0.0-rc.1', date: new Date('2024-02-01') },
+      ]);
+
+      expect(releases.some(release => release.isBackport)).toBe(false);
+    });
+  });
+
+  describe('calculateStats with backports', () => {
+    it('should expose most recent and highest versioned releases', () => {
+      const releases = ReleaseCalculator.parseTags([
+        { name: 'v1.4.9', date: new Date('2024-04-01') },
+        { name: 'v2.0.0', date: new Date('2024-03-01') },
+        { name: 'v1.4.8', date: new Date('2024-02-01') },
+      ]);
+
+      const stats = ReleaseCalculator.calculateStats(releases);
+
+      expect(stats.latestVersionedRelease?.tagName).toBe('v1.4.9');
+      expect(stats.highestVersionedRelease?.tagName).toBe('v2.0.0');
+      expect(stats.backportReleases).toBe(1);
+      expect(stats.hasNewerBackport()).toBe(true);
+    });
+  });
+
+  describe('classifyBumps', () => {
+    const bumpsOf = (releases: Release[]) =>
+      Object.fromEntries(releases.map(release => [release.tagName, release.bumpType]));
+
+    it('should classify bumps against the previous version', () => {
+      const releases = ReleaseCalculator.parseTags([
+        { name: 'v2.0.0', date: new Date('2024-05-01') },
+        { name: 'v2.0.0-rc.1', date: new Date('2024-04-15') },
+        { name: 'v1.1.1', date: new Date('2024-04-01') },
+        { name: 'v1.1.0', date: new Date('2024-03-01') },
+        { name: 'v1.0.0', date: new Date('2024-02-01') },
+        { name: 'nightly', date: new Date('2024-01-15') },
+      ]);
+
+      expect(bumpsOf(releases)).toEqual({
+        'v2.0.0': 'major',
+        'v2.0.0-rc.1': 'prerelease',
+        'v1.1.1': 'patch',
+        'v1.1.0': 'minor',
+        'v1.0.0': null,
+        nightly: null,
+      });
+    });
+
+    it('should compare backports within their own line', () => {
+      const releases = ReleaseCalculator.parseTags([
+        { name: 'v1.4.9', date: new Date('2024-04-01') },
+        { name: 'v2.0.0', date: new Date('2024-03-01') },
+        { name: 'v1.4.8', date: new Date('2024-02-01') },
+      ]);
+
+      expect(bumpsOf(releases)).toEqual({ 'v1.4.9': 'patch', 'v2.0.0': 'major', 'v1.4.8': null });
+    });
+
+    it('should not count duplicate versions as a bump', () => {
+      const releases = ReleaseCalculator.parseTags([
+        { name: '1.0.0+build.2', date: new Date('2024-02-02') },
+        { name: 'v1.0.0', date: new Date('2024-02-01') },
+      ]);
+
+      expect(releases.every(release => release.bumpType === null)).toBe(true);
+    });
+  });
+
+  describe('bump counts', () => {
+    it('should count bumps per month and over the last 12 months', () => {
+      const now = new Date();
+      const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+      const releases = ReleaseCalculator.parseTags([
+        { name: 'v2.1.0', date: daysAgo(1) },
+        { name: 'v2.0.0', date: daysAgo(2) },
+        { name: 'v1.0.1', date: daysAgo(3) },
+        { name: 'v1.0.0', date: daysAgo(500) },
+      ]);
+
+      const stats = ReleaseCalculator.calculateStats(releases);
+      const monthlyTotal = stats.monthlyReleases.reduce(
+        (sum, monthly) => sum + monthly.bumpCounts.major + monthly.bumpCounts.minor + monthly.bumpCounts.patch,
+        0
+      );
+
+      expect(stats.bumpCounts).toEqual({ major: 1, minor: 1, patch: 1, prerelease: 0 });
+      expect(monthlyTotal).toBe(3);
+    });
+  });
+
+  describe('calculateCadence', () => {
+    const now = new Date('2025-06-30T00:00:00Z');
+    const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+    const releasesAt = (...days: number[]) =>
+      days.map((day, index) => new Release(`v1.0.${index}`, daysAgo(day), null));
+
+    it('should calculate mean, median and longest gap between releases', () => {
+      // Gaps (oldest first): 30, 10, 5, 1
+      const cadence = ReleaseCalculator.calculateCadence(releasesAt(1, 2, 7, 17, 47), now);
+
+      expect(cadence.meanDaysBetween).toBe(11.5);
+      expect(cadence.medianDaysBetween).toBe(7.5);
+      expect(cadence.longestGapDays).toBe(30);
+      expect(cadence.recentIntervals).toEqual([30, 10, 5, 1]);
+    });
+
+    it('should calculate releases per week over rolling windows', () => {
+      const cadence = ReleaseCalculator.calculateCadence(releasesAt(1, 2, 7, 17, 47), now);
+
+      expect(cadence.releasesPerWeek4w).toBe(1); // 4 releases in 28 days
+      expect(cadence.releasesPerWeek12w).toBe(0.42); // 5 releases in 84 days
+    });
+
+    it('should keep only the most recent intervals for the sparkline', () => {
+      const days = Array.from({ length: 30 }, (_, index) => index * 3);
+      const cadence = ReleaseCalculator.calculateCadence(releasesAt(...days), now);
+
+      expect(cadence.recentIntervals).toHaveLength(ReleaseCalculator.SPARKLINE_INTERVALS);
+    });
+
+    it('should handle fewer than two releases', () => {
+      const cadence = ReleaseCalculator.calculateCadence(releasesAt(3), now);
+
+      expect(cadence.meanDaysBetween).toBeNull();
+      expect(cadence.medianDaysBetween).toBeNull();
+      expect(cadence.longestGapDays).toBeNull();
+      expect(cadence.hasIntervals()).toBe(false);
+    });
+
+    it('should be included in calculated stats', () => {
+      const stats = ReleaseCalculator.calculateStats([]);
+
+      expect(stats.cadence).not.toBeNull();
+      expect(stats.cadence!.releasesPerWeek4w).toBe(0);
+    });
+  });
+
+  describe('calculateTrend', () => {
+    const now = new Date('2025-06-30T00:00:00Z');
+    const releasesAt = (...days: number[]) =>
+      days.map(day => new Release('tag', new Date(now.getTime() - day * 24 * 60 * 60 * 1000), null));
+
+    it('should detect accelerating cadence', () => {
+      expect(ReleaseCalculator.calculateTrend(releasesAt(5, 20, 40, 120), now)).toBe('accelerating');
+    });
+
+    it('should detect slowing cadence', () => {
+      expect(ReleaseCalculator.calculateTrend(releasesAt(5, 100, 120, 150), now)).toBe('slowing');
+    });
+
+    it('should report steady cadence within the threshold', () => {
+      expect(ReleaseCalculator.calculateTrend(releasesAt(10, 50, 100, 140), now)).toBe('steady');
+      expect(ReleaseCalculator.calculateTrend([], now)).toBe('steady');
+    });
+
+    it('should treat releases after a silent quarter as accelerating', () => {
+      expect(ReleaseCalculator.calculateTrend(releasesAt(10), now)).toBe('accelerating');
+    });
+  });
+
   describe('calculateDaysSince', () => {
     it('should calculate days since date', () => {
       const fiveDaysAgo = new Date();
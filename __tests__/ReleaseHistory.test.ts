@@ -0,0 +1,108 @@
+import { Release, SemanticVersion } from '@/domain/models/Release';
+import { ReleaseGap, VersionLine } from '@/domain/models/ReleaseHistory';
+import { ReleaseHistoryCalculator } from '@/domain/services/ReleaseHistoryCalculator';
+
+describe('ReleaseHistory', () => {
+  const release = (tagName: string, date: string) =>
+    new Release(tagName, new Date(date), SemanticVersion.parse(tagName));
+
+  // Newest first, with a backport to the 1.x line after 2.0.0
+  const releases = [
+    release('v2.1.0', '2025-06-01T00:00:00Z'),
+    release('v1.4.1', '2025-03-01T00:00:00Z'),
+    release('v2.0.0', '2025-02-01T00:00:00Z'),
+    release('nightly', '2024-12-01T00:00:00Z'),
+    release('v1.4.0', '2023-12-01T00:00:00Z'),
+    release('v1.0.0', '2023-06-01T00:00:00Z'),
+  ];
+  const now = new Date('2025-06-15T00:00:00Z');
+
+  describe('ReleaseHistoryCalculator', () => {
+    it('should span the monthly breakdown from the first release to now', () => {
+      const history = ReleaseHistoryCalculator.calculate(releases, false, now);
+
+      expect(history.monthlyReleases).toHaveLength(25);
+      expect(history.monthlyReleases[0].month).toBe('2023-06');
+      expect(history.monthlyReleases[24].month).toBe('2025-06');
+      expect(history.monthlyReleases.reduce((sum, monthly) => sum + monthly.count, 0)).toBe(6);
+    });
+
+    it('should cover at least a year', () => {
+      const history = ReleaseHistoryCalculator.calculate([releases[0]], false, now);
+
+      expect(history.monthlyReleases).toHaveLength(12);
+      expect(history.monthlyReleases[11].month).toBe('2025-06');
+    });
+
+    it('should group versioned releases by major version', () => {
+      const lines = ReleaseHistoryCalculator.groupByVersionLine(releases);
+
+      expect(lines.map(line => line.name)).toEqual(['2.x', '1.x']);
+      expect(lines[1].releaseCount).toBe(3);
+      expect(lines[1].firstRelease.tagName).toBe('v1.0.0');
+      expect(lines[1].latestRelease.tagName).toBe('v1.4.1');
+      expect(lines[1].highestRelease.tagName).toBe('v1.4.1');
+      expect(lines[0].highestRelease.tagName).toBe('v2.1.0');
+    });
+
+    it('should head a line of pre-releases with its highest pre-release', () => {
+      const lines = ReleaseHistoryCalculator.groupByVersionLine([
+        release('v3.0.0-beta.2', '2025-05-01T00:00:00Z'),
+        release('v3.0.0-beta.10', '2025-04-01T00:00:00Z'),
+      ]);
+
+      expect(lines[0].name).toBe('3.x');
+      expect(lines[0].highestRelease.tagName).toBe('v3.0.0-beta.10');
+    });
+
+    it('should calculate the gap before each release', () => {
+      const gaps = ReleaseHistoryCalculator.calculateGaps(releases);
+
+      expect(gaps).toHaveLength(5);
+      expect(gaps[0].from.tagName).toBe('v1.4.1');
+      expect(gaps[0].to.tagName).toBe('v2.1.0');
+      expect(gaps[0].days).toBe(92);
+      expect(gaps[4].from.tagName).toBe('v1.0.0');
+      expect(gaps[4].days).toBe(183);
+    });
+
+    it('should handle a repository without releases', () => {
+      const history = ReleaseHistoryCalculator.calculate([], false, now);
+
+      expect(history.releases).toEqual([]);
+      expect(history.monthlyReleases).toHaveLength(12);
+      expect(history.versionLines).toEqual([]);
+      expect(history.gaps).toEqual([]);
+    });
+  });
+
+  describe('getLongestGaps', () => {
+    it('should return the longest gaps first', () => {
+      const history = ReleaseHistoryCalculator.calculate(releases, true, now);
+
+      expect(history.getLongestGaps(2).map(gap => gap.days)).toEqual([366, 183]);
+      expect(history.isTruncated).toBe(true);
+    });
+  });
+
+  describe('VersionLine', () => {
+    it('should tell whether the line was released recently', () => {
+      const line = ReleaseHistoryCalculator.groupByVersionLine(releases)[1];
+
+      expect(line.isActiveWithin(120, now)).toBe(true);
+      expect(line.isActiveWithin(90, now)).toBe(false);
+    });
+
+    it('should reject a line without releases', () => {
+      expect(() => new VersionLine('1.x', 1, 0, releases[0], releases[0], releases[0])).toThrow(
+        'A version line needs at least one release'
+      );
+    });
+  });
+
+  describe('ReleaseGap', () => {
+    it('should reject negative gaps', () => {
+      expect(() => new ReleaseGap(releases[1], releases[0], -1)).toThrow('Release gap cannot be negative');
+    });
+  });
+});
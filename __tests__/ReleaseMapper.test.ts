@@ -0,0 +1,78 @@
+import { ReleaseMapper } from '@/infrastructure/adapters/github/mappers/ReleaseMapper';
+
+describe('ReleaseMapper', () => {
+  const taggerDate = '2025-03-03T00:00:00Z';
+  const releaseDate = new Date('2025-03-02T00:00:00Z');
+  const commitDate = '2025-03-01T00:00:00Z';
+
+  const annotatedTag = (name: string, tagger: string | null, commit: string | null = commitDate) => ({
+    name,
+    target: {
+      __typename: 'Tag',
+      tagger: tagger ? { date: tagger } : null,
+      target: commit ? { __typename: 'Commit', committedDate: commit } : { __typename: 'Tree' },
+    },
+  });
+  const lightweightTag = (name: string, commit: string = commitDate) => ({
+    name,
+    target: { __typename: 'Commit', committedDate: commit },
+  });
+
+  describe('mapTagRef', () => {
+    it('should date an annotated tag by its tagger first', () => {
+      const releaseDates = new Map([['v1.0.0', releaseDate]]);
+
+      expect(ReleaseMapper.mapTagRef(annotatedTag('v1.0.0', taggerDate), releaseDates)).toEqual({
+        name: 'v1.0.0',
+        date: new Date(taggerDate),
+        dateSource: 'tagger',
+      });
+    });
+
+    it('should date a tag by its release when there is no tagger date', () => {
+      const releaseDates = new Map([['v1.0.0', releaseDate]]);
+
+      expect(ReleaseMapper.mapTagRef(lightweightTag('v1.0.0'), releaseDates)).toEqual({
+        name: 'v1.0.0',
+        date: releaseDate,
+        dateSource: 'release',
+      });
+      expect(ReleaseMapper.mapTagRef(annotatedTag('v1.0.0', null), releaseDates)!.dateSource).toBe('release');
+    });
+
+    it('should date a tag by its commit, looking through annotated tags', () => {
+      expect(ReleaseMapper.mapTagRef(lightweightTag('v1.0.0'))).toEqual({
+        name: 'v1.0.0',
+        date: new Date(commitDate),
+        dateSource: 'commit',
+      });
+      expect(ReleaseMapper.mapTagRef(annotatedTag('v1.0.0', null))!.date).toEqual(new Date(commitDate));
+    });
+
+    it('should never date a tag "now" when no date is known', () => {
+      expect(ReleaseMapper.mapTagRef(annotatedTag('v1.0.0', null, null))).toBeNull();
+      expect(ReleaseMapper.mapTagRef({ name: 'v1.0.0', target: { __typename: 'Blob' } })).toBeNull();
+      expect(ReleaseMapper.mapTagRef({ name: 'v1.0.0', target: null })).toBeNull();
+    });
+  });
+
+  describe('mapTagRefs', () => {
+    it('should leave out tags without a known date', () => {
+      const tags = ReleaseMapper.mapTagRefs([lightweightTag('v2.0.0'), annotatedTag('v1.0.0', null, null)]);
+
+      expect(tags.map(tag => tag.name)).toEqual(['v2.0.0']);
+    });
+  });
+
+  describe('mapReleaseDates', () => {
+    it('should map published releases by tag name, skipping drafts and unpublished releases', () => {
+      const dates = ReleaseMapper.mapReleaseDates([
+        { tag_name: 'v2.0.0', draft: false, published_at: '2025-04-01T00:00:00Z' },
+        { tag_name: 'v2.1.0', draft: true, published_at: '2025-05-01T00:00:00Z' },
+        { tag_name: 'v2.2.0', draft: false, published_at: null },
+      ]);
+
+      expect(Array.from(dates.entries())).toEqual([['v2.0.0', new Date('2025-04-01T00:00:00Z')]]);
+    });
+  });
+});
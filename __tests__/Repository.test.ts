@@ -143,4 +143,42 @@ describe('Repository', () => {
       expect(repo.isRecentlyUpdated()).toBe(false);
     });
   });
+
+  describe('isUnchangedSince', () => {
+    const updatedAt = new Date('2025-06-01T00:00:00Z');
+    const repo = (pushedAt: string | null, updated: Date = updatedAt) =>
+      new Repository(
+        'repo',
+        'owner',
+        'https://github.com/owner/repo',
+        null,
+        null,
+        0,
+        updated,
+        null,
+        null,
+        null,
+        null,
+        'main',
+        null,
+        pushedAt ? new Date(pushedAt) : null
+      );
+
+    it('should be unchanged when neither pushed nor updated', () => {
+      expect(repo('2025-06-01T00:00:00Z').isUnchangedSince(repo('2025-06-01T00:00:00Z'))).toBe(true);
+    });
+
+    it('should not count as unchanged when the host does not report pushes', () => {
+      expect(repo(null).isUnchangedSince(repo(null))).toBe(false);
+    });
+
+    it('should be changed after a push', () => {
+      expect(repo('2025-06-02T00:00:00Z').isUnchangedSince(repo('2025-06-01T00:00:00Z'))).toBe(false);
+    });
+
+    it('should be changed after an update', () => {
+      const pushedAt = '2025-06-01T00:00:00Z';
+      expect(repo(pushedAt, new Date('2025-06-02T00:00:00Z')).isUnchangedSince(repo(pushedAt))).toBe(false);
+    });
+  });
 });
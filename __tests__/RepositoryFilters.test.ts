@@ -0,0 +1,138 @@
+import {
+  DEFAULT_FILTERS,
+  RepositoryFilters,
+  applyFilters,
+  getOwners,
+  parseFilters,
+  toSearchParams,
+} from '../lib/utils/repositoryFilters';
+
+describe('repositoryFilters', () => {
+  const repository = (
+    name: string,
+    options: {
+      owner?: string;
+      description?: string | null;
+      language?: string | null;
+      starCount?: number;
+      updatedAt?: string;
+      totalReleases?: number;
+      daysSinceLatestRelease?: number | null;
+      releasesLast30Days?: number;
+    } = {}
+  ) => ({
+    name,
+    owner: options.owner ?? 'acme',
+    description: options.description ?? null,
+    language: options.language ?? null,
+    starCount: options.starCount ?? 0,
+    updatedAt: options.updatedAt ?? '2025-01-01T00:00:00Z',
+    releaseStats: options.totalReleases !== undefined
+      ? {
+          totalReleases: options.totalReleases,
+          daysSinceLatestRelease: options.daysSinceLatestRelease ?? null,
+          releasesLast30Days: options.releasesLast30Days ?? 0,
+        }
+      : null,
+  });
+
+  const filters = (changes: Partial<RepositoryFilters>): RepositoryFilters => ({ ...DEFAULT_FILTERS, ...changes });
+
+  describe('parseFilters', () => {
+    it('should default missing parameters', () => {
+      expect(parseFilters(new URLSearchParams())).toEqual(DEFAULT_FILTERS);
+    });
+
+    it('should read every parameter', () => {
+      const params = new URLSearchParams('q=foo+bar&owner=acme&language=Go&hasReleases=true&releasedWithin=30&sort=stars');
+
+      expect(parseFilters(params)).toEqual({
+        query: 'foo bar',
+        owner: 'acme',
+        language: 'Go',
+        hasReleases: true,
+        releasedWithinDays: 30,
+        sort: 'stars',
+      });
+    });
+
+    it('should ignore invalid values', () => {
+      const params = new URLSearchParams('releasedWithin=-5&sort=random&hasReleases=yes');
+
+      expect(parseFilters(params)).toEqual(DEFAULT_FILTERS);
+    });
+  });
+
+  describe('toSearchParams', () => {
+    it('should omit default values', () => {
+      expect(toSearchParams(DEFAULT_FILTERS).toString()).toBe('');
+      expect(toSearchParams(filters({ query: '   ' })).toString()).toBe('');
+    });
+
+    it('should keep the query as typed, including spaces', () => {
+      expect(toSearchParams(filters({ query: 'foo ' })).get('q')).toBe('foo ');
+      expect(parseFilters(toSearchParams(filters({ query: 'foo bar' }))).query).toBe('foo bar');
+    });
+
+    it('should round-trip through parseFilters', () => {
+      const original = filters({
+        query: 'api',
+        owner: 'acme',
+        language: 'TypeScript',
+        hasReleases: true,
+        releasedWithinDays: 90,
+        sort: 'lastRelease',
+      });
+
+      expect(parseFilters(toSearchParams(original))).toEqual(original);
+    });
+  });
+
+  describe('applyFilters', () => {
+    const repositories = [
+      repository('api', { description: 'Public REST API', language: 'Go', starCount: 5, totalReleases: 10, daysSinceLatestRelease: 3, releasesLast30Days: 4 }),
+      repository('web', { description: 'Frontend', language: 'TypeScript', starCount: 20, totalReleases: 2, daysSinceLatestRelease: 60, releasesLast30Days: 0 }),
+      repository('docs', { language: 'TypeScript', updatedAt: '2025-06-01T00:00:00Z' }),
+    ];
+    const names = (result: { name: string }[]) => result.map(repo => repo.name);
+
+    it('should search names and descriptions, ignoring case and surrounding spaces', () => {
+      expect(names(applyFilters(repositories, filters({ query: '  rest api ' })))).toEqual(['api']);
+      expect(names(applyFilters(repositories, filters({ query: 'FRONT' })))).toEqual(['web']);
+    });
+
+    it('should filter by owner', () => {
+      const withOtherOwner = [...repositories, repository('deploy', { owner: 'svc-deploy' })];
+
+      expect(names(applyFilters(withOtherOwner, filters({ owner: 'svc-deploy' })))).toEqual(['deploy']);
+      expect(names(applyFilters(withOtherOwner, filters({ owner: 'acme' })))).toEqual(['api', 'docs', 'web']);
+      expect(applyFilters(withOtherOwner, filters({ owner: 'unknown' }))).toEqual([]);
+    });
+
+    it('should filter by language and releases', () => {
+      expect(names(applyFilters(repositories, filters({ language: 'TypeScript' })))).toEqual(['docs', 'web']);
+      expect(names(applyFilters(repositories, filters({ hasReleases: true })))).toEqual(['api', 'web']);
+      expect(names(applyFilters(repositories, filters({ releasedWithinDays: 30 })))).toEqual(['api']);
+    });
+
+    it('should sort by the selected order, then by name', () => {
+      expect(names(applyFilters(repositories, filters({ sort: 'releases' })))).toEqual(['api', 'docs', 'web']);
+      expect(names(applyFilters(repositories, filters({ sort: 'lastRelease' })))).toEqual(['api', 'web', 'docs']);
+      expect(names(applyFilters(repositories, filters({ sort: 'stars' })))).toEqual(['web', 'api', 'docs']);
+      expect(names(applyFilters(repositories, filters({ sort: 'updated' })))).toEqual(['docs', 'api', 'web']);
+    });
+  });
+
+  describe('getOwners', () => {
+    it('should list each owner once, sorted', () => {
+      const repositories = [
+        repository('web', { owner: 'svc-deploy' }),
+        repository('api', { owner: 'acme' }),
+        repository('docs', { owner: 'acme' }),
+      ];
+
+      expect(getOwners(repositories)).toEqual(['acme', 'svc-deploy']);
+      expect(getOwners([])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,27 @@
+import { encodeRepositoryPath, parseRepositoryPath } from '../lib/utils/repositoryPaths';
+
+describe('repositoryPaths', () => {
+  describe('encodeRepositoryPath', () => {
+    it('should keep the segments of nested owners', () => {
+      expect(encodeRepositoryPath('acme', 'api')).toBe('acme/api');
+      expect(encodeRepositoryPath('group/sub', 'api')).toBe('group/sub/api');
+    });
+
+    it('should encode each segment', () => {
+      expect(encodeRepositoryPath('my group', 'api#1')).toBe('my%20group/api%231');
+    });
+  });
+
+  describe('parseRepositoryPath', () => {
+    it('should read the last segment as the repository name', () => {
+      expect(parseRepositoryPath(['acme', 'api'])).toEqual({ owner: 'acme', repo: 'api' });
+      expect(parseRepositoryPath(['group', 'sub', 'api'])).toEqual({ owner: 'group/sub', repo: 'api' });
+    });
+
+    it('should reject paths without an owner and a name', () => {
+      expect(parseRepositoryPath(undefined)).toBeNull();
+      expect(parseRepositoryPath(['api'])).toBeNull();
+      expect(parseRepositoryPath(['acme', ''])).toBeNull();
+    });
+  });
+});
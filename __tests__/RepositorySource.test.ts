@@ -0,0 +1,61 @@
+import { RepositorySource } from '@/domain/models/RepositorySource';
+
+describe('RepositorySource Domain Model', () => {
+  describe('parse', () => {
+    it('should read a bare name as an organization', () => {
+      const source = RepositorySource.parse('acme');
+
+      expect(source.kind).toBe('org');
+      expect(source.owner).toBe('acme');
+      expect(source.repo).toBeNull();
+    });
+
+    it('should read owner/repo as a single repository', () => {
+      const source = RepositorySource.parse(' acme/api ');
+
+      expect(source.kind).toBe('repo');
+      expect(source.owner).toBe('acme');
+      expect(source.repo).toBe('api');
+    });
+
+    it('should read prefixed sources', () => {
+      expect(RepositorySource.parse('user:octocat').toString()).toBe('user:octocat');
+      expect(RepositorySource.parse('org:platform/backend').toString()).toBe('org:platform/backend');
+      expect(RepositorySource.parse('repo:platform/backend/api').owner).toBe('platform/backend');
+    });
+
+    it('should reject an unknown prefix', () => {
+      expect(() => RepositorySource.parse('team:core')).toThrow("Unknown repository source 'team:core'");
+    });
+
+    it('should reject a repository source without a name', () => {
+      expect(() => RepositorySource.parse('repo:acme')).toThrow('must be written as owner/repo');
+      expect(() => RepositorySource.parse('acme/')).toThrow('must be written as owner/repo');
+    });
+
+    it('should reject an empty source', () => {
+      expect(() => RepositorySource.parse('user:')).toThrow('Repository source owner is required');
+    });
+  });
+
+  it('should label repository sources with their full name', () => {
+    expect(RepositorySource.organization('acme').getLabel()).toBe('acme');
+    expect(new RepositorySource('repo', 'acme', 'api').getLabel()).toBe('acme/api');
+  });
+
+  it('should cover the repositories it lists', () => {
+    expect(RepositorySource.parse('acme').covers('Acme', 'api')).toBe(true);
+    expect(RepositorySource.parse('user:octocat').covers('octocat', 'dotfiles')).toBe(true);
+    expect(RepositorySource.parse('acme/api').covers('acme', 'API')).toBe(true);
+    expect(RepositorySource.parse('acme/api').covers('acme', 'web')).toBe(false);
+    expect(RepositorySource.parse('acme').covers('globex', 'api')).toBe(false);
+  });
+
+  it('should cover the subgroups of an organization', () => {
+    expect(RepositorySource.parse('acme').covers('acme/platform', 'api')).toBe(true);
+    expect(RepositorySource.parse('org:acme/platform').covers('Acme/Platform/infra', 'api')).toBe(true);
+    expect(RepositorySource.parse('acme').covers('acme-labs', 'api')).toBe(false);
+    expect(RepositorySource.parse('user:octocat').covers('octocat/sub', 'dotfiles')).toBe(false);
+    expect(RepositorySource.parse('acme/api').covers('acme/platform', 'api')).toBe(false);
+  });
+});
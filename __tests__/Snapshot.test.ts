@@ -0,0 +1,109 @@
+import { OrganizationSnapshot, RepositoryMetrics, RepositorySnapshot } from '@/domain/models/Snapshot';
+import { Repository } from '@/domain/models/Repository';
+import { ReleaseStats } from '@/domain/models/Release';
+import { BuildStats } from '@/domain/models/Build';
+import { ActivityStats } from '@/domain/models/Activity';
+import { SnapshotCalculator } from '@/domain/services/SnapshotCalculator';
+
+const EMPTY_METRICS: RepositoryMetrics = {
+  starCount: 0,
+  totalReleases: null,
+  releasesLast30Days: null,
+  daysSinceLatestRelease: null,
+  medianDaysBetweenReleases: null,
+  buildSuccessRate: null,
+  commits: null,
+  mergedPullRequests: null,
+  activeContributors: null,
+  deploymentsPerWeek: null,
+  leadTimeHours: null,
+  changeFailureRate: null,
+  timeToRestoreHours: null,
+};
+
+describe('Snapshot Domain Model', () => {
+  const now = new Date('2025-06-30T23:30:00Z');
+
+  describe('RepositorySnapshot', () => {
+    it('should create a snapshot for a day', () => {
+      const snapshot = new RepositorySnapshot('2025-06-30', 'acme', 'api', EMPTY_METRICS);
+
+      expect(snapshot.getFullName()).toBe('acme/api');
+    });
+
+    it('should reject a date that is not a day key', () => {
+      expect(() => new RepositorySnapshot('2025-06-30T00:00:00Z', 'acme', 'api', EMPTY_METRICS))
+        .toThrow('Snapshot date must be formatted as YYYY-MM-DD');
+    });
+
+    it('should reject negative organization counts', () => {
+      expect(() => new OrganizationSnapshot('2025-06-30', -1, 0, 0, null, null, null))
+        .toThrow('Snapshot counts cannot be negative');
+    });
+  });
+
+  describe('SnapshotCalculator', () => {
+    it('should key snapshots by UTC day', () => {
+      expect(SnapshotCalculator.toDateKey(now)).toBe('2025-06-30');
+      expect(SnapshotCalculator.getPeriodStart(30, now)).toBe('2025-05-31');
+    });
+
+    it('should capture the metrics of an enriched repository', () => {
+      const repository = new Repository(
+        'api',
+        'acme',
+        'https://github.com/acme/api',
+        null,
+        'TypeScript',
+        12,
+        now,
+        new ReleaseStats(8, 8, null, null, 4, [], false, 2),
+        new BuildStats(9, 1, 0, 10, 90),
+        new ActivityStats(90, 40, 12, 1000, 200, 3.1)
+      );
+
+      const snapshot = SnapshotCalculator.fromRepository(repository, now);
+
+      expect(snapshot.date).toBe('2025-06-30');
+      expect(snapshot.metrics).toEqual({
+        ...EMPTY_METRICS,
+        starCount: 12,
+        totalReleases: 8,
+        releasesLast30Days: 2,
+        daysSinceLatestRelease: 4,
+        buildSuccessRate: 90,
+        commits: 40,
+        mergedPullRequests: 12,
+      });
+    });
+
+    it('should not record a success rate for a repository without builds', () => {
+      const repository = new Repository(
+        'docs', 'acme', 'https://github.com/acme/docs', null, null, 0, now, null, new BuildStats(0, 0, 0, 0, 0)
+      );
+
+      expect(SnapshotCalculator.fromRepository(repository, now).metrics.buildSuccessRate).toBeNull();
+    });
+
+    it('should aggregate snapshots per day', () => {
+      const snapshots = [
+        new RepositorySnapshot('2025-06-02', 'acme', 'api', {
+          ...EMPTY_METRICS, totalReleases: 5, releasesLast30Days: 3, daysSinceLatestRelease: 2,
+          buildSuccessRate: 90, deploymentsPerWeek: 0.5, commits: 20,
+        }),
+        new RepositorySnapshot('2025-06-02', 'acme', 'web', {
+          ...EMPTY_METRICS, totalReleases: 1, releasesLast30Days: 0, daysSinceLatestRelease: 120,
+          buildSuccessRate: 75,
+        }),
+        new RepositorySnapshot('2025-06-02', 'acme', 'docs', EMPTY_METRICS),
+        new RepositorySnapshot('2025-06-01', 'acme', 'api', { ...EMPTY_METRICS, releasesLast30Days: 2 }),
+      ];
+
+      const organization = SnapshotCalculator.aggregateByDate(snapshots);
+
+      expect(organization.map(snapshot => snapshot.date)).toEqual(['2025-06-01', '2025-06-02']);
+      expect(organization[0].averageBuildSuccessRate).toBeNull();
+      expect(organization[1]).toEqual(new OrganizationSnapshot('2025-06-02', 3, 3, 1, 82.5, 0.5, 20));
+    });
+  });
+});
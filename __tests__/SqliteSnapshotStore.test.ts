@@ -0,0 +1,82 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { SqliteSnapshotStore } from '@/infrastructure/adapters/snapshot/SqliteSnapshotStore';
+import { RepositoryMetrics, RepositorySnapshot } from '@/domain/models/Snapshot';
+
+const metrics = (overrides: Partial<RepositoryMetrics> = {}): RepositoryMetrics => ({
+  starCount: 3,
+  totalReleases: 10,
+  releasesLast30Days: 2,
+  daysSinceLatestRelease: 5,
+  medianDaysBetweenReleases: 12.5,
+  buildSuccessRate: 92.3,
+  commits: 40,
+  mergedPullRequests: 8,
+  activeContributors: 4,
+  deploymentsPerWeek: 0.31,
+  leadTimeHours: 30.5,
+  changeFailureRate: null,
+  timeToRestoreHours: null,
+  ...overrides,
+});
+
+describe('SqliteSnapshotStore', () => {
+  let store: SqliteSnapshotStore;
+
+  beforeEach(() => {
+    store = new SqliteSnapshotStore(':memory:');
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it('should store and read back snapshots with every metric', async () => {
+    const snapshot = new RepositorySnapshot('2025-06-01', 'acme', 'api', metrics());
+
+    await store.save([snapshot]);
+
+    expect(await store.find({ since: '2025-01-01' })).toEqual([snapshot]);
+  });
+
+  it('should replace the snapshot of the same repository and day', async () => {
+    await store.save([new RepositorySnapshot('2025-06-01', 'acme', 'api', metrics({ releasesLast30Days: 1 }))]);
+    await store.save([new RepositorySnapshot('2025-06-01', 'acme', 'api', metrics({ releasesLast30Days: 4 }))]);
+
+    const snapshots = await store.find({ since: '2025-06-01' });
+
+    expect(snapshots).toHaveLength(1);
+    expect(snapshots[0].metrics.releasesLast30Days).toBe(4);
+  });
+
+  it('should filter by period, owner and repository, ordered by date', async () => {
+    await store.save([
+      new RepositorySnapshot('2025-06-02', 'acme', 'web', metrics()),
+      new RepositorySnapshot('2025-06-02', 'acme', 'api', metrics()),
+      new RepositorySnapshot('2025-06-01', 'acme', 'api', metrics()),
+      new RepositorySnapshot('2025-05-01', 'acme', 'api', metrics()),
+      new RepositorySnapshot('2025-06-02', 'globex', 'api', metrics()),
+    ]);
+
+    const owner = await store.find({ owner: 'acme', since: '2025-06-01' });
+    const repository = await store.find({ owner: 'acme', name: 'api', since: '2025-01-01' });
+
+    expect(owner.map(s => `${s.date} ${s.name}`)).toEqual(['2025-06-01 api', '2025-06-02 api', '2025-06-02 web']);
+    expect(repository.map(s => s.date)).toEqual(['2025-05-01', '2025-06-01', '2025-06-02']);
+  });
+
+  it('should create the database file and its directory on first use', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'washhouse-snapshots-'));
+    const databasePath = path.join(dir, 'nested', 'snapshots.db');
+
+    const fileStore = new SqliteSnapshotStore(databasePath);
+    await fileStore.save([new RepositorySnapshot('2025-06-01', 'acme', 'api', metrics())]);
+    fileStore.close();
+
+    const reopened = new SqliteSnapshotStore(databasePath);
+    expect(await reopened.find({ since: '2025-06-01' })).toHaveLength(1);
+    reopened.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,81 @@
+import { mock, instance, when, verify, anyString } from 'ts-mockito';
+import { SyncRepository } from '@/usecase/SyncRepository';
+import { RepositoryList, RepositoryProvider } from '@/domain/ports/RepositoryProvider';
+import { Logger } from '@/domain/ports/Logger';
+import { Repository } from '@/domain/models/Repository';
+import { RepositorySource } from '@/domain/models/RepositorySource';
+import { InMemoryCacheProvider } from '@/infrastructure/adapters/cache/InMemoryCacheProvider';
+
+describe('SyncRepository', () => {
+  let mockRepositoryProvider: RepositoryProvider;
+  let cacheProvider: InMemoryCacheProvider<RepositoryList>;
+  let syncRepository: SyncRepository;
+
+  const acme = RepositorySource.organization('acme');
+  const acmeApi = RepositorySource.parse('acme/api');
+  const octocat = RepositorySource.parse('user:octocat');
+  const cachedAt = new Date('2025-06-01T10:00:00Z');
+
+  const repository = (owner: string, name: string, starCount: number = 0) =>
+    new Repository(name, owner, `https://github.com/${owner}/${name}`, null, null, starCount, new Date());
+  const cachedNames = async (source: RepositorySource) =>
+    (await cacheProvider.get(source.toString()))!.value.repositories.map(repo => repo.getFullName());
+
+  beforeEach(async () => {
+    mockRepositoryProvider = mock<RepositoryProvider>();
+    cacheProvider = new InMemoryCacheProvider<RepositoryList>(900);
+    syncRepository = new SyncRepository(instance(mockRepositoryProvider), cacheProvider, instance(mock<Logger>()));
+
+    when(mockRepositoryProvider.getRepository('acme', 'api')).thenResolve(repository('acme', 'api', 42));
+    when(mockRepositoryProvider.getRepositoryTags('acme', anyString())).thenResolve({ tags: [], truncated: false });
+    await cacheProvider.set(
+      acme.toString(),
+      { repositories: [repository('acme', 'web'), repository('acme', 'api')], truncated: false },
+      cachedAt
+    );
+    await cacheProvider.set(acmeApi.toString(), { repositories: [repository('acme', 'api')], truncated: false }, cachedAt);
+  });
+
+  describe('execute', () => {
+    it('should refetch the repository once and update every cached list holding it', async () => {
+      const updated = await syncRepository.execute([acme, acmeApi, octocat], { owner: 'acme', name: 'api', removed: false });
+
+      expect(updated).toBe(2);
+      expect(await cachedNames(acme)).toEqual(['acme/api', 'acme/web']);
+      const entry = (await cacheProvider.get(acme.toString()))!;
+      expect(entry.value.repositories[0].starCount).toBe(42);
+      expect(entry.value.repositories[0].syncedAt).not.toBeNull();
+      expect(entry.cachedAt).toEqual(cachedAt);
+      verify(mockRepositoryProvider.getRepository('acme', 'api')).once();
+      verify(mockRepositoryProvider.getRepositoryTags('acme', 'web')).never();
+    });
+
+    it('should add a repository new to a cached list', async () => {
+      when(mockRepositoryProvider.getRepository('acme', 'cli')).thenResolve(repository('acme', 'cli'));
+
+      await syncRepository.execute([acme, acmeApi], { owner: 'acme', name: 'cli', removed: false });
+
+      expect(await cachedNames(acme)).toEqual(['acme/cli', 'acme/web', 'acme/api']);
+      expect(await cachedNames(acmeApi)).toEqual(['acme/api']);
+    });
+
+    it('should remove a removed repository without fetching it', async () => {
+      await syncRepository.execute([acme, acmeApi], { owner: 'acme', name: 'api', removed: true });
+
+      expect(await cachedNames(acme)).toEqual(['acme/web']);
+      expect(await cachedNames(acmeApi)).toEqual([]);
+      verify(mockRepositoryProvider.getRepository(anyString(), anyString())).never();
+    });
+
+    it('should leave sources without cached data alone', async () => {
+      await cacheProvider.delete(acme.toString());
+      await cacheProvider.delete(acmeApi.toString());
+
+      const updated = await syncRepository.execute([acme, acmeApi], { owner: 'acme', name: 'api', removed: false });
+
+      expect(updated).toBe(0);
+      expect(await cacheProvider.get(acme.toString())).toBeNull();
+      verify(mockRepositoryProvider.getRepository(anyString(), anyString())).never();
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { Version } from '@/domain/models/Version';
+import { SemVerScheme, CalVerScheme, RegexVersionScheme } from '@/domain/models/VersionScheme';
+import { VersionSchemeResolver } from '@/domain/services/VersionSchemeResolver';
+import { ReleaseCalculator } from '@/domain/services/ReleaseCalculator';
+
+describe('Version Domain Model', () => {
+  describe('Version', () => {
+    it('should reject empty or negative segments', () => {
+      expect(() => new Version('custom', [])).toThrow('Version segments must be non-negative integers');
+      expect(() => new Version('custom', [1, -2])).toThrow('Version segments must be non-negative integers');
+    });
+
+    it('should compare segment by segment', () => {
+      expect(new Version('custom', [1, 10]).compareTo(new Version('custom', [1, 9]))).toBeGreaterThan(0);
+      expect(new Version('custom', [1, 2]).compareTo(new Version('custom', [1, 2, 0]))).toBe(0);
+      expect(new Version('custom', [2]).compareTo(new Version('custom', [10]))).toBeLessThan(0);
+    });
+
+    it('should sort pre-releases before their release', () => {
+      const release = new Version('custom', [1, 0]);
+      const preRelease = new Version('custom', [1, 0], 'rc.1');
+
+      expect(preRelease.compareTo(release)).toBeLessThan(0);
+      expect(release.compareTo(preRelease)).toBeGreaterThan(0);
+      expect(preRelease.isStable()).toBe(false);
+    });
+  });
+
+  describe('SemVerScheme', () => {
+    it('should parse semantic versions', () => {
+      const version = new SemVerScheme().parse('v1.2.3-beta');
+
+      expect(version?.scheme).toBe('semver');
+      expect(version?.segments).toEqual([1, 2, 3]);
+      expect(version?.preRelease).toBe('beta');
+    });
+
+    it('should reject other tags', () => {
+      expect(new SemVerScheme().parse('release-42')).toBeNull();
+    });
+  });
+
+  describe('CalVerScheme', () => {
+    const scheme = new CalVerScheme();
+
+    it('should parse YYYY.MM.MICRO versions', () => {
+      const version = scheme.parse('2025.03.1');
+
+      expect(version?.scheme).toBe('calver');
+      expect(version?.segments).toEqual([2025, 3, 1]);
+      expect(version?.isStable()).toBe(true);
+      expect(version?.toString()).toBe('2025.03.1');
+    });
+
+    it('should parse short years, missing micro and pre-releases', () => {
+      expect(scheme.parse('24.04')?.segments).toEqual([2024, 4]);
+      expect(scheme.parse('v2025.12.0-rc1')?.preRelease).toBe('rc1');
+    });
+
+    it('should reject invalid months and non-calendar versions', () => {
+      expect(scheme.parse('2025.13.1')).toBeNull();
+      expect(scheme.parse('1.2.3')).toBeNull();
+      expect(scheme.parse('release-42')).toBeNull();
+    });
+
+    it('should require a zero-padded month after a short year', () => {
+      expect(scheme.parse('v18.1.0')).toBeNull();
+      expect(scheme.parse('21.3.2')).toBeNull();
+      expect(scheme.parse('18.10.0')?.segments).toEqual([2018, 10, 0]);
+    });
+  });
+
+  describe('RegexVersionScheme', () => {
+    it('should parse named groups', () => {
+      const scheme = new RegexVersionScheme('^release-(?<major>\\d+)(?:\\.(?<minor>\\d+))?(?:-(?<pre>\\w+))?$');
+
+      expect(scheme.parse('release-42')?.segments).toEqual([42]);
+      expect(scheme.parse('release-42.1')?.segments).toEqual([42, 1]);
+      expect(scheme.parse('release-43-rc')?.preRelease).toBe('rc');
+      expect(scheme.parse('v1.0.0')).toBeNull();
+    });
+
+    it('should require a major group', () => {
+      expect(() => new RegexVersionScheme('^release-(\\d+)$')).toThrow("must have a named group 'major'");
+    });
+
+    it('should reject invalid patterns', () => {
+      expect(() => new RegexVersionScheme('^release-(?<major>\\d+')).toThrow();
+    });
+  });
+});
+
+describe('VersionSchemeResolver Service', () => {
+  describe('fromSpec', () => {
+    it('should create schemes from specs', () => {
+      expect(VersionSchemeResolver.fromSpec('semver')?.name).toBe('semver');
+      expect(VersionSchemeResolver.fromSpec('calver')?.name).toBe('calver');
+      expect(VersionSchemeResolver.fromSpec('regex:^r(?<major>\\d+)$')?.name).toBe('regex');
+    });
+
+    it('should return null for auto-detection', () => {
+      expect(VersionSchemeResolver.fromSpec('auto')).toBeNull();
+      expect(VersionSchemeResolver.fromSpec('')).toBeNull();
+    });
+
+    it('should throw for unknown schemes', () => {
+      expect(() => VersionSchemeResolver.fromSpec('romver')).toThrow("Unknown version scheme 'romver'");
+    });
+  });
+
+  describe('detect', () => {
+    it('should detect SemVer tags', () => {
+      expect(VersionSchemeResolver.detect(['v1.0.0', 'v1.1.0', 'nightly']).name).toBe('semver');
+    });
+
+    it('should prefer CalVer for calendar tags that are also valid SemVer', () => {
+      expect(VersionSchemeResolver.detect(['2025.3.1', '2025.2.0', '2024.12.3']).name).toBe('calver');
+    });
+
+    it('should prefer SemVer for tags that only look like short-year calendar versions', () => {
+      expect(VersionSchemeResolver.detect(['v18.1.0', 'v21.3.2', 'v20.0.1']).name).toBe('semver');
+      expect(VersionSchemeResolver.detect(['v18.10.0', 'v18.11.0', 'v18.12.0']).name).toBe('semver');
+    });
+
+    it('should detect short-year CalVer that is not valid SemVer', () => {
+      expect(VersionSchemeResolver.detect(['24.04', '23.10', '23.04.1']).name).toBe('calver');
+    });
+
+    it('should fall back to SemVer when no tag is versioned', () => {
+      expect(VersionSchemeResolver.detect(['release-1', 'release-2']).name).toBe('semver');
+      expect(VersionSchemeResolver.detect([]).name).toBe('semver');
+    });
+  });
+
+  describe('resolve', () => {
+    it('should prefer the configured scheme over detection', () => {
+      const configured = new RegexVersionScheme('^release-(?<major>\\d+)$');
+
+      expect(VersionSchemeResolver.resolve(configured, ['v1.0.0'])).toBe(configured);
+      expect(VersionSchemeResolver.resolve(null, ['2025.01.0']).name).toBe('calver');
+    });
+  });
+});
+
+describe('ReleaseCalculator with version schemes', () => {
+  it('should count CalVer tags as versioned releases', () => {
+    const scheme = new CalVerScheme();
+    const releases = ReleaseCalculator.parseTags(
+      [
+        { name: '2025.03.1', date: new Date('2025-03-10') },
+        { name: '2025.03.0-rc1', date: new Date('2025-03-01') },
+        { name: 'nightly', date: new Date('2025-02-20') },
+      ],
+      scheme
+    );
+
+    const stats = ReleaseCalculator.calculateStats(releases, false, scheme.name);
+
+    expect(stats.totalReleases).toBe(3);
+    expect(stats.versionedReleases).toBe(1);
+    expect(stats.latestVersionedRelease?.tagName).toBe('2025.03.1');
+    expect(stats.versionScheme).toBe('calver');
+  });
+});
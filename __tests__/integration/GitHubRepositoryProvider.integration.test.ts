@@ -23,7 +23,7 @@ describe('GitHubRepositoryProvider Real Integration Tests', () => {
   });
 
   it.skipIf(!hasToken)('should fetch real repositories from GitHub API', async () => {
-    const repos = await provider.listRepositories();
+    const { repositories: repos } = await provider.listRepositories();
 
     expect(repos).toBeDefined();
     expect(Array.isArray(repos)).toBe(true);
@@ -40,7 +40,7 @@ describe('GitHubRepositoryProvider Real Integration Tests', () => {
   });
 
   it.skipIf(!hasToken)('should fetch repositories for different organizations', async () => {
-    const microsoftRepos = await provider.listRepositories('microsoft');
+    const { repositories: microsoftRepos } = await provider.listRepositories('microsoft');
 
     expect(microsoftRepos.length).toBeGreaterThan(0);
 
@@ -50,13 +50,13 @@ describe('GitHubRepositoryProvider Real Integration Tests', () => {
     });
 
     // Verify we got different repos
-    const vercelRepos = await provider.listRepositories('vercel');
+    const { repositories: vercelRepos } = await provider.listRepositories('vercel');
     expect(vercelRepos[0].owner).toBe('vercel');
     expect(vercelRepos[0].name).not.toBe(microsoftRepos[0].name);
   });
 
   it.skipIf(!hasToken)('should return repositories sorted by update date', async () => {
-    const repos = await provider.listRepositories();
+    const { repositories: repos } = await provider.listRepositories();
 
     // GitHub API returns sorted by 'updated', verify dates are descending
     for (let i = 0; i < repos.length - 1 && i < 10; i++) {
@@ -68,10 +68,11 @@ describe('GitHubRepositoryProvider Real Integration Tests', () => {
 
   it.skipIf(!hasToken)('should handle organization with many repositories', async () => {
     // Test with an org known to have many repos
-    const repos = await provider.listRepositories('facebook');
+    const { repositories: repos, truncated } = await provider.listRepositories('facebook');
 
-    expect(repos.length).toBeGreaterThan(0);
-    expect(repos.length).toBeLessThanOrEqual(100); // per_page limit
+    // More than one page of 100, so the list was paginated rather than cut at per_page
+    expect(repos.length).toBeGreaterThan(100);
+    expect(truncated).toBe(false);
 
     repos.forEach(repo => {
       expect(repo).toBeInstanceOf(Repository);
@@ -98,7 +99,7 @@ describe('GitHubRepositoryProvider Real Integration Tests', () => {
   });
 
   it.skipIf(!hasToken)('should map all repository properties correctly from real API', async () => {
-    const repos = await provider.listRepositories('nodejs');
+    const { repositories: repos } = await provider.listRepositories('nodejs');
 
     expect(repos.length).toBeGreaterThan(0);
 
@@ -131,7 +132,7 @@ describe('GitHubRepositoryProvider Real Integration Tests', () => {
   });
 
   it.skipIf(!hasToken)('should fetch complete and valid data for popular repositories', async () => {
-    const repos = await provider.listRepositories('vercel');
+    const { repositories: repos } = await provider.listRepositories('vercel');
 
     // Filter popular repos
     const popularRepos = repos.filter(r => r.starCount > 100);
@@ -150,8 +151,8 @@ describe('GitHubRepositoryProvider Real Integration Tests', () => {
   });
 
   it.skipIf(!hasToken)('should maintain data consistency across multiple calls', async () => {
-    const repos1 = await provider.listRepositories('vercel');
-    const repos2 = await provider.listRepositories('vercel');
+    const { repositories: repos1 } = await provider.listRepositories('vercel');
+    const { repositories: repos2 } = await provider.listRepositories('vercel');
 
     expect(repos1.length).toBe(repos2.length);
 
@@ -163,4 +164,20 @@ describe('GitHubRepositoryProvider Real Integration Tests', () => {
       expect(repos1[i].url).toBe(repos2[i].url);
     }
   });
+
+  it.skipIf(!hasToken)('should walk every page and report a complete list', async () => {
+    const { repositories: repos, truncated } = await provider.listRepositories('microsoft');
+
+    expect(repos.length).toBeGreaterThan(100);
+    expect(truncated).toBe(false);
+  });
+
+  it.skipIf(!hasToken)('should stop at maxRepositories and report truncation', async () => {
+    const cappedProvider = new GitHubRepositoryProvider(client, 'microsoft', { maxRepositories: 5 });
+
+    const { repositories: repos, truncated } = await cappedProvider.listRepositories();
+
+    expect(repos).toHaveLength(5);
+    expect(truncated).toBe(true);
+  });
 });
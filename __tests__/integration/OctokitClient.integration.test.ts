@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeAll } from 'vitest';
 import { OctokitClient } from '@/infrastructure/adapters/github/OctokitClient';
+import { RateLimitBudgetError } from '@/infrastructure/lib/errors';
 
 /**
  * Real integration tests for OctokitClient
@@ -78,4 +79,23 @@ describe('OctokitClient Real Integration Tests', () => {
     expect(rateLimitAfter).not.toBeNull();
     expect(rateLimitAfter!.remaining).toBeLessThanOrEqual(rateLimitBefore!.remaining);
   });
+
+  it.skipIf(!hasToken)('should track rate limit status from response headers', async () => {
+    const client = new OctokitClient();
+    await client.getClient().users.getAuthenticated();
+
+    const status = await client.getRateLimitStatus();
+
+    expect(status).not.toBeNull();
+    expect(status!.limit).toBeGreaterThan(0);
+    expect(status!.remaining).toBeLessThanOrEqual(status!.limit);
+    expect(status!.resetAt).toBeInstanceOf(Date);
+  });
+
+  it.skipIf(!hasToken)('should fail early when the budget is too low', async () => {
+    const client = new OctokitClient();
+
+    await expect(client.assertBudget(1_000_000)).rejects.toBeInstanceOf(RateLimitBudgetError);
+    await expect(client.assertBudget(1)).resolves.toBeUndefined();
+  });
 });
@@ -0,0 +1,36 @@
+'use client';
+
+import { useSession, signOut } from 'next-auth/react';
+
+export default function AccessDeniedPage() {
+  const { data: session } = useSession();
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center p-24 bg-gradient-to-b from-gray-50 to-gray-100">
+      <div className="text-center max-w-md">
+        <h1 className="text-4xl font-bold mb-4 text-gray-900">
+          Washhouse CI Dashboard
+        </h1>
+
+        <div className="bg-white rounded-lg shadow-lg p-8">
+          <h2 className="text-xl font-semibold mb-4 text-red-700">
+            Access Denied
+          </h2>
+          <p className="text-gray-600 mb-6">
+            {session?.user?.email
+              ? `The account ${session.user.email} is not allowed to access this dashboard.`
+              : 'Your account is not allowed to access this dashboard.'}
+            {' '}Sign in with an account from an allowed domain, or ask an administrator to add your email.
+          </p>
+
+          <button
+            onClick={() => signOut({ callbackUrl: '/' })}
+            className="w-full px-6 py-3 bg-white border-2 border-gray-300 rounded-lg hover:bg-gray-50 hover:border-gray-400 transition-colors font-medium text-gray-700"
+          >
+            Sign in with a different account
+          </button>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { EnvironmentConfig } from '@/infrastructure/config';
+import { ConsoleLogger } from '@/infrastructure/lib';
+import { NextAuthProvider } from '@/infrastructure/adapters/auth';
+import { RefreshScheduler } from '@/infrastructure/scheduler';
+
+export async function GET() {
+  const logger = new ConsoleLogger();
+
+  try {
+    // Check authentication if enabled
+    const authProvider = new NextAuthProvider();
+    if (authProvider.isAuthEnabled()) {
+      const user = await authProvider.getCurrentUser();
+      if (!user) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+      const adminEmails = EnvironmentConfig.ADMIN_EMAILS.map(email => email.toLowerCase());
+      const isAdmin =
+        adminEmails.length > 0
+          ? adminEmails.includes(user.email.toLowerCase())
+          : authProvider.isEmailAllowed(user.email);
+      if (!isAdmin) {
+        logger.warn('Denied admin access to user', {
+          email: user.email,
+        });
+        return NextResponse.json(
+          { error: 'Forbidden', message: 'Your account is not allowed to access the admin endpoints' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const status = RefreshScheduler.getInstance(logger).getStatus();
+
+    return NextResponse.json({
+      enabled: status.enabled,
+      intervalSeconds: status.intervalMs !== null ? status.intervalMs / 1000 : null,
+      running: status.running,
+      lastStartedAt: status.lastStartedAt?.toISOString() || null,
+      lastSuccessAt: status.lastSuccessAt?.toISOString() || null,
+      lastErrorAt: status.lastErrorAt?.toISOString() || null,
+      lastError: status.lastError,
+      lastDurationMs: status.lastDurationMs,
+      runs: status.runs,
+      skippedRuns: status.skippedRuns,
+      nextRunAt: status.nextRunAt?.toISOString() || null,
+    });
+  } catch (error: any) {
+    logger.error('API error', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch refresh status',
+        message: error.message || 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
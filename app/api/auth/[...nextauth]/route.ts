@@ -1,6 +1,7 @@
 import NextAuth, { NextAuthOptions } from 'next-auth';
 import GoogleProvider from 'next-auth/providers/google';
 import { EnvironmentConfig } from '@/infrastructure/config';
+import { NextAuthProvider } from '@/infrastructure/adapters/auth';
 
 // Only configure NextAuth if authentication is enabled
 const authOptions: NextAuthOptions = EnvironmentConfig.AUTH_ENABLED
@@ -12,9 +13,12 @@ const authOptions: NextAuthOptions = EnvironmentConfig.AUTH_ENABLED
         }),
       ],
       callbacks: {
-        async signIn() {
-          // Allow any Google account to sign in
-          return true;
+        async signIn({ user }) {
+          // Only allow emails on the configured allowlist
+          if (user.email && new NextAuthProvider().isEmailAllowed(user.email)) {
+            return true;
+          }
+          return '/access-denied';
         },
         async session({ session, token }) {
           // Add user ID to session
@@ -26,7 +30,7 @@ const authOptions: NextAuthOptions = EnvironmentConfig.AUTH_ENABLED
       },
       pages: {
         signIn: '/',
-        error: '/',
+        error: '/access-denied',
       },
     }
   : {
@@ -0,0 +1,198 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConsoleLogger, RateLimitError, ConfigurationError } from '@/infrastructure/lib';
+import { NextAuthProvider } from '@/infrastructure/adapters/auth';
+import { DashboardServices } from '@/infrastructure/container';
+import { DoraMetrics } from '@/domain/models/Dora';
+import { Release } from '@/domain/models/Release';
+import { OrganizationStatistics } from '@/domain/services/OrganizationStatistics';
+import { parseRepositoryPath } from '@/lib/utils/repositoryPaths';
+
+const LONGEST_GAPS = 5;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  const logger = new ConsoleLogger();
+
+  try {
+    // Check authentication if enabled
+    const authProvider = new NextAuthProvider();
+    if (authProvider.isAuthEnabled()) {
+      const user = await authProvider.getCurrentUser();
+      if (!user) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+      if (!authProvider.isEmailAllowed(user.email)) {
+        logger.warn('Denied repository detail access to user outside the allowlist', {
+          email: user.email,
+        });
+        return NextResponse.json(
+          { error: 'Forbidden', message: 'Your account is not allowed to access this dashboard' },
+          { status: 403 }
+        );
+      }
+    }
+
+    // Owners may be nested GitLab namespaces, so the repository name is the last segment
+    const repositoryPath = parseRepositoryPath((await params).path);
+    if (!repositoryPath) {
+      return NextResponse.json(
+        { error: 'Repository not found', message: 'Repository paths are written as owner/repo' },
+        { status: 404 }
+      );
+    }
+    const { owner, repo } = repositoryPath;
+    const forceRefresh = request.nextUrl.searchParams.get('refresh') === 'true';
+
+    const { sources, fetchRepositoryDetail } = await DashboardServices.create(logger);
+
+    // Only repositories on the dashboard are served, not everything the token can read
+    if (!sources.some(source => source.covers(owner, repo))) {
+      return NextResponse.json(
+        { error: 'Repository not found', message: `'${owner}/${repo}' is not part of this dashboard` },
+        { status: 404 }
+      );
+    }
+
+    const { repository, history, cachedAt, isStale } = await fetchRepositoryDetail.execute(owner, repo, forceRefresh);
+    const { releaseStats, buildStats, doraMetrics } = repository;
+
+    return NextResponse.json({
+      repository: {
+        name: repository.name,
+        owner: repository.owner,
+        url: repository.url,
+        description: repository.description,
+        language: repository.language,
+        starCount: repository.starCount,
+        updatedAt: repository.updatedAt.toISOString(),
+        pushedAt: repository.pushedAt?.toISOString() || null,
+        defaultBranch: repository.defaultBranch,
+        releaseStats: releaseStats ? {
+          totalReleases: releaseStats.totalReleases,
+          versionedReleases: releaseStats.versionedReleases,
+          versionScheme: releaseStats.versionScheme,
+          highestVersionedRelease: releaseStats.highestVersionedRelease
+            ? toReleaseJson(releaseStats.highestVersionedRelease)
+            : null,
+          daysSinceLatestRelease: releaseStats.daysSinceLatestRelease,
+          releasesLast30Days: releaseStats.releasesLast30Days,
+          backportReleases: releaseStats.backportReleases,
+          cadence: releaseStats.cadence ? {
+            meanDaysBetween: releaseStats.cadence.meanDaysBetween,
+            medianDaysBetween: releaseStats.cadence.medianDaysBetween,
+            longestGapDays: releaseStats.cadence.longestGapDays,
+            trend: releaseStats.cadence.trend,
+          } : null,
+        } : null,
+        buildStats: buildStats ? {
+          successfulBuilds: buildStats.successfulBuilds,
+          failedBuilds: buildStats.failedBuilds,
+          cancelledBuilds: buildStats.cancelledBuilds,
+          totalBuilds: buildStats.totalBuilds,
+          successRate: buildStats.successRate,
+        } : null,
+        doraMetrics: doraMetrics ? toDoraJson(doraMetrics) : null,
+      },
+      history: history ? {
+        // The gap before each release lines up with the release, both newest first
+        releases: history.releases.map((release, index) => ({
+          ...toReleaseJson(release),
+          daysSincePrevious: history.gaps[index]?.days ?? null,
+        })),
+        monthlyReleases: history.monthlyReleases.map(monthly => ({
+          month: monthly.month,
+          count: monthly.count,
+          bumpCounts: monthly.bumpCounts,
+        })),
+        versionLines: history.versionLines.map(line => ({
+          name: line.name,
+          releaseCount: line.releaseCount,
+          firstRelease: toReleaseJson(line.firstRelease),
+          latestRelease: toReleaseJson(line.latestRelease),
+          highestRelease: toReleaseJson(line.highestRelease),
+          isActive: line.isActiveWithin(OrganizationStatistics.STALE_AFTER_DAYS),
+        })),
+        longestGaps: history.getLongestGaps(LONGEST_GAPS).map(gap => ({
+          from: toReleaseJson(gap.from),
+          to: toReleaseJson(gap.to),
+          days: gap.days,
+        })),
+        isTruncated: history.isTruncated,
+      } : null,
+      cachedAt: cachedAt.toISOString(),
+      isStale,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    if (error instanceof ConfigurationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      );
+    }
+
+    if (error instanceof RateLimitError) {
+      logger.warn('GitHub API rate limit reached', {
+        message: error.message,
+        resetAt: error.resetAt?.toISOString(),
+      });
+
+      const retryAfter = error.getRetryAfterSeconds();
+      return NextResponse.json(
+        {
+          error: 'GitHub API rate limit exceeded',
+          message: error.message,
+          resetAt: error.resetAt?.toISOString() || null,
+        },
+        {
+          status: 429,
+          headers: retryAfter !== null ? { 'Retry-After': String(retryAfter) } : undefined,
+        }
+      );
+    }
+
+    logger.error('API error', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch repository',
+        message: error.message || 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Serializes a release of the timeline, version lines and gaps
+ */
+function toReleaseJson(release: Release) {
+  return {
+    tagName: release.tagName,
+    date: release.date.toISOString(),
+    version: release.version?.toString() || null,
+    isBackport: release.isBackport,
+    bumpType: release.bumpType,
+  };
+}
+
+/**
+ * Serializes DORA metrics
+ */
+function toDoraJson(metrics: DoraMetrics) {
+  return {
+    windowDays: metrics.windowDays,
+    deployments: metrics.deployments,
+    failedDeployments: metrics.failedDeployments,
+    deploymentsPerWeek: metrics.deploymentsPerWeek,
+    leadTimeHours: metrics.leadTimeHours,
+    changeFailureRate: metrics.changeFailureRate,
+    timeToRestoreHours: metrics.timeToRestoreHours,
+    levels: metrics.levels,
+  };
+}
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { EnvironmentConfig } from '@/infrastructure/config';
-import { ConsoleLogger } from '@/infrastructure/lib';
-import { OctokitClient, GitHubRepositoryProvider } from '@/infrastructure/adapters/github';
-import { FetchRepositories } from '@/usecase/FetchRepositories';
+import { ConsoleLogger, RateLimitError, ConfigurationError } from '@/infrastructure/lib';
 import { NextAuthProvider } from '@/infrastructure/adapters/auth';
+import { DashboardServices } from '@/infrastructure/container';
+import { DoraMetrics } from '@/domain/models/Dora';
+import { OrganizationStats } from '@/domain/models/Organization';
 
 export async function GET(request: NextRequest) {
   const logger = new ConsoleLogger();
@@ -19,6 +20,15 @@ export async function GET(request: NextRequest) {
           { status: 401 }
         );
       }
+      if (!authProvider.isEmailAllowed(user.email)) {
+        logger.warn('Denied repository access to user outside the allowlist', {
+          email: user.email,
+        });
+        return NextResponse.json(
+          { error: 'Forbidden', message: 'Your account is not allowed to access this dashboard' },
+          { status: 403 }
+        );
+      }
       logger.info('Authenticated user accessing repositories', {
         email: user.email,
       });
@@ -26,37 +36,29 @@ export async function GET(request: NextRequest) {
       logger.debug('Authentication disabled, allowing access');
     }
 
-    // Validate GitHub configuration
-    const githubOrg = EnvironmentConfig.GITHUB_ORG;
-    if (!githubOrg) {
-      return NextResponse.json(
-        { error: 'GitHub organization not configured' },
-        { status: 500 }
-      );
-    }
+    const forceRefresh = request.nextUrl.searchParams.get('refresh') === 'true';
 
-    const githubToken = EnvironmentConfig.GITHUB_TOKEN;
-    if (!githubToken) {
-      return NextResponse.json(
-        { error: 'GitHub token not configured' },
-        { status: 500 }
-      );
-    }
+    const { sources, fetchDashboardData, recordSnapshots, octokitClient } =
+      await DashboardServices.create(logger);
 
-    // Create infrastructure adapters
-    const octokitClient = new OctokitClient(githubToken);
-    const repositoryProvider = new GitHubRepositoryProvider(
-      octokitClient,
-      githubOrg
-    );
+    const {
+      repositories,
+      truncated,
+      stats,
+      dora,
+      sources: sourceSummaries,
+      cachedAt,
+      isStale,
+      refreshedRepositories,
+    } = await fetchDashboardData.execute(sources, forceRefresh);
 
-    // Create and execute use case
-    const fetchRepositories = new FetchRepositories(
-      repositoryProvider,
-      logger
-    );
+    // Record the day's metrics so trends can reach past the host's data windows,
+    // but only from fresh data: cached and stale repositories were recorded when fetched
+    if (refreshedRepositories.length > 0) {
+      await recordSnapshots.execute(refreshedRepositories);
+    }
 
-    const repositories = await fetchRepositories.execute(githubOrg);
+    const rateLimit = octokitClient ? await octokitClient.getRateLimitStatus() : null;
 
     // Return response
     return NextResponse.json({
@@ -70,25 +72,127 @@ export async function GET(request: NextRequest) {
         updatedAt: repo.updatedAt.toISOString(),
         releaseStats: repo.releaseStats ? {
           totalReleases: repo.releaseStats.totalReleases,
-          semanticReleases: repo.releaseStats.semanticReleases,
+          versionedReleases: repo.releaseStats.versionedReleases,
+          versionScheme: repo.releaseStats.versionScheme,
           latestRelease: repo.releaseStats.latestRelease ? {
             tagName: repo.releaseStats.latestRelease.tagName,
             date: repo.releaseStats.latestRelease.date.toISOString(),
             version: repo.releaseStats.latestRelease.version?.toString() || null,
+            isBackport: repo.releaseStats.latestRelease.isBackport,
+            bumpType: repo.releaseStats.latestRelease.bumpType,
           } : null,
-          latestSemanticRelease: repo.releaseStats.latestSemanticRelease ? {
-            tagName: repo.releaseStats.latestSemanticRelease.tagName,
-            date: repo.releaseStats.latestSemanticRelease.date.toISOString(),
-            version: repo.releaseStats.latestSemanticRelease.version?.toString() || null,
+          latestVersionedRelease: repo.releaseStats.latestVersionedRelease ? {
+            tagName: repo.releaseStats.latestVersionedRelease.tagName,
+            date: repo.releaseStats.latestVersionedRelease.date.toISOString(),
+            version: repo.releaseStats.latestVersionedRelease.version?.toString() || null,
+            isBackport: repo.releaseStats.latestVersionedRelease.isBackport,
+            bumpType: repo.releaseStats.latestVersionedRelease.bumpType,
+          } : null,
+          highestVersionedRelease: repo.releaseStats.highestVersionedRelease ? {
+            tagName: repo.releaseStats.highestVersionedRelease.tagName,
+            date: repo.releaseStats.highestVersionedRelease.date.toISOString(),
+            version: repo.releaseStats.highestVersionedRelease.version?.toString() || null,
+          } : null,
+          backportReleases: repo.releaseStats.backportReleases,
+          cadence: repo.releaseStats.cadence ? {
+            meanDaysBetween: repo.releaseStats.cadence.meanDaysBetween,
+            medianDaysBetween: repo.releaseStats.cadence.medianDaysBetween,
+            longestGapDays: repo.releaseStats.cadence.longestGapDays,
+            releasesPerWeek4w: repo.releaseStats.cadence.releasesPerWeek4w,
+            releasesPerWeek12w: repo.releaseStats.cadence.releasesPerWeek12w,
+            trend: repo.releaseStats.cadence.trend,
+            recentIntervals: repo.releaseStats.cadence.recentIntervals,
           } : null,
           daysSinceLatestRelease: repo.releaseStats.daysSinceLatestRelease,
+          monthlyReleases: repo.releaseStats.monthlyReleases.map(monthly => ({
+            month: monthly.month,
+            count: monthly.count,
+            bumpCounts: monthly.bumpCounts,
+          })),
+          bumpCounts: repo.releaseStats.bumpCounts,
+          isTruncated: repo.releaseStats.isTruncated,
+          releasesLast30Days: repo.releaseStats.releasesLast30Days,
+        } : null,
+        buildStats: repo.buildStats ? {
+          successfulBuilds: repo.buildStats.successfulBuilds,
+          failedBuilds: repo.buildStats.failedBuilds,
+          cancelledBuilds: repo.buildStats.cancelledBuilds,
+          totalBuilds: repo.buildStats.totalBuilds,
+          successRate: repo.buildStats.successRate,
+        } : null,
+        activityStats: repo.activityStats ? {
+          windowDays: repo.activityStats.windowDays,
+          commits: repo.activityStats.commits,
+          mergedPullRequests: repo.activityStats.mergedPullRequests,
+          linesAdded: repo.activityStats.linesAdded,
+          linesDeleted: repo.activityStats.linesDeleted,
+          averageCommitsPerWeek: repo.activityStats.averageCommitsPerWeek,
         } : null,
+        contributorStats: repo.contributorStats ? {
+          totalContributors: repo.contributorStats.totalContributors,
+          activeContributors: repo.contributorStats.activeContributors,
+          topContributors: repo.contributorStats.topContributors.map(contributor => ({
+            login: contributor.login,
+            avatarUrl: contributor.avatarUrl,
+            contributions: contributor.contributions,
+          })),
+        } : null,
+        doraMetrics: repo.doraMetrics ? toDoraJson(repo.doraMetrics) : null,
       })),
       count: repositories.length,
-      organization: githubOrg,
+      truncated,
+      stats: toStatsJson(stats),
+      dora: dora ? toDoraJson(dora) : null,
+      sources: sourceSummaries.map(summary => ({
+        source: summary.source.toString(),
+        kind: summary.source.kind,
+        label: summary.source.getLabel(),
+        stats: toStatsJson(summary.stats),
+        truncated: summary.truncated,
+        cachedAt: summary.cachedAt?.toISOString() || null,
+        isStale: summary.isStale,
+        error: summary.error,
+      })),
+      organization: sources.map(source => source.getLabel()).join(', '),
+      repositoryHost: EnvironmentConfig.REPOSITORY_HOST,
+      workflowName: octokitClient ? EnvironmentConfig.WORKFLOW_NAME : null,
+      cachedAt: cachedAt.toISOString(),
+      isStale,
+      rateLimit: rateLimit ? {
+        limit: rateLimit.limit,
+        remaining: rateLimit.remaining,
+        resetAt: rateLimit.resetAt.toISOString(),
+      } : null,
       timestamp: new Date().toISOString(),
     });
   } catch (error: any) {
+    if (error instanceof ConfigurationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      );
+    }
+
+    if (error instanceof RateLimitError) {
+      logger.warn('GitHub API rate limit reached', {
+        message: error.message,
+        resetAt: error.resetAt?.toISOString(),
+      });
+
+      const retryAfter = error.getRetryAfterSeconds();
+      return NextResponse.json(
+        {
+          error: 'GitHub API rate limit exceeded',
+          message: error.message,
+          resetAt: error.resetAt?.toISOString() || null,
+        },
+        {
+          status: 429,
+          headers: retryAfter !== null ? { 'Retry-After': String(retryAfter) } : undefined,
+        }
+      );
+    }
+
     logger.error('API error', error);
 
     return NextResponse.json(
@@ -100,3 +204,32 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+/**
+ * Serializes organization statistics, shared by the dashboard and each source
+ */
+function toStatsJson(stats: OrganizationStats) {
+  return {
+    totalRepositories: stats.totalRepositories,
+    releasesThisMonth: stats.releasesThisMonth,
+    releasesLast30Days: stats.releasesLast30Days,
+    staleRepositories: stats.staleRepositories,
+    averageBuildSuccessRate: stats.averageBuildSuccessRate,
+  };
+}
+
+/**
+ * Serializes DORA metrics, shared by repositories and the organization
+ */
+function toDoraJson(metrics: DoraMetrics) {
+  return {
+    windowDays: metrics.windowDays,
+    deployments: metrics.deployments,
+    failedDeployments: metrics.failedDeployments,
+    deploymentsPerWeek: metrics.deploymentsPerWeek,
+    leadTimeHours: metrics.leadTimeHours,
+    changeFailureRate: metrics.changeFailureRate,
+    timeToRestoreHours: metrics.timeToRestoreHours,
+    levels: metrics.levels,
+  };
+}
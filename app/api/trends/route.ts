@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EnvironmentConfig } from '@/infrastructure/config';
+import { ConsoleLogger } from '@/infrastructure/lib';
+import { NextAuthProvider } from '@/infrastructure/adapters/auth';
+import { SqliteSnapshotStore } from '@/infrastructure/adapters/snapshot';
+import { FetchMetricTrends } from '@/usecase/FetchMetricTrends';
+
+const DEFAULT_DAYS = 365;
+
+export async function GET(request: NextRequest) {
+  const logger = new ConsoleLogger();
+
+  try {
+    // Check authentication if enabled
+    const authProvider = new NextAuthProvider();
+    if (authProvider.isAuthEnabled()) {
+      const user = await authProvider.getCurrentUser();
+      if (!user) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+      if (!authProvider.isEmailAllowed(user.email)) {
+        logger.warn('Denied trend access to user outside the allowlist', {
+          email: user.email,
+        });
+        return NextResponse.json(
+          { error: 'Forbidden', message: 'Your account is not allowed to access this dashboard' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const params = request.nextUrl.searchParams;
+    const owner = params.get('owner') || null;
+    const repo = params.get('repo') || null;
+    const days = params.has('days') ? Number(params.get('days')) : DEFAULT_DAYS;
+    if (!Number.isInteger(days) || days <= 0) {
+      return NextResponse.json(
+        { error: 'Days must be a positive whole number' },
+        { status: 400 }
+      );
+    }
+    if (repo && !owner) {
+      return NextResponse.json(
+        { error: 'Repository trends require an owner' },
+        { status: 400 }
+      );
+    }
+
+    const fetchMetricTrends = new FetchMetricTrends(
+      SqliteSnapshotStore.getInstance(EnvironmentConfig.SNAPSHOT_DATABASE_PATH)
+    );
+    const { since, organization, repository } = await fetchMetricTrends.execute(owner, repo, days);
+
+    return NextResponse.json({
+      since,
+      owner,
+      organization: organization.map(snapshot => ({
+        date: snapshot.date,
+        totalRepositories: snapshot.totalRepositories,
+        releasesLast30Days: snapshot.releasesLast30Days,
+        staleRepositories: snapshot.staleRepositories,
+        averageBuildSuccessRate: snapshot.averageBuildSuccessRate,
+        deploymentsPerWeek: snapshot.deploymentsPerWeek,
+        commits: snapshot.commits,
+      })),
+      repository: repository
+        ? repository.map(snapshot => ({ date: snapshot.date, ...snapshot.metrics }))
+        : null,
+    });
+  } catch (error: any) {
+    logger.error('API error', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch metric trends',
+        message: error.message || 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
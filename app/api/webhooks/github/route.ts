@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { EnvironmentConfig } from '@/infrastructure/config';
+import { ConsoleLogger } from '@/infrastructure/lib';
+import { GitHubWebhookVerifier, WebhookMapper } from '@/infrastructure/adapters/github';
+import { InMemoryCacheProvider } from '@/infrastructure/adapters/cache';
+import { DashboardServices } from '@/infrastructure/container';
+
+// GitHub redelivers with the same delivery ID; remember IDs for a day
+const DELIVERY_TTL_SECONDS = 24 * 60 * 60;
+
+export async function POST(request: NextRequest) {
+  const logger = new ConsoleLogger();
+
+  try {
+    const secret = EnvironmentConfig.GITHUB_WEBHOOK_SECRET;
+    if (!secret) {
+      return NextResponse.json(
+        { error: 'GitHub webhook secret not configured' },
+        { status: 500 }
+      );
+    }
+
+    // Verify the signature over the raw body before trusting anything in it
+    const body = await request.text();
+    const verifier = new GitHubWebhookVerifier(secret);
+    if (!verifier.verify(body, request.headers.get('x-hub-signature-256'))) {
+      logger.warn('Rejected GitHub webhook with an invalid signature', {
+        delivery: request.headers.get('x-github-delivery'),
+      });
+      return NextResponse.json(
+        { error: 'Invalid signature' },
+        { status: 401 }
+      );
+    }
+
+    const event = request.headers.get('x-github-event') || '';
+    const delivery = request.headers.get('x-github-delivery');
+    const deliveries = InMemoryCacheProvider.getInstance<boolean>(
+      'github-webhook-deliveries',
+      DELIVERY_TTL_SECONDS,
+      { evictExpired: true }
+    );
+    if (delivery && (await deliveries.get(delivery))) {
+      logger.debug('Ignoring replayed GitHub webhook delivery', { delivery, event });
+      return NextResponse.json({ status: 'duplicate' });
+    }
+
+    // Webhooks can be configured to send form-encoded payloads
+    const payload = request.headers.get('content-type')?.startsWith('application/x-www-form-urlencoded')
+      ? new URLSearchParams(body).get('payload') || '{}'
+      : body;
+    const changes = WebhookMapper.toRepositoryChanges(event, JSON.parse(payload));
+    if (changes.length === 0) {
+      logger.debug('Ignoring GitHub webhook', { delivery, event });
+      return NextResponse.json({ status: 'ignored' });
+    }
+
+    // Answer GitHub right away; enriching a repository can take longer than its delivery timeout
+    after(async () => {
+      try {
+        const { sources, syncRepository, fetchRepositoryDetail } = await DashboardServices.create(logger);
+        for (const change of changes) {
+          await fetchRepositoryDetail.invalidate(change.owner, change.name);
+          await syncRepository.execute(sources, change);
+        }
+        // Only synced deliveries count as seen, so a redelivery of a failed one is processed again
+        if (delivery) {
+          await deliveries.set(delivery, true);
+        }
+      } catch (error: any) {
+        logger.error('Failed to sync repository from GitHub webhook', error, { delivery, event });
+      }
+    });
+
+    return NextResponse.json(
+      {
+        status: 'accepted',
+        repositories: changes.map(change => `${change.owner}/${change.name}`),
+      },
+      { status: 202 }
+    );
+  } catch (error: any) {
+    logger.error('API error', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to process GitHub webhook',
+        message: error.message || 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,267 @@
+'use client';
+
+import Link from 'next/link';
+import { ProtectedRoute } from '@/components/ProtectedRoute';
+import { ReleaseChart } from '@/components/dashboard/ReleaseChart';
+import { ReleaseTimeline } from '@/components/dashboard/ReleaseTimeline';
+import { VersionLines } from '@/components/dashboard/VersionLines';
+import { ReleaseGaps } from '@/components/dashboard/ReleaseGaps';
+import { DoraPanel } from '@/components/dashboard/DoraPanel';
+import { Skeleton } from '@/components/ui/Skeleton';
+import { ErrorMessage } from '@/components/ui/ErrorMessage';
+import { formatMinutesAgo, formatPercentage } from '@/lib/utils/formatters';
+import { encodeRepositoryPath, parseRepositoryPath } from '@/lib/utils/repositoryPaths';
+import { useParams, useRouter } from 'next/navigation';
+import { useState, useEffect, ComponentProps } from 'react';
+
+type DoraMetrics = ComponentProps<typeof DoraPanel>['metrics'];
+
+interface RepositoryDetail {
+  name: string;
+  owner: string;
+  url: string;
+  description: string | null;
+  language: string | null;
+  starCount: number;
+  updatedAt: string;
+  releaseStats: {
+    totalReleases: number;
+    versionScheme: string;
+    daysSinceLatestRelease: number | null;
+    backportReleases: number;
+    cadence: {
+      meanDaysBetween: number | null;
+      medianDaysBetween: number | null;
+      longestGapDays: number | null;
+    } | null;
+  } | null;
+  buildStats: {
+    totalBuilds: number;
+    successRate: number;
+  } | null;
+  doraMetrics: DoraMetrics | null;
+}
+
+interface ReleaseHistory {
+  releases: ComponentProps<typeof ReleaseTimeline>['releases'];
+  monthlyReleases: ComponentProps<typeof ReleaseChart>['monthlyReleases'];
+  versionLines: ComponentProps<typeof VersionLines>['lines'];
+  longestGaps: ComponentProps<typeof ReleaseGaps>['gaps'];
+  isTruncated: boolean;
+}
+
+export default function RepositoryDetailPage() {
+  const params = useParams<{ path: string[] }>();
+  const router = useRouter();
+  // Owners may be nested GitLab namespaces, so the repository name is the last segment
+  const repositoryPath = parseRepositoryPath(params.path);
+  const owner = repositoryPath?.owner ?? '';
+  const repo = repositoryPath?.repo ?? '';
+
+  const [repository, setRepository] = useState<RepositoryDetail | null>(null);
+  const [history, setHistory] = useState<ReleaseHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const [isStale, setIsStale] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+
+  const fetchRepository = async (refresh: boolean = false) => {
+    try {
+      if (refresh) {
+        setRefreshing(true);
+      } else {
+        setLoading(true);
+      }
+      setError(null);
+
+      if (!repositoryPath) {
+        throw new Error('Repository paths are written as owner/repo');
+      }
+      const path = `/api/repositories/${encodeRepositoryPath(owner, repo)}`;
+      const response = await fetch(refresh ? `${path}?refresh=true` : path);
+
+      if (response.status === 403) {
+        router.push('/access-denied');
+        return;
+      }
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || 'Failed to fetch repository');
+      }
+
+      const data = await response.json();
+      setRepository(data.repository);
+      setHistory(data.history || null);
+      setCachedAt(data.cachedAt || null);
+      setIsStale(!!data.isStale);
+      setNow(new Date());
+    } catch (err: any) {
+      setError(err.message || 'Failed to load repository');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRepository();
+  }, [owner, repo]);
+
+  const cadence = repository?.releaseStats?.cadence;
+  // Highlight the same gaps in the timeline that are listed as the longest
+  const longGapDays = history && history.longestGaps.length > 0
+    ? history.longestGaps[history.longestGaps.length - 1].days
+    : null;
+
+  return (
+    <ProtectedRoute>
+      <main className="min-h-screen bg-gray-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <Link href="/dashboard" className="inline-block mb-4 text-sm text-blue-600 hover:text-blue-800">
+            ← Back to dashboard
+          </Link>
+
+          {/* Header */}
+          <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-sm text-gray-500">{owner}</p>
+                <h1 className="text-3xl font-bold text-gray-900">{repo}</h1>
+                {repository && (
+                  <p className="text-gray-600 mt-1">
+                    {repository.description || 'No description available'}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex items-center gap-4">
+                {cachedAt && (
+                  <p className={`text-sm ${isStale ? 'text-yellow-700' : 'text-gray-500'}`}>
+                    Last updated {formatMinutesAgo(cachedAt, now)}
+                    {isStale && ' (stale)'}
+                  </p>
+                )}
+                {repository && (
+                  <a
+                    href={repository.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    Open on GitHub
+                  </a>
+                )}
+                <button
+                  onClick={() => fetchRepository(true)}
+                  disabled={loading || refreshing}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {refreshing ? 'Refreshing...' : 'Refresh'}
+                </button>
+              </div>
+            </div>
+
+            {repository && (
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mt-6 text-sm">
+                <div>
+                  <p className="text-gray-500">Releases</p>
+                  <p className="font-semibold text-gray-900">{repository.releaseStats?.totalReleases ?? 0}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Version scheme</p>
+                  <p className="font-semibold text-gray-900">{repository.releaseStats?.versionScheme ?? '—'}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Mean / median gap</p>
+                  <p className="font-semibold text-gray-900">
+                    {cadence && cadence.meanDaysBetween !== null
+                      ? `${cadence.meanDaysBetween}d / ${cadence.medianDaysBetween}d`
+                      : '—'}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Backports</p>
+                  <p className="font-semibold text-gray-900">{repository.releaseStats?.backportReleases ?? 0}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Build success</p>
+                  <p className="font-semibold text-gray-900">
+                    {repository.buildStats && repository.buildStats.totalBuilds > 0
+                      ? formatPercentage(repository.buildStats.successRate)
+                      : '—'}
+                  </p>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {loading && (
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <Skeleton className="h-48 w-full mb-6" />
+              <Skeleton className="h-4 w-1/2 mb-2" />
+              <Skeleton className="h-4 w-2/3 mb-2" />
+              <Skeleton className="h-4 w-1/3" />
+            </div>
+          )}
+
+          {error && (
+            <ErrorMessage message={error} onRetry={() => fetchRepository()} />
+          )}
+
+          {!loading && !error && repository && !history && (
+            <div className="bg-white rounded-lg shadow-sm p-6 text-center text-gray-500">
+              The release history of this repository could not be loaded
+            </div>
+          )}
+
+          {!loading && !error && history && (
+            <>
+              {history.isTruncated && (
+                <div className="mb-6 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                  Only the most recent {history.releases.length} tags could be fetched. Older releases are missing.
+                </div>
+              )}
+
+              {/* Monthly Releases */}
+              <div className="bg-white rounded-lg shadow-sm p-4 mb-6">
+                <h2 className="text-sm font-semibold text-gray-900 mb-3">Releases per month</h2>
+                <ReleaseChart monthlyReleases={history.monthlyReleases} className="h-64" />
+              </div>
+
+              {repository?.doraMetrics && repository.doraMetrics.deployments > 0 && (
+                <DoraPanel metrics={repository.doraMetrics} />
+              )}
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {/* Release Timeline */}
+                <div className="bg-white rounded-lg shadow-sm p-4">
+                  <h2 className="text-sm font-semibold text-gray-900 mb-3">
+                    Timeline ({history.releases.length} {history.releases.length === 1 ? 'release' : 'releases'})
+                  </h2>
+                  <ReleaseTimeline releases={history.releases} longGapDays={longGapDays} />
+                </div>
+
+                <div className="space-y-6">
+                  {/* Version Lines */}
+                  <div className="bg-white rounded-lg shadow-sm p-4 overflow-x-auto">
+                    <h2 className="text-sm font-semibold text-gray-900 mb-3">Version lines</h2>
+                    <VersionLines lines={history.versionLines} now={now} />
+                  </div>
+
+                  {/* Release Gaps */}
+                  <div className="bg-white rounded-lg shadow-sm p-4">
+                    <h2 className="text-sm font-semibold text-gray-900 mb-3">Longest gaps between releases</h2>
+                    <ReleaseGaps gaps={history.longestGaps} medianDays={cadence?.medianDaysBetween ?? null} />
+                  </div>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </ProtectedRoute>
+  );
+}
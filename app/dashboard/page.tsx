@@ -3,34 +3,94 @@
 import { useSession, signOut } from 'next-auth/react';
 import { ProtectedRoute } from '@/components/ProtectedRoute';
 import { RepositoryCard } from '@/components/dashboard/RepositoryCard';
+import { RateLimitIndicator } from '@/components/dashboard/RateLimitIndicator';
+import { OrganizationSummary } from '@/components/dashboard/OrganizationSummary';
+import { DoraPanel } from '@/components/dashboard/DoraPanel';
+import { TrendChart } from '@/components/dashboard/TrendChart';
 import { Skeleton } from '@/components/ui/Skeleton';
 import { ErrorMessage } from '@/components/ui/ErrorMessage';
-import { useState, useEffect } from 'react';
-
-interface Repository {
-  name: string;
-  owner: string;
-  url: string;
-  description: string | null;
-  language: string | null;
-  starCount: number;
-  updatedAt: string;
+import { RepositoryToolbar } from '@/components/dashboard/RepositoryToolbar';
+import { formatMinutesAgo } from '@/lib/utils/formatters';
+import {
+  RepositoryFilters,
+  parseFilters,
+  toSearchParams,
+  applyFilters,
+  getLanguages,
+  getOwners,
+} from '@/lib/utils/repositoryFilters';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useState, useEffect, useMemo, Suspense, ComponentProps } from 'react';
+
+interface RateLimit {
+  limit: number;
+  remaining: number;
+  resetAt: string;
+}
+
+interface OrganizationStats {
+  totalRepositories: number;
+  releasesThisMonth: number;
+  releasesLast30Days: number;
+  staleRepositories: number;
+  averageBuildSuccessRate: number | null;
 }
 
+type DoraMetrics = ComponentProps<typeof DoraPanel>['metrics'];
+
+type TrendPoint = ComponentProps<typeof TrendChart>['points'][number];
+
+type SourceSummary = NonNullable<ComponentProps<typeof OrganizationSummary>['sources']>[number];
+
+// Repositories carry the full card data, including the release stats used for filtering
+type Repository = ComponentProps<typeof RepositoryCard>['repository'];
+
 export default function DashboardPage() {
+  // useSearchParams requires a Suspense boundary
+  return (
+    <Suspense>
+      <DashboardContent />
+    </Suspense>
+  );
+}
+
+function DashboardContent() {
   const { data: session } = useSession();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const filters = useMemo(() => parseFilters(new URLSearchParams(searchParams.toString())), [searchParams]);
   const isAuthEnabled = process.env.NEXT_PUBLIC_AUTH_ENABLED === 'true';
   
   const [repositories, setRepositories] = useState<Repository[]>([]);
+  const [stats, setStats] = useState<OrganizationStats | null>(null);
+  const [dora, setDora] = useState<DoraMetrics | null>(null);
+  const [sources, setSources] = useState<SourceSummary[]>([]);
+  const [trendPoints, setTrendPoints] = useState<TrendPoint[]>([]);
+  const [trendDays, setTrendDays] = useState(365);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const [isStale, setIsStale] = useState(false);
+  const [truncated, setTruncated] = useState(false);
+  const [rateLimit, setRateLimit] = useState<RateLimit | null>(null);
+  const [now, setNow] = useState(() => new Date());
 
-  const fetchRepositories = async () => {
+  const fetchRepositories = async (refresh: boolean = false) => {
     try {
-      setLoading(true);
+      if (refresh) {
+        setRefreshing(true);
+      } else {
+        setLoading(true);
+      }
       setError(null);
       
-      const response = await fetch('/api/repositories');
+      const response = await fetch(refresh ? '/api/repositories?refresh=true' : '/api/repositories');
+
+      if (response.status === 403) {
+        router.push('/access-denied');
+        return;
+      }
       
       if (!response.ok) {
         const data = await response.json();
@@ -39,10 +99,19 @@ export default function DashboardPage() {
       
       const data = await response.json();
       setRepositories(data.repositories || []);
+      setStats(data.stats || null);
+      setDora(data.dora || null);
+      setSources(data.sources || []);
+      setCachedAt(data.cachedAt || null);
+      setIsStale(!!data.isStale);
+      setTruncated(!!data.truncated);
+      setRateLimit(data.rateLimit || null);
+      setNow(new Date());
     } catch (err: any) {
       setError(err.message || 'Failed to load repositories');
     } finally {
       setLoading(false);
+      setRefreshing(false);
     }
   };
 
@@ -50,6 +119,37 @@ export default function DashboardPage() {
     fetchRepositories();
   }, []);
 
+  // Trends come from recorded snapshots; reload them after each refresh records a new one
+  useEffect(() => {
+    const params = new URLSearchParams({ days: String(trendDays) });
+    if (filters.owner) {
+      params.set('owner', filters.owner);
+    }
+    fetch(`/api/trends?${params}`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => setTrendPoints(data?.organization || []))
+      .catch(() => setTrendPoints([]));
+  }, [trendDays, filters.owner, cachedAt]);
+
+  // Keep filters in the query string so a filtered view can be shared
+  const updateFilters = (next: RepositoryFilters) => {
+    const query = toSearchParams(next).toString();
+    router.replace(query ? `/dashboard?${query}` : '/dashboard', { scroll: false });
+  };
+
+  const owners = useMemo(() => getOwners(repositories), [repositories]);
+  const languages = useMemo(() => getLanguages(repositories), [repositories]);
+  const visibleRepositories = useMemo(
+    () => applyFilters(repositories, filters),
+    [repositories, filters]
+  );
+
+  // Keep the "last updated" label current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
   return (
     <ProtectedRoute>
       <main className="min-h-screen bg-gray-50">
@@ -67,6 +167,26 @@ export default function DashboardPage() {
               </div>
 
               <div className="flex items-center gap-4">
+                <div className="text-right">
+                  {cachedAt && (
+                    <p className={`text-sm ${isStale ? 'text-yellow-700' : 'text-gray-500'}`}>
+                      Last updated {formatMinutesAgo(cachedAt, now)}
+                      {isStale && ' (stale)'}
+                    </p>
+                  )}
+                  {rateLimit && (
+                    <div className="flex justify-end mt-1">
+                      <RateLimitIndicator rateLimit={rateLimit} />
+                    </div>
+                  )}
+                </div>
+                <button
+                  onClick={() => fetchRepositories(true)}
+                  disabled={loading || refreshing}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {refreshing ? 'Refreshing...' : 'Refresh'}
+                </button>
                 {isAuthEnabled ? (
                   <>
                     <div className="text-right">
@@ -91,6 +211,13 @@ export default function DashboardPage() {
             </div>
           </div>
 
+          {/* Organization Summary */}
+          {!loading && !error && stats && <OrganizationSummary stats={stats} sources={sources} />}
+          {!loading && !error && dora && <DoraPanel metrics={dora} title="DORA metrics (organization)" />}
+          {!loading && !error && (
+            <TrendChart points={trendPoints} days={trendDays} onDaysChange={setTrendDays} />
+          )}
+
           {/* Main Content */}
           <div className="bg-white rounded-lg shadow-sm p-6">
             {loading && (
@@ -112,7 +239,7 @@ export default function DashboardPage() {
             )}
 
             {error && (
-              <ErrorMessage message={error} onRetry={fetchRepositories} />
+              <ErrorMessage message={error} onRetry={() => fetchRepositories()} />
             )}
 
             {!loading && !error && repositories.length === 0 && (
@@ -128,15 +255,35 @@ export default function DashboardPage() {
                     Repositories
                   </h2>
                   <span className="text-sm text-gray-500">
+                    {visibleRepositories.length !== repositories.length && `${visibleRepositories.length} of `}
                     {repositories.length} {repositories.length === 1 ? 'repository' : 'repositories'}
                   </span>
                 </div>
+
+                {truncated && (
+                  <div className="mb-6 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                    Only the first {repositories.length} repositories are shown. The repository list is incomplete.
+                  </div>
+                )}
                 
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                  {repositories.map((repo) => (
-                    <RepositoryCard key={repo.name} repository={repo} />
-                  ))}
-                </div>
+                <RepositoryToolbar
+                  filters={filters}
+                  owners={owners}
+                  languages={languages}
+                  onChange={updateFilters}
+                />
+
+                {visibleRepositories.length === 0 ? (
+                  <div className="text-center py-12">
+                    <p className="text-gray-500">No repositories match the current filters</p>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {visibleRepositories.map((repo) => (
+                      <RepositoryCard key={`${repo.owner}/${repo.name}`} repository={repo} />
+                    ))}
+                  </div>
+                )}
               </div>
             )}
           </div>
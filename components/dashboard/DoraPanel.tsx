@@ -0,0 +1,121 @@
+import { formatHours, formatPercentage } from '@/lib/utils/formatters';
+
+type DoraLevel = 'elite' | 'high' | 'medium' | 'low';
+
+interface DoraMetrics {
+  windowDays: number;
+  deployments: number;
+  failedDeployments: number;
+  deploymentsPerWeek: number;
+  leadTimeHours: number | null;
+  changeFailureRate: number | null;
+  timeToRestoreHours: number | null;
+  levels: {
+    deploymentFrequency: DoraLevel;
+    leadTime: DoraLevel | null;
+    changeFailureRate: DoraLevel | null;
+    timeToRestore: DoraLevel | null;
+  };
+}
+
+interface DoraPanelProps {
+  metrics: DoraMetrics;
+  title?: string;
+  compact?: boolean;
+}
+
+interface DoraMetricProps {
+  label: string;
+  value: string;
+  level: DoraLevel | null;
+  hint: string;
+  compact: boolean;
+}
+
+/**
+ * DORA panel component
+ * Shows deployment frequency, lead time, change failure rate and time to restore
+ * with their elite/high/medium/low bands
+ */
+export function DoraPanel({ metrics, title = 'DORA metrics', compact = false }: DoraPanelProps) {
+  const metricItems: Omit<DoraMetricProps, 'compact'>[] = [
+    {
+      label: 'Deploy frequency',
+      value: `${metrics.deploymentsPerWeek}/wk`,
+      level: metrics.levels.deploymentFrequency,
+      hint: `${metrics.deployments} stable releases in the last ${metrics.windowDays} days`,
+    },
+    {
+      label: 'Lead time',
+      value: metrics.leadTimeHours !== null ? formatHours(metrics.leadTimeHours) : 'N/A',
+      level: metrics.levels.leadTime,
+      hint: 'Median time from commit to release tag',
+    },
+    {
+      label: 'Change failure',
+      value: metrics.changeFailureRate !== null ? formatPercentage(metrics.changeFailureRate) : 'N/A',
+      level: metrics.levels.changeFailureRate,
+      hint: `${metrics.failedDeployments} releases followed by a patch hotfix`,
+    },
+    {
+      label: 'Time to restore',
+      value: metrics.timeToRestoreHours !== null ? formatHours(metrics.timeToRestoreHours) : 'N/A',
+      level: metrics.levels.timeToRestore,
+      hint: 'Median time from a failed default-branch build to the next green one',
+    },
+  ];
+
+  if (compact) {
+    return (
+      <div className="grid grid-cols-4 gap-2 text-center">
+        {metricItems.map((item) => (
+          <DoraMetric key={item.label} {...item} compact />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-4 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-sm font-semibold text-gray-900">{title}</h2>
+        <span className="text-xs text-gray-500">Last {metrics.windowDays} days</span>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {metricItems.map((item) => (
+          <DoraMetric key={item.label} {...item} compact={false} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function DoraMetric({ label, value, level, hint, compact }: DoraMetricProps) {
+  return (
+    <div title={hint}>
+      <p className={compact ? 'text-xs text-gray-500' : 'text-sm text-gray-500'}>{label}</p>
+      <p className={compact ? 'text-sm font-semibold text-gray-900' : 'text-2xl font-semibold text-gray-900 mt-1'}>
+        {value}
+      </p>
+      {level && (
+        <span className={`inline-block mt-1 px-2 py-0.5 rounded text-xs font-medium ${getLevelClassName(level)}`}>
+          {level}
+        </span>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Picks badge colors for a DORA band
+ */
+function getLevelClassName(level: DoraLevel): string {
+  if (level === 'elite') {
+    return 'bg-green-100 text-green-800';
+  } else if (level === 'high') {
+    return 'bg-blue-100 text-blue-800';
+  } else if (level === 'medium') {
+    return 'bg-yellow-100 text-yellow-800';
+  }
+  return 'bg-red-100 text-red-800';
+}
@@ -0,0 +1,111 @@
+import { formatNumber, formatPercentage } from '@/lib/utils/formatters';
+
+interface OrganizationStats {
+  totalRepositories: number;
+  releasesThisMonth: number;
+  releasesLast30Days: number;
+  staleRepositories: number;
+  averageBuildSuccessRate: number | null;
+}
+
+interface SourceSummary {
+  source: string;
+  kind: 'org' | 'user' | 'repo';
+  label: string;
+  stats: OrganizationStats;
+  truncated: boolean;
+  error: string | null;
+}
+
+interface OrganizationSummaryProps {
+  stats: OrganizationStats;
+  sources?: SourceSummary[];
+}
+
+interface SummaryTileProps {
+  label: string;
+  value: string;
+  hint?: string;
+}
+
+const SOURCE_KIND_LABELS: Record<SourceSummary['kind'], string> = {
+  org: 'Organization',
+  user: 'User',
+  repo: 'Repository',
+};
+
+/**
+ * Organization summary component
+ * Shows organization-wide release and build statistics as a row of tiles,
+ * broken down per source when the dashboard combines several
+ */
+export function OrganizationSummary({ stats, sources = [] }: OrganizationSummaryProps) {
+  return (
+    <div className="mb-6">
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+        <SummaryTile label="Repositories" value={formatNumber(stats.totalRepositories)} />
+        <SummaryTile label="Releases this month" value={formatNumber(stats.releasesThisMonth)} />
+        <SummaryTile label="Releases (30 days)" value={formatNumber(stats.releasesLast30Days)} />
+        <SummaryTile
+          label="No release in 90+ days"
+          value={formatNumber(stats.staleRepositories)}
+          hint="Repositories without a release in the last 90 days"
+        />
+        <SummaryTile
+          label="Avg. build success"
+          value={stats.averageBuildSuccessRate !== null ? formatPercentage(stats.averageBuildSuccessRate) : 'N/A'}
+          hint="Mean success rate of repositories with builds"
+        />
+      </div>
+
+      {sources.length > 1 && (
+        <div className="bg-white rounded-lg shadow-sm p-4 mt-4 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="font-normal pb-2">Source</th>
+                <th className="font-normal pb-2 text-right">Repositories</th>
+                <th className="font-normal pb-2 text-right">Releases (30 days)</th>
+                <th className="font-normal pb-2 text-right">No release in 90+ days</th>
+                <th className="font-normal pb-2 text-right">Avg. build success</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sources.map((source) => (
+                <tr key={source.source} className="border-t border-gray-100 text-gray-900">
+                  <td className="py-2">
+                    <span className="font-medium">{source.label}</span>
+                    <span className="ml-2 text-xs text-gray-500">{SOURCE_KIND_LABELS[source.kind]}</span>
+                    {source.error && (
+                      <span className="ml-2 text-xs text-red-600" title={source.error}>Failed to load</span>
+                    )}
+                    {source.truncated && (
+                      <span className="ml-2 text-xs text-yellow-700">Incomplete</span>
+                    )}
+                  </td>
+                  <td className="py-2 text-right">{formatNumber(source.stats.totalRepositories)}</td>
+                  <td className="py-2 text-right">{formatNumber(source.stats.releasesLast30Days)}</td>
+                  <td className="py-2 text-right">{formatNumber(source.stats.staleRepositories)}</td>
+                  <td className="py-2 text-right">
+                    {source.stats.averageBuildSuccessRate !== null
+                      ? formatPercentage(source.stats.averageBuildSuccessRate)
+                      : 'N/A'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SummaryTile({ label, value, hint }: SummaryTileProps) {
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-4" title={hint}>
+      <p className="text-sm text-gray-500">{label}</p>
+      <p className="text-2xl font-semibold text-gray-900 mt-1">{value}</p>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { formatNumber } from '@/lib/utils/formatters';
+
+interface RateLimit {
+  limit: number;
+  remaining: number;
+  resetAt: string;
+}
+
+interface RateLimitIndicatorProps {
+  rateLimit: RateLimit;
+}
+
+/**
+ * Rate limit indicator component
+ * Shows the remaining GitHub API budget, highlighted when running low
+ */
+export function RateLimitIndicator({ rateLimit }: RateLimitIndicatorProps) {
+  const ratio = rateLimit.limit > 0 ? rateLimit.remaining / rateLimit.limit : 0;
+  const colorClassName =
+    ratio < 0.1
+      ? 'bg-red-100 text-red-800'
+      : ratio < 0.3
+        ? 'bg-yellow-100 text-yellow-800'
+        : 'bg-gray-100 text-gray-700';
+
+  return (
+    <div
+      className={`px-2 py-1 rounded text-xs font-medium ${colorClassName}`}
+      title={`Resets at ${new Date(rateLimit.resetAt).toLocaleTimeString()}`}
+    >
+      API {formatNumber(rateLimit.remaining)} / {formatNumber(rateLimit.limit)}
+    </div>
+  );
+}
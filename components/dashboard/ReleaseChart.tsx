@@ -0,0 +1,89 @@
+'use client';
+
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Tooltip,
+} from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+import { formatMonth } from '@/lib/utils/formatters';
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip);
+
+interface BumpCounts {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: number;
+}
+
+interface MonthlyRelease {
+  month: string;
+  count: number;
+  bumpCounts: BumpCounts;
+}
+
+const BUMP_SERIES: { key: keyof BumpCounts; label: string; color: string }[] = [
+  { key: 'major', label: 'Major', color: 'rgba(239, 68, 68, 0.8)' },
+  { key: 'minor', label: 'Minor', color: 'rgba(245, 158, 11, 0.8)' },
+  { key: 'patch', label: 'Patch', color: 'rgba(34, 197, 94, 0.8)' },
+  { key: 'prerelease', label: 'Pre-release', color: 'rgba(168, 85, 247, 0.7)' },
+];
+
+interface ReleaseChartProps {
+  monthlyReleases: MonthlyRelease[];
+  className?: string; // Height of the chart (default: h-32)
+}
+
+/**
+ * Release chart component
+ * Displays the number of releases per month as a bar chart stacked by bump type
+ * Releases without a bump type (unversioned or initial) are shown as "Other"
+ */
+export function ReleaseChart({ monthlyReleases, className = 'h-32' }: ReleaseChartProps) {
+  const data = {
+    labels: monthlyReleases.map(monthly => formatMonth(monthly.month)),
+    datasets: [
+      ...BUMP_SERIES.map(series => ({
+        label: series.label,
+        data: monthlyReleases.map(monthly => monthly.bumpCounts[series.key]),
+        backgroundColor: series.color,
+      })),
+      {
+        label: 'Other',
+        data: monthlyReleases.map(monthly =>
+          monthly.count - BUMP_SERIES.reduce((sum, series) => sum + monthly.bumpCounts[series.key], 0)
+        ),
+        backgroundColor: 'rgba(156, 163, 175, 0.6)',
+      },
+    ],
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { display: false },
+    },
+    scales: {
+      x: {
+        stacked: true,
+        grid: { display: false },
+        ticks: { font: { size: 10 } },
+      },
+      y: {
+        stacked: true,
+        beginAtZero: true,
+        ticks: { precision: 0, font: { size: 10 } },
+      },
+    },
+  };
+
+  return (
+    <div className={className} onClick={(event) => event.stopPropagation()}>
+      <Bar data={data} options={options} aria-label="Releases per month" />
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { formatDate } from '@/lib/utils/formatters';
+
+interface GapRelease {
+  tagName: string;
+  date: string;
+}
+
+interface ReleaseGap {
+  from: GapRelease;
+  to: GapRelease;
+  days: number;
+}
+
+interface ReleaseGapsProps {
+  gaps: ReleaseGap[];
+  medianDays?: number | null;
+}
+
+/**
+ * Release gaps component
+ * Lists the longest stretches without a release, compared to the usual gap when it is known
+ */
+export function ReleaseGaps({ gaps, medianDays = null }: ReleaseGapsProps) {
+  if (gaps.length === 0) {
+    return <p className="text-sm text-gray-500 py-4 text-center">Not enough releases to measure gaps</p>;
+  }
+
+  return (
+    <ul className="space-y-2 text-sm">
+      {gaps.map((gap) => (
+        <li key={`${gap.from.tagName}-${gap.to.tagName}`} className="flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <p className="text-gray-900 truncate">
+              {gap.from.tagName} → {gap.to.tagName}
+            </p>
+            <p className="text-xs text-gray-500">
+              {formatDate(gap.from.date)} – {formatDate(gap.to.date)}
+            </p>
+          </div>
+          <div className="text-right whitespace-nowrap">
+            <p className="font-semibold text-gray-900">{gap.days}d</p>
+            {medianDays !== null && medianDays > 0 && (
+              <p className="text-xs text-gray-500">{Math.round(gap.days / medianDays)}× median</p>
+            )}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,79 @@
+import { formatDate } from '@/lib/utils/formatters';
+
+type BumpType = 'major' | 'minor' | 'patch' | 'prerelease';
+
+interface TimelineRelease {
+  tagName: string;
+  date: string;
+  version: string | null;
+  isBackport: boolean;
+  bumpType: BumpType | null;
+  daysSincePrevious: number | null;
+}
+
+interface ReleaseTimelineProps {
+  releases: TimelineRelease[];
+  longGapDays?: number | null; // Gaps at least this long are highlighted
+}
+
+const BUMP_CLASS_NAMES: Record<BumpType, string> = {
+  major: 'bg-red-100 text-red-800',
+  minor: 'bg-amber-100 text-amber-800',
+  patch: 'bg-green-100 text-green-800',
+  prerelease: 'bg-purple-100 text-purple-800',
+};
+
+/**
+ * Release timeline component
+ * Lists every release, newest first, with its bump type and the gap since the release before it
+ */
+export function ReleaseTimeline({ releases, longGapDays = null }: ReleaseTimelineProps) {
+  if (releases.length === 0) {
+    return <p className="text-sm text-gray-500 py-8 text-center">No releases yet</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 max-h-[32rem] overflow-y-auto">
+      {releases.map((release) => {
+        const isLongGap = longGapDays !== null
+          && release.daysSincePrevious !== null
+          && release.daysSincePrevious >= longGapDays;
+
+        return (
+          <li key={`${release.tagName}-${release.date}`} className="ml-4 py-2">
+            <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-white bg-blue-500" />
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-medium text-gray-900">{release.tagName}</span>
+              {release.bumpType && (
+                <span className={`px-2 py-0.5 rounded text-xs font-medium ${BUMP_CLASS_NAMES[release.bumpType]}`}>
+                  {release.bumpType}
+                </span>
+              )}
+              {release.isBackport && (
+                <span
+                  className="px-2 py-0.5 bg-purple-100 text-purple-800 rounded text-xs font-medium"
+                  title="Released to an older version line"
+                >
+                  backport
+                </span>
+              )}
+              {!release.version && (
+                <span className="text-xs text-gray-400" title="Tag is not a recognized version">
+                  unversioned
+                </span>
+              )}
+            </div>
+            <p className="text-xs text-gray-500">
+              {formatDate(release.date)}
+              {release.daysSincePrevious !== null && (
+                <span className={isLongGap ? 'ml-2 font-semibold text-red-700' : 'ml-2'}>
+                  {release.daysSincePrevious}d after the previous release
+                </span>
+              )}
+            </p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
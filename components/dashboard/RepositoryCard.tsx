@@ -1,4 +1,27 @@
-import { formatDaysAgo, formatDate } from '@/lib/utils/formatters';
+'use client';
+
+import { ComponentProps } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  formatDaysAgo,
+  formatDate,
+  formatPercentage,
+  formatNumber,
+  formatCodeChurn,
+} from '@/lib/utils/formatters';
+import { encodeRepositoryPath } from '@/lib/utils/repositoryPaths';
+import { ReleaseChart } from './ReleaseChart';
+import { Sparkline } from './Sparkline';
+import { DoraPanel } from './DoraPanel';
+
+interface BumpCounts {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: number;
+}
+
+type DoraMetrics = ComponentProps<typeof DoraPanel>['metrics'];
 
 interface Repository {
   name: string;
@@ -10,19 +33,72 @@ interface Repository {
   updatedAt: string;
   releaseStats?: {
     totalReleases: number;
-    semanticReleases: number;
+    versionedReleases: number;
+    versionScheme: string;
     latestRelease: {
       tagName: string;
       date: string;
       version: string | null;
+      isBackport: boolean;
+      bumpType: 'major' | 'minor' | 'patch' | 'prerelease' | null;
     } | null;
-    latestSemanticRelease: {
+    latestVersionedRelease: {
       tagName: string;
       date: string;
       version: string | null;
+      isBackport: boolean;
+      bumpType: 'major' | 'minor' | 'patch' | 'prerelease' | null;
+    } | null;
+    highestVersionedRelease: {
+      tagName: string;
+      date: string;
+      version: string | null;
+    } | null;
+    backportReleases: number;
+    cadence: {
+      meanDaysBetween: number | null;
+      medianDaysBetween: number | null;
+      longestGapDays: number | null;
+      releasesPerWeek4w: number;
+      releasesPerWeek12w: number;
+      trend: 'accelerating' | 'steady' | 'slowing';
+      recentIntervals: number[];
     } | null;
     daysSinceLatestRelease: number | null;
+    monthlyReleases: {
+      month: string;
+      count: number;
+      bumpCounts: BumpCounts;
+    }[];
+    bumpCounts: BumpCounts;
+    isTruncated: boolean;
+    releasesLast30Days: number;
   } | null;
+  buildStats?: {
+    successfulBuilds: number;
+    failedBuilds: number;
+    cancelledBuilds: number;
+    totalBuilds: number;
+    successRate: number;
+  } | null;
+  activityStats?: {
+    windowDays: number;
+    commits: number;
+    mergedPullRequests: number;
+    linesAdded: number;
+    linesDeleted: number;
+    averageCommitsPerWeek: number;
+  } | null;
+  contributorStats?: {
+    totalContributors: number;
+    activeContributors: number;
+    topContributors: {
+      login: string;
+      avatarUrl: string | null;
+      contributions: number;
+    }[];
+  } | null;
+  doraMetrics?: DoraMetrics | null;
 }
 
 interface RepositoryCardProps {
@@ -31,11 +107,13 @@ interface RepositoryCardProps {
 
 /**
  * Repository card component
- * Displays repository information in a card format
+ * Displays repository information in a card format and opens the repository detail page on click
  */
 export function RepositoryCard({ repository }: RepositoryCardProps) {
+  const router = useRouter();
+
   const handleClick = () => {
-    window.open(repository.url, '_blank', 'noopener,noreferrer');
+    router.push(`/dashboard/${encodeRepositoryPath(repository.owner, repository.name)}`);
   };
 
   return (
@@ -45,17 +123,25 @@ export function RepositoryCard({ repository }: RepositoryCardProps) {
     >
       {/* Header */}
       <div className="flex items-start justify-between mb-3">
-        <h3 className="text-lg font-semibold text-gray-900 group-hover:text-blue-600 transition-colors">
-          {repository.name}
-        </h3>
-        <svg
-          className="w-5 h-5 text-gray-400 group-hover:text-blue-600 transition-colors"
-          fill="currentColor"
-          viewBox="0 0 20 20"
+        <div className="min-w-0">
+          <p className="text-xs text-gray-500 truncate">{repository.owner}</p>
+          <h3 className="text-lg font-semibold text-gray-900 group-hover:text-blue-600 transition-colors">
+            {repository.name}
+          </h3>
+        </div>
+        <a
+          href={repository.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          onClick={(event) => event.stopPropagation()}
+          title="Open on GitHub"
+          className="text-gray-400 hover:text-blue-600 transition-colors"
         >
-          <path d="M11 3a1 1 0 100 2h2.586l-6.293 6.293a1 1 0 101.414 1.414L15 6.414V9a1 1 0 102 0V4a1 1 0 00-1-1h-5z" />
-          <path d="M5 5a2 2 0 00-2 2v8a2 2 0 002 2h8a2 2 0 002-2v-3a1 1 0 10-2 0v3H5V7h3a1 1 0 000-2H5z" />
-        </svg>
+          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+            <path d="M11 3a1 1 0 100 2h2.586l-6.293 6.293a1 1 0 101.414 1.414L15 6.414V9a1 1 0 102 0V4a1 1 0 00-1-1h-5z" />
+            <path d="M5 5a2 2 0 00-2 2v8a2 2 0 002 2h8a2 2 0 002-2v-3a1 1 0 10-2 0v3H5V7h3a1 1 0 000-2H5z" />
+          </svg>
+        </a>
       </div>
 
       {/* Description */}
@@ -96,12 +182,31 @@ export function RepositoryCard({ repository }: RepositoryCardProps) {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
                 </svg>
                 <span>{repository.releaseStats.totalReleases} {repository.releaseStats.totalReleases === 1 ? 'release' : 'releases'}</span>
+                {repository.releaseStats.isTruncated && (
+                  <span
+                    className="text-xs text-yellow-700"
+                    title="Only part of the tag history was counted"
+                  >
+                    (partial)
+                  </span>
+                )}
               </div>
-              {repository.releaseStats.latestSemanticRelease && (
+              {repository.releaseStats.highestVersionedRelease && (
                 <div className="flex items-center gap-2">
-                  <span className="px-2 py-0.5 bg-green-100 text-green-800 rounded text-xs font-medium">
-                    v{repository.releaseStats.latestSemanticRelease.version}
+                  <span
+                    className="px-2 py-0.5 bg-green-100 text-green-800 rounded text-xs font-medium"
+                    title={`Highest version (scheme: ${repository.releaseStats.versionScheme})`}
+                  >
+                    {repository.releaseStats.highestVersionedRelease.tagName}
                   </span>
+                  {repository.releaseStats.latestVersionedRelease?.isBackport && (
+                    <span
+                      className="px-2 py-0.5 bg-purple-100 text-purple-800 rounded text-xs font-medium"
+                      title="Most recent release is a backport to an older version line"
+                    >
+                      backport {repository.releaseStats.latestVersionedRelease.tagName}
+                    </span>
+                  )}
                   <span className="text-gray-500 text-xs">
                     {formatDaysAgo(repository.releaseStats.daysSinceLatestRelease || 0)}
                   </span>
@@ -111,6 +216,174 @@ export function RepositoryCard({ repository }: RepositoryCardProps) {
           </div>
         </div>
       )}
+
+      {/* Release Cadence */}
+      {repository.releaseStats?.cadence && repository.releaseStats.cadence.meanDaysBetween !== null && (
+        <div className="mt-4 flex items-center justify-between gap-4 text-xs text-gray-600">
+          <div className="grid grid-cols-3 gap-x-3 gap-y-1">
+            <span title="Mean / median days between releases">
+              <span className="font-semibold text-gray-900">
+                {repository.releaseStats.cadence.meanDaysBetween}d / {repository.releaseStats.cadence.medianDaysBetween}d
+              </span>{' '}
+              gap
+            </span>
+            <span title="Longest gap between releases">
+              <span className="font-semibold text-gray-900">{repository.releaseStats.cadence.longestGapDays}d</span> max
+            </span>
+            <span title="Releases per week over the last 4 / 12 weeks">
+              <span className="font-semibold text-gray-900">
+                {repository.releaseStats.cadence.releasesPerWeek4w} / {repository.releaseStats.cadence.releasesPerWeek12w}
+              </span>{' '}
+              /wk
+            </span>
+            <span className={`col-span-3 ${getTrendClassName(repository.releaseStats.cadence.trend)}`}>
+              {getTrendLabel(repository.releaseStats.cadence.trend)}
+            </span>
+          </div>
+          {repository.releaseStats.cadence.recentIntervals.length > 1 && (
+            <Sparkline
+              values={repository.releaseStats.cadence.recentIntervals}
+              label="Days between recent releases"
+            />
+          )}
+        </div>
+      )}
+
+      {/* Monthly Release Chart */}
+      {repository.releaseStats && repository.releaseStats.monthlyReleases.length > 0 && (
+        <div className="mt-4">
+          <ReleaseChart monthlyReleases={repository.releaseStats.monthlyReleases} />
+          <p className="mt-1 text-xs text-gray-500" title="Version bumps over the last 12 months">
+            {repository.releaseStats.bumpCounts.major} major · {repository.releaseStats.bumpCounts.minor} minor ·{' '}
+            {repository.releaseStats.bumpCounts.patch} patch · {repository.releaseStats.bumpCounts.prerelease} pre-release
+          </p>
+        </div>
+      )}
+
+      {/* Activity Information */}
+      {repository.activityStats && (
+        <div className="mt-4 pt-4 border-t border-gray-200">
+          <p className="text-xs text-gray-500 mb-2">
+            Last {repository.activityStats.windowDays} days
+          </p>
+          <div className="grid grid-cols-4 gap-2 text-center">
+            <div>
+              <p className="text-sm font-semibold text-gray-900">
+                {formatNumber(repository.activityStats.commits)}
+              </p>
+              <p className="text-xs text-gray-500">commits</p>
+            </div>
+            <div>
+              <p className="text-sm font-semibold text-gray-900">
+                {formatNumber(repository.activityStats.mergedPullRequests)}
+              </p>
+              <p className="text-xs text-gray-500">merged PRs</p>
+            </div>
+            <div>
+              <p className="text-sm font-semibold text-gray-900">
+                {repository.activityStats.averageCommitsPerWeek}
+              </p>
+              <p className="text-xs text-gray-500">commits/wk</p>
+            </div>
+            <div>
+              <p className="text-sm font-semibold text-gray-900 whitespace-nowrap">
+                {formatCodeChurn(repository.activityStats.linesAdded, repository.activityStats.linesDeleted)}
+              </p>
+              <p className="text-xs text-gray-500">lines</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Contributor Information */}
+      {repository.contributorStats && repository.contributorStats.totalContributors > 0 && (
+        <div className="mt-4 pt-4 border-t border-gray-200">
+          <div className="flex items-center justify-between text-sm">
+            <div className="flex -space-x-2">
+              {repository.contributorStats.topContributors.map((contributor) => (
+                <img
+                  key={contributor.login}
+                  src={contributor.avatarUrl || undefined}
+                  alt={contributor.login}
+                  title={`${contributor.login} (${formatNumber(contributor.contributions)} contributions)`}
+                  className="w-7 h-7 rounded-full border-2 border-white bg-gray-200"
+                />
+              ))}
+            </div>
+            <span className="text-gray-600 text-xs">
+              {repository.contributorStats.activeContributors} active / {repository.contributorStats.totalContributors} contributors
+            </span>
+          </div>
+        </div>
+      )}
+
+      {/* DORA Metrics */}
+      {repository.doraMetrics && repository.doraMetrics.deployments > 0 && (
+        <div className="mt-4 pt-4 border-t border-gray-200">
+          <p className="text-xs text-gray-500 mb-2">
+            DORA, last {repository.doraMetrics.windowDays} days
+          </p>
+          <DoraPanel metrics={repository.doraMetrics} compact />
+        </div>
+      )}
+
+      {/* Build Information */}
+      {repository.buildStats && repository.buildStats.totalBuilds > 0 && (
+        <div className="mt-4 pt-4 border-t border-gray-200">
+          <div className="flex items-center justify-between text-sm">
+            <div className="flex items-center gap-1 text-gray-600">
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19.428 15.428a2 2 0 00-1.022-.547l-2.387-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z" />
+              </svg>
+              <span>{repository.buildStats.totalBuilds} {repository.buildStats.totalBuilds === 1 ? 'build' : 'builds'}</span>
+            </div>
+            <div className="flex items-center gap-2 text-xs">
+              <span className="text-green-700">{repository.buildStats.successfulBuilds} ok</span>
+              <span className="text-red-700">{repository.buildStats.failedBuilds} failed</span>
+              <span className="text-gray-500">{repository.buildStats.cancelledBuilds} cancelled</span>
+              <span className={`px-2 py-0.5 rounded font-medium ${getSuccessRateClassName(repository.buildStats.successRate)}`}>
+                {formatPercentage(repository.buildStats.successRate)}
+              </span>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
+
+/**
+ * Picks badge colors for a build success rate
+ */
+function getSuccessRateClassName(successRate: number): string {
+  if (successRate >= 90) {
+    return 'bg-green-100 text-green-800';
+  } else if (successRate >= 70) {
+    return 'bg-yellow-100 text-yellow-800';
+  }
+  return 'bg-red-100 text-red-800';
+}
+
+/**
+ * Describes a release cadence trend
+ */
+function getTrendLabel(trend: 'accelerating' | 'steady' | 'slowing'): string {
+  if (trend === 'accelerating') {
+    return '↑ Releasing faster than last quarter';
+  } else if (trend === 'slowing') {
+    return '↓ Releasing slower than last quarter';
+  }
+  return '→ Steady release cadence';
+}
+
+/**
+ * Picks text colors for a release cadence trend
+ */
+function getTrendClassName(trend: 'accelerating' | 'steady' | 'slowing'): string {
+  if (trend === 'accelerating') {
+    return 'text-green-700';
+  } else if (trend === 'slowing') {
+    return 'text-red-700';
+  }
+  return 'text-gray-500';
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  RepositoryFilters,
+  RepositorySort,
+  SORT_OPTIONS,
+  RELEASED_WITHIN_OPTIONS,
+} from '@/lib/utils/repositoryFilters';
+
+interface RepositoryToolbarProps {
+  filters: RepositoryFilters;
+  owners: string[];
+  languages: string[];
+  onChange: (filters: RepositoryFilters) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Repository toolbar component
+ * Search box, filters and sort order for the repository grid
+ */
+export function RepositoryToolbar({ filters, owners, languages, onChange }: RepositoryToolbarProps) {
+  const update = (changes: Partial<RepositoryFilters>) => onChange({ ...filters, ...changes });
+
+  // The search box keeps what is typed and writes it to the filters once typing pauses
+  const [query, setQuery] = useState(filters.query);
+  const writtenQuery = useRef(filters.query);
+
+  // Follow query changes made elsewhere, e.g. by navigating back
+  useEffect(() => {
+    if (filters.query !== writtenQuery.current) {
+      writtenQuery.current = filters.query;
+      setQuery(filters.query);
+    }
+  }, [filters.query]);
+
+  useEffect(() => {
+    if (query === writtenQuery.current) {
+      return;
+    }
+    const timeout = setTimeout(() => {
+      writtenQuery.current = query;
+      onChange({ ...filters, query });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query, filters, onChange]);
+
+  const inputClassName =
+    'px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-6">
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search repositories..."
+        aria-label="Search repositories"
+        className={`${inputClassName} flex-1 min-w-[12rem]`}
+      />
+
+      {owners.length > 1 && (
+        <select
+          value={filters.owner || ''}
+          onChange={(e) => update({ owner: e.target.value || null })}
+          aria-label="Filter by organization"
+          className={inputClassName}
+        >
+          <option value="">All organizations</option>
+          {owners.map((owner) => (
+            <option key={owner} value={owner}>
+              {owner}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <select
+        value={filters.language || ''}
+        onChange={(e) => update({ language: e.target.value || null })}
+        aria-label="Filter by language"
+        className={inputClassName}
+      >
+        <option value="">All languages</option>
+        {languages.map((language) => (
+          <option key={language} value={language}>
+            {language}
+          </option>
+        ))}
+      </select>
+
+      <select
+        value={filters.releasedWithinDays ?? ''}
+        onChange={(e) => update({ releasedWithinDays: e.target.value ? parseInt(e.target.value, 10) : null })}
+        aria-label="Filter by latest release"
+        className={inputClassName}
+      >
+        <option value="">Released any time</option>
+        {RELEASED_WITHIN_OPTIONS.map((days) => (
+          <option key={days} value={days}>
+            Released in last {days} days
+          </option>
+        ))}
+      </select>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={filters.hasReleases}
+          onChange={(e) => update({ hasReleases: e.target.checked })}
+          className="rounded border-gray-300"
+        />
+        Has releases
+      </label>
+
+      <select
+        value={filters.sort}
+        onChange={(e) => update({ sort: e.target.value as RepositorySort })}
+        aria-label="Sort repositories"
+        className={inputClassName}
+      >
+        {SORT_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            Sort: {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip);
+
+interface SparklineProps {
+  values: number[];
+  label: string;
+}
+
+/**
+ * Sparkline component
+ * Displays a series of values as a small line without axes
+ */
+export function Sparkline({ values, label }: SparklineProps) {
+  const data = {
+    labels: values.map((_, index) => String(index + 1)),
+    datasets: [
+      {
+        label,
+        data: values,
+        borderColor: 'rgba(59, 130, 246, 0.9)',
+        borderWidth: 1.5,
+        pointRadius: 0,
+        tension: 0.3,
+      },
+    ],
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { display: false },
+    },
+    scales: {
+      x: { display: false },
+      y: { display: false, beginAtZero: true },
+    },
+  };
+
+  return (
+    <div className="h-8 w-24 shrink-0" title={label} onClick={(event) => event.stopPropagation()}>
+      <Line data={data} options={options} aria-label={label} />
+    </div>
+  );
+}
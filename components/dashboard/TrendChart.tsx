@@ -0,0 +1,132 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { formatDate } from '@/lib/utils/formatters';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip);
+
+interface TrendPoint {
+  date: string;
+  totalRepositories: number;
+  releasesLast30Days: number;
+  staleRepositories: number;
+  averageBuildSuccessRate: number | null;
+  deploymentsPerWeek: number | null;
+  commits: number | null;
+}
+
+type TrendMetric = Exclude<keyof TrendPoint, 'date'>;
+
+const METRICS: { key: TrendMetric; label: string }[] = [
+  { key: 'releasesLast30Days', label: 'Releases (30 days)' },
+  { key: 'deploymentsPerWeek', label: 'Deployments per week' },
+  { key: 'averageBuildSuccessRate', label: 'Avg. build success (%)' },
+  { key: 'staleRepositories', label: 'No release in 90+ days' },
+  { key: 'commits', label: 'Commits (activity window)' },
+  { key: 'totalRepositories', label: 'Repositories' },
+];
+
+export const TREND_PERIODS = [90, 365, 730];
+
+interface TrendChartProps {
+  points: TrendPoint[];
+  days: number;
+  onDaysChange: (days: number) => void;
+}
+
+/**
+ * Trend chart component
+ * Displays a recorded organization metric per day, one metric at a time
+ */
+export function TrendChart({ points, days, onDaysChange }: TrendChartProps) {
+  const [metric, setMetric] = useState<TrendMetric>('releasesLast30Days');
+  const selectClassName =
+    'px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  const data = {
+    labels: points.map(point => formatDate(point.date)),
+    datasets: [
+      {
+        label: METRICS.find(option => option.key === metric)!.label,
+        data: points.map(point => point[metric]),
+        borderColor: 'rgba(59, 130, 246, 0.9)',
+        backgroundColor: 'rgba(59, 130, 246, 0.9)',
+        borderWidth: 2,
+        pointRadius: points.length > 60 ? 0 : 2,
+        spanGaps: true,
+        tension: 0.2,
+      },
+    ],
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { display: false },
+    },
+    scales: {
+      x: {
+        grid: { display: false },
+        ticks: { maxTicksLimit: 8, font: { size: 10 } },
+      },
+      y: {
+        beginAtZero: true,
+        ticks: { font: { size: 10 } },
+      },
+    },
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-4 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <h2 className="text-sm font-semibold text-gray-900">Trends</h2>
+        <div className="flex items-center gap-2">
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as TrendMetric)}
+            aria-label="Trend metric"
+            className={selectClassName}
+          >
+            {METRICS.map((option) => (
+              <option key={option.key} value={option.key}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={days}
+            onChange={(e) => onDaysChange(parseInt(e.target.value, 10))}
+            aria-label="Trend period"
+            className={selectClassName}
+          >
+            {TREND_PERIODS.map((period) => (
+              <option key={period} value={period}>
+                Last {period} days
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {points.length < 2 ? (
+        <p className="text-sm text-gray-500 py-8 text-center">
+          Trends appear once snapshots of at least two days have been recorded
+        </p>
+      ) : (
+        <div className="h-48">
+          <Line data={data} options={options} aria-label="Metric trend" />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { formatDate, formatDaysAgo } from '@/lib/utils/formatters';
+
+interface LineRelease {
+  tagName: string;
+  date: string;
+  version: string | null;
+}
+
+interface VersionLine {
+  name: string;
+  releaseCount: number;
+  firstRelease: LineRelease;
+  latestRelease: LineRelease;
+  highestRelease: LineRelease;
+  isActive: boolean;
+}
+
+interface VersionLinesProps {
+  lines: VersionLine[];
+  now?: Date;
+}
+
+/**
+ * Version lines component
+ * Shows each major version line with its span, highest version and whether it still gets releases
+ */
+export function VersionLines({ lines, now = new Date() }: VersionLinesProps) {
+  if (lines.length === 0) {
+    return <p className="text-sm text-gray-500 py-4 text-center">No versioned releases</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="font-normal pb-2">Line</th>
+          <th className="font-normal pb-2 text-right">Releases</th>
+          <th className="font-normal pb-2">Highest</th>
+          <th className="font-normal pb-2">Span</th>
+          <th className="font-normal pb-2">Last release</th>
+        </tr>
+      </thead>
+      <tbody>
+        {lines.map((line) => (
+          <tr key={line.name} className="border-t border-gray-100 text-gray-900">
+            <td className="py-2">
+              <span className="font-medium">{line.name}</span>
+              {line.isActive ? (
+                <span className="ml-2 px-2 py-0.5 bg-green-100 text-green-800 rounded text-xs font-medium">active</span>
+              ) : (
+                <span className="ml-2 px-2 py-0.5 bg-gray-100 text-gray-600 rounded text-xs font-medium">inactive</span>
+              )}
+            </td>
+            <td className="py-2 text-right">{line.releaseCount}</td>
+            <td className="py-2">{line.highestRelease.tagName}</td>
+            <td className="py-2 text-gray-600">
+              {formatDate(line.firstRelease.date)} – {formatDate(line.latestRelease.date)}
+            </td>
+            <td className="py-2 text-gray-600" title={line.latestRelease.tagName}>
+              {formatDaysAgo(daysBetween(line.latestRelease.date, now))}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Counts whole days from a date until now
+ */
+function daysBetween(date: string, now: Date): number {
+  return Math.max(0, Math.floor((now.getTime() - new Date(date).getTime()) / (24 * 60 * 60 * 1000)));
+}
@@ -0,0 +1,34 @@
+/**
+ * Next.js instrumentation hook, called once when the server starts
+ * Validates the configuration and starts the background refresh when REFRESH_INTERVAL is set
+ */
+export async function register() {
+  // The refresh needs Node.js APIs (SQLite, timers) and must not run in the edge runtime
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  const { EnvironmentConfig } = await import('@/infrastructure/config');
+  const { DashboardServices } = await import('@/infrastructure/container');
+  DashboardServices.validateConfiguration();
+
+  if (EnvironmentConfig.REFRESH_INTERVAL === 0) {
+    return;
+  }
+
+  const { ConsoleLogger } = await import('@/infrastructure/lib');
+  const { RefreshScheduler } = await import('@/infrastructure/scheduler');
+
+  const logger = new ConsoleLogger();
+  // Not awaited: the first run must not hold up the server start
+  void RefreshScheduler.getInstance(logger).start(async () => {
+    // Wired on every run so configuration errors show up in the refresh status
+    const { sources, fetchDashboardData, recordSnapshots } = await DashboardServices.create(logger, {
+      staggerMs: EnvironmentConfig.REFRESH_STAGGER_MS,
+    });
+    const { refreshedRepositories } = await fetchDashboardData.execute(sources, true);
+    if (refreshedRepositories.length > 0) {
+      await recordSnapshots.execute(refreshedRepositories);
+    }
+  }, EnvironmentConfig.REFRESH_INTERVAL * 1000);
+}
@@ -70,3 +70,55 @@ export function formatNumber(num: number): string {
 export function formatCodeChurn(additions: number, deletions: number): string {
   return `+${formatNumber(additions)} / -${formatNumber(deletions)}`;
 }
+
+/**
+ * Format a month key into a short label
+ * @param month - Month key in YYYY-MM format
+ * @returns Formatted month string (e.g., "Jan 25")
+ */
+export function formatMonth(month: string): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const dateObj = new Date(Date.UTC(year, monthIndex - 1, 1));
+
+  return dateObj.toLocaleDateString('en-US', {
+    month: 'short',
+    year: '2-digit',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Format the time elapsed since a date in minutes
+ * @param date - Date object or ISO string
+ * @param now - Reference date (default: current date)
+ * @returns Formatted string (e.g., "just now", "1 minute ago", "12 minutes ago", "2 hours ago")
+ */
+export function formatMinutesAgo(date: Date | string, now: Date = new Date()): string {
+  const dateObj = typeof date === 'string' ? new Date(date) : date;
+  const minutes = Math.max(0, Math.floor((now.getTime() - dateObj.getTime()) / (1000 * 60)));
+
+  if (minutes === 0) {
+    return 'just now';
+  } else if (minutes === 1) {
+    return '1 minute ago';
+  } else if (minutes < 60) {
+    return `${minutes} minutes ago`;
+  }
+
+  const hours = Math.floor(minutes / 60);
+  return hours === 1 ? '1 hour ago' : `${hours} hours ago`;
+}
+
+/**
+ * Format a duration given in hours
+ * @param hours - Duration in hours
+ * @returns Formatted string (e.g., "45m", "6.5h", "3.2d")
+ */
+export function formatHours(hours: number): string {
+  if (hours < 1) {
+    return `${Math.round(hours * 60)}m`;
+  } else if (hours < 48) {
+    return `${hours.toFixed(1)}h`;
+  }
+  return `${(hours / 24).toFixed(1)}d`;
+}
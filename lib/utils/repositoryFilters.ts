@@ -0,0 +1,191 @@
+/**
+ * Sort orders available on the dashboard
+ */
+export type RepositorySort = 'releases' | 'lastRelease' | 'stars' | 'updated';
+
+/**
+ * Search, filter and sort state of the dashboard
+ */
+export interface RepositoryFilters {
+  query: string;
+  owner: string | null;
+  language: string | null;
+  hasReleases: boolean;
+  releasedWithinDays: number | null;
+  sort: RepositorySort;
+}
+
+/**
+ * Repository fields used for filtering and sorting
+ */
+interface FilterableRepository {
+  name: string;
+  owner: string;
+  description: string | null;
+  language: string | null;
+  starCount: number;
+  updatedAt: string;
+  releaseStats?: {
+    totalReleases: number;
+    daysSinceLatestRelease: number | null;
+    releasesLast30Days?: number;
+  } | null;
+}
+
+export const SORT_OPTIONS: { value: RepositorySort; label: string }[] = [
+  { value: 'releases', label: 'Releases (last 30 days)' },
+  { value: 'lastRelease', label: 'Most recent release' },
+  { value: 'stars', label: 'Stars' },
+  { value: 'updated', label: 'Recently updated' },
+];
+
+export const RELEASED_WITHIN_OPTIONS = [7, 30, 90, 365];
+
+export const DEFAULT_FILTERS: RepositoryFilters = {
+  query: '',
+  owner: null,
+  language: null,
+  hasReleases: false,
+  releasedWithinDays: null,
+  sort: 'releases',
+};
+
+/**
+ * Read filters from URL query parameters, ignoring invalid values
+ * @param params - Query parameters (e.g. from useSearchParams)
+ * @returns Filters with defaults for missing parameters
+ */
+export function parseFilters(params: URLSearchParams): RepositoryFilters {
+  const sort = params.get('sort');
+  const releasedWithinDays = parseInt(params.get('releasedWithin') || '', 10);
+
+  return {
+    query: params.get('q') || DEFAULT_FILTERS.query,
+    owner: params.get('owner') || DEFAULT_FILTERS.owner,
+    language: params.get('language') || DEFAULT_FILTERS.language,
+    hasReleases: params.get('hasReleases') === 'true',
+    releasedWithinDays:
+      Number.isFinite(releasedWithinDays) && releasedWithinDays > 0
+        ? releasedWithinDays
+        : DEFAULT_FILTERS.releasedWithinDays,
+    sort: SORT_OPTIONS.some(option => option.value === sort)
+      ? (sort as RepositorySort)
+      : DEFAULT_FILTERS.sort,
+  };
+}
+
+/**
+ * Write filters to URL query parameters, omitting default values
+ * The query is written as typed; it is only trimmed when filtering
+ * @param filters - Current filters
+ * @returns Query parameters for a shareable link
+ */
+export function toSearchParams(filters: RepositoryFilters): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (filters.query.trim()) {
+    params.set('q', filters.query);
+  }
+  if (filters.owner) {
+    params.set('owner', filters.owner);
+  }
+  if (filters.language) {
+    params.set('language', filters.language);
+  }
+  if (filters.hasReleases) {
+    params.set('hasReleases', 'true');
+  }
+  if (filters.releasedWithinDays) {
+    params.set('releasedWithin', String(filters.releasedWithinDays));
+  }
+  if (filters.sort !== DEFAULT_FILTERS.sort) {
+    params.set('sort', filters.sort);
+  }
+
+  return params;
+}
+
+/**
+ * Get the distinct languages of a list of repositories
+ * @param repositories - List of repositories
+ * @returns Languages sorted alphabetically
+ */
+export function getLanguages(repositories: FilterableRepository[]): string[] {
+  const languages = new Set<string>();
+  repositories.forEach(repo => {
+    if (repo.language) {
+      languages.add(repo.language);
+    }
+  });
+  return Array.from(languages).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Get the distinct owners (organizations or users) of a list of repositories
+ * @param repositories - List of repositories
+ * @returns Owners sorted alphabetically
+ */
+export function getOwners(repositories: FilterableRepository[]): string[] {
+  return Array.from(new Set(repositories.map(repo => repo.owner))).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Apply search and filters, then sort
+ * @param repositories - List of repositories
+ * @param filters - Current filters
+ * @returns Matching repositories in the selected order
+ */
+export function applyFilters<T extends FilterableRepository>(
+  repositories: T[],
+  filters: RepositoryFilters
+): T[] {
+  const query = filters.query.trim().toLowerCase();
+
+  const matching = repositories.filter(repo => {
+    if (
+      query &&
+      !repo.name.toLowerCase().includes(query) &&
+      !(repo.description || '').toLowerCase().includes(query)
+    ) {
+      return false;
+    }
+    if (filters.owner && repo.owner !== filters.owner) {
+      return false;
+    }
+    if (filters.language && repo.language !== filters.language) {
+      return false;
+    }
+    if (filters.hasReleases && !repo.releaseStats?.totalReleases) {
+      return false;
+    }
+    if (filters.releasedWithinDays !== null) {
+      const days = repo.releaseStats?.daysSinceLatestRelease;
+      if (days === null || days === undefined || days > filters.releasedWithinDays) {
+        return false;
+      }
+    }
+    return true;
+  });
+
+  return matching.sort((a, b) => compareRepositories(a, b, filters.sort) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Compare two repositories by the selected sort order
+ * Repositories without release data sort last on release-based orders
+ */
+function compareRepositories(a: FilterableRepository, b: FilterableRepository, sort: RepositorySort): number {
+  switch (sort) {
+    case 'releases':
+      return (b.releaseStats?.releasesLast30Days ?? 0) - (a.releaseStats?.releasesLast30Days ?? 0);
+    case 'lastRelease':
+      return (
+        (a.releaseStats?.daysSinceLatestRelease ?? Infinity) -
+        (b.releaseStats?.daysSinceLatestRelease ?? Infinity) || 0
+      );
+    case 'stars':
+      return b.starCount - a.starCount;
+    case 'updated':
+      return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Owner and name of a repository read from a URL path
+ */
+export interface RepositoryPath {
+  owner: string;
+  repo: string;
+}
+
+/**
+ * Encode owner and name as URL path segments, e.g. "group/subgroup/api"
+ * Owners may be nested GitLab namespaces, so each of their segments is encoded on its own
+ */
+export function encodeRepositoryPath(owner: string, name: string): string {
+  return [...owner.split('/'), name].map(segment => encodeURIComponent(segment)).join('/');
+}
+
+/**
+ * Read owner and name from the segments of a catch-all route; the last segment is the name
+ * @returns Owner and name, or null if there are fewer than two segments
+ */
+export function parseRepositoryPath(segments: string[] | undefined): RepositoryPath | null {
+  if (!segments || segments.length < 2 || segments.some(segment => segment === '')) {
+    return null;
+  }
+  return { owner: segments.slice(0, -1).join('/'), repo: segments[segments.length - 1] };
+}
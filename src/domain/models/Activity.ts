@@ -0,0 +1,34 @@
+/**
+ * Development activity of a repository over a recent window
+ */
+export class ActivityStats {
+  constructor(
+    public readonly windowDays: number,
+    public readonly commits: number,
+    public readonly mergedPullRequests: number,
+    public readonly linesAdded: number,
+    public readonly linesDeleted: number,
+    public readonly averageCommitsPerWeek: number
+  ) {
+    if (windowDays <= 0) {
+      throw new Error('Activity window must be positive');
+    }
+    if (commits < 0 || mergedPullRequests < 0 || linesAdded < 0 || linesDeleted < 0) {
+      throw new Error('Activity counts cannot be negative');
+    }
+  }
+
+  /**
+   * Check if there was any commit in the window
+   */
+  hasActivity(): boolean {
+    return this.commits > 0 || this.mergedPullRequests > 0;
+  }
+
+  /**
+   * Total lines changed (added + deleted)
+   */
+  getCodeChurn(): number {
+    return this.linesAdded + this.linesDeleted;
+  }
+}
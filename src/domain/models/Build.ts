@@ -0,0 +1,81 @@
+/**
+ * Possible outcomes of a completed workflow run
+ */
+export type WorkflowRunConclusion =
+  | 'success'
+  | 'failure'
+  | 'cancelled'
+  | 'skipped'
+  | 'timed_out'
+  | 'action_required'
+  | 'neutral'
+  | 'stale'
+  | null;
+
+/**
+ * Represents a single CI workflow run (build)
+ */
+export class WorkflowRun {
+  constructor(
+    public readonly id: number,
+    public readonly status: string,
+    public readonly conclusion: WorkflowRunConclusion,
+    public readonly createdAt: Date,
+    public readonly branch: string | null = null
+  ) {}
+
+  /**
+   * Check if the run has finished
+   */
+  isCompleted(): boolean {
+    return this.status === 'completed';
+  }
+
+  /**
+   * Check if the run finished successfully
+   */
+  isSuccessful(): boolean {
+    return this.isCompleted() && this.conclusion === 'success';
+  }
+
+  /**
+   * Check if the run failed (including timeouts)
+   */
+  isFailed(): boolean {
+    return this.isCompleted() && (this.conclusion === 'failure' || this.conclusion === 'timed_out');
+  }
+
+  /**
+   * Check if the run was cancelled
+   */
+  isCancelled(): boolean {
+    return this.isCompleted() && this.conclusion === 'cancelled';
+  }
+}
+
+/**
+ * Statistics about builds (workflow runs) in a repository
+ */
+export class BuildStats {
+  constructor(
+    public readonly successfulBuilds: number,
+    public readonly failedBuilds: number,
+    public readonly cancelledBuilds: number,
+    public readonly totalBuilds: number,
+    public readonly successRate: number
+  ) {
+    if (successfulBuilds < 0 || failedBuilds < 0 || cancelledBuilds < 0 || totalBuilds < 0) {
+      throw new Error('Build counts cannot be negative');
+    }
+    if (successRate < 0 || successRate > 100) {
+      throw new Error('Success rate must be between 0 and 100');
+    }
+  }
+
+  /**
+   * Check if repository has any builds
+   */
+  hasBuilds(): boolean {
+    return this.totalBuilds > 0;
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Represents a person (or bot) who contributed commits to a repository
+ */
+export class Contributor {
+  constructor(
+    public readonly login: string,
+    public readonly avatarUrl: string | null,
+    public readonly contributions: number,
+    public readonly isBot: boolean = false
+  ) {
+    if (!login || login.trim() === '') {
+      throw new Error('Contributor login is required');
+    }
+    if (contributions < 0) {
+      throw new Error('Contribution count cannot be negative');
+    }
+  }
+
+  /**
+   * Check if the login matches any of the given patterns
+   * @param patterns - Login patterns (see Contributor.loginMatches)
+   */
+  matchesAny(patterns: string[]): boolean {
+    return Contributor.loginMatches(this.login, patterns);
+  }
+
+  /**
+   * Check if a login matches any of the given patterns
+   * Patterns are case-insensitive and may use `*` as a wildcard (e.g., "dependabot*", "*[bot]")
+   * @param login - Login to check
+   * @param patterns - Login patterns
+   */
+  static loginMatches(login: string, patterns: string[]): boolean {
+    return patterns.some(pattern => {
+      const source = pattern
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+      return new RegExp(`^${source}$`, 'i').test(login);
+    });
+  }
+}
+
+/**
+ * Statistics about the contributors of a repository
+ */
+export class ContributorStats {
+  constructor(
+    public readonly totalContributors: number,
+    public readonly activeContributors: number,
+    public readonly topContributors: Contributor[]
+  ) {
+    if (totalContributors < 0 || activeContributors < 0) {
+      throw new Error('Contributor counts cannot be negative');
+    }
+  }
+
+  /**
+   * Check if repository has any contributors
+   */
+  hasContributors(): boolean {
+    return this.totalContributors > 0;
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Performance bands of the DORA (State of DevOps) research
+ */
+export type DoraLevel = 'elite' | 'high' | 'medium' | 'low';
+
+/**
+ * Band of each DORA metric, null if the metric could not be measured
+ */
+export interface DoraLevels {
+  deploymentFrequency: DoraLevel;
+  leadTime: DoraLevel | null;
+  changeFailureRate: DoraLevel | null;
+  timeToRestore: DoraLevel | null;
+}
+
+/**
+ * The four DORA metrics of a repository (or an organization) over a window of days
+ * Deployments are the stable releases in the window
+ */
+export class DoraMetrics {
+  constructor(
+    public readonly windowDays: number,
+    public readonly deployments: number,
+    public readonly failedDeployments: number, // Followed by a patch hotfix
+    public readonly deploymentsPerWeek: number,
+    public readonly leadTimeHours: number | null, // Median commit-to-tag time
+    public readonly changeFailureRate: number | null, // Percentage (0-100), null without deployments
+    public readonly timeToRestoreHours: number | null, // Median failed-to-green build time
+    public readonly levels: DoraLevels
+  ) {
+    if (windowDays <= 0) {
+      throw new Error('DORA window must be positive');
+    }
+    if (deployments < 0 || failedDeployments < 0 || deploymentsPerWeek < 0) {
+      throw new Error('Deployment counts cannot be negative');
+    }
+    if (failedDeployments > deployments) {
+      throw new Error('Failed deployments cannot exceed deployments');
+    }
+    if ((leadTimeHours !== null && leadTimeHours < 0) || (timeToRestoreHours !== null && timeToRestoreHours < 0)) {
+      throw new Error('DORA durations cannot be negative');
+    }
+    if (changeFailureRate !== null && (changeFailureRate < 0 || changeFailureRate > 100)) {
+      throw new Error('Change failure rate must be between 0 and 100');
+    }
+  }
+
+  /**
+   * Check if any release was deployed in the window
+   */
+  hasDeployments(): boolean {
+    return this.deployments > 0;
+  }
+}
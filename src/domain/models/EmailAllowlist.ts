@@ -0,0 +1,42 @@
+/**
+ * List of email domains and individual addresses allowed to access the dashboard
+ * Matching is case-insensitive; an empty allowlist allows nobody
+ */
+export class EmailAllowlist {
+  public readonly domains: string[];
+  public readonly emails: string[];
+
+  constructor(domains: string[], emails: string[] = []) {
+    this.domains = domains.map(domain => domain.trim().replace(/^@/, '').toLowerCase()).filter(Boolean);
+    this.emails = emails.map(email => email.trim().toLowerCase()).filter(Boolean);
+  }
+
+  /**
+   * Check if an email address is allowed, either by its domain or as an individual exception
+   * @param email - Email address to check
+   * @returns true if the email matches an allowed domain or address
+   */
+  isAllowed(email: string | null | undefined): boolean {
+    if (!email) {
+      return false;
+    }
+
+    const normalized = email.trim().toLowerCase();
+    if (this.emails.includes(normalized)) {
+      return true;
+    }
+
+    const atIndex = normalized.lastIndexOf('@');
+    if (atIndex <= 0) {
+      return false;
+    }
+    return this.domains.includes(normalized.slice(atIndex + 1));
+  }
+
+  /**
+   * Check if no domain or address is configured
+   */
+  isEmpty(): boolean {
+    return this.domains.length === 0 && this.emails.length === 0;
+  }
+}
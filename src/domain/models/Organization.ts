@@ -0,0 +1,26 @@
+/**
+ * Aggregate statistics across all repositories of an organization
+ */
+export class OrganizationStats {
+  constructor(
+    public readonly totalRepositories: number,
+    public readonly releasesThisMonth: number,
+    public readonly releasesLast30Days: number,
+    public readonly staleRepositories: number, // No release in STALE_AFTER_DAYS or more
+    public readonly averageBuildSuccessRate: number | null // null if no repository has builds
+  ) {
+    if (totalRepositories < 0 || releasesThisMonth < 0 || releasesLast30Days < 0 || staleRepositories < 0) {
+      throw new Error('Organization counts cannot be negative');
+    }
+    if (staleRepositories > totalRepositories) {
+      throw new Error('Stale repositories cannot exceed total repositories');
+    }
+  }
+
+  /**
+   * Check if any repository has build statistics
+   */
+  hasBuildStats(): boolean {
+    return this.averageBuildSuccessRate !== null;
+  }
+}
@@ -1,26 +1,35 @@
+import { Version } from './Version';
+
+/**
+ * Matches a SemVer 2.0 version with an optional leading "v"
+ * Groups: major, minor, patch, pre-release, build metadata
+ */
+const SEMVER_PATTERN =
+  /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+
 /**
- * Represents a semantic version number
+ * Represents a semantic version number (SemVer 2.0)
+ * Build metadata is kept but ignored for precedence
  */
-export class SemanticVersion {
+export class SemanticVersion extends Version {
   constructor(
     public readonly major: number,
     public readonly minor: number,
     public readonly patch: number,
-    public readonly preRelease?: string
-  ) {}
+    preRelease?: string,
+    public readonly buildMetadata?: string
+  ) {
+    super('semver', [major, minor, patch], preRelease);
+  }
 
   /**
    * Parse a version string into a SemanticVersion
-   * @param version - Version string (e.g., "v1.2.3", "1.2.3-beta")
+   * @param version - Version string (e.g., "v1.2.3", "1.2.3-beta.1", "1.2.3+build.5")
    * @returns SemanticVersion or null if invalid
    */
   static parse(version: string): SemanticVersion | null {
-    // Remove leading 'v' if present
-    const cleanVersion = version.replace(/^v/, '');
-    
-    // Match semantic version pattern: major.minor.patch[-prerelease]
-    const match = cleanVersion.match(/^(\d+)\.(\d+)\.(\d+)(?:-(.+))?$/);
-    
+    const match = version.match(SEMVER_PATTERN);
+
     if (!match) {
       return null;
     }
@@ -29,7 +38,8 @@ export class SemanticVersion {
       parseInt(match[1], 10),
       parseInt(match[2], 10),
       parseInt(match[3], 10),
-      match[4]
+      match[4],
+      match[5]
     );
   }
 
@@ -37,18 +47,34 @@ export class SemanticVersion {
    * Check if this version is semantic (not a prerelease)
    */
   isSemantic(): boolean {
-    return !this.preRelease;
+    return this.isStable();
   }
 
   /**
-   * Convert to string representation
+   * Convert to string representation, including build metadata
    */
   toString(): string {
     const base = `${this.major}.${this.minor}.${this.patch}`;
-    return this.preRelease ? `${base}-${this.preRelease}` : base;
+    const withPreRelease = this.preRelease ? `${base}-${this.preRelease}` : base;
+    return this.buildMetadata ? `${withPreRelease}+${this.buildMetadata}` : withPreRelease;
   }
 }
 
+/**
+ * Kind of version bump a release makes over the previous version in its line
+ */
+export type BumpType = 'major' | 'minor' | 'patch' | 'prerelease';
+
+/**
+ * Number of releases per bump type
+ */
+export interface BumpTypeCounts {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: number;
+}
+
 /**
  * Represents a release/tag in a repository
  */
@@ -56,14 +82,16 @@ export class Release {
   constructor(
     public readonly tagName: string,
     public readonly date: Date,
-    public readonly version: SemanticVersion | null
+    public readonly version: Version | null,
+    public readonly isBackport: boolean = false, // Released after a higher version
+    public readonly bumpType: BumpType | null = null // null for unversioned and initial releases
   ) {}
 
   /**
-   * Check if this release has a semantic version
+   * Check if this release has a stable version under its repository's version scheme
    */
-  hasSemanticVersion(): boolean {
-    return this.version !== null && this.version.isSemantic();
+  hasStableVersion(): boolean {
+    return this.version !== null && this.version.isStable();
   }
 
   /**
@@ -76,16 +104,79 @@ export class Release {
   }
 }
 
+/**
+ * Number of releases published in a calendar month
+ */
+export class MonthlyRelease {
+  constructor(
+    public readonly month: string, // "YYYY-MM", e.g. "2025-01"
+    public readonly count: number,
+    public readonly bumpCounts: BumpTypeCounts = { major: 0, minor: 0, patch: 0, prerelease: 0 }
+  ) {
+    if (!/^\d{4}-\d{2}$/.test(month)) {
+      throw new Error('Month must be in YYYY-MM format');
+    }
+    if (count < 0) {
+      throw new Error('Release count cannot be negative');
+    }
+    if (bumpCounts.major + bumpCounts.minor + bumpCounts.patch + bumpCounts.prerelease > count) {
+      throw new Error('Bump counts cannot exceed release count');
+    }
+  }
+}
+
+/**
+ * Direction of release cadence, comparing the last quarter with the previous one
+ */
+export type CadenceTrend = 'accelerating' | 'steady' | 'slowing';
+
+/**
+ * How regularly a repository releases
+ */
+export class ReleaseCadence {
+  constructor(
+    public readonly meanDaysBetween: number | null, // null with fewer than two releases
+    public readonly medianDaysBetween: number | null,
+    public readonly longestGapDays: number | null,
+    public readonly releasesPerWeek4w: number, // Rolling 4-week window
+    public readonly releasesPerWeek12w: number, // Rolling 12-week window
+    public readonly trend: CadenceTrend,
+    public readonly recentIntervals: number[] = [] // Days between the latest releases, oldest first
+  ) {
+    if (releasesPerWeek4w < 0 || releasesPerWeek12w < 0) {
+      throw new Error('Release rates cannot be negative');
+    }
+    if (recentIntervals.some(interval => interval < 0)) {
+      throw new Error('Release intervals cannot be negative');
+    }
+  }
+
+  /**
+   * Check if there are at least two releases to measure intervals between
+   */
+  hasIntervals(): boolean {
+    return this.meanDaysBetween !== null;
+  }
+}
+
 /**
  * Statistics about releases in a repository
  */
 export class ReleaseStats {
   constructor(
     public readonly totalReleases: number,
-    public readonly semanticReleases: number,
+    public readonly versionedReleases: number, // Releases with a stable version under versionScheme
     public readonly latestRelease: Release | null,
-    public readonly latestSemanticRelease: Release | null,
-    public readonly daysSinceLatestRelease: number | null
+    public readonly latestVersionedRelease: Release | null, // Most recent by date
+    public readonly daysSinceLatestRelease: number | null,
+    public readonly monthlyReleases: MonthlyRelease[] = [],
+    public readonly isTruncated: boolean = false,
+    public readonly releasesLast30Days: number = 0,
+    public readonly versionScheme: string = 'semver',
+    public readonly highestVersionedRelease: Release | null = null, // Highest by version precedence
+    public readonly backportReleases: number = 0,
+    public readonly cadence: ReleaseCadence | null = null,
+    public readonly bumpCounts: BumpTypeCounts = { major: 0, minor: 0, patch: 0, prerelease: 0 } // Last 12 months
   ) {}
 
   /**
@@ -96,9 +187,27 @@ export class ReleaseStats {
   }
 
   /**
-   * Check if repository has semantic releases
+   * Check if repository has releases with a stable version
+   */
+  hasVersionedReleases(): boolean {
+    return this.versionedReleases > 0;
+  }
+
+  /**
+   * Check if the most recent release is not the highest version (e.g. a backport was tagged last)
+   */
+  hasNewerBackport(): boolean {
+    return (
+      this.latestVersionedRelease !== null &&
+      this.highestVersionedRelease !== null &&
+      this.latestVersionedRelease !== this.highestVersionedRelease
+    );
+  }
+
+  /**
+   * Check if the statistics were computed from the full tag history
    */
-  hasSemanticReleases(): boolean {
-    return this.semanticReleases > 0;
+  isComplete(): boolean {
+    return !this.isTruncated;
   }
 }
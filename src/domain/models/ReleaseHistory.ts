@@ -0,0 +1,67 @@
+import { MonthlyRelease, Release } from './Release';
+
+/**
+ * Releases sharing a major version, e.g. the "2.x" line
+ */
+export class VersionLine {
+  constructor(
+    public readonly name: string, // e.g. "2.x"
+    public readonly major: number,
+    public readonly releaseCount: number,
+    public readonly firstRelease: Release, // Oldest by date
+    public readonly latestRelease: Release, // Most recent by date
+    public readonly highestRelease: Release // Highest by version precedence
+  ) {
+    if (releaseCount < 1) {
+      throw new Error('A version line needs at least one release');
+    }
+  }
+
+  /**
+   * Check if the line was released within a number of days (e.g. is still maintained)
+   * @param days - Number of days
+   * @param now - Reference date (default: current date)
+   */
+  isActiveWithin(days: number, now: Date = new Date()): boolean {
+    return now.getTime() - this.latestRelease.date.getTime() <= days * 24 * 60 * 60 * 1000;
+  }
+}
+
+/**
+ * Time between a release and the one before it
+ */
+export class ReleaseGap {
+  constructor(
+    public readonly from: Release,
+    public readonly to: Release,
+    public readonly days: number // One decimal
+  ) {
+    if (days < 0) {
+      throw new Error('Release gap cannot be negative');
+    }
+  }
+}
+
+/**
+ * Full release history of a single repository
+ */
+export class ReleaseHistory {
+  constructor(
+    public readonly releases: Release[], // Newest first
+    public readonly monthlyReleases: MonthlyRelease[], // From the month of the first release, oldest first
+    public readonly versionLines: VersionLine[], // Highest major first
+    public readonly gaps: ReleaseGap[], // Between consecutive releases, newest first
+    public readonly isTruncated: boolean = false
+  ) {}
+
+  /**
+   * Get the longest gaps between releases
+   * @param count - Number of gaps to return
+   * @returns Gaps ordered from longest to shortest, the most recent first when equally long
+   */
+  getLongestGaps(count: number): ReleaseGap[] {
+    return [...this.gaps]
+      .sort((a, b) => b.days - a.days || b.to.date.getTime() - a.to.date.getTime())
+      .slice(0, count);
+  }
+}
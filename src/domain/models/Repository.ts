@@ -1,4 +1,8 @@
 import { ReleaseStats } from './Release';
+import { BuildStats } from './Build';
+import { ActivityStats } from './Activity';
+import { ContributorStats } from './Contributor';
+import { DoraMetrics } from './Dora';
 
 /**
  * Repository domain model
@@ -14,7 +18,14 @@ export class Repository {
     public readonly language: string | null,
     public readonly starCount: number = 0,
     public readonly updatedAt: Date = new Date(),
-    public readonly releaseStats: ReleaseStats | null = null
+    public readonly releaseStats: ReleaseStats | null = null,
+    public readonly buildStats: BuildStats | null = null,
+    public readonly activityStats: ActivityStats | null = null,
+    public readonly contributorStats: ContributorStats | null = null,
+    public readonly defaultBranch: string | null = null,
+    public readonly doraMetrics: DoraMetrics | null = null,
+    public readonly pushedAt: Date | null = null, // Last push to any branch, if the host reports it
+    public readonly syncedAt: Date | null = null // When release, build and activity data were last fetched
   ) {
     if (!name || name.trim() === '' || !owner || owner.trim() === '' || !url) {
       throw new Error('Repository name, owner, and url are required');
@@ -34,6 +45,21 @@ export class Repository {
     return `${this.owner}/${this.name}`;
   }
 
+  /**
+   * Checks if nothing was pushed to or changed on the repository since an earlier listing of it
+   * Without a push date (e.g. local mirrors) a new tag on an unchanged HEAD would go unnoticed,
+   * so such a repository never counts as unchanged
+   * @param previous - The same repository as listed before
+   */
+  public isUnchangedSince(previous: Repository): boolean {
+    return (
+      this.pushedAt !== null &&
+      this.getFullName() === previous.getFullName() &&
+      this.updatedAt.getTime() === previous.updatedAt.getTime() &&
+      (this.pushedAt?.getTime() ?? null) === (previous.pushedAt?.getTime() ?? null)
+    );
+  }
+
   /**
    * Gets a display-friendly description or fallback
    */
@@ -88,13 +114,41 @@ export class Repository {
     return this.releaseStats !== null && this.releaseStats.hasReleases();
   }
 
+  /**
+   * Checks if repository has build statistics
+   */
+  public hasBuildStats(): boolean {
+    return this.buildStats !== null && this.buildStats.hasBuilds();
+  }
+
+  /**
+   * Checks if repository has activity statistics
+   */
+  public hasActivityStats(): boolean {
+    return this.activityStats !== null;
+  }
+
+  /**
+   * Checks if repository has contributor statistics
+   */
+  public hasContributorStats(): boolean {
+    return this.contributorStats !== null && this.contributorStats.hasContributors();
+  }
+
+  /**
+   * Checks if repository has DORA metrics
+   */
+  public hasDoraMetrics(): boolean {
+    return this.doraMetrics !== null;
+  }
+
   /**
    * Gets the latest release version as a string
    */
   public getLatestReleaseVersion(): string | null {
-    if (!this.releaseStats?.latestSemanticRelease) {
+    if (!this.releaseStats?.latestVersionedRelease) {
       return null;
     }
-    return this.releaseStats.latestSemanticRelease.version?.toString() || null;
+    return this.releaseStats.latestVersionedRelease.version?.toString() || null;
   }
 }
@@ -0,0 +1,8 @@
+/**
+ * A repository reported as changed, e.g. by a webhook
+ */
+export interface RepositoryChange {
+  owner: string;
+  name: string;
+  removed: boolean; // Deleted, or no longer known under this owner and name
+}
@@ -0,0 +1,94 @@
+/**
+ * Kind of a repository source:
+ * - `org`: every repository of an organization (or GitLab group)
+ * - `user`: every repository owned by a user account
+ * - `repo`: a single repository
+ */
+export type RepositorySourceKind = 'org' | 'user' | 'repo';
+
+const KINDS: RepositorySourceKind[] = ['org', 'user', 'repo'];
+
+/**
+ * A place repositories are listed from
+ * Written as "acme" or "org:acme", "user:svc-deploy", and "acme/api" or "repo:acme/api"
+ */
+export class RepositorySource {
+  constructor(
+    public readonly kind: RepositorySourceKind,
+    public readonly owner: string,
+    public readonly repo: string | null = null
+  ) {
+    if (!owner || owner.trim() === '') {
+      throw new Error('Repository source owner is required');
+    }
+    if ((kind === 'repo') !== !!repo) {
+      throw new Error('Only repository sources have a repository name');
+    }
+  }
+
+  /**
+   * Creates an organization source
+   */
+  static organization(name: string): RepositorySource {
+    return new RepositorySource('org', name);
+  }
+
+  /**
+   * Parses a source from its written form
+   * Without a prefix, "owner/repo" is a single repository and anything else an organization;
+   * nested GitLab groups therefore need the "org:" prefix
+   * @throws Error if the prefix is unknown or a repository source lacks a name
+   */
+  static parse(spec: string): RepositorySource {
+    const trimmed = spec.trim();
+    const separator = trimmed.indexOf(':');
+    const prefix = separator > 0 ? trimmed.slice(0, separator) : null;
+    const value = prefix ? trimmed.slice(separator + 1).trim() : trimmed;
+
+    if (prefix && !KINDS.includes(prefix as RepositorySourceKind)) {
+      throw new Error(`Unknown repository source '${spec}'`);
+    }
+
+    const kind = (prefix as RepositorySourceKind | null) ?? (value.includes('/') ? 'repo' : 'org');
+    if (kind !== 'repo') {
+      return new RepositorySource(kind, value);
+    }
+
+    const lastSlash = value.lastIndexOf('/');
+    if (lastSlash <= 0 || lastSlash === value.length - 1) {
+      throw new Error(`Repository source '${spec}' must be written as owner/repo`);
+    }
+    return new RepositorySource('repo', value.slice(0, lastSlash), value.slice(lastSlash + 1));
+  }
+
+  /**
+   * Checks if a repository is listed from this source
+   * Organizations also cover their sub-namespaces, as GitLab groups list the projects of their subgroups
+   * @param owner - Owner of the repository (e.g. "group/subgroup" for a GitLab subgroup)
+   * @param name - Name of the repository
+   */
+  covers(owner: string, name: string): boolean {
+    const sourceOwner = this.owner.toLowerCase();
+    const repositoryOwner = owner.toLowerCase();
+    const sameOwner = sourceOwner === repositoryOwner;
+
+    if (this.repo) {
+      return sameOwner && this.repo.toLowerCase() === name.toLowerCase();
+    }
+    return sameOwner || (this.kind === 'org' && repositoryOwner.startsWith(`${sourceOwner}/`));
+  }
+
+  /**
+   * Gets the display name (the owner, or owner/repo for a single repository)
+   */
+  getLabel(): string {
+    return this.repo ? `${this.owner}/${this.repo}` : this.owner;
+  }
+
+  /**
+   * Gets the canonical written form, e.g. "org:acme" (used as cache key)
+   */
+  toString(): string {
+    return `${this.kind}:${this.getLabel()}`;
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Metrics of a repository on the day of a snapshot, null where the data was unavailable
+ */
+export interface RepositoryMetrics {
+  starCount: number;
+  totalReleases: number | null;
+  releasesLast30Days: number | null;
+  daysSinceLatestRelease: number | null;
+  medianDaysBetweenReleases: number | null;
+  buildSuccessRate: number | null; // Percentage (0-100), null without builds
+  commits: number | null; // Over the activity window
+  mergedPullRequests: number | null;
+  activeContributors: number | null;
+  deploymentsPerWeek: number | null;
+  leadTimeHours: number | null;
+  changeFailureRate: number | null;
+  timeToRestoreHours: number | null;
+}
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Recorded metrics of a repository on a given day
+ * One snapshot is kept per repository and day; a later recording replaces it
+ */
+export class RepositorySnapshot {
+  constructor(
+    public readonly date: string, // UTC day (YYYY-MM-DD)
+    public readonly owner: string,
+    public readonly name: string,
+    public readonly metrics: RepositoryMetrics
+  ) {
+    if (!DATE_KEY_PATTERN.test(date)) {
+      throw new Error('Snapshot date must be formatted as YYYY-MM-DD');
+    }
+    if (!owner || !name) {
+      throw new Error('Snapshot owner and name are required');
+    }
+  }
+
+  /**
+   * Gets the full repository name (owner/repo)
+   */
+  getFullName(): string {
+    return `${this.owner}/${this.name}`;
+  }
+}
+
+/**
+ * Metrics of all recorded repositories of an organization (or several) on a given day
+ */
+export class OrganizationSnapshot {
+  constructor(
+    public readonly date: string, // UTC day (YYYY-MM-DD)
+    public readonly totalRepositories: number,
+    public readonly releasesLast30Days: number,
+    public readonly staleRepositories: number, // Repositories with release data but no release in 90+ days
+    public readonly averageBuildSuccessRate: number | null,
+    public readonly deploymentsPerWeek: number | null, // Sum over repositories with DORA metrics
+    public readonly commits: number | null // Sum over repositories with activity data
+  ) {
+    if (!DATE_KEY_PATTERN.test(date)) {
+      throw new Error('Snapshot date must be formatted as YYYY-MM-DD');
+    }
+    if (totalRepositories < 0 || releasesLast30Days < 0 || staleRepositories < 0) {
+      throw new Error('Snapshot counts cannot be negative');
+    }
+  }
+}
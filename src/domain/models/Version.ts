@@ -0,0 +1,95 @@
+/**
+ * A version parsed from a tag by a version scheme
+ * Versions of the same scheme compare segment by segment; a pre-release sorts before its release
+ * and pre-release identifiers are ordered as in SemVer 2.0
+ */
+export class Version {
+  constructor(
+    public readonly scheme: string,
+    public readonly segments: number[],
+    public readonly preRelease?: string,
+    private readonly text?: string
+  ) {
+    if (segments.length === 0 || segments.some(segment => !Number.isInteger(segment) || segment < 0)) {
+      throw new Error('Version segments must be non-negative integers');
+    }
+  }
+
+  /**
+   * Check if this version is a stable release (not a pre-release)
+   */
+  isStable(): boolean {
+    return !this.preRelease;
+  }
+
+  /**
+   * Compare with another version
+   * Missing segments count as zero, so 1.2 equals 1.2.0
+   * @returns Negative if this version is lower, positive if higher, zero if equal
+   */
+  compareTo(other: Version): number {
+    const length = Math.max(this.segments.length, other.segments.length);
+    for (let i = 0; i < length; i++) {
+      const diff = (this.segments[i] ?? 0) - (other.segments[i] ?? 0);
+      if (diff !== 0) {
+        return diff;
+      }
+    }
+
+    return Version.comparePreRelease(this.preRelease, other.preRelease);
+  }
+
+  /**
+   * Check if this version has higher precedence than another
+   */
+  isHigherThan(other: Version): boolean {
+    return this.compareTo(other) > 0;
+  }
+
+  /**
+   * Compare pre-release tags by SemVer 2.0 precedence rules
+   * - a version without pre-release is higher than one with
+   * - dot-separated identifiers are compared left to right
+   * - numeric identifiers compare numerically and are lower than alphanumeric ones
+   * - alphanumeric identifiers compare in ASCII order
+   * - a longer list of identifiers is higher when all preceding ones are equal
+   */
+  static comparePreRelease(a: string | undefined, b: string | undefined): number {
+    if (!a || !b) {
+      return (a ? -1 : 0) - (b ? -1 : 0);
+    }
+
+    const aIds = a.split('.');
+    const bIds = b.split('.');
+    const length = Math.min(aIds.length, bIds.length);
+
+    for (let i = 0; i < length; i++) {
+      const aNumeric = /^\d+$/.test(aIds[i]);
+      const bNumeric = /^\d+$/.test(bIds[i]);
+
+      if (aNumeric && bNumeric) {
+        const diff = parseInt(aIds[i], 10) - parseInt(bIds[i], 10);
+        if (diff !== 0) {
+          return diff;
+        }
+      } else if (aNumeric !== bNumeric) {
+        return aNumeric ? -1 : 1;
+      } else if (aIds[i] !== bIds[i]) {
+        return aIds[i] < bIds[i] ? -1 : 1;
+      }
+    }
+
+    return aIds.length - bIds.length;
+  }
+
+  /**
+   * Convert to string representation
+   */
+  toString(): string {
+    if (this.text) {
+      return this.text;
+    }
+    const base = this.segments.join('.');
+    return this.preRelease ? `${base}-${this.preRelease}` : base;
+  }
+}
@@ -0,0 +1,100 @@
+import { Version } from './Version';
+import { SemanticVersion } from './Release';
+
+/**
+ * A way of reading versions from tag names
+ */
+export interface VersionScheme {
+  /**
+   * Scheme name (e.g., "semver", "calver")
+   */
+  readonly name: string;
+
+  /**
+   * Parse a tag name into a version
+   * @param tagName - Tag name (e.g., "v1.2.3", "2025.03.1")
+   * @returns Version or null if the tag does not follow the scheme
+   */
+  parse(tagName: string): Version | null;
+}
+
+/**
+ * Semantic versioning: v?MAJOR.MINOR.PATCH[-prerelease]
+ */
+export class SemVerScheme implements VersionScheme {
+  readonly name = 'semver';
+
+  parse(tagName: string): Version | null {
+    return SemanticVersion.parse(tagName);
+  }
+}
+
+/**
+ * Calendar versioning: v?YYYY.MM[.MICRO][-prerelease] or YY.MM[.MICRO][-prerelease]
+ * Months may be zero-padded (2025.03.1 and 2025.3.1 are the same version); short years
+ * need a zero-padded month (24.04), so SemVer tags such as v18.1.0 are not read as dates
+ */
+export class CalVerScheme implements VersionScheme {
+  readonly name = 'calver';
+
+  parse(tagName: string): Version | null {
+    const match = tagName.match(/^v?((\d{4}|\d{2})\.(\d{1,2})(?:\.(\d+))?)(?:-(.+))?$/);
+    if (!match) {
+      return null;
+    }
+
+    const year = parseInt(match[2], 10);
+    const month = parseInt(match[3], 10);
+    if (month < 1 || month > 12 || (match[2].length === 4 && year < 1970)) {
+      return null;
+    }
+    if (match[2].length === 2 && match[3].length !== 2) {
+      return null;
+    }
+
+    const segments = [match[2].length === 2 ? 2000 + year : year, month];
+    if (match[4] !== undefined) {
+      segments.push(parseInt(match[4], 10));
+    }
+
+    return new Version(this.name, segments, match[5], match[5] ? `${match[1]}-${match[5]}` : match[1]);
+  }
+}
+
+/**
+ * Custom tag pattern with named groups
+ * `major` is required; `minor` and `patch` are optional numeric groups
+ * and `pre` marks a pre-release (e.g., "^release-(?<major>\d+)$")
+ */
+export class RegexVersionScheme implements VersionScheme {
+  readonly name = 'regex';
+  private readonly regex: RegExp;
+
+  constructor(pattern: string) {
+    this.regex = new RegExp(pattern);
+    if (!/\(\?<major>/.test(pattern)) {
+      throw new Error(`Version pattern '${pattern}' must have a named group 'major'`);
+    }
+  }
+
+  parse(tagName: string): Version | null {
+    const groups = tagName.match(this.regex)?.groups;
+    if (!groups || groups.major === undefined) {
+      return null;
+    }
+
+    const segments: number[] = [];
+    for (const key of ['major', 'minor', 'patch']) {
+      if (groups[key] === undefined) {
+        break;
+      }
+      const segment = parseInt(groups[key], 10);
+      if (!Number.isFinite(segment)) {
+        return null;
+      }
+      segments.push(segment);
+    }
+
+    return new Version(this.name, segments, groups.pre || undefined);
+  }
+}
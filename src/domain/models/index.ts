@@ -1,2 +1,18 @@
 export { User } from './User';
 export { Repository } from './Repository';
+export { RepositorySource } from './RepositorySource';
+export type { RepositorySourceKind } from './RepositorySource';
+export type { RepositoryChange } from './RepositoryChange';
+export { BuildStats, WorkflowRun } from './Build';
+export { ActivityStats } from './Activity';
+export { Contributor, ContributorStats } from './Contributor';
+export { OrganizationStats } from './Organization';
+export { DoraMetrics } from './Dora';
+export type { DoraLevel, DoraLevels } from './Dora';
+export { RepositorySnapshot, OrganizationSnapshot } from './Snapshot';
+export type { RepositoryMetrics } from './Snapshot';
+export { EmailAllowlist } from './EmailAllowlist';
+export { Version } from './Version';
+export { SemVerScheme, CalVerScheme, RegexVersionScheme } from './VersionScheme';
+export type { VersionScheme } from './VersionScheme';
+export { VersionLine, ReleaseGap, ReleaseHistory } from './ReleaseHistory';
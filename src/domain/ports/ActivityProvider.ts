@@ -0,0 +1,56 @@
+/**
+ * Commits per day for one week, from activity provider
+ */
+export interface WeeklyCommitActivity {
+  weekStart: Date;
+  days: number[]; // Commit counts from Sunday to Saturday
+}
+
+/**
+ * Lines added and deleted in one week, from activity provider
+ */
+export interface WeeklyCodeFrequency {
+  weekStart: Date;
+  additions: number;
+  deletions: number;
+}
+
+/**
+ * Merged pull request data from activity provider
+ */
+export interface MergedPullRequest {
+  number: number;
+  mergedAt: Date;
+}
+
+/**
+ * Activity provider port (interface)
+ * Defines the contract for repository activity operations
+ * Implementations will be in the infrastructure layer
+ */
+export interface ActivityProvider {
+  /**
+   * Gets daily commit counts grouped by week for the last year
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @returns Weekly commit activity, oldest week first
+   */
+  getCommitActivity(owner: string, repo: string): Promise<WeeklyCommitActivity[]>;
+
+  /**
+   * Gets weekly additions and deletions
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @returns Weekly code frequency, oldest week first
+   */
+  getCodeFrequency(owner: string, repo: string): Promise<WeeklyCodeFrequency[]>;
+
+  /**
+   * Gets pull requests merged since a date
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param since - Only pull requests merged on or after this date are returned
+   * @returns Merged pull requests
+   */
+  getMergedPullRequests(owner: string, repo: string, since: Date): Promise<MergedPullRequest[]>;
+}
@@ -13,12 +13,11 @@ export interface AuthProvider {
   getCurrentUser(): Promise<User | null>;
 
   /**
-   * Validates if an email belongs to an allowed domain
-   * @param email - Email address to validate
-   * @param allowedDomain - Domain to check against
-   * @returns true if email matches the domain
+   * Checks if an email is on the allowlist of domains and individual addresses
+   * @param email - Email address to check
+   * @returns true if the email is allowed to access the dashboard
    */
-  validateDomain(email: string, allowedDomain: string): boolean;
+  isEmailAllowed(email: string): boolean;
 
   /**
    * Checks if authentication is enabled via feature flag
@@ -0,0 +1,23 @@
+import { WorkflowRun } from '../models/Build';
+
+/**
+ * Build provider port (interface)
+ * Defines the contract for CI build (workflow run) operations
+ * Implementations will be in the infrastructure layer
+ */
+export interface BuildProvider {
+  /**
+   * Gets the runs of a named workflow for a specific repository
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param workflowName - Name of the workflow (e.g., "Build and Push to ECR")
+   * @param since - Only runs created on or after this date are returned
+   * @returns Array of workflow runs (empty if the workflow does not exist)
+   */
+  getWorkflowRuns(
+    owner: string,
+    repo: string,
+    workflowName: string,
+    since: Date
+  ): Promise<WorkflowRun[]>;
+}
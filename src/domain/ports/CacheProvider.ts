@@ -0,0 +1,37 @@
+/**
+ * Cached value with its timing metadata
+ */
+export interface CacheEntry<T> {
+  value: T;
+  cachedAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Cache provider port (interface)
+ * Defines the contract for caching operations
+ * Implementations will be in the infrastructure layer
+ */
+export interface CacheProvider<T> {
+  /**
+   * Gets a cached entry, including expired ones
+   * @param key - Cache key (e.g., organization name)
+   * @returns Cache entry, or null if nothing is cached for the key
+   */
+  get(key: string): Promise<CacheEntry<T> | null>;
+
+  /**
+   * Stores a value, replacing any previous entry for the key
+   * @param key - Cache key
+   * @param value - Value to cache
+   * @param cachedAt - When the value was fetched (default: now); an update of part of a value keeps the original time
+   * @returns The stored cache entry
+   */
+  set(key: string, value: T, cachedAt?: Date): Promise<CacheEntry<T>>;
+
+  /**
+   * Removes a cached entry
+   * @param key - Cache key
+   */
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,16 @@
+/**
+ * Commit provider port (interface)
+ * Defines the contract for looking up the commits shipped between two refs
+ * Implementations will be in the infrastructure layer
+ */
+export interface CommitProvider {
+  /**
+   * Gets the dates of commits reachable from one ref but not from another
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param baseRef - Ref of the previous release (e.g. "v1.1.0")
+   * @param headRef - Ref of the release (e.g. "v1.2.0")
+   * @returns Commit dates of the commits in headRef that are not in baseRef
+   */
+  getCommitDates(owner: string, repo: string, baseRef: string, headRef: string): Promise<Date[]>;
+}
@@ -0,0 +1,25 @@
+import { Contributor } from '../models/Contributor';
+
+/**
+ * Contributor provider port (interface)
+ * Defines the contract for repository contributor operations
+ * Implementations will be in the infrastructure layer
+ */
+export interface ContributorProvider {
+  /**
+   * Gets all-time contributors of a repository
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @returns Contributors sorted by number of contributions (highest first)
+   */
+  getContributors(owner: string, repo: string): Promise<Contributor[]>;
+
+  /**
+   * Gets the logins of everyone who authored a commit since a date
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param since - Only commits on or after this date are considered
+   * @returns Distinct author logins
+   */
+  getActiveContributorLogins(owner: string, repo: string, since: Date): Promise<string[]>;
+}
@@ -0,0 +1,39 @@
+/**
+ * Raised by providers when the GitHub (or GitLab) API rate limit has been hit and waiting it out is not an option
+ */
+export class RateLimitError extends Error {
+  constructor(
+    message: string,
+    public readonly resetAt: Date | null = null
+  ) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+
+  /**
+   * Seconds until the rate limit resets, or null if unknown
+   */
+  getRetryAfterSeconds(): number | null {
+    if (!this.resetAt) {
+      return null;
+    }
+    return Math.max(0, Math.ceil((this.resetAt.getTime() - Date.now()) / 1000));
+  }
+}
+
+/**
+ * Raised before starting work when the remaining rate limit budget is too low to complete it
+ */
+export class RateLimitBudgetError extends RateLimitError {
+  constructor(
+    public readonly remaining: number,
+    public readonly required: number,
+    resetAt: Date | null = null
+  ) {
+    super(
+      `GitHub API budget too low: ${remaining} requests remaining, ${required} required`,
+      resetAt
+    );
+    this.name = 'RateLimitBudgetError';
+  }
+}
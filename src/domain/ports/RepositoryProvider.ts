@@ -1,5 +1,12 @@
 import { Repository } from '../models/Repository';
-import { Release } from '../models/Release';
+
+/**
+ * Where a tag's release date was taken from, in order of preference:
+ * - `tagger`: date the annotated tag was created
+ * - `release`: publication date of the release for the tag
+ * - `commit`: commit date of the tagged commit
+ */
+export type TagDateSource = 'tagger' | 'release' | 'commit';
 
 /**
  * Tag data from repository provider
@@ -7,6 +14,25 @@ import { Release } from '../models/Release';
 export interface RepositoryTag {
   name: string;
   date: Date;
+  dateSource: TagDateSource;
+}
+
+/**
+ * Repositories returned by a provider
+ * `truncated` is true when the provider stopped before listing every repository
+ */
+export interface RepositoryList {
+  repositories: Repository[];
+  truncated: boolean;
+}
+
+/**
+ * Tags returned by a provider
+ * `truncated` is true when some of the repository's tags were left out
+ */
+export interface RepositoryTagList {
+  tags: RepositoryTag[];
+  truncated: boolean;
 }
 
 /**
@@ -18,15 +44,30 @@ export interface RepositoryProvider {
   /**
    * Lists all repositories for an organization
    * @param orgName - GitHub organization name
-   * @returns Array of repositories
+   * @returns Repositories and whether the list is incomplete
+   */
+  listRepositories(orgName: string): Promise<RepositoryList>;
+
+  /**
+   * Lists all repositories owned by a user account
+   * @param userName - User login
+   * @returns Repositories and whether the list is incomplete
+   */
+  listUserRepositories(userName: string): Promise<RepositoryList>;
+
+  /**
+   * Gets a single repository
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @returns Repository without release, build or activity data
    */
-  listRepositories(orgName: string): Promise<Repository[]>;
+  getRepository(owner: string, repo: string): Promise<Repository>;
 
   /**
    * Gets tags/releases for a specific repository
    * @param owner - Repository owner
    * @param repo - Repository name
-   * @returns Array of tags
+   * @returns Tags and whether the list is incomplete
    */
-  getRepositoryTags(owner: string, repo: string): Promise<RepositoryTag[]>;
+  getRepositoryTags(owner: string, repo: string): Promise<RepositoryTagList>;
 }
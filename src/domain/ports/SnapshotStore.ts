@@ -0,0 +1,30 @@
+import { RepositorySnapshot } from '../models/Snapshot';
+
+/**
+ * Filter of a snapshot query
+ */
+export interface SnapshotQuery {
+  owner?: string | null; // null: every owner
+  name?: string | null; // null: every repository of the owner
+  since: string; // First UTC day (YYYY-MM-DD), inclusive
+}
+
+/**
+ * Snapshot store port (interface)
+ * Persists daily repository snapshots so metrics can be compared over time
+ * Implementations will be in the infrastructure layer
+ */
+export interface SnapshotStore {
+  /**
+   * Stores snapshots, replacing those of the same repository and day
+   * @param snapshots - Snapshots to store
+   */
+  save(snapshots: RepositorySnapshot[]): Promise<void>;
+
+  /**
+   * Finds snapshots matching a query
+   * @param query - Owner, repository and first day to include
+   * @returns Snapshots ordered by date, then repository
+   */
+  find(query: SnapshotQuery): Promise<RepositorySnapshot[]>;
+}
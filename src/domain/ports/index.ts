@@ -1,3 +1,21 @@
-export { AuthProvider } from './AuthProvider';
-export { RepositoryProvider } from './RepositoryProvider';
-export { Logger } from './Logger';
+export type { AuthProvider } from './AuthProvider';
+export type {
+  RepositoryProvider,
+  RepositoryTag,
+  TagDateSource,
+  RepositoryList,
+  RepositoryTagList,
+} from './RepositoryProvider';
+export type { BuildProvider } from './BuildProvider';
+export type {
+  ActivityProvider,
+  WeeklyCommitActivity,
+  WeeklyCodeFrequency,
+  MergedPullRequest,
+} from './ActivityProvider';
+export type { ContributorProvider } from './ContributorProvider';
+export type { CommitProvider } from './CommitProvider';
+export type { CacheProvider, CacheEntry } from './CacheProvider';
+export type { SnapshotStore, SnapshotQuery } from './SnapshotStore';
+export type { Logger } from './Logger';
+export { RateLimitError, RateLimitBudgetError } from './RateLimitError';
@@ -0,0 +1,112 @@
+import { ActivityStats } from '../models/Activity';
+import {
+  WeeklyCommitActivity,
+  WeeklyCodeFrequency,
+  MergedPullRequest,
+} from '../ports/ActivityProvider';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Service for aggregating repository activity
+ * Pure domain service with no external dependencies
+ */
+export class ActivityAggregator {
+  /**
+   * Number of days covered by activity statistics
+   */
+  static readonly WINDOW_DAYS = 30;
+
+  /**
+   * Calculate activity statistics over the trailing window
+   * @param commitActivity - Weekly commit activity with daily counts
+   * @param codeFrequency - Weekly additions and deletions
+   * @param mergedPullRequests - Merged pull requests
+   * @param now - Reference date for the end of the window (default: current date)
+   * @returns Activity statistics
+   */
+  static calculateStats(
+    commitActivity: WeeklyCommitActivity[],
+    codeFrequency: WeeklyCodeFrequency[],
+    mergedPullRequests: MergedPullRequest[],
+    now: Date = new Date()
+  ): ActivityStats {
+    const windowStart = this.getWindowStart(now);
+    const commits = this.countCommits(commitActivity, windowStart, now);
+    const { additions, deletions } = this.sumCodeFrequency(codeFrequency, windowStart);
+    const merged = mergedPullRequests.filter(
+      pr => pr.mergedAt >= windowStart && pr.mergedAt <= now
+    ).length;
+
+    return new ActivityStats(
+      this.WINDOW_DAYS,
+      commits,
+      merged,
+      additions,
+      deletions,
+      this.calculateAveragePerWeek(commits, this.WINDOW_DAYS)
+    );
+  }
+
+  /**
+   * Count commits made between two dates, using daily granularity
+   * @param commitActivity - Weekly commit activity with daily counts
+   * @param from - Start of the range (inclusive)
+   * @param to - End of the range (inclusive)
+   * @returns Number of commits
+   */
+  static countCommits(commitActivity: WeeklyCommitActivity[], from: Date, to: Date): number {
+    return commitActivity.reduce((total, week) => {
+      return total + week.days.reduce((weekTotal, count, dayIndex) => {
+        const day = week.weekStart.getTime() + dayIndex * DAY_MS;
+        // A day counts if any part of it falls in the range
+        const inRange = day + DAY_MS > from.getTime() && day <= to.getTime();
+        return inRange ? weekTotal + count : weekTotal;
+      }, 0);
+    }, 0);
+  }
+
+  /**
+   * Sum additions and deletions for weeks overlapping the window
+   * Weekly granularity means the first week may extend slightly before the window
+   * @param codeFrequency - Weekly additions and deletions
+   * @param from - Start of the window
+   * @returns Total additions and deletions
+   */
+  static sumCodeFrequency(
+    codeFrequency: WeeklyCodeFrequency[],
+    from: Date
+  ): { additions: number; deletions: number } {
+    return codeFrequency
+      .filter(week => week.weekStart.getTime() + 7 * DAY_MS > from.getTime())
+      .reduce(
+        (totals, week) => ({
+          additions: totals.additions + week.additions,
+          deletions: totals.deletions + Math.abs(week.deletions),
+        }),
+        { additions: 0, deletions: 0 }
+      );
+  }
+
+  /**
+   * Calculate the average number of commits per week
+   * @param commits - Number of commits
+   * @param days - Number of days the commits span
+   * @returns Average per week, rounded to one decimal place
+   */
+  static calculateAveragePerWeek(commits: number, days: number): number {
+    if (days <= 0) {
+      return 0;
+    }
+    return Math.round((commits / (days / 7)) * 10) / 10;
+  }
+
+  /**
+   * Get the start date of the activity window
+   * @param now - Reference date (default: current date)
+   * @returns Date WINDOW_DAYS days before the reference date
+   */
+  static getWindowStart(now: Date = new Date()): Date {
+    return new Date(now.getTime() - this.WINDOW_DAYS * DAY_MS);
+  }
+}
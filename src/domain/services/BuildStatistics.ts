@@ -0,0 +1,59 @@
+import { BuildStats, WorkflowRun } from '../models/Build';
+
+/**
+ * Service for calculating build statistics
+ * Pure domain service with no external dependencies
+ */
+export class BuildStatistics {
+  /**
+   * Number of months of workflow history considered for build statistics
+   */
+  static readonly WINDOW_MONTHS = 12;
+
+  /**
+   * Calculate statistics from a list of workflow runs
+   * Runs that have not completed yet are ignored
+   * @param runs - List of workflow runs
+   * @returns Build statistics
+   */
+  static calculateStats(runs: WorkflowRun[]): BuildStats {
+    const completedRuns = runs.filter(run => run.isCompleted());
+
+    const successful = completedRuns.filter(run => run.isSuccessful()).length;
+    const failed = completedRuns.filter(run => run.isFailed()).length;
+    const cancelled = completedRuns.filter(run => run.isCancelled()).length;
+    const total = completedRuns.length;
+
+    return new BuildStats(
+      successful,
+      failed,
+      cancelled,
+      total,
+      this.calculateSuccessRate(successful, total)
+    );
+  }
+
+  /**
+   * Calculate success rate as a percentage
+   * @param successful - Number of successful builds
+   * @param total - Total number of builds
+   * @returns Success rate (0-100), rounded to one decimal place
+   */
+  static calculateSuccessRate(successful: number, total: number): number {
+    if (total === 0) {
+      return 0;
+    }
+    return Math.round((successful / total) * 1000) / 10;
+  }
+
+  /**
+   * Get the start date of the build statistics window
+   * @param now - Reference date (default: current date)
+   * @returns Date WINDOW_MONTHS months before the reference date
+   */
+  static getWindowStart(now: Date = new Date()): Date {
+    const start = new Date(now);
+    start.setMonth(start.getMonth() - this.WINDOW_MONTHS);
+    return start;
+  }
+}
@@ -0,0 +1,69 @@
+import { Contributor, ContributorStats } from '../models/Contributor';
+
+/**
+ * Service for calculating contributor statistics
+ * Pure domain service with no external dependencies
+ */
+export class ContributorStatistics {
+  /**
+   * Number of days a contributor stays "active" after their last commit
+   */
+  static readonly ACTIVE_WINDOW_DAYS = 90;
+
+  /**
+   * Number of top contributors kept in the statistics
+   */
+  static readonly TOP_CONTRIBUTORS = 5;
+
+  /**
+   * Default login patterns identifying bots
+   */
+  static readonly DEFAULT_BOT_PATTERNS = ['*[bot]', 'dependabot*', 'renovate*'];
+
+  /**
+   * Calculate statistics from contributors, excluding bots
+   * @param contributors - All-time contributors
+   * @param activeLogins - Logins of contributors active in the window
+   * @param botPatterns - Login patterns identifying bots (default: DEFAULT_BOT_PATTERNS)
+   * @returns Contributor statistics
+   */
+  static calculateStats(
+    contributors: Contributor[],
+    activeLogins: string[],
+    botPatterns: string[] = this.DEFAULT_BOT_PATTERNS
+  ): ContributorStats {
+    const humans = this.filterBots(contributors, botPatterns);
+    const activeHumans = new Set(
+      activeLogins
+        .filter(login => !Contributor.loginMatches(login, botPatterns))
+        .map(login => login.toLowerCase())
+    );
+
+    const topContributors = [...humans]
+      .sort((a, b) => b.contributions - a.contributions)
+      .slice(0, this.TOP_CONTRIBUTORS);
+
+    return new ContributorStats(humans.length, activeHumans.size, topContributors);
+  }
+
+  /**
+   * Filter out bot accounts
+   * @param contributors - List of contributors
+   * @param botPatterns - Login patterns identifying bots
+   * @returns Contributors that are not bots
+   */
+  static filterBots(contributors: Contributor[], botPatterns: string[]): Contributor[] {
+    return contributors.filter(
+      contributor => !contributor.isBot && !contributor.matchesAny(botPatterns)
+    );
+  }
+
+  /**
+   * Get the start date of the active contributor window
+   * @param now - Reference date (default: current date)
+   * @returns Date ACTIVE_WINDOW_DAYS days before the reference date
+   */
+  static getActiveWindowStart(now: Date = new Date()): Date {
+    return new Date(now.getTime() - this.ACTIVE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  }
+}
@@ -0,0 +1,292 @@
+import { DoraLevel, DoraMetrics } from '../models/Dora';
+import { Release } from '../models/Release';
+import { WorkflowRun } from '../models/Build';
+
+/**
+ * A release together with the deployment it follows, used to find the commits it shipped
+ */
+export interface ReleaseChange {
+  previous: Release;
+  release: Release;
+}
+
+const HOURS_PER_DAY = 24;
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+/**
+ * Service for calculating the four DORA metrics
+ * Deployments are stable releases, failures are releases hotfixed by a patch release,
+ * and restores are failed default-branch builds followed by a green one
+ * Pure domain service with no external dependencies
+ */
+export class DoraCalculator {
+  /**
+   * Number of days of history the metrics are calculated over
+   */
+  static readonly WINDOW_DAYS = 90;
+
+  /**
+   * Days after a release within which a patch release counts as its hotfix
+   */
+  static readonly DEFAULT_HOTFIX_WINDOW_DAYS = 7;
+
+  /**
+   * Most recent deployments whose commits are looked up for lead time
+   */
+  static readonly MAX_LEAD_TIME_RELEASES = 10;
+
+  /**
+   * Calculate the DORA metrics of a repository
+   * @param releases - Releases of the repository, with bump types classified
+   * @param leadTimes - Commit-to-tag times in hours, or null if commits are unavailable
+   * @param runs - Workflow runs, or null if no build data is available
+   * @param defaultBranch - Branch whose builds count for time to restore (null: all branches)
+   * @param hotfixWindowDays - Days within which a patch release marks its predecessor as failed
+   * @param now - Reference date (default: current date)
+   * @returns DORA metrics over the last WINDOW_DAYS days
+   */
+  static calculateMetrics(
+    releases: Release[],
+    leadTimes: number[] | null,
+    runs: WorkflowRun[] | null,
+    defaultBranch: string | null,
+    hotfixWindowDays: number = this.DEFAULT_HOTFIX_WINDOW_DAYS,
+    now: Date = new Date()
+  ): DoraMetrics {
+    const deployments = this.getDeployments(releases, now);
+    const failedDeployments = this.countFailedDeployments(deployments, releases, hotfixWindowDays);
+    const restoreTimes = runs ? this.calculateRestoreTimes(runs, defaultBranch, now) : [];
+
+    return this.buildMetrics(
+      deployments.length,
+      failedDeployments,
+      leadTimes && leadTimes.length > 0 ? this.median(leadTimes) : null,
+      restoreTimes.length > 0 ? this.median(restoreTimes) : null
+    );
+  }
+
+  /**
+   * Aggregate repository metrics into organization-wide metrics
+   * Deployments and failures are pooled across repositories; lead time and
+   * time to restore are the median of the repository medians
+   * @param metrics - DORA metrics of each repository (null entries are skipped)
+   * @returns Organization metrics, or null if no repository has metrics
+   */
+  static aggregate(metrics: (DoraMetrics | null)[]): DoraMetrics | null {
+    const measured = metrics.filter((m): m is DoraMetrics => m !== null);
+    if (measured.length === 0) {
+      return null;
+    }
+
+    const leadTimes = measured.map(m => m.leadTimeHours).filter((h): h is number => h !== null);
+    const restoreTimes = measured.map(m => m.timeToRestoreHours).filter((h): h is number => h !== null);
+
+    return this.buildMetrics(
+      measured.reduce((sum, m) => sum + m.deployments, 0),
+      measured.reduce((sum, m) => sum + m.failedDeployments, 0),
+      leadTimes.length > 0 ? this.median(leadTimes) : null,
+      restoreTimes.length > 0 ? this.median(restoreTimes) : null
+    );
+  }
+
+  /**
+   * Get the deployments (stable or unversioned releases) within the window
+   * @param releases - List of releases
+   * @param now - Reference date (default: current date)
+   * @returns Deployments sorted by date (oldest first)
+   */
+  static getDeployments(releases: Release[], now: Date = new Date()): Release[] {
+    const windowStart = now.getTime() - this.WINDOW_DAYS * HOURS_PER_DAY * MS_PER_HOUR;
+    return releases
+      .filter(release => this.isDeployment(release))
+      .filter(release => release.date.getTime() >= windowStart && release.date.getTime() <= now.getTime())
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  /**
+   * Pair the most recent deployments with the deployment they follow
+   * Versioned releases follow the next lower version, so backports are compared within their
+   * own version line; unversioned releases follow the previous deployment by date
+   * @param releases - List of releases
+   * @param now - Reference date (default: current date)
+   * @returns Up to MAX_LEAD_TIME_RELEASES changes, oldest first
+   */
+  static getReleaseChanges(releases: Release[], now: Date = new Date()): ReleaseChange[] {
+    const allDeployments = releases
+      .filter(release => this.isDeployment(release))
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+    const versioned = allDeployments
+      .filter(release => release.hasStableVersion())
+      .sort((a, b) => a.version!.compareTo(b.version!) || a.date.getTime() - b.date.getTime());
+
+    const changes: ReleaseChange[] = [];
+    this.getDeployments(releases, now)
+      .slice(-this.MAX_LEAD_TIME_RELEASES)
+      .forEach(release => {
+        const ordered = release.hasStableVersion() ? versioned : allDeployments;
+        const index = ordered.indexOf(release);
+        if (index > 0) {
+          changes.push({ previous: ordered[index - 1], release });
+        }
+      });
+    return changes;
+  }
+
+  /**
+   * Calculate commit-to-tag times of the commits shipped in a release
+   * Commits dated after the tag (e.g. rebased) count as zero
+   * @param release - Release the commits shipped in
+   * @param commitDates - Dates of the commits in the release
+   * @returns Lead times in hours
+   */
+  static calculateLeadTimes(release: Release, commitDates: Date[]): number[] {
+    return commitDates.map(date =>
+      Math.max(0, (release.date.getTime() - date.getTime()) / MS_PER_HOUR)
+    );
+  }
+
+  /**
+   * Count deployments followed by a patch release of the same version line within the hotfix window
+   * @param deployments - Deployments to check
+   * @param releases - All releases, with bump types classified
+   * @param hotfixWindowDays - Days after a deployment within which a patch release counts as a hotfix
+   * @returns Number of failed deployments
+   */
+  static countFailedDeployments(deployments: Release[], releases: Release[], hotfixWindowDays: number): number {
+    const hotfixes = releases.filter(release => release.bumpType === 'patch');
+    const windowMs = hotfixWindowDays * HOURS_PER_DAY * MS_PER_HOUR;
+
+    return deployments.filter(deployment =>
+      deployment.hasStableVersion() &&
+      hotfixes.some(hotfix => {
+        const elapsed = hotfix.date.getTime() - deployment.date.getTime();
+        return elapsed > 0 && elapsed <= windowMs && this.isSameLine(deployment, hotfix);
+      })
+    ).length;
+  }
+
+  /**
+   * Calculate times from a failed build to the next successful one on a branch
+   * Cancelled and unfinished runs are ignored; a failure still open at the end is not counted
+   * @param runs - Workflow runs
+   * @param branch - Branch to consider (null: all branches)
+   * @param now - Reference date (default: current date)
+   * @returns Restore times in hours, for failures within the window
+   */
+  static calculateRestoreTimes(runs: WorkflowRun[], branch: string | null, now: Date = new Date()): number[] {
+    const windowStart = now.getTime() - this.WINDOW_DAYS * HOURS_PER_DAY * MS_PER_HOUR;
+    const relevant = runs
+      .filter(run => branch === null || run.branch === branch)
+      .filter(run => run.isSuccessful() || run.isFailed())
+      .filter(run => run.createdAt.getTime() >= windowStart)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    const restoreTimes: number[] = [];
+    let failedAt: Date | null = null;
+    relevant.forEach(run => {
+      if (run.isFailed()) {
+        failedAt = failedAt ?? run.createdAt;
+      } else if (failedAt) {
+        restoreTimes.push((run.createdAt.getTime() - failedAt.getTime()) / MS_PER_HOUR);
+        failedAt = null;
+      }
+    });
+    return restoreTimes;
+  }
+
+  /**
+   * Band deployment frequency: daily or more is elite, weekly high, monthly medium
+   */
+  static classifyDeploymentFrequency(deploymentsPerWeek: number): DoraLevel {
+    return deploymentsPerWeek >= 7 ? 'elite'
+      : deploymentsPerWeek >= 1 ? 'high'
+      : deploymentsPerWeek >= 7 / 30 ? 'medium'
+      : 'low';
+  }
+
+  /**
+   * Band lead time: under a day is elite, a week high, a month medium
+   */
+  static classifyLeadTime(hours: number): DoraLevel {
+    return hours < HOURS_PER_DAY ? 'elite'
+      : hours < 7 * HOURS_PER_DAY ? 'high'
+      : hours < 30 * HOURS_PER_DAY ? 'medium'
+      : 'low';
+  }
+
+  /**
+   * Band change failure rate: up to 5% is elite, 10% high, 15% medium
+   */
+  static classifyChangeFailureRate(percentage: number): DoraLevel {
+    return percentage <= 5 ? 'elite'
+      : percentage <= 10 ? 'high'
+      : percentage <= 15 ? 'medium'
+      : 'low';
+  }
+
+  /**
+   * Band time to restore: under an hour is elite, a day high, a week medium
+   */
+  static classifyTimeToRestore(hours: number): DoraLevel {
+    return hours < 1 ? 'elite'
+      : hours < HOURS_PER_DAY ? 'high'
+      : hours < 7 * HOURS_PER_DAY ? 'medium'
+      : 'low';
+  }
+
+  /**
+   * Build metrics from raw values, banding them before rounding
+   */
+  private static buildMetrics(
+    deployments: number,
+    failedDeployments: number,
+    leadTimeHours: number | null,
+    timeToRestoreHours: number | null
+  ): DoraMetrics {
+    const deploymentsPerWeek = (deployments * 7) / this.WINDOW_DAYS;
+    const changeFailureRate = deployments > 0 ? (failedDeployments / deployments) * 100 : null;
+
+    return new DoraMetrics(
+      this.WINDOW_DAYS,
+      deployments,
+      failedDeployments,
+      this.roundTo(deploymentsPerWeek, 2),
+      leadTimeHours !== null ? this.roundTo(leadTimeHours, 1) : null,
+      changeFailureRate !== null ? this.roundTo(changeFailureRate, 1) : null,
+      timeToRestoreHours !== null ? this.roundTo(timeToRestoreHours, 1) : null,
+      {
+        deploymentFrequency: this.classifyDeploymentFrequency(deploymentsPerWeek),
+        leadTime: leadTimeHours !== null ? this.classifyLeadTime(leadTimeHours) : null,
+        changeFailureRate: changeFailureRate !== null ? this.classifyChangeFailureRate(changeFailureRate) : null,
+        timeToRestore: timeToRestoreHours !== null ? this.classifyTimeToRestore(timeToRestoreHours) : null,
+      }
+    );
+  }
+
+  /**
+   * Check if a release is a deployment (pre-releases are not)
+   */
+  private static isDeployment(release: Release): boolean {
+    return !release.version || release.version.isStable();
+  }
+
+  /**
+   * Check if two releases share major and minor version
+   */
+  private static isSameLine(a: Release, b: Release): boolean {
+    const [aMajor = 0, aMinor = 0] = a.version?.segments ?? [];
+    const [bMajor = 0, bMinor = 0] = b.version?.segments ?? [];
+    return !!b.version && aMajor === bMajor && aMinor === bMinor;
+  }
+
+  private static median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+
+  private static roundTo(value: number, decimals: number): number {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+  }
+}
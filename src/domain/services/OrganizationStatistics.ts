@@ -0,0 +1,79 @@
+import { OrganizationStats } from '../models/Organization';
+import { Repository } from '../models/Repository';
+import { ReleaseCalculator } from './ReleaseCalculator';
+
+/**
+ * Service for calculating organization-wide statistics
+ * Pure domain service with no external dependencies
+ */
+export class OrganizationStatistics {
+  /**
+   * Number of days without a release after which a repository is considered stale
+   */
+  static readonly STALE_AFTER_DAYS = 90;
+
+  /**
+   * Calculate statistics from a list of enriched repositories
+   * Repositories without release data are not counted as stale, since their release history is unknown
+   * @param repositories - Repositories enriched with release and build statistics
+   * @param now - Reference date for the current month (default: current date)
+   * @returns Organization statistics
+   */
+  static calculateStats(repositories: Repository[], now: Date = new Date()): OrganizationStats {
+    const currentMonth = ReleaseCalculator.toMonthKey(now);
+
+    let releasesThisMonth = 0;
+    let releasesLast30Days = 0;
+    let staleRepositories = 0;
+
+    repositories.forEach(repository => {
+      const releaseStats = repository.releaseStats;
+      if (!releaseStats) {
+        return;
+      }
+
+      const monthly = releaseStats.monthlyReleases.find(release => release.month === currentMonth);
+      releasesThisMonth += monthly ? monthly.count : 0;
+      releasesLast30Days += releaseStats.releasesLast30Days;
+
+      if (this.isStale(releaseStats.daysSinceLatestRelease)) {
+        staleRepositories++;
+      }
+    });
+
+    return new OrganizationStats(
+      repositories.length,
+      releasesThisMonth,
+      releasesLast30Days,
+      staleRepositories,
+      this.calculateAverageSuccessRate(repositories)
+    );
+  }
+
+  /**
+   * Calculate the mean build success rate of repositories that have builds
+   * @param repositories - List of repositories
+   * @returns Average success rate (0-100) rounded to one decimal place, or null if no repository has builds
+   */
+  static calculateAverageSuccessRate(repositories: Repository[]): number | null {
+    const rates = repositories
+      .filter(repository => repository.buildStats?.hasBuilds())
+      .map(repository => repository.buildStats!.successRate);
+
+    if (rates.length === 0) {
+      return null;
+    }
+
+    const sum = rates.reduce((total, rate) => total + rate, 0);
+    return Math.round((sum / rates.length) * 10) / 10;
+  }
+
+  /**
+   * Check if a repository has gone too long without a release
+   * @param daysSinceLatestRelease - Days since the latest release, or null if it never released
+   * @returns True if the repository never released or released STALE_AFTER_DAYS or more days ago
+   */
+  static isStale(daysSinceLatestRelease: number | null): boolean {
+    return daysSinceLatestRelease === null || daysSinceLatestRelease >= this.STALE_AFTER_DAYS;
+  }
+}
@@ -1,41 +1,336 @@
-import { Release, ReleaseStats, SemanticVersion } from '../models/Release';
+import {
+  BumpType,
+  BumpTypeCounts,
+  CadenceTrend,
+  MonthlyRelease,
+  Release,
+  ReleaseCadence,
+  ReleaseStats,
+} from '../models/Release';
+import { Version } from '../models/Version';
+import { VersionScheme, SemVerScheme } from '../models/VersionScheme';
 
 /**
  * Service for calculating release statistics
  * Pure domain service with no external dependencies
  */
 export class ReleaseCalculator {
+  /**
+   * Number of months covered by the monthly release breakdown
+   */
+  static readonly MONTHLY_WINDOW = 12;
+
+  /**
+   * Number of days considered recent when counting releases
+   */
+  static readonly RECENT_WINDOW_DAYS = 30;
+
+  /**
+   * Number of days in a quarter when comparing release cadence
+   */
+  static readonly QUARTER_DAYS = 91;
+
+  /**
+   * Relative change in quarterly releases above which cadence is trending
+   */
+  static readonly TREND_THRESHOLD = 0.2;
+
+  /**
+   * Number of intervals kept for the cadence sparkline
+   */
+  static readonly SPARKLINE_INTERVALS = 20;
+
   /**
    * Calculate statistics from a list of releases
    * @param releases - List of releases sorted by date (newest first)
+   * @param isTruncated - Whether the releases are only part of the tag history (default: false)
+   * @param versionScheme - Name of the scheme the releases were parsed with (default: "semver")
    * @returns Release statistics
    */
-  static calculateStats(releases: Release[]): ReleaseStats {
+  static calculateStats(
+    releases: Release[],
+    isTruncated: boolean = false,
+    versionScheme: string = 'semver'
+  ): ReleaseStats {
     if (releases.length === 0) {
-      return new ReleaseStats(0, 0, null, null, null);
+      return new ReleaseStats(
+        0, 0, null, null, null, this.calculateMonthlyBreakdown([]), isTruncated, 0, versionScheme, null, 0,
+        this.calculateCadence([]), this.countBumpTypes([])
+      );
     }
 
-    const semanticReleases = this.filterSemanticVersions(releases);
+    const versionedReleases = this.filterVersionedReleases(releases);
     const latestRelease = releases[0]; // Assumes sorted by date descending
-    const latestSemanticRelease = semanticReleases.length > 0 ? semanticReleases[0] : null;
+    const latestVersionedRelease = versionedReleases.length > 0 ? versionedReleases[0] : null;
+    const highestVersionedRelease = this.sortByVersion(versionedReleases)[0] ?? null;
     const daysSinceLatest = this.calculateDaysSince(latestRelease.date);
+    const monthlyReleases = this.calculateMonthlyBreakdown(releases);
 
     return new ReleaseStats(
       releases.length,
-      semanticReleases.length,
+      versionedReleases.length,
       latestRelease,
-      latestSemanticRelease,
-      daysSinceLatest
+      latestVersionedRelease,
+      daysSinceLatest,
+      monthlyReleases,
+      isTruncated,
+      this.countRecentReleases(releases),
+      versionScheme,
+      highestVersionedRelease,
+      releases.filter(release => release.isBackport).length,
+      this.calculateCadence(releases),
+      this.sumBumpCounts(monthlyReleases)
+    );
+  }
+
+  /**
+   * Count releases per calendar month over a trailing window
+   * Months without releases are included with a count of zero
+   * @param releases - List of releases
+   * @param months - Number of months in the window, including the current one (default: 12)
+   * @param now - Reference date for the end of the window (default: current date)
+   * @returns Monthly release and bump type counts ordered from oldest to newest month
+   */
+  static calculateMonthlyBreakdown(
+    releases: Release[],
+    months: number = this.MONTHLY_WINDOW,
+    now: Date = new Date()
+  ): MonthlyRelease[] {
+    const monthly = new Map<string, Release[]>();
+    for (let offset = months - 1; offset >= 0; offset--) {
+      const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - offset, 1));
+      monthly.set(this.toMonthKey(month), []);
+    }
+
+    releases.forEach(release => {
+      monthly.get(this.toMonthKey(release.date))?.push(release);
+    });
+
+    return Array.from(monthly.entries()).map(
+      ([month, monthReleases]) =>
+        new MonthlyRelease(month, monthReleases.length, this.countBumpTypes(monthReleases))
+    );
+  }
+
+  /**
+   * Count releases per bump type
+   * @param releases - List of releases
+   * @returns Counts per bump type; unclassified releases are not counted
+   */
+  static countBumpTypes(releases: Release[]): BumpTypeCounts {
+    const counts: BumpTypeCounts = { major: 0, minor: 0, patch: 0, prerelease: 0 };
+    releases.forEach(release => {
+      if (release.bumpType) {
+        counts[release.bumpType]++;
+      }
+    });
+    return counts;
+  }
+
+  /**
+   * Classify each release as a major, minor, patch or pre-release bump
+   * A stable release is compared with the next lower stable version, so backports
+   * are compared within their own line; the first differing version segment decides the bump
+   * @param releases - List of releases sorted by date (newest first)
+   * @returns Releases in the same order with bumpType set
+   */
+  static classifyBumps(releases: Release[]): Release[] {
+    const bumps = new Map<Release, BumpType | null>();
+    const stable = releases
+      .filter(release => release.hasStableVersion())
+      .sort((a, b) => a.version!.compareTo(b.version!) || a.date.getTime() - b.date.getTime());
+
+    stable.forEach((release, index) => {
+      bumps.set(release, index > 0 ? this.getBumpType(stable[index - 1].version!, release.version!) : null);
+    });
+
+    return releases.map(release => {
+      const bumpType = release.version && !release.version.isStable() ? 'prerelease' : bumps.get(release) ?? null;
+      return bumpType === release.bumpType
+        ? release
+        : new Release(release.tagName, release.date, release.version, release.isBackport, bumpType);
+    });
+  }
+
+  /**
+   * Get the bump from one version to the next
+   * @returns Bump type, or null if the versions have equal segments
+   */
+  static getBumpType(previous: Version, next: Version): BumpType | null {
+    const length = Math.max(previous.segments.length, next.segments.length);
+    for (let i = 0; i < length; i++) {
+      if ((previous.segments[i] ?? 0) !== (next.segments[i] ?? 0)) {
+        return i === 0 ? 'major' : i === 1 ? 'minor' : 'patch';
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Sum bump counts over a monthly breakdown
+   */
+  private static sumBumpCounts(monthlyReleases: MonthlyRelease[]): BumpTypeCounts {
+    return monthlyReleases.reduce(
+      (total, monthly) => ({
+        major: total.major + monthly.bumpCounts.major,
+        minor: total.minor + monthly.bumpCounts.minor,
+        patch: total.patch + monthly.bumpCounts.patch,
+        prerelease: total.prerelease + monthly.bumpCounts.prerelease,
+      }),
+      { major: 0, minor: 0, patch: 0, prerelease: 0 }
+    );
+  }
+
+  /**
+   * Count releases published within a trailing number of days
+   * @param releases - List of releases
+   * @param days - Number of days in the window (default: 30)
+   * @param now - Reference date for the end of the window (default: current date)
+   * @returns Number of releases dated within the window
+   */
+  static countRecentReleases(
+    releases: Release[],
+    days: number = this.RECENT_WINDOW_DAYS,
+    now: Date = new Date()
+  ): number {
+    const since = now.getTime() - days * 24 * 60 * 60 * 1000;
+    return releases.filter(release => {
+      const time = release.date.getTime();
+      return time >= since && time <= now.getTime();
+    }).length;
+  }
+
+  /**
+   * Calculate release cadence from the full release history
+   * @param releases - List of releases sorted by date (newest first)
+   * @param now - Reference date for the rolling windows (default: current date)
+   * @returns Release cadence
+   */
+  static calculateCadence(releases: Release[], now: Date = new Date()): ReleaseCadence {
+    const intervals = this.calculateIntervals(releases);
+    const sorted = [...intervals].sort((a, b) => a - b);
+    const mean = intervals.length > 0
+      ? intervals.reduce((sum, interval) => sum + interval, 0) / intervals.length
+      : null;
+
+    return new ReleaseCadence(
+      mean !== null ? this.roundTo(mean, 1) : null,
+      sorted.length > 0 ? this.roundTo(this.median(sorted), 1) : null,
+      sorted.length > 0 ? sorted[sorted.length - 1] : null,
+      this.roundTo(this.countRecentReleases(releases, 28, now) / 4, 2),
+      this.roundTo(this.countRecentReleases(releases, 84, now) / 12, 2),
+      this.calculateTrend(releases, now),
+      intervals.slice(-this.SPARKLINE_INTERVALS)
     );
   }
 
   /**
-   * Filter releases to only include those with semantic versions
+   * Calculate the days between consecutive releases
+   * @param releases - List of releases sorted by date (newest first)
+   * @returns Intervals in days (one decimal), ordered from oldest to newest
+   */
+  static calculateIntervals(releases: Release[]): number[] {
+    const intervals: number[] = [];
+    for (let i = releases.length - 1; i > 0; i--) {
+      const diffMs = releases[i - 1].date.getTime() - releases[i].date.getTime();
+      intervals.push(this.roundTo(diffMs / (1000 * 60 * 60 * 24), 1));
+    }
+    return intervals;
+  }
+
+  /**
+   * Compare releases in the last quarter with the previous quarter
+   * @param releases - List of releases
+   * @param now - Reference date (default: current date)
+   * @returns Accelerating or slowing if the count changed by more than TREND_THRESHOLD, steady otherwise
+   */
+  static calculateTrend(releases: Release[], now: Date = new Date()): CadenceTrend {
+    const quarterMs = this.QUARTER_DAYS * 24 * 60 * 60 * 1000;
+    const lastQuarterStart = now.getTime() - quarterMs;
+    const previousQuarterStart = lastQuarterStart - quarterMs;
+
+    let lastQuarter = 0;
+    let previousQuarter = 0;
+    releases.forEach(release => {
+      const time = release.date.getTime();
+      if (time > lastQuarterStart && time <= now.getTime()) {
+        lastQuarter++;
+      } else if (time > previousQuarterStart && time <= lastQuarterStart) {
+        previousQuarter++;
+      }
+    });
+
+    if (previousQuarter === 0) {
+      return lastQuarter > 0 ? 'accelerating' : 'steady';
+    }
+
+    const change = (lastQuarter - previousQuarter) / previousQuarter;
+    if (change > this.TREND_THRESHOLD) {
+      return 'accelerating';
+    }
+    if (change < -this.TREND_THRESHOLD) {
+      return 'slowing';
+    }
+    return 'steady';
+  }
+
+  /**
+   * Format a date as a "YYYY-MM" month key (UTC)
+   * @param date - The date to format
+   * @returns Month key (e.g., "2025-01")
+   */
+  static toMonthKey(date: Date): string {
+    const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+    return `${date.getUTCFullYear()}-${month}`;
+  }
+
+  /**
+   * Filter releases to only include those with a stable version
    * @param releases - List of releases
-   * @returns Releases with semantic versions only
+   * @returns Releases with stable versions only
    */
-  static filterSemanticVersions(releases: Release[]): Release[] {
-    return releases.filter(release => release.hasSemanticVersion());
+  static filterVersionedReleases(releases: Release[]): Release[] {
+    return releases.filter(release => release.hasStableVersion());
+  }
+
+  /**
+   * Sort releases by version precedence
+   * Releases without a version are left out; equal versions keep the most recent first
+   * @param releases - List of releases sorted by date (newest first)
+   * @returns Versioned releases ordered from highest to lowest version
+   */
+  static sortByVersion(releases: Release[]): Release[] {
+    return releases
+      .filter(release => release.version !== null)
+      .sort((a, b) => b.version!.compareTo(a.version!) || b.date.getTime() - a.date.getTime());
+  }
+
+  /**
+   * Flag releases that break monotonic version order as backports
+   * A release is a backport if a higher version was released before it
+   * @param releases - List of releases sorted by date (newest first)
+   * @returns Releases in the same order with isBackport set
+   */
+  static flagBackports(releases: Release[]): Release[] {
+    let highestSoFar: Version | null = null;
+    const flagged = new Array<Release>(releases.length);
+
+    // Walk from oldest to newest, tracking the highest version released so far
+    for (let i = releases.length - 1; i >= 0; i--) {
+      const release = releases[i];
+      const version = release.version;
+      const isBackport = version !== null && highestSoFar !== null && highestSoFar.isHigherThan(version);
+
+      if (version && (!highestSoFar || version.isHigherThan(highestSoFar))) {
+        highestSoFar = version;
+      }
+      flagged[i] =
+        isBackport === release.isBackport
+          ? release
+          : new Release(release.tagName, release.date, version, isBackport, release.bumpType);
+    }
+
+    return flagged;
   }
 
   /**
@@ -52,15 +347,21 @@ export class ReleaseCalculator {
   /**
    * Parse tags into Release objects
    * @param tags - Array of tag objects with name and date
-   * @returns Array of Release objects sorted by date descending
+   * @param scheme - Version scheme used to read versions from tag names (default: SemVer)
+   * @returns Array of Release objects sorted by date descending, with backports and bump types set
    */
-  static parseTags(tags: Array<{ name: string; date: Date }>): Release[] {
-    return tags
+  static parseTags(
+    tags: Array<{ name: string; date: Date }>,
+    scheme: VersionScheme = new SemVerScheme()
+  ): Release[] {
+    const releases = tags
       .map(tag => {
-        const version = SemanticVersion.parse(tag.name);
+        const version = scheme.parse(tag.name);
         return new Release(tag.name, tag.date, version);
       })
       .sort((a, b) => b.date.getTime() - a.date.getTime());
+
+    return this.classifyBumps(this.flagBackports(releases));
   }
 
   /**
@@ -82,4 +383,17 @@ export class ReleaseCalculator {
   static isRecentRelease(release: Release, days: number): boolean {
     return release.getDaysSince() <= days;
   }
+
+  /**
+   * Median of a sorted, non-empty list of numbers
+   */
+  private static median(sorted: number[]): number {
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+
+  private static roundTo(value: number, decimals: number): number {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+  }
 }
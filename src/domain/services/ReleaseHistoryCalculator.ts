@@ -0,0 +1,73 @@
+import { Release } from '../models/Release';
+import { ReleaseGap, ReleaseHistory, VersionLine } from '../models/ReleaseHistory';
+import { ReleaseCalculator } from './ReleaseCalculator';
+
+/**
+ * Service for building the full release history of a repository
+ * Pure domain service with no external dependencies
+ */
+export class ReleaseHistoryCalculator {
+  /**
+   * Build the release history
+   * The monthly breakdown spans every month since the first release, and at least a year
+   * @param releases - List of releases sorted by date (newest first)
+   * @param isTruncated - Whether the releases are only part of the tag history (default: false)
+   * @param now - Reference date for the end of the monthly breakdown (default: current date)
+   * @returns Release history
+   */
+  static calculate(releases: Release[], isTruncated: boolean = false, now: Date = new Date()): ReleaseHistory {
+    const first = releases[releases.length - 1];
+    const months = first
+      ? (now.getUTCFullYear() - first.date.getUTCFullYear()) * 12 + now.getUTCMonth() - first.date.getUTCMonth() + 1
+      : 0;
+
+    return new ReleaseHistory(
+      releases,
+      ReleaseCalculator.calculateMonthlyBreakdown(releases, Math.max(months, ReleaseCalculator.MONTHLY_WINDOW), now),
+      this.groupByVersionLine(releases),
+      this.calculateGaps(releases),
+      isTruncated
+    );
+  }
+
+  /**
+   * Group versioned releases by major version
+   * Pre-releases belong to the line of their major version; unversioned releases are left out
+   * @param releases - List of releases sorted by date (newest first)
+   * @returns Version lines ordered from highest to lowest major version
+   */
+  static groupByVersionLine(releases: Release[]): VersionLine[] {
+    const lines = new Map<number, Release[]>();
+    releases.forEach(release => {
+      if (release.version) {
+        const major = release.version.segments[0];
+        lines.set(major, [...(lines.get(major) || []), release]);
+      }
+    });
+
+    return Array.from(lines.entries())
+      .sort(([a], [b]) => b - a)
+      .map(([major, lineReleases]) => {
+        const highest = ReleaseCalculator.sortByVersion(ReleaseCalculator.filterVersionedReleases(lineReleases))[0];
+        return new VersionLine(
+          `${major}.x`,
+          major,
+          lineReleases.length,
+          lineReleases[lineReleases.length - 1],
+          lineReleases[0],
+          // A line of pre-releases only is headed by its highest pre-release
+          highest ?? ReleaseCalculator.sortByVersion(lineReleases)[0]
+        );
+      });
+  }
+
+  /**
+   * Calculate the gap before each release
+   * @param releases - List of releases sorted by date (newest first)
+   * @returns Gaps ordered from the most recent release to the oldest
+   */
+  static calculateGaps(releases: Release[]): ReleaseGap[] {
+    const intervals = ReleaseCalculator.calculateIntervals(releases).reverse();
+    return intervals.map((days, index) => new ReleaseGap(releases[index + 1], releases[index], days));
+  }
+}
@@ -0,0 +1,97 @@
+import { OrganizationSnapshot, RepositorySnapshot } from '../models/Snapshot';
+import { Repository } from '../models/Repository';
+import { OrganizationStatistics } from './OrganizationStatistics';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Service for building snapshots of repositories and aggregating them over time
+ * Pure domain service with no external dependencies
+ */
+export class SnapshotCalculator {
+  /**
+   * Format a date as a "YYYY-MM-DD" day key (UTC)
+   * @param date - The date to format
+   * @returns Day key (e.g., "2025-01-31")
+   */
+  static toDateKey(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  /**
+   * Get the day key a number of days before a date
+   * @param days - Days to go back
+   * @param now - Reference date (default: current date)
+   * @returns Day key of the first day of the period
+   */
+  static getPeriodStart(days: number, now: Date = new Date()): string {
+    return this.toDateKey(new Date(now.getTime() - days * MS_PER_DAY));
+  }
+
+  /**
+   * Capture the current metrics of an enriched repository
+   * @param repository - Repository with whatever statistics could be fetched
+   * @param now - Date of the snapshot (default: current date)
+   * @returns Snapshot of the repository for the day
+   */
+  static fromRepository(repository: Repository, now: Date = new Date()): RepositorySnapshot {
+    const { releaseStats, buildStats, activityStats, contributorStats, doraMetrics } = repository;
+
+    return new RepositorySnapshot(this.toDateKey(now), repository.owner, repository.name, {
+      starCount: repository.starCount,
+      totalReleases: releaseStats?.totalReleases ?? null,
+      releasesLast30Days: releaseStats?.releasesLast30Days ?? null,
+      daysSinceLatestRelease: releaseStats?.daysSinceLatestRelease ?? null,
+      medianDaysBetweenReleases: releaseStats?.cadence?.medianDaysBetween ?? null,
+      buildSuccessRate: buildStats?.hasBuilds() ? buildStats.successRate : null,
+      commits: activityStats?.commits ?? null,
+      mergedPullRequests: activityStats?.mergedPullRequests ?? null,
+      activeContributors: contributorStats?.activeContributors ?? null,
+      deploymentsPerWeek: doraMetrics?.deploymentsPerWeek ?? null,
+      leadTimeHours: doraMetrics?.leadTimeHours ?? null,
+      changeFailureRate: doraMetrics?.changeFailureRate ?? null,
+      timeToRestoreHours: doraMetrics?.timeToRestoreHours ?? null,
+    });
+  }
+
+  /**
+   * Aggregate repository snapshots into one organization snapshot per day
+   * Repositories without release data are not counted as stale, as on the live dashboard
+   * @param snapshots - Snapshots of any number of repositories and days
+   * @returns Organization snapshots ordered by date
+   */
+  static aggregateByDate(snapshots: RepositorySnapshot[]): OrganizationSnapshot[] {
+    const byDate = new Map<string, RepositorySnapshot[]>();
+    snapshots.forEach(snapshot => {
+      byDate.set(snapshot.date, [...(byDate.get(snapshot.date) || []), snapshot]);
+    });
+
+    return Array.from(byDate.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, daySnapshots]) => {
+        const metrics = daySnapshots.map(snapshot => snapshot.metrics);
+        const buildRates = this.present(metrics.map(m => m.buildSuccessRate));
+        const deploymentsPerWeek = this.present(metrics.map(m => m.deploymentsPerWeek));
+        const commits = this.present(metrics.map(m => m.commits));
+
+        return new OrganizationSnapshot(
+          date,
+          daySnapshots.length,
+          this.sum(this.present(metrics.map(m => m.releasesLast30Days))),
+          metrics.filter(m => m.totalReleases !== null && OrganizationStatistics.isStale(m.daysSinceLatestRelease))
+            .length,
+          buildRates.length > 0 ? Math.round((this.sum(buildRates) / buildRates.length) * 10) / 10 : null,
+          deploymentsPerWeek.length > 0 ? Math.round(this.sum(deploymentsPerWeek) * 100) / 100 : null,
+          commits.length > 0 ? this.sum(commits) : null
+        );
+      });
+  }
+
+  private static present(values: (number | null)[]): number[] {
+    return values.filter((value): value is number => value !== null);
+  }
+
+  private static sum(values: number[]): number {
+    return values.reduce((total, value) => total + value, 0);
+  }
+}
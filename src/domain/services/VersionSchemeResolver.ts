@@ -0,0 +1,80 @@
+import {
+  VersionScheme,
+  SemVerScheme,
+  CalVerScheme,
+  RegexVersionScheme,
+} from '../models/VersionScheme';
+
+/**
+ * Service for choosing the version scheme of a repository
+ * Pure domain service with no external dependencies
+ */
+export class VersionSchemeResolver {
+  /**
+   * Scheme spec that asks for auto-detection
+   */
+  static readonly AUTO = 'auto';
+
+  /**
+   * Create a scheme from a configuration spec
+   * @param spec - "semver", "calver", "regex:<pattern>" or "auto"
+   * @returns Version scheme, or null for auto-detection
+   * @throws Error if the spec is unknown or the pattern is invalid
+   */
+  static fromSpec(spec: string): VersionScheme | null {
+    const trimmed = spec.trim();
+
+    if (trimmed === '' || trimmed === this.AUTO) {
+      return null;
+    }
+    if (trimmed === 'semver') {
+      return new SemVerScheme();
+    }
+    if (trimmed === 'calver') {
+      return new CalVerScheme();
+    }
+    if (trimmed.startsWith('regex:')) {
+      return new RegexVersionScheme(trimmed.slice('regex:'.length));
+    }
+
+    throw new Error(`Unknown version scheme '${trimmed}'`);
+  }
+
+  /**
+   * Detect the scheme that reads the most tags as versions
+   * SemVer wins ties, since "v18.10.0" is also a valid short-year CalVer; CalVer only wins
+   * a tie when every calendar tag has a four-digit year (e.g. "2025.3.1").
+   * SemVer is used when no tag follows either scheme
+   * @param tagNames - Tag names of the repository
+   * @returns Detected version scheme
+   */
+  static detect(tagNames: string[]): VersionScheme {
+    const semver = new SemVerScheme();
+    const calver = new CalVerScheme();
+
+    const semverCount = this.countMatches(semver, tagNames);
+    const calverTags = tagNames.filter(tagName => calver.parse(tagName) !== null);
+
+    if (calverTags.length === 0 || calverTags.length < semverCount) {
+      return semver;
+    }
+    if (calverTags.length > semverCount) {
+      return calver;
+    }
+    return calverTags.every(tagName => /^v?\d{4}\./.test(tagName)) ? calver : semver;
+  }
+
+  /**
+   * Resolve the scheme of a repository
+   * @param configured - Scheme from configuration, or null/undefined for auto-detection
+   * @param tagNames - Tag names used for auto-detection
+   * @returns Configured or detected version scheme
+   */
+  static resolve(configured: VersionScheme | null | undefined, tagNames: string[]): VersionScheme {
+    return configured ?? this.detect(tagNames);
+  }
+
+  private static countMatches(scheme: VersionScheme, tagNames: string[]): number {
+    return tagNames.filter(tagName => scheme.parse(tagName) !== null).length;
+  }
+}
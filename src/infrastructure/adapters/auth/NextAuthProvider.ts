@@ -1,6 +1,7 @@
 import { getServerSession } from 'next-auth';
 import { AuthProvider } from '@/domain/ports/AuthProvider';
 import { User } from '@/domain/models/User';
+import { EmailAllowlist } from '@/domain/models/EmailAllowlist';
 import { EnvironmentConfig } from '@/infrastructure/config';
 
 /**
@@ -8,6 +9,13 @@ import { EnvironmentConfig } from '@/infrastructure/config';
  * Handles authentication using NextAuth.js with Google OAuth
  */
 export class NextAuthProvider implements AuthProvider {
+  constructor(
+    private allowlist: EmailAllowlist = new EmailAllowlist(
+      EnvironmentConfig.ALLOWED_EMAIL_DOMAINS,
+      EnvironmentConfig.ALLOWED_EMAILS
+    )
+  ) {}
+
   /**
    * Gets the currently authenticated user from the session
    */
@@ -40,14 +48,11 @@ export class NextAuthProvider implements AuthProvider {
   }
 
   /**
-   * Validates if an email belongs to an allowed domain
-   * Note: Currently not enforced, all Google accounts are allowed
+   * Checks if an email is on the configured allowlist
+   * Enforced at sign-in and on every API call
    */
-  validateDomain(email: string, allowedDomain: string): boolean {
-    if (!email || !allowedDomain) {
-      return false;
-    }
-    return email.toLowerCase().endsWith(`@${allowedDomain.toLowerCase()}`);
+  isEmailAllowed(email: string): boolean {
+    return this.allowlist.isAllowed(email);
   }
 
   /**
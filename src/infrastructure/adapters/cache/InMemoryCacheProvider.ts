@@ -0,0 +1,118 @@
+import { CacheProvider, CacheEntry } from '@/domain/ports/CacheProvider';
+
+/**
+ * Limits of an in-memory cache
+ */
+export interface InMemoryCacheOptions {
+  /**
+   * Most entries kept; storing another one evicts the least recently stored (default: no limit)
+   */
+  maxEntries?: number;
+
+  /**
+   * Drop entries once they expire instead of keeping them for stale fallbacks (default: false)
+   */
+  evictExpired?: boolean;
+}
+
+/**
+ * In-memory implementation of CacheProvider
+ * Entries live for the lifetime of the server process
+ */
+export class InMemoryCacheProvider<T> implements CacheProvider<T> {
+  // Kept on globalThis: Next.js bundles the background refresh apart from the
+  // route handlers, and both must read and fill the same entries
+  private static get instances(): Map<string, InMemoryCacheProvider<unknown>> {
+    const store = globalThis as { inMemoryCacheInstances?: Map<string, InMemoryCacheProvider<unknown>> };
+    store.inMemoryCacheInstances ??= new Map();
+    return store.inMemoryCacheInstances;
+  }
+
+  private entries = new Map<string, CacheEntry<T>>();
+
+  /**
+   * @param ttlSeconds - Time to live of each entry in seconds
+   * @param options - Limits of the cache
+   */
+  constructor(
+    private ttlSeconds: number,
+    private options: InMemoryCacheOptions = {}
+  ) {
+    if (ttlSeconds <= 0) {
+      throw new Error('Cache TTL must be positive');
+    }
+    if (options.maxEntries !== undefined && options.maxEntries <= 0) {
+      throw new Error('Cache size must be positive');
+    }
+  }
+
+  /**
+   * Gets a shared cache instance, so entries survive across requests
+   * @param namespace - Name of the shared cache (e.g., "repositories")
+   * @param ttlSeconds - Time to live used when the instance is first created
+   * @param options - Limits used when the instance is first created
+   */
+  static getInstance<T>(
+    namespace: string,
+    ttlSeconds: number,
+    options: InMemoryCacheOptions = {}
+  ): InMemoryCacheProvider<T> {
+    let instance = this.instances.get(namespace);
+    if (!instance) {
+      instance = new InMemoryCacheProvider<unknown>(ttlSeconds, options);
+      this.instances.set(namespace, instance);
+    }
+    return instance as InMemoryCacheProvider<T>;
+  }
+
+  async get(key: string): Promise<CacheEntry<T> | null> {
+    const entry = this.entries.get(key);
+    if (entry && this.options.evictExpired && entry.expiresAt.getTime() <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry || null;
+  }
+
+  async set(key: string, value: T, cachedAt: Date = new Date()): Promise<CacheEntry<T>> {
+    const entry: CacheEntry<T> = {
+      value,
+      cachedAt,
+      expiresAt: new Date(cachedAt.getTime() + this.ttlSeconds * 1000),
+    };
+    // Maps iterate in insertion order, so re-inserting keeps the oldest entries first
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.evict();
+    return entry;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Removes expired entries if asked to, then the oldest entries beyond the size limit
+   */
+  private evict(): void {
+    const { maxEntries, evictExpired } = this.options;
+
+    if (evictExpired) {
+      const now = Date.now();
+      for (const [key, entry] of this.entries) {
+        if (entry.expiresAt.getTime() <= now) {
+          this.entries.delete(key);
+        }
+      }
+    }
+
+    if (maxEntries) {
+      for (const oldestKey of this.entries.keys()) {
+        if (this.entries.size <= maxEntries) {
+          break;
+        }
+        this.entries.delete(oldestKey);
+      }
+    }
+  }
+}
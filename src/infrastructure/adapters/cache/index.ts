@@ -0,0 +1,2 @@
+export { InMemoryCacheProvider } from './InMemoryCacheProvider';
+export type { InMemoryCacheOptions } from './InMemoryCacheProvider';
@@ -0,0 +1,51 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Raised when a git command exits with an error
+ */
+export class GitCommandError extends Error {
+  constructor(
+    message: string,
+    public readonly stderr: string = ''
+  ) {
+    super(message);
+    this.name = 'GitCommandError';
+  }
+}
+
+/**
+ * Runs git commands against a repository on disk
+ * Commands never touch the network and never prompt for input
+ */
+export class GitCommandRunner {
+  constructor(
+    private gitBinary: string = 'git',
+    private timeoutMs: number = 30 * 1000
+  ) {}
+
+  /**
+   * Runs a git command in the given git directory
+   * @param gitDir - Path of the (bare) repository
+   * @param args - Git arguments (e.g. ["for-each-ref", "refs/tags"])
+   * @returns Standard output of the command
+   * @throws GitCommandError if git exits with an error
+   */
+  async run(gitDir: string, args: string[]): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync(this.gitBinary, ['--git-dir', gitDir, ...args], {
+        timeout: this.timeoutMs,
+        maxBuffer: 64 * 1024 * 1024,
+        env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+      });
+      return stdout;
+    } catch (error: any) {
+      throw new GitCommandError(
+        `git ${args[0]} failed in ${gitDir}: ${(error.stderr || error.message || '').trim()}`,
+        error.stderr || ''
+      );
+    }
+  }
+}
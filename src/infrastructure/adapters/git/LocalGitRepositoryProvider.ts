@@ -0,0 +1,232 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  RepositoryProvider,
+  RepositoryList,
+  RepositoryTagList,
+} from '@/domain/ports/RepositoryProvider';
+import { Repository } from '@/domain/models/Repository';
+import { GitCommandRunner } from './GitCommandRunner';
+import { LocalGitMapper, TAG_REF_FORMAT } from './mappers/LocalGitMapper';
+
+/**
+ * Number of git processes a provider runs at once; further commands wait for one to finish
+ */
+const MAX_GIT_PROCESSES = 4;
+
+/**
+ * Location and limits of the local repositories
+ */
+export interface LocalGitRepositoryProviderOptions {
+  /**
+   * Base of the repository links shown on the dashboard, e.g. the mirror server's web UI
+   * Links are "<webUrl>/<owner>/<name>" (default: "http://localhost")
+   */
+  webUrl?: string;
+
+  /**
+   * Stop listing after this many repositories (default: no limit)
+   */
+  maxRepositories?: number;
+
+  /**
+   * Only keep tags from the last N months (default: all tags)
+   */
+  tagHistoryMonths?: number;
+
+  /**
+   * Runner for git commands (default: the `git` binary on the PATH)
+   */
+  gitRunner?: GitCommandRunner;
+}
+
+/**
+ * Local git implementation of RepositoryProvider
+ * Reads bare or mirrored repositories from a directory, without network access or tokens
+ */
+export class LocalGitRepositoryProvider implements RepositoryProvider {
+  private gitRunner: GitCommandRunner;
+  private runningGitProcesses = 0;
+  private waitingGitCommands: (() => void)[] = [];
+
+  constructor(
+    private rootDir: string,
+    private options: LocalGitRepositoryProviderOptions = {}
+  ) {
+    this.gitRunner = options.gitRunner ?? new GitCommandRunner();
+  }
+
+  /**
+   * Lists the bare repositories directly inside the root directory, sorted by name
+   * @param orgName - Owner shown for the repositories (default: name of the root directory)
+   */
+  async listRepositories(orgName?: string): Promise<RepositoryList> {
+    const owner = orgName || path.basename(path.resolve(this.rootDir));
+
+    try {
+      const entries = await fs.readdir(this.rootDir, { withFileTypes: true });
+      const gitDirs: string[] = [];
+      for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        const gitDir = path.join(this.rootDir, entry.name);
+        if (entry.isDirectory() && (await this.isBareRepository(gitDir))) {
+          gitDirs.push(gitDir);
+        }
+      }
+
+      const maxRepositories = this.options.maxRepositories;
+      const truncated = !!maxRepositories && gitDirs.length > maxRepositories;
+      const listed = truncated ? gitDirs.slice(0, maxRepositories) : gitDirs;
+
+      const repositories = await Promise.all(listed.map(gitDir => this.readRepository(gitDir, owner)));
+
+      return { repositories, truncated };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new Error(`Repository directory '${this.rootDir}' not found`);
+      }
+      throw new Error(`Failed to fetch repositories: ${error.message}`);
+    }
+  }
+
+  /**
+   * Lists the repositories of a user account
+   * Local repositories have no owners, so this lists the whole directory under the user's name
+   */
+  async listUserRepositories(userName: string): Promise<RepositoryList> {
+    return this.listRepositories(userName);
+  }
+
+  /**
+   * Gets a single repository
+   * @param owner - Owner shown for the repository
+   * @param repo - Repository name, with or without the ".git" suffix on disk
+   */
+  async getRepository(owner: string, repo: string): Promise<Repository> {
+    const gitDir = await this.findGitDir(repo);
+    if (!gitDir) {
+      throw new Error(`Repository '${owner}/${repo}' not found`);
+    }
+    return this.readRepository(gitDir, owner);
+  }
+
+  /**
+   * Gets the tags of a repository
+   * Annotated tags are dated by their tagger, lightweight tags by their commit
+   * @param owner - Repository owner (only used in messages)
+   * @param repo - Repository name, with or without the ".git" suffix on disk
+   */
+  async getRepositoryTags(owner: string, repo: string): Promise<RepositoryTagList> {
+    const gitDir = await this.findGitDir(repo);
+    if (!gitDir) {
+      throw new Error(`Repository '${owner}/${repo}' not found`);
+    }
+
+    try {
+      const output = await this.runGit(gitDir, ['for-each-ref', `--format=${TAG_REF_FORMAT}`, 'refs/tags']);
+      const tags = LocalGitMapper.mapTagLines(output);
+
+      const since = this.getTagHistoryStart();
+      if (!since) {
+        return { tags, truncated: false };
+      }
+
+      const recentTags = tags.filter(tag => tag.date >= since);
+      return { tags: recentTags, truncated: recentTags.length < tags.length };
+    } catch (error: any) {
+      throw new Error(`Failed to fetch tags for ${owner}/${repo}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Reads name, description, last commit date and default branch of a repository
+   * Empty repositories have neither commits nor a resolvable default branch
+   */
+  private async readRepository(gitDir: string, owner: string): Promise<Repository> {
+    const name = path.basename(gitDir).replace(/\.git$/, '');
+    const [description, lastCommitDate, defaultBranch, stats] = await Promise.all([
+      fs.readFile(path.join(gitDir, 'description'), 'utf8').catch(() => null),
+      this.runGit(gitDir, ['log', '-1', '--format=%cI']).catch(() => ''),
+      this.runGit(gitDir, ['symbolic-ref', '--short', 'HEAD']).catch(() => ''),
+      fs.stat(gitDir),
+    ]);
+
+    const webUrl = (this.options.webUrl || 'http://localhost').replace(/\/+$/, '');
+    return LocalGitMapper.toDomain({
+      name,
+      owner,
+      url: `${webUrl}/${owner}/${name}`,
+      description,
+      lastCommitDate: lastCommitDate.trim() || null,
+      defaultBranch: defaultBranch.trim() || null,
+      modifiedAt: stats.mtime,
+    });
+  }
+
+  /**
+   * Runs a git command once fewer than MAX_GIT_PROCESSES are running
+   * A finishing command hands its slot to the longest waiting one
+   */
+  private async runGit(gitDir: string, args: string[]): Promise<string> {
+    if (this.runningGitProcesses < MAX_GIT_PROCESSES) {
+      this.runningGitProcesses++;
+    } else {
+      await new Promise<void>(resolve => this.waitingGitCommands.push(resolve));
+    }
+
+    try {
+      return await this.gitRunner.run(gitDir, args);
+    } finally {
+      const next = this.waitingGitCommands.shift();
+      if (next) {
+        next();
+      } else {
+        this.runningGitProcesses--;
+      }
+    }
+  }
+
+  /**
+   * Finds the directory of a repository by name
+   * @returns Path of the bare repository, or null if there is none
+   */
+  private async findGitDir(repo: string): Promise<string | null> {
+    const name = path.basename(repo);
+    for (const candidate of [`${name}.git`, name]) {
+      const gitDir = path.join(this.rootDir, candidate);
+      if (await this.isBareRepository(gitDir)) {
+        return gitDir;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Checks if a directory looks like a bare repository (HEAD, objects and refs)
+   */
+  private async isBareRepository(dir: string): Promise<boolean> {
+    try {
+      const [head, objects, refs] = await Promise.all([
+        fs.stat(path.join(dir, 'HEAD')),
+        fs.stat(path.join(dir, 'objects')),
+        fs.stat(path.join(dir, 'refs')),
+      ]);
+      return head.isFile() && objects.isDirectory() && refs.isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Gets the oldest tag date to keep, or null if tag history is not capped
+   */
+  private getTagHistoryStart(): Date | null {
+    const months = this.options.tagHistoryMonths;
+    if (!months) {
+      return null;
+    }
+
+    const since = new Date();
+    since.setMonth(since.getMonth() - months);
+    return since;
+  }
+}
@@ -0,0 +1,4 @@
+export { GitCommandRunner, GitCommandError } from './GitCommandRunner';
+export { LocalGitRepositoryProvider } from './LocalGitRepositoryProvider';
+export type { LocalGitRepositoryProviderOptions } from './LocalGitRepositoryProvider';
+export * from './mappers';
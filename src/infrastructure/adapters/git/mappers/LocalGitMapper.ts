@@ -0,0 +1,105 @@
+import { Repository } from '@/domain/models/Repository';
+import { RepositoryTag } from '@/domain/ports/RepositoryProvider';
+
+/**
+ * Field separator of the tag format passed to `git for-each-ref`
+ */
+const TAG_FIELD_SEPARATOR = '%00';
+
+/**
+ * `git for-each-ref` format of a tag: name, tagger date, commit date of a lightweight tag,
+ * and commit date of the commit an annotated tag points to
+ */
+export const TAG_REF_FORMAT = [
+  '%(refname:short)',
+  '%(taggerdate:iso-strict)',
+  '%(committerdate:iso-strict)',
+  '%(*committerdate:iso-strict)',
+].join(TAG_FIELD_SEPARATOR);
+
+/**
+ * Placeholder description git writes into new repositories
+ */
+const DEFAULT_DESCRIPTION_PREFIX = 'Unnamed repository;';
+
+/**
+ * Facts about a bare repository read from disk
+ */
+export interface LocalGitRepositoryInfo {
+  name: string;
+  owner: string;
+  url: string;
+  description: string | null;
+  lastCommitDate: string | null;
+  defaultBranch: string | null;
+  modifiedAt: Date; // Last change of the repository directory
+}
+
+/**
+ * Maps git command output to domain Repository and RepositoryTag objects
+ */
+export class LocalGitMapper {
+  /**
+   * Map repository facts to domain Repository
+   * Local repositories have no language or stars; empty ones are dated by their directory
+   */
+  static toDomain(info: LocalGitRepositoryInfo): Repository {
+    return new Repository(
+      info.name,
+      info.owner,
+      info.url,
+      this.mapDescription(info.description),
+      null,
+      0,
+      info.lastCommitDate ? new Date(info.lastCommitDate) : info.modifiedAt,
+      null,
+      null,
+      null,
+      null,
+      info.defaultBranch
+    );
+  }
+
+  /**
+   * Map the contents of a repository's `description` file
+   * @returns Description, or null if missing or still git's placeholder
+   */
+  static mapDescription(description: string | null): string | null {
+    const trimmed = description?.trim();
+    if (!trimmed || trimmed.startsWith(DEFAULT_DESCRIPTION_PREFIX)) {
+      return null;
+    }
+    return trimmed;
+  }
+
+  /**
+   * Map one line of `git for-each-ref --format=TAG_REF_FORMAT` output to RepositoryTag
+   * Annotated tags are dated by their tagger, lightweight tags by their commit
+   * @returns RepositoryTag, or null if the tag points at neither a commit nor an annotated tag of one
+   */
+  static mapTagLine(line: string): RepositoryTag | null {
+    const [name, taggerDate, commitDate, peeledCommitDate] = line.split('\0');
+    if (!name) {
+      return null;
+    }
+
+    if (taggerDate) {
+      return { name, date: new Date(taggerDate), dateSource: 'tagger' };
+    }
+
+    const date = commitDate || peeledCommitDate;
+    return date ? { name, date: new Date(date), dateSource: 'commit' } : null;
+  }
+
+  /**
+   * Map `git for-each-ref` output to RepositoryTag array
+   * Tags without any known date are left out rather than dated "now"
+   */
+  static mapTagLines(output: string): RepositoryTag[] {
+    return output
+      .split('\n')
+      .filter(line => line.trim() !== '')
+      .map(line => this.mapTagLine(line))
+      .filter((tag): tag is RepositoryTag => tag !== null);
+  }
+}
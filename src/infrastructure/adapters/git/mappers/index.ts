@@ -0,0 +1,2 @@
+export { LocalGitMapper, TAG_REF_FORMAT } from './LocalGitMapper';
+export type { LocalGitRepositoryInfo } from './LocalGitMapper';
@@ -0,0 +1,147 @@
+import {
+  ActivityProvider,
+  WeeklyCommitActivity,
+  WeeklyCodeFrequency,
+  MergedPullRequest,
+} from '@/domain/ports/ActivityProvider';
+import { RateLimitError } from '@/infrastructure/lib/errors';
+import { OctokitClient } from './OctokitClient';
+import { ActivityMapper } from './mappers/ActivityMapper';
+
+/**
+ * Polling behaviour for GitHub statistics endpoints
+ */
+export interface GitHubActivityProviderOptions {
+  /**
+   * Maximum number of requests while GitHub computes statistics (default: 5)
+   */
+  maxPollAttempts?: number;
+
+  /**
+   * Delay between polling requests, in milliseconds (default: 2000)
+   */
+  pollIntervalMs?: number;
+}
+
+/**
+ * GitHub implementation of ActivityProvider
+ * Uses the statistics endpoints (commit activity, code frequency) and the pulls endpoint
+ */
+export class GitHubActivityProvider implements ActivityProvider {
+  private maxPollAttempts: number;
+  private pollIntervalMs: number;
+
+  constructor(
+    private octokitClient: OctokitClient,
+    options: GitHubActivityProviderOptions = {}
+  ) {
+    this.maxPollAttempts = options.maxPollAttempts ?? 5;
+    this.pollIntervalMs = options.pollIntervalMs ?? 2000;
+  }
+
+  /**
+   * Gets daily commit counts grouped by week for the last year
+   */
+  async getCommitActivity(owner: string, repo: string): Promise<WeeklyCommitActivity[]> {
+    const octokit = this.octokitClient.getClient();
+    const weeks = await this.pollStatistics(owner, repo, 'commit activity', () =>
+      octokit.repos.getCommitActivityStats({ owner, repo })
+    );
+
+    return weeks.map(week => ActivityMapper.mapCommitActivity(week));
+  }
+
+  /**
+   * Gets weekly additions and deletions
+   */
+  async getCodeFrequency(owner: string, repo: string): Promise<WeeklyCodeFrequency[]> {
+    const octokit = this.octokitClient.getClient();
+    const weeks = await this.pollStatistics(owner, repo, 'code frequency', () =>
+      octokit.repos.getCodeFrequencyStats({ owner, repo })
+    );
+
+    return weeks.map(week => ActivityMapper.mapCodeFrequency(week as number[]));
+  }
+
+  /**
+   * Gets pull requests merged since a date
+   * Walks closed pull requests from most recently updated and stops once they predate the window
+   */
+  async getMergedPullRequests(
+    owner: string,
+    repo: string,
+    since: Date
+  ): Promise<MergedPullRequest[]> {
+    try {
+      const octokit = this.octokitClient.getClient();
+      const merged: MergedPullRequest[] = [];
+
+      const pages = octokit.paginate.iterator(octokit.pulls.list, {
+        owner,
+        repo,
+        state: 'closed',
+        sort: 'updated',
+        direction: 'desc',
+        per_page: 100,
+      });
+
+      for await (const { data } of pages) {
+        for (const pull of data) {
+          if (pull.merged_at && new Date(pull.merged_at) >= since) {
+            merged.push(ActivityMapper.mapMergedPullRequest(pull));
+          }
+        }
+
+        // A pull request cannot be merged after its last update
+        const oldest = data[data.length - 1];
+        if (!oldest || new Date(oldest.updated_at) < since) {
+          break;
+        }
+      }
+
+      return merged;
+    } catch (error: any) {
+      throw this.toError(error, owner, repo, 'pull requests');
+    }
+  }
+
+  /**
+   * Calls a statistics endpoint until GitHub has computed the data
+   * GitHub answers 202 Accepted with an empty body while statistics are being computed
+   */
+  private async pollStatistics(
+    owner: string,
+    repo: string,
+    label: string,
+    request: () => Promise<{ status: number; data: unknown }>
+  ): Promise<any[]> {
+    try {
+      for (let attempt = 1; attempt <= this.maxPollAttempts; attempt++) {
+        const response = await request();
+        if (response.status !== 202) {
+          return Array.isArray(response.data) ? response.data : [];
+        }
+        if (attempt < this.maxPollAttempts) {
+          await new Promise(resolve => setTimeout(resolve, this.pollIntervalMs));
+        }
+      }
+    } catch (error: any) {
+      throw this.toError(error, owner, repo, label);
+    }
+
+    throw new Error(`GitHub is still computing ${label} for ${owner}/${repo}`);
+  }
+
+  private toError(error: any, owner: string, repo: string, label: string): Error {
+    if (error instanceof RateLimitError) {
+      return error;
+    }
+    if (error.status === 404) {
+      return new Error(`Repository '${owner}/${repo}' not found`);
+    }
+    if (error.status === 401) {
+      return new Error('GitHub authentication failed. Check your token.');
+    }
+    return new Error(`Failed to fetch ${label} for ${owner}/${repo}: ${error.message}`);
+  }
+}
@@ -0,0 +1,204 @@
+import { createSign } from 'crypto';
+import type { GitHubTokenSource } from './OctokitClient';
+
+/**
+ * An installation of the GitHub App on an organization or user account
+ */
+export interface GitHubAppInstallation {
+  id: number;
+  account: string;
+  accountType: 'Organization' | 'User';
+}
+
+/**
+ * Options of the GitHub App authentication
+ */
+export interface GitHubAppAuthOptions {
+  /**
+   * Base URL of the GitHub REST API (default: "https://api.github.com")
+   */
+  baseUrl?: string;
+
+  /**
+   * Installation to authenticate as for every account (default: discovered per account)
+   */
+  installationId?: number | null;
+}
+
+interface InstallationToken {
+  token: string;
+  expiresAt: Date;
+}
+
+// GitHub rejects app JWTs valid for more than 10 minutes; backdate for clock drift
+const JWT_BACKDATE_SECONDS = 60;
+const JWT_LIFETIME_SECONDS = 9 * 60;
+// Installation tokens live an hour; replace them before a refresh could outlive them
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+// Installations are rediscovered this often, picking up accounts the app was newly installed on
+const INSTALLATIONS_TTL_MS = 10 * 60 * 1000;
+const PER_PAGE = 100;
+
+/**
+ * GitHub App authentication
+ * Signs app JWTs with the private key, exchanges them for installation tokens
+ * and refreshes those before they expire. The installation of each account is
+ * discovered from the app's installations, so one app can serve several organizations
+ */
+export class GitHubAppAuth implements GitHubTokenSource {
+  private baseUrl: string;
+  private installationId: number | null;
+  private installations: Promise<GitHubAppInstallation[]> | null = null;
+  private installationsExpireAt = 0;
+  private uninstalledOwners = new Set<string>();
+  private tokens = new Map<number, Promise<InstallationToken>>();
+
+  constructor(
+    private appId: string,
+    private privateKey: string,
+    options: GitHubAppAuthOptions = {}
+  ) {
+    if (!appId || !privateKey) {
+      throw new Error('GitHub App ID and private key are required');
+    }
+    this.baseUrl = (options.baseUrl || 'https://api.github.com').replace(/\/+$/, '');
+    this.installationId = options.installationId ?? null;
+  }
+
+  /**
+   * Gets an installation token for the account owning the requested resource
+   * @param owner - Organization or user the request is about (null: any installation)
+   * @returns Installation access token, refreshed if it is about to expire
+   * @throws Error if the app is not installed on the account
+   */
+  async getToken(owner: string | null): Promise<string> {
+    const installationId = this.installationId ?? (await this.findInstallation(owner)).id;
+
+    const cached = this.tokens.get(installationId);
+    if (cached) {
+      const { token, expiresAt } = await cached;
+      if (expiresAt.getTime() - Date.now() > TOKEN_REFRESH_MARGIN_MS) {
+        return token;
+      }
+    }
+
+    const pending = this.createInstallationToken(installationId);
+    this.tokens.set(installationId, pending);
+    pending.catch(() => this.tokens.delete(installationId));
+    return (await pending).token;
+  }
+
+  /**
+   * Lists the accounts the app is installed on
+   * The list is cached for ten minutes; an unknown account triggers one new discovery,
+   * after which it is known as not installed until the list expires
+   * @returns Installations sorted by account name
+   */
+  async listInstallations(): Promise<GitHubAppInstallation[]> {
+    if (!this.installations || Date.now() >= this.installationsExpireAt) {
+      this.installationsExpireAt = Date.now() + INSTALLATIONS_TTL_MS;
+      this.uninstalledOwners.clear();
+      this.installations = this.fetchInstallations();
+      this.installations.catch(() => {
+        this.installations = null;
+      });
+    }
+    return this.installations;
+  }
+
+  /**
+   * Creates the JWT the app authenticates with
+   * @param now - Issue date (default: current date)
+   * @returns RS256-signed JWT valid for nine minutes
+   */
+  createJwt(now: Date = new Date()): string {
+    const issuedAt = Math.floor(now.getTime() / 1000) - JWT_BACKDATE_SECONDS;
+    const header = this.encode({ alg: 'RS256', typ: 'JWT' });
+    const payload = this.encode({ iat: issuedAt, exp: issuedAt + JWT_LIFETIME_SECONDS, iss: this.appId });
+
+    const signature = createSign('RSA-SHA256')
+      .update(`${header}.${payload}`)
+      .sign(this.privateKey, 'base64url');
+    return `${header}.${payload}.${signature}`;
+  }
+
+  /**
+   * Finds the installation of an account, rediscovering installations once if it is unknown
+   * and not already found missing from the current list
+   */
+  private async findInstallation(owner: string | null): Promise<GitHubAppInstallation> {
+    const match = (installations: GitHubAppInstallation[]) =>
+      owner
+        ? installations.find(installation => installation.account.toLowerCase() === owner.toLowerCase())
+        : installations[0];
+
+    let installation = match(await this.listInstallations());
+    if (!installation && !(owner && this.uninstalledOwners.has(owner.toLowerCase()))) {
+      this.installations = null;
+      installation = match(await this.listInstallations());
+    }
+
+    if (!installation) {
+      if (owner) {
+        this.uninstalledOwners.add(owner.toLowerCase());
+      }
+      throw new Error(owner ? `GitHub App is not installed on '${owner}'` : 'GitHub App has no installations');
+    }
+    return installation;
+  }
+
+  private async fetchInstallations(): Promise<GitHubAppInstallation[]> {
+    const installations: GitHubAppInstallation[] = [];
+    for (let page = 1; ; page++) {
+      const data = await this.request<any[]>('GET', `/app/installations?per_page=${PER_PAGE}&page=${page}`);
+      installations.push(
+        ...data.map(installation => ({
+          id: installation.id,
+          account: installation.account.login,
+          accountType: installation.account.type === 'User' ? 'User' as const : 'Organization' as const,
+        }))
+      );
+      if (data.length < PER_PAGE) {
+        break;
+      }
+    }
+    return installations.sort((a, b) => a.account.localeCompare(b.account));
+  }
+
+  private async createInstallationToken(installationId: number): Promise<InstallationToken> {
+    const data = await this.request<{ token: string; expires_at: string }>(
+      'POST',
+      `/app/installations/${installationId}/access_tokens`
+    );
+    return { token: data.token, expiresAt: new Date(data.expires_at) };
+  }
+
+  /**
+   * Calls an app endpoint, authenticated with a fresh JWT
+   */
+  private async request<T>(method: string, path: string): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        accept: 'application/vnd.github+json',
+        authorization: `Bearer ${this.createJwt()}`,
+        'user-agent': 'washhouse-ci-dashboard',
+      },
+    });
+
+    if (response.status === 401) {
+      throw new Error('GitHub App authentication failed. Check the app ID and private key.');
+    }
+    if (response.status === 404) {
+      throw new Error(`GitHub App installation not found: ${path}`);
+    }
+    if (!response.ok) {
+      throw new Error(`GitHub App request failed with status ${response.status}: ${path}`);
+    }
+    return (await response.json()) as T;
+  }
+
+  private encode(value: object): string {
+    return Buffer.from(JSON.stringify(value)).toString('base64url');
+  }
+}
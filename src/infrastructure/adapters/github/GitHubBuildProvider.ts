@@ -0,0 +1,72 @@
+import { BuildProvider } from '@/domain/ports/BuildProvider';
+import { WorkflowRun } from '@/domain/models/Build';
+import { RateLimitError } from '@/infrastructure/lib/errors';
+import { OctokitClient } from './OctokitClient';
+import { BuildMapper } from './mappers/BuildMapper';
+
+/**
+ * GitHub Actions implementation of BuildProvider
+ * Fetches workflow runs from GitHub API
+ */
+export class GitHubBuildProvider implements BuildProvider {
+  constructor(private octokitClient: OctokitClient) {}
+
+  /**
+   * Gets the runs of a named workflow created since the given date
+   */
+  async getWorkflowRuns(
+    owner: string,
+    repo: string,
+    workflowName: string,
+    since: Date
+  ): Promise<WorkflowRun[]> {
+    try {
+      const workflowId = await this.findWorkflowId(owner, repo, workflowName);
+      if (workflowId === null) {
+        return [];
+      }
+
+      const octokit = this.octokitClient.getClient();
+      const runs = await octokit.paginate(octokit.actions.listWorkflowRuns, {
+        owner,
+        repo,
+        workflow_id: workflowId,
+        created: `>=${since.toISOString().slice(0, 10)}`,
+        per_page: 100,
+      });
+
+      return BuildMapper.mapWorkflowRuns(runs);
+    } catch (error: any) {
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
+      if (error.status === 404) {
+        throw new Error(`Repository '${owner}/${repo}' not found`);
+      }
+      if (error.status === 401) {
+        throw new Error('GitHub authentication failed. Check your token.');
+      }
+      throw new Error(`Failed to fetch workflow runs for ${owner}/${repo}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Finds the ID of a workflow by its display name
+   * @returns Workflow ID, or null if the repository has no such workflow
+   */
+  private async findWorkflowId(
+    owner: string,
+    repo: string,
+    workflowName: string
+  ): Promise<number | null> {
+    const octokit = this.octokitClient.getClient();
+    const workflows = await octokit.paginate(octokit.actions.listRepoWorkflows, {
+      owner,
+      repo,
+      per_page: 100,
+    });
+
+    const workflow = workflows.find(w => w.name === workflowName);
+    return workflow ? workflow.id : null;
+  }
+}
@@ -0,0 +1,42 @@
+import { CommitProvider } from '@/domain/ports/CommitProvider';
+import { RateLimitError } from '@/infrastructure/lib/errors';
+import { OctokitClient } from './OctokitClient';
+
+/**
+ * GitHub implementation of CommitProvider
+ * Compares two refs and reads the dates of the commits between them
+ */
+export class GitHubCommitProvider implements CommitProvider {
+  constructor(private octokitClient: OctokitClient) {}
+
+  /**
+   * Gets the commit dates between two refs in a single compare request
+   * GitHub returns at most 250 commits per comparison, which is enough for a lead time sample
+   */
+  async getCommitDates(owner: string, repo: string, baseRef: string, headRef: string): Promise<Date[]> {
+    try {
+      const octokit = this.octokitClient.getClient();
+      const { data } = await octokit.repos.compareCommitsWithBasehead({
+        owner,
+        repo,
+        basehead: `${baseRef}...${headRef}`,
+      });
+
+      return data.commits
+        .map(commit => commit.commit.committer?.date || commit.commit.author?.date)
+        .filter((date): date is string => !!date)
+        .map(date => new Date(date));
+    } catch (error: any) {
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
+      if (error.status === 404) {
+        throw new Error(`Repository '${owner}/${repo}' or ref not found`);
+      }
+      if (error.status === 401) {
+        throw new Error('GitHub authentication failed. Check your token.');
+      }
+      throw new Error(`Failed to compare ${baseRef}...${headRef} for ${owner}/${repo}: ${error.message}`);
+    }
+  }
+}
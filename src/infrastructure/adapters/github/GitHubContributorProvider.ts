@@ -0,0 +1,71 @@
+import { ContributorProvider } from '@/domain/ports/ContributorProvider';
+import { Contributor } from '@/domain/models/Contributor';
+import { RateLimitError } from '@/infrastructure/lib/errors';
+import { OctokitClient } from './OctokitClient';
+import { ContributorMapper } from './mappers/ContributorMapper';
+
+/**
+ * GitHub implementation of ContributorProvider
+ * Fetches contributors and recent commit authors from GitHub API
+ */
+export class GitHubContributorProvider implements ContributorProvider {
+  constructor(private octokitClient: OctokitClient) {}
+
+  /**
+   * Gets all-time contributors, walking every page of results
+   */
+  async getContributors(owner: string, repo: string): Promise<Contributor[]> {
+    try {
+      const octokit = this.octokitClient.getClient();
+      const contributors = await octokit.paginate(octokit.repos.listContributors, {
+        owner,
+        repo,
+        per_page: 100,
+      });
+
+      return ContributorMapper.toDomainList(contributors);
+    } catch (error: any) {
+      throw this.toError(error, owner, repo, 'contributors');
+    }
+  }
+
+  /**
+   * Gets the logins of commit authors since a date
+   * Commits whose author has no GitHub account are skipped
+   */
+  async getActiveContributorLogins(owner: string, repo: string, since: Date): Promise<string[]> {
+    try {
+      const octokit = this.octokitClient.getClient();
+      const commits = await octokit.paginate(octokit.repos.listCommits, {
+        owner,
+        repo,
+        since: since.toISOString(),
+        per_page: 100,
+      });
+
+      const logins = commits
+        .map(commit => commit.author?.login)
+        .filter((login): login is string => !!login);
+      return Array.from(new Set(logins));
+    } catch (error: any) {
+      // Empty repositories answer 409 Conflict on the commits endpoint
+      if (error.status === 409) {
+        return [];
+      }
+      throw this.toError(error, owner, repo, 'commits');
+    }
+  }
+
+  private toError(error: any, owner: string, repo: string, label: string): Error {
+    if (error instanceof RateLimitError) {
+      return error;
+    }
+    if (error.status === 404) {
+      return new Error(`Repository '${owner}/${repo}' not found`);
+    }
+    if (error.status === 401) {
+      return new Error('GitHub authentication failed. Check your token.');
+    }
+    return new Error(`Failed to fetch ${label} for ${owner}/${repo}: ${error.message}`);
+  }
+}
@@ -1,44 +1,212 @@
-import { RepositoryProvider, RepositoryTag } from '@/domain/ports/RepositoryProvider';
+import type { Octokit, RestEndpointMethodTypes } from '@octokit/rest';
+import {
+  RepositoryProvider,
+  RepositoryList,
+  RepositoryTag,
+  RepositoryTagList,
+} from '@/domain/ports/RepositoryProvider';
 import { Repository } from '@/domain/models/Repository';
+import { RateLimitError } from '@/infrastructure/lib/errors';
 import { OctokitClient } from './OctokitClient';
 import { RepositoryMapper } from './mappers/RepositoryMapper';
 import { ReleaseMapper } from './mappers/ReleaseMapper';
 
+/**
+ * GraphQL query for a page of tag refs with tagger and commit dates, most recent commit first
+ * Annotated tags point to a Tag object, lightweight tags directly to a Commit
+ */
+const TAG_REFS_QUERY = `
+  query ($owner: String!, $repo: String!, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      refs(
+        refPrefix: "refs/tags/"
+        first: 100
+        after: $cursor
+        orderBy: { field: TAG_COMMIT_DATE, direction: DESC }
+      ) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        nodes {
+          name
+          target {
+            __typename
+            ... on Tag {
+              tagger {
+                date
+              }
+              target {
+                __typename
+                ... on Commit {
+                  committedDate
+                }
+              }
+            }
+            ... on Commit {
+              committedDate
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Endpoints listing the repositories of an organization or a user account
+ */
+type RepositoryListEndpoint = Octokit['repos']['listForOrg'] | Octokit['repos']['listForUser'];
+
+/**
+ * Parameters of a repository list endpoint
+ */
+type RepositoryListParameters =
+  | RestEndpointMethodTypes['repos']['listForOrg']['parameters']
+  | RestEndpointMethodTypes['repos']['listForUser']['parameters'];
+
+/**
+ * Repository returned by a repository list endpoint
+ */
+type ListedRepository =
+  | RestEndpointMethodTypes['repos']['listForOrg']['response']['data'][number]
+  | RestEndpointMethodTypes['repos']['listForUser']['response']['data'][number];
+
+/**
+ * Number of tag commit lookups sent at once
+ */
+const COMMIT_LOOKUP_BATCH_SIZE = 10;
+
+/**
+ * Optional limits on how much data the provider fetches
+ */
+export interface GitHubRepositoryProviderOptions {
+  /**
+   * Stop listing after this many repositories (default: no limit)
+   */
+  maxRepositories?: number;
+
+  /**
+   * Only keep tags from the last N months (default: all tags)
+   */
+  tagHistoryMonths?: number;
+
+  /**
+   * Estimated API requests needed to enrich one repository
+   * When set, listing fails early if the rate limit budget cannot cover every repository
+   */
+  requestsPerRepository?: number;
+}
+
 /**
  * GitHub implementation of RepositoryProvider
- * Fetches repository data from GitHub API
+ * Fetches repository data from GitHub API, walking every page of results
  */
 export class GitHubRepositoryProvider implements RepositoryProvider {
   constructor(
     private octokitClient: OctokitClient,
-    private orgName: string
+    private orgName: string,
+    private options: GitHubRepositoryProviderOptions = {}
   ) {}
 
   /**
    * Lists all repositories for the configured organization
    */
-  async listRepositories(orgName?: string): Promise<Repository[]> {
+  async listRepositories(orgName?: string): Promise<RepositoryList> {
     const targetOrg = orgName || this.orgName;
 
     if (!targetOrg) {
       throw new Error('Organization name is required');
     }
 
+    const octokit = this.octokitClient.getClient();
+    return this.listAllRepositories(
+      octokit.repos.listForOrg,
+      { org: targetOrg, type: 'all' },
+      `Organization '${targetOrg}' not found`
+    );
+  }
+
+  /**
+   * Lists all repositories owned by a user account
+   */
+  async listUserRepositories(userName: string): Promise<RepositoryList> {
+    const octokit = this.octokitClient.getClient();
+    return this.listAllRepositories(
+      octokit.repos.listForUser,
+      { username: userName, type: 'owner' },
+      `User '${userName}' not found`
+    );
+  }
+
+  /**
+   * Gets a single repository
+   */
+  async getRepository(owner: string, repo: string): Promise<Repository> {
     try {
       const octokit = this.octokitClient.getClient();
-      
-      // Fetch all repos for the organization
-      const { data: repos } = await octokit.repos.listForOrg({
-        org: targetOrg,
-        type: 'all',
+      const { data } = await octokit.repos.get({ owner, repo });
+      return RepositoryMapper.toDomain(data);
+    } catch (error: any) {
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
+      if (error.status === 404) {
+        throw new Error(`Repository '${owner}/${repo}' not found`);
+      }
+      if (error.status === 401) {
+        throw new Error('GitHub authentication failed. Check your token.');
+      }
+      throw new Error(`Failed to fetch repository ${owner}/${repo}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Walks every page of a repository list endpoint, most recently updated first
+   * Stops at maxRepositories and checks the rate limit budget for enriching the result
+   */
+  private async listAllRepositories(
+    endpoint: RepositoryListEndpoint,
+    params: RepositoryListParameters,
+    notFoundMessage: string
+  ): Promise<RepositoryList> {
+    try {
+      const octokit = this.octokitClient.getClient();
+      const maxRepositories = this.options.maxRepositories;
+      const repos: ListedRepository[] = [];
+      let truncated = false;
+
+      // Walk every page of repos for the owner
+      const pages = octokit.paginate.iterator(endpoint, {
+        ...params,
         sort: 'updated',
         per_page: 100,
       });
 
-      return RepositoryMapper.toDomainList(repos);
+      for await (const { data, headers } of pages) {
+        repos.push(...data);
+
+        if (maxRepositories && repos.length >= maxRepositories) {
+          truncated = repos.length > maxRepositories || this.hasNextPage(headers.link);
+          repos.length = maxRepositories;
+          break;
+        }
+      }
+
+      if (this.options.requestsPerRepository) {
+        await this.octokitClient.assertBudget(repos.length * this.options.requestsPerRepository);
+      }
+
+      return {
+        repositories: RepositoryMapper.toDomainList(repos),
+        truncated,
+      };
     } catch (error: any) {
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
       if (error.status === 404) {
-        throw new Error(`Organization '${targetOrg}' not found`);
+        throw new Error(notFoundMessage);
       }
       if (error.status === 401) {
         throw new Error('GitHub authentication failed. Check your token.');
@@ -49,21 +217,54 @@ export class GitHubRepositoryProvider implements RepositoryProvider {
 
   /**
    * Gets tags/releases for a specific repository
+   * Tags are dated by their tagger, then their GitHub Release, then their commit
+   * With a tag history cap, pages older than the cap are not fetched
    */
-  async getRepositoryTags(owner: string, repo: string): Promise<RepositoryTag[]> {
+  async getRepositoryTags(owner: string, repo: string): Promise<RepositoryTagList> {
     try {
       const octokit = this.octokitClient.getClient();
-      
-      // Fetch tags for the repository
-      const { data: tags } = await octokit.repos.listTags({
-        owner,
-        repo,
-        per_page: 100, // Get up to 100 most recent tags
-      });
+      const since = this.getTagHistoryStart();
+
+      // Fetch the pages of tag refs and releases for the repository, newest first
+      const [{ tagRefs, hasMore }, apiReleases] = await Promise.all([
+        this.fetchTagRefs(owner, repo, since),
+        octokit.paginate(
+          octokit.repos.listReleases,
+          { owner, repo, per_page: 100 },
+          (response, done) => {
+            const oldest = response.data[response.data.length - 1];
+            if (since && oldest && new Date(oldest.created_at) < since) {
+              done();
+            }
+            return response.data;
+          }
+        ),
+      ]);
+
+      const releaseDates = ReleaseMapper.mapReleaseDates(apiReleases);
+      const tags: RepositoryTag[] = [];
+      const undatedTagNames: string[] = [];
+      for (const tagRef of tagRefs) {
+        const tag = ReleaseMapper.mapTagRef(tagRef, releaseDates);
+        if (tag) {
+          tags.push(tag);
+        } else {
+          undatedTagNames.push(tagRef.name);
+        }
+      }
+      tags.push(...(await this.lookupCommitDates(owner, repo, undatedTagNames)));
+
+      if (!since) {
+        return { tags, truncated: false };
+      }
 
-      return ReleaseMapper.mapTags(tags);
+      const recentTags = tags.filter(tag => tag.date >= since);
+      return { tags: recentTags, truncated: hasMore || recentTags.length < tags.length };
     } catch (error: any) {
-      if (error.status === 404) {
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
+      if (error.status === 404 || this.isGraphqlNotFound(error)) {
         throw new Error(`Repository '${owner}/${repo}' not found`);
       }
       if (error.status === 401) {
@@ -72,4 +273,98 @@ export class GitHubRepositoryProvider implements RepositoryProvider {
       throw new Error(`Failed to fetch tags for ${owner}/${repo}: ${error.message}`);
     }
   }
+
+  /**
+   * Walks the pages of tag refs through the GraphQL API
+   * One query returns tagger and commit dates for up to 100 tags. Refs come most recent
+   * commit first, so walking stops after the first page reaching past the start date
+   * @param since - Oldest tag date to keep, or null for every tag
+   * @returns Tag refs, and whether older pages were left unfetched
+   */
+  private async fetchTagRefs(
+    owner: string,
+    repo: string,
+    since: Date | null
+  ): Promise<{ tagRefs: any[]; hasMore: boolean }> {
+    const octokit = this.octokitClient.getClient();
+    const tagRefs: any[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const response: any = await octokit.graphql(TAG_REFS_QUERY, { owner, repo, cursor });
+      const refs = response.repository.refs;
+      tagRefs.push(...refs.nodes);
+      cursor = refs.pageInfo.hasNextPage ? refs.pageInfo.endCursor : null;
+
+      const oldestCommitDate = ReleaseMapper.getCommitDate(refs.nodes[refs.nodes.length - 1]?.target);
+      if (cursor && since && oldestCommitDate && new Date(oldestCommitDate) < since) {
+        return { tagRefs, hasMore: true };
+      }
+    } while (cursor);
+
+    return { tagRefs, hasMore: false };
+  }
+
+  /**
+   * Dates tags by their commits, looking up a batch of tags at a time
+   * @returns Tags dated by their commit; tags whose commit date is unavailable are left out
+   */
+  private async lookupCommitDates(owner: string, repo: string, tagNames: string[]): Promise<RepositoryTag[]> {
+    const tags: RepositoryTag[] = [];
+    for (let i = 0; i < tagNames.length; i += COMMIT_LOOKUP_BATCH_SIZE) {
+      const batch = await Promise.all(
+        tagNames.slice(i, i + COMMIT_LOOKUP_BATCH_SIZE).map(tagName => this.lookupCommitDate(owner, repo, tagName))
+      );
+      tags.push(...batch.filter((tag): tag is RepositoryTag => tag !== null));
+    }
+    return tags;
+  }
+
+  /**
+   * Dates a tag by its commit through a follow-up lookup
+   * Used when the tag neither carries a tagger date nor points directly at a commit
+   * @returns Tag dated by its commit, or null if the commit date is unavailable
+   */
+  private async lookupCommitDate(owner: string, repo: string, tagName: string): Promise<RepositoryTag | null> {
+    try {
+      const octokit = this.octokitClient.getClient();
+      const { data } = await octokit.repos.getCommit({ owner, repo, ref: `tags/${tagName}` });
+      const date = data.commit.committer?.date || data.commit.author?.date;
+      return date ? { name: tagName, date: new Date(date), dateSource: 'commit' } : null;
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
+      // Tags pointing at trees or blobs have no commit to date them by
+      return null;
+    }
+  }
+
+  /**
+   * Checks a GraphQL error for a missing repository
+   */
+  private isGraphqlNotFound(error: any): boolean {
+    return Array.isArray(error.errors) && error.errors.some((e: any) => e.type === 'NOT_FOUND');
+  }
+
+  /**
+   * Gets the oldest tag date to keep, or null if tag history is not capped
+   */
+  private getTagHistoryStart(): Date | null {
+    const months = this.options.tagHistoryMonths;
+    if (!months) {
+      return null;
+    }
+
+    const since = new Date();
+    since.setMonth(since.getMonth() - months);
+    return since;
+  }
+
+  /**
+   * Checks a Link response header for a next page
+   */
+  private hasNextPage(link: string | undefined): boolean {
+    return !!link && link.includes('rel="next"');
+  }
 }
@@ -0,0 +1,30 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Verifies that webhook deliveries were signed by GitHub with the shared secret
+ */
+export class GitHubWebhookVerifier {
+  /**
+   * @param secret - Secret configured on the GitHub webhook
+   */
+  constructor(private secret: string) {
+    if (!secret) {
+      throw new Error('GitHub webhook secret is required');
+    }
+  }
+
+  /**
+   * Checks the `X-Hub-Signature-256` header of a delivery
+   * @param payload - Raw delivery body, exactly as received
+   * @param signature - Header value ("sha256=" followed by the hex HMAC), or null if missing
+   */
+  verify(payload: string, signature: string | null): boolean {
+    if (!signature?.startsWith('sha256=')) {
+      return false;
+    }
+
+    const expected = Buffer.from(createHmac('sha256', this.secret).update(payload).digest('hex'));
+    const received = Buffer.from(signature.slice('sha256='.length));
+    return received.length === expected.length && timingSafeEqual(received, expected);
+  }
+}
@@ -1,17 +1,171 @@
 import { Octokit } from '@octokit/rest';
+import { CacheProvider } from '@/domain/ports/CacheProvider';
+import { Logger } from '@/domain/ports/Logger';
 import { EnvironmentConfig } from '@/infrastructure/config';
+import { RateLimitError, RateLimitBudgetError } from '@/infrastructure/lib/errors';
+
+/**
+ * Snapshot of the GitHub API rate limit
+ */
+export interface RateLimitStatus {
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+/**
+ * Issues tokens per request, e.g. GitHub App installation tokens
+ */
+export interface GitHubTokenSource {
+  /**
+   * Gets a token for requests about an organization or user
+   * @param owner - Account the request is about (null if the request has none, e.g. rate limit)
+   */
+  getToken(owner: string | null): Promise<string>;
+}
+
+/**
+ * Response kept to answer a conditional request GitHub reports as not modified
+ */
+export interface ConditionalResponse {
+  etag: string | null;
+  lastModified: string | null;
+  status: number;
+  url: string;
+  headers: Record<string, any>;
+  data: unknown;
+}
+
+/**
+ * Retry and caching behaviour of the client
+ */
+export interface OctokitClientOptions {
+  /**
+   * Maximum number of retries per request (default: 3)
+   */
+  maxRetries?: number;
+
+  /**
+   * Base delay for exponential backoff on server errors, in milliseconds (default: 1000)
+   */
+  baseDelayMs?: number;
+
+  /**
+   * Longest wait for a rate limit to reset before giving up, in milliseconds (default: 60000)
+   */
+  maxRateLimitWaitMs?: number;
+
+  /**
+   * Cache of GET responses by URL, revalidated with `If-None-Match` / `If-Modified-Since` (default: none)
+   * A 304 response does not count against the rate limit; entries are revalidated on every use,
+   * so their expiry is ignored
+   */
+  responseCache?: CacheProvider<ConditionalResponse> | null;
+
+  /**
+   * Logger for Octokit's own messages (default: none)
+   * Failed requests are logged at debug level, since the error reaches the caller anyway
+   */
+  logger?: Logger | null;
+}
+
+const RETRYABLE_STATUSES = [500, 502, 503, 504];
 
 /**
  * GitHub API client wrapper
- * Provides error handling and rate limit management
+ * Provides error handling and rate limit management:
+ * - honours `retry-after` and `x-ratelimit-reset` on primary and secondary rate limits
+ * - retries transient server errors with exponential backoff and jitter
+ * - tracks the remaining rate limit budget from response headers
+ * - sends conditional GET requests when given a response cache, answering 304s from it
+ * Authenticates with a static token, or with a token source asked before every request
+ * (GitHub App installations have their own rate limit; the last one seen is tracked)
  */
 export class OctokitClient {
   private octokit: Octokit;
+  private tokenSource: GitHubTokenSource | null;
+  private rateLimitStatus: RateLimitStatus | null = null;
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxRateLimitWaitMs: number;
+  private responseCache: CacheProvider<ConditionalResponse> | null;
+
+  constructor(auth?: string | GitHubTokenSource, options: OctokitClientOptions = {}) {
+    this.tokenSource = typeof auth === 'object' ? auth : null;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxRateLimitWaitMs = options.maxRateLimitWaitMs ?? 60 * 1000;
+    this.responseCache = options.responseCache ?? null;
 
-  constructor(token?: string) {
     this.octokit = new Octokit({
-      auth: token || EnvironmentConfig.GITHUB_TOKEN,
+      auth: this.tokenSource ? undefined : auth || EnvironmentConfig.GITHUB_TOKEN,
       userAgent: 'washhouse-ci-dashboard',
+      log: {
+        debug: () => {},
+        info: () => {},
+        warn: (message: string) => options.logger?.warn(message),
+        error: (message: string) => options.logger?.debug(message),
+      },
+    });
+
+    this.octokit.hook.wrap('request', async (request, requestOptions) => {
+      if (this.tokenSource) {
+        const token = await this.tokenSource.getToken(this.getOwner(requestOptions));
+        requestOptions.headers = { ...requestOptions.headers, authorization: `token ${token}` };
+      }
+
+      const cacheKey = this.responseCache && requestOptions.method === 'GET'
+        ? this.octokit.request.endpoint.parse(requestOptions).url
+        : null;
+      const cached = cacheKey ? (await this.responseCache!.get(cacheKey))?.value ?? null : null;
+      if (cached) {
+        requestOptions.headers = {
+          ...requestOptions.headers,
+          ...(cached.etag ? { 'if-none-match': cached.etag } : {}),
+          ...(cached.lastModified ? { 'if-modified-since': cached.lastModified } : {}),
+        };
+      }
+
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const response = await request(requestOptions);
+          this.recordRateLimit(response.headers);
+          const graphqlRateLimit = this.getGraphqlRateLimit(response.data);
+          if (graphqlRateLimit) {
+            throw new RateLimitError(
+              `GitHub GraphQL rate limit exceeded: ${graphqlRateLimit.message}`,
+              this.getResetAt(response.headers)
+            );
+          }
+          if (cacheKey) {
+            await this.storeResponse(cacheKey, response);
+          }
+          return response;
+        } catch (error: any) {
+          if (error.response?.headers) {
+            this.recordRateLimit(error.response.headers);
+          }
+          if (error.status === 304 && cached) {
+            const notModified: Awaited<ReturnType<typeof request>> = {
+              status: cached.status,
+              url: cached.url,
+              headers: cached.headers,
+              data: cached.data,
+            };
+            return notModified;
+          }
+
+          const delayMs = this.getRetryDelay(error, attempt);
+          if (delayMs === null) {
+            const resetAt = this.getResetAt(error.response?.headers);
+            throw this.isRateLimited(error)
+              ? new RateLimitError(`GitHub API rate limit exceeded: ${error.message}`, resetAt)
+              : error;
+          }
+
+          await this.sleep(delayMs);
+        }
+      }
     });
   }
 
@@ -26,7 +180,7 @@ export class OctokitClient {
    * Checks if the client is authenticated
    */
   isAuthenticated(): boolean {
-    return !!this.octokit.auth;
+    return !!this.tokenSource || !!this.octokit.auth;
   }
 
   /**
@@ -41,4 +195,163 @@ export class OctokitClient {
       return null;
     }
   }
+
+  /**
+   * Gets the rate limit as last reported by GitHub, fetching it if no request was made yet
+   * Querying the rate limit does not count against it
+   */
+  async getRateLimitStatus(): Promise<RateLimitStatus | null> {
+    if (this.rateLimitStatus) {
+      return this.rateLimitStatus;
+    }
+
+    const rate = await this.getRateLimit();
+    if (rate) {
+      this.rateLimitStatus = {
+        limit: rate.limit,
+        remaining: rate.remaining,
+        resetAt: new Date(rate.reset * 1000),
+      };
+    }
+    return this.rateLimitStatus;
+  }
+
+  /**
+   * Ensures enough requests remain in the rate limit budget
+   * @param requiredRequests - Number of requests the upcoming work needs
+   * @throws RateLimitBudgetError if fewer requests remain
+   */
+  async assertBudget(requiredRequests: number): Promise<void> {
+    const status = await this.getRateLimitStatus();
+    if (status && status.remaining < requiredRequests) {
+      throw new RateLimitBudgetError(status.remaining, requiredRequests, status.resetAt);
+    }
+  }
+
+  /**
+   * Keeps a successful response that GitHub can later report as not modified
+   * Responses still being computed (e.g. 202 from the statistics endpoints) are not kept
+   */
+  private async storeResponse(
+    cacheKey: string,
+    response: { status: number; url: string; headers: Record<string, any>; data: unknown }
+  ): Promise<void> {
+    const etag = response.headers.etag || null;
+    const lastModified = response.headers['last-modified'] || null;
+    if (response.status !== 200 || (!etag && !lastModified)) {
+      return;
+    }
+
+    await this.responseCache!.set(cacheKey, {
+      etag,
+      lastModified,
+      status: response.status,
+      url: response.url,
+      headers: response.headers,
+      data: response.data,
+    });
+  }
+
+  /**
+   * Updates the tracked rate limit from response headers
+   * Only the REST (core) budget is tracked; GraphQL has a separate point-based limit
+   */
+  private recordRateLimit(headers: Record<string, any>): void {
+    const resource = headers['x-ratelimit-resource'];
+    if (resource && resource !== 'core') {
+      return;
+    }
+
+    const limit = parseInt(headers['x-ratelimit-limit'], 10);
+    const remaining = parseInt(headers['x-ratelimit-remaining'], 10);
+    const reset = parseInt(headers['x-ratelimit-reset'], 10);
+
+    if (Number.isFinite(limit) && Number.isFinite(remaining) && Number.isFinite(reset)) {
+      this.rateLimitStatus = { limit, remaining, resetAt: new Date(reset * 1000) };
+    }
+  }
+
+  /**
+   * Decides how long to wait before retrying a failed request
+   * @returns Delay in milliseconds, or null if the request should not be retried
+   */
+  private getRetryDelay(error: any, attempt: number): number | null {
+    if (attempt >= this.maxRetries) {
+      return null;
+    }
+
+    if (this.isRateLimited(error)) {
+      const headers = error.response?.headers || {};
+      const retryAfter = parseInt(headers['retry-after'], 10);
+      const resetAt = this.getResetAt(headers);
+
+      let waitMs: number;
+      if (Number.isFinite(retryAfter)) {
+        waitMs = retryAfter * 1000;
+      } else if (resetAt) {
+        waitMs = Math.max(0, resetAt.getTime() - Date.now()) + 1000;
+      } else {
+        // Secondary rate limit without hints: GitHub asks to wait at least a minute
+        waitMs = 60 * 1000;
+      }
+
+      return waitMs <= this.maxRateLimitWaitMs ? waitMs : null;
+    }
+
+    if (RETRYABLE_STATUSES.includes(error.status)) {
+      const backoff = this.baseDelayMs * Math.pow(2, attempt);
+      const jitter = Math.random() * this.baseDelayMs;
+      return backoff + jitter;
+    }
+
+    return null;
+  }
+
+  /**
+   * Checks if an error is a primary or secondary rate limit response
+   */
+  private isRateLimited(error: any): boolean {
+    if (error.status === 429) {
+      return true;
+    }
+    if (error.status !== 403) {
+      return false;
+    }
+
+    const headers = error.response?.headers || {};
+    return (
+      headers['x-ratelimit-remaining'] === '0' ||
+      headers['retry-after'] !== undefined ||
+      /rate limit/i.test(error.message || '')
+    );
+  }
+
+  /**
+   * Finds the rate limit error of a GraphQL response
+   * GraphQL reports its rate limit in the body of a 200 response rather than as a 403
+   */
+  private getGraphqlRateLimit(data: any): { message: string } | null {
+    const errors: any[] = Array.isArray(data?.errors) ? data.errors : [];
+    return errors.find(error => error?.type === 'RATE_LIMITED') ?? null;
+  }
+
+  /**
+   * Gets the account a request is about from its REST parameters or GraphQL variables
+   */
+  private getOwner(requestOptions: Record<string, any>): string | null {
+    const params = { ...requestOptions.variables, ...requestOptions };
+    return params.owner || params.org || params.username || null;
+  }
+
+  /**
+   * Gets the rate limit reset time from response headers
+   */
+  private getResetAt(headers: Record<string, any> = {}): Date | null {
+    const reset = parseInt(headers['x-ratelimit-reset'], 10);
+    return Number.isFinite(reset) ? new Date(reset * 1000) : null;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
 }
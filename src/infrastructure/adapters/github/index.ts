@@ -1,3 +1,11 @@
 export { OctokitClient } from './OctokitClient';
+export type { RateLimitStatus, OctokitClientOptions, GitHubTokenSource, ConditionalResponse } from './OctokitClient';
+export { GitHubAppAuth } from './GitHubAppAuth';
+export type { GitHubAppInstallation, GitHubAppAuthOptions } from './GitHubAppAuth';
 export { GitHubRepositoryProvider } from './GitHubRepositoryProvider';
+export { GitHubBuildProvider } from './GitHubBuildProvider';
+export { GitHubActivityProvider } from './GitHubActivityProvider';
+export { GitHubContributorProvider } from './GitHubContributorProvider';
+export { GitHubCommitProvider } from './GitHubCommitProvider';
+export { GitHubWebhookVerifier } from './GitHubWebhookVerifier';
 export * from './mappers';
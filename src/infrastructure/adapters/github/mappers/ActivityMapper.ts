@@ -0,0 +1,47 @@
+import {
+  WeeklyCommitActivity,
+  WeeklyCodeFrequency,
+  MergedPullRequest,
+} from '@/domain/ports/ActivityProvider';
+
+/**
+ * Maps GitHub statistics and pull request responses to domain activity objects
+ */
+export class ActivityMapper {
+  /**
+   * Map GitHub commit activity week ({ week, total, days }) to WeeklyCommitActivity
+   * @param apiWeek - GitHub API commit activity object
+   * @returns WeeklyCommitActivity domain object
+   */
+  static mapCommitActivity(apiWeek: any): WeeklyCommitActivity {
+    return {
+      weekStart: new Date(apiWeek.week * 1000),
+      days: Array.isArray(apiWeek.days) ? apiWeek.days : [],
+    };
+  }
+
+  /**
+   * Map GitHub code frequency week ([timestamp, additions, deletions]) to WeeklyCodeFrequency
+   * @param apiWeek - GitHub API code frequency tuple
+   * @returns WeeklyCodeFrequency domain object
+   */
+  static mapCodeFrequency(apiWeek: number[]): WeeklyCodeFrequency {
+    return {
+      weekStart: new Date(apiWeek[0] * 1000),
+      additions: apiWeek[1] || 0,
+      deletions: Math.abs(apiWeek[2] || 0), // GitHub reports deletions as negative numbers
+    };
+  }
+
+  /**
+   * Map GitHub pull request to MergedPullRequest
+   * @param apiPull - GitHub API pull request object (must be merged)
+   * @returns MergedPullRequest domain object
+   */
+  static mapMergedPullRequest(apiPull: any): MergedPullRequest {
+    return {
+      number: apiPull.number,
+      mergedAt: new Date(apiPull.merged_at),
+    };
+  }
+}
@@ -0,0 +1,30 @@
+import { WorkflowRun, WorkflowRunConclusion } from '@/domain/models/Build';
+
+/**
+ * Maps GitHub Actions workflow run responses to domain WorkflowRun objects
+ */
+export class BuildMapper {
+  /**
+   * Map GitHub API workflow run to WorkflowRun
+   * @param apiRun - GitHub API workflow run object
+   * @returns WorkflowRun domain object
+   */
+  static mapWorkflowRun(apiRun: any): WorkflowRun {
+    return new WorkflowRun(
+      apiRun.id,
+      apiRun.status || 'unknown',
+      (apiRun.conclusion || null) as WorkflowRunConclusion,
+      new Date(apiRun.created_at),
+      apiRun.head_branch || null
+    );
+  }
+
+  /**
+   * Map array of GitHub API workflow runs to WorkflowRun array
+   * @param apiRuns - Array of GitHub API workflow run objects
+   * @returns Array of WorkflowRun domain objects
+   */
+  static mapWorkflowRuns(apiRuns: any[]): WorkflowRun[] {
+    return apiRuns.map(run => this.mapWorkflowRun(run));
+  }
+}
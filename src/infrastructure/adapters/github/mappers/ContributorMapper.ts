@@ -0,0 +1,28 @@
+import { Contributor } from '@/domain/models/Contributor';
+
+/**
+ * Maps GitHub API contributor responses to domain Contributor model
+ */
+export class ContributorMapper {
+  /**
+   * Maps a GitHub contributor object to domain Contributor
+   */
+  static toDomain(githubContributor: any): Contributor {
+    return new Contributor(
+      githubContributor.login,
+      githubContributor.avatar_url || null,
+      githubContributor.contributions || 0,
+      githubContributor.type === 'Bot'
+    );
+  }
+
+  /**
+   * Maps an array of GitHub contributors to domain Contributors
+   * Anonymous contributors (without a login) are skipped
+   */
+  static toDomainList(githubContributors: any[]): Contributor[] {
+    return githubContributors
+      .filter(contributor => !!contributor.login)
+      .map(contributor => this.toDomain(contributor));
+  }
+}
@@ -1,27 +1,79 @@
 import { RepositoryTag } from '@/domain/ports/RepositoryProvider';
 
 /**
- * Maps GitHub API tag responses to domain RepositoryTag objects
+ * Maps GitHub API tag and release responses to domain RepositoryTag objects
  */
 export class ReleaseMapper {
   /**
-   * Map GitHub API tag to RepositoryTag
-   * @param apiTag - GitHub API tag object
-   * @returns RepositoryTag domain object
+   * Map a GitHub GraphQL tag ref to RepositoryTag
+   * The date is taken from the annotated tag's tagger, then the release publication date,
+   * then the tagged commit
+   * @param tagRef - GraphQL ref node with its target
+   * @param releaseDates - Release publication dates by tag name
+   * @returns RepositoryTag domain object, or null if no date is known for the tag
    */
-  static mapTag(apiTag: any): RepositoryTag {
-    return {
-      name: apiTag.name,
-      date: new Date(apiTag.commit?.committer?.date || apiTag.commit?.author?.date || new Date()),
-    };
+  static mapTagRef(tagRef: any, releaseDates: Map<string, Date> = new Map()): RepositoryTag | null {
+    const target = tagRef.target;
+
+    const taggerDate = target?.__typename === 'Tag' ? target.tagger?.date : null;
+    if (taggerDate) {
+      return { name: tagRef.name, date: new Date(taggerDate), dateSource: 'tagger' };
+    }
+
+    const releaseDate = releaseDates.get(tagRef.name);
+    if (releaseDate) {
+      return { name: tagRef.name, date: releaseDate, dateSource: 'release' };
+    }
+
+    const commitDate = this.getCommitDate(target);
+    if (commitDate) {
+      return { name: tagRef.name, date: new Date(commitDate), dateSource: 'commit' };
+    }
+
+    return null;
   }
 
   /**
-   * Map array of GitHub API tags to RepositoryTag array
-   * @param apiTags - Array of GitHub API tag objects
+   * Map GitHub GraphQL tag refs to RepositoryTag array
+   * Tags without any known date are left out rather than dated "now"
+   * @param tagRefs - GraphQL ref nodes
+   * @param releaseDates - Release publication dates by tag name
    * @returns Array of RepositoryTag domain objects
    */
-  static mapTags(apiTags: any[]): RepositoryTag[] {
-    return apiTags.map(tag => this.mapTag(tag));
+  static mapTagRefs(tagRefs: any[], releaseDates: Map<string, Date> = new Map()): RepositoryTag[] {
+    return tagRefs
+      .map(tagRef => this.mapTagRef(tagRef, releaseDates))
+      .filter((tag): tag is RepositoryTag => tag !== null);
+  }
+
+  /**
+   * Map GitHub API releases to publication dates by tag name
+   * Drafts and unpublished releases are skipped
+   * @param apiReleases - GitHub API release objects
+   * @returns Publication dates keyed by tag name
+   */
+  static mapReleaseDates(apiReleases: any[]): Map<string, Date> {
+    const dates = new Map<string, Date>();
+    apiReleases.forEach(release => {
+      if (!release.draft && release.published_at && release.tag_name) {
+        dates.set(release.tag_name, new Date(release.published_at));
+      }
+    });
+    return dates;
+  }
+
+  /**
+   * Get the commit date of a tag target, looking through annotated tags
+   * @param target - Target of a GraphQL tag ref
+   * @returns ISO commit date, or null if the tag does not point at a commit
+   */
+  static getCommitDate(target: any): string | null {
+    if (target?.__typename === 'Commit') {
+      return target.committedDate || null;
+    }
+    if (target?.__typename === 'Tag' && target.target?.__typename === 'Commit') {
+      return target.target.committedDate || null;
+    }
+    return null;
   }
 }
@@ -15,7 +15,14 @@ export class RepositoryMapper {
       githubRepo.description || null,
       githubRepo.language || null,
       githubRepo.stargazers_count || 0,
-      githubRepo.updated_at ? new Date(githubRepo.updated_at) : new Date()
+      githubRepo.updated_at ? new Date(githubRepo.updated_at) : new Date(),
+      null,
+      null,
+      null,
+      null,
+      githubRepo.default_branch || null,
+      null,
+      githubRepo.pushed_at ? new Date(githubRepo.pushed_at) : null
     );
   }
 
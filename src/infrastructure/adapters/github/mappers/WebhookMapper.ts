@@ -0,0 +1,59 @@
+import { RepositoryChange } from '@/domain/models/RepositoryChange';
+
+/**
+ * Maps GitHub webhook deliveries to the repository changes they report
+ */
+export class WebhookMapper {
+  /**
+   * Map a webhook delivery to repository changes
+   * Pushes to other branches than the default one, branch creation and unfinished workflow runs
+   * change nothing the dashboard shows and are ignored
+   * @param event - Event name from the `X-GitHub-Event` header
+   * @param payload - Parsed delivery body
+   * @returns Changed repositories; a renamed or transferred repository is removed under its old name
+   */
+  static toRepositoryChanges(event: string, payload: any): RepositoryChange[] {
+    const repository = payload?.repository;
+    const owner = repository?.owner?.login;
+    const name = repository?.name;
+    if (!owner || !name) {
+      return [];
+    }
+    const changed: RepositoryChange = { owner, name, removed: false };
+
+    switch (event) {
+      case 'create':
+        return payload.ref_type === 'tag' ? [changed] : [];
+      case 'push':
+        return payload.ref === `refs/heads/${repository.default_branch}` || payload.ref?.startsWith('refs/tags/')
+          ? [changed]
+          : [];
+      case 'release':
+        return [changed];
+      case 'workflow_run':
+        return payload.action === 'completed' ? [changed] : [];
+      case 'repository':
+        return this.mapRepositoryEvent(payload, changed);
+      default:
+        return [];
+    }
+  }
+
+  private static mapRepositoryEvent(payload: any, changed: RepositoryChange): RepositoryChange[] {
+    switch (payload.action) {
+      case 'deleted':
+        return [{ ...changed, removed: true }];
+      case 'renamed': {
+        const previousName = payload.changes?.repository?.name?.from;
+        return previousName ? [{ ...changed, name: previousName, removed: true }, changed] : [changed];
+      }
+      case 'transferred': {
+        const from = payload.changes?.owner?.from;
+        const previousOwner = from?.organization?.login || from?.user?.login;
+        return previousOwner ? [{ ...changed, owner: previousOwner, removed: true }, changed] : [changed];
+      }
+      default:
+        return [changed];
+    }
+  }
+}
@@ -1 +1,5 @@
 export { RepositoryMapper } from './RepositoryMapper';
+export { BuildMapper } from './BuildMapper';
+export { ActivityMapper } from './ActivityMapper';
+export { ContributorMapper } from './ContributorMapper';
+export { WebhookMapper } from './WebhookMapper';
@@ -0,0 +1,117 @@
+import { EnvironmentConfig } from '@/infrastructure/config';
+import { RateLimitError } from '@/infrastructure/lib/errors';
+
+/**
+ * Query parameters of a GitLab API request
+ */
+export type GitLabQuery = Record<string, string | number | boolean>;
+
+/**
+ * One page of a paginated GitLab API response
+ */
+export interface GitLabPage<T> {
+  data: T[];
+  hasNextPage: boolean;
+}
+
+/**
+ * Raised when the GitLab API answers with an error status
+ */
+export class GitLabApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'GitLabApiError';
+  }
+}
+
+/**
+ * GitLab REST API (v4) client
+ * Authenticates with a personal or group access token and walks
+ * offset-paginated results through the `x-next-page` header
+ */
+export class GitLabClient {
+  private baseUrl: string;
+  private token: string;
+
+  constructor(baseUrl?: string, token?: string) {
+    this.baseUrl = `${(baseUrl || EnvironmentConfig.GITLAB_URL).replace(/\/+$/, '')}/api/v4`;
+    this.token = token ?? EnvironmentConfig.GITLAB_TOKEN;
+  }
+
+  /**
+   * Performs a GET request
+   * @param path - API path (e.g. "/groups/my-group/projects")
+   * @param query - Query parameters
+   * @returns Parsed JSON body and response headers
+   * @throws RateLimitError when rate limited, GitLabApiError on other error statuses
+   */
+  async get<T>(path: string, query: GitLabQuery = {}): Promise<{ data: T; headers: Headers }> {
+    const url = new URL(`${this.baseUrl}${path}`);
+    Object.entries(query).forEach(([key, value]) => url.searchParams.set(key, String(value)));
+
+    const response = await fetch(url, {
+      headers: this.token ? { 'PRIVATE-TOKEN': this.token } : {},
+    });
+
+    if (response.status === 429) {
+      throw new RateLimitError('GitLab API rate limit exceeded', this.getResetAt(response.headers));
+    }
+    if (!response.ok) {
+      throw new GitLabApiError(
+        `GitLab API request failed: ${response.status} ${response.statusText}`,
+        response.status
+      );
+    }
+
+    return { data: (await response.json()) as T, headers: response.headers };
+  }
+
+  /**
+   * Iterates over every page of a list endpoint
+   * @param path - API path of a list endpoint
+   * @param query - Query parameters (per_page defaults to 100)
+   */
+  async *iterate<T>(path: string, query: GitLabQuery = {}): AsyncGenerator<GitLabPage<T>> {
+    let page: string | null = '1';
+
+    while (page) {
+      const { data, headers }: { data: T[]; headers: Headers } = await this.get<T[]>(path, {
+        per_page: 100,
+        ...query,
+        page,
+      });
+      page = headers.get('x-next-page') || null;
+      yield { data, hasNextPage: page !== null };
+    }
+  }
+
+  /**
+   * Fetches every page of a list endpoint
+   * @param path - API path of a list endpoint
+   * @param query - Query parameters (per_page defaults to 100)
+   * @returns All items across pages
+   */
+  async paginate<T>(path: string, query: GitLabQuery = {}): Promise<T[]> {
+    const items: T[] = [];
+    for await (const { data } of this.iterate<T>(path, query)) {
+      items.push(...data);
+    }
+    return items;
+  }
+
+  /**
+   * Reads the rate limit reset time from `RateLimit-Reset` or `Retry-After`
+   */
+  private getResetAt(headers: Headers): Date | null {
+    const reset = parseInt(headers.get('ratelimit-reset') || '', 10);
+    if (Number.isFinite(reset)) {
+      return new Date(reset * 1000);
+    }
+
+    const retryAfter = parseInt(headers.get('retry-after') || '', 10);
+    return Number.isFinite(retryAfter) ? new Date(Date.now() + retryAfter * 1000) : null;
+  }
+}
@@ -0,0 +1,216 @@
+import {
+  RepositoryProvider,
+  RepositoryList,
+  RepositoryTagList,
+} from '@/domain/ports/RepositoryProvider';
+import { Repository } from '@/domain/models/Repository';
+import { RateLimitError } from '@/infrastructure/lib/errors';
+import { GitLabClient, GitLabQuery } from './GitLabClient';
+import { GitLabRepositoryMapper } from './mappers/GitLabRepositoryMapper';
+import { GitLabReleaseMapper } from './mappers/GitLabReleaseMapper';
+
+/**
+ * Optional limits on how much data the provider fetches
+ */
+export interface GitLabRepositoryProviderOptions {
+  /**
+   * Stop listing after this many projects (default: no limit)
+   */
+  maxRepositories?: number;
+
+  /**
+   * Only keep tags from the last N months (default: all tags)
+   */
+  tagHistoryMonths?: number;
+}
+
+/**
+ * GitLab implementation of RepositoryProvider
+ * Lists the projects of a group and its subgroups, and dates their tags
+ */
+export class GitLabRepositoryProvider implements RepositoryProvider {
+  constructor(
+    private gitlabClient: GitLabClient,
+    private groupPath: string,
+    private options: GitLabRepositoryProviderOptions = {}
+  ) {}
+
+  /**
+   * Lists all projects of the configured group, including subgroups
+   * Archived projects are left out
+   */
+  async listRepositories(groupPath?: string): Promise<RepositoryList> {
+    const targetGroup = groupPath || this.groupPath;
+
+    if (!targetGroup) {
+      throw new Error('GitLab group is required');
+    }
+
+    return this.listAllProjects(
+      `/groups/${encodeURIComponent(targetGroup)}/projects`,
+      { include_subgroups: true },
+      `GitLab group '${targetGroup}' not found`
+    );
+  }
+
+  /**
+   * Lists all projects owned by a user account
+   */
+  async listUserRepositories(userName: string): Promise<RepositoryList> {
+    return this.listAllProjects(
+      `/users/${encodeURIComponent(userName)}/projects`,
+      {},
+      `GitLab user '${userName}' not found`
+    );
+  }
+
+  /**
+   * Gets a single project
+   * @param owner - Full namespace path of the project (e.g. "group/subgroup")
+   * @param repo - Project path
+   */
+  async getRepository(owner: string, repo: string): Promise<Repository> {
+    try {
+      const { data } = await this.gitlabClient.get<any>(`/projects/${encodeURIComponent(`${owner}/${repo}`)}`);
+      return GitLabRepositoryMapper.toDomain(data);
+    } catch (error: any) {
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
+      if (error.status === 404) {
+        throw new Error(`Repository '${owner}/${repo}' not found`);
+      }
+      if (error.status === 401) {
+        throw new Error('GitLab authentication failed. Check your token.');
+      }
+      throw new Error(`Failed to fetch repository ${owner}/${repo}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Walks every page of a project list endpoint, most recently active first
+   * Stops at maxRepositories; archived projects are left out
+   */
+  private async listAllProjects(
+    path: string,
+    query: GitLabQuery,
+    notFoundMessage: string
+  ): Promise<RepositoryList> {
+    try {
+      const maxRepositories = this.options.maxRepositories;
+      const projects: any[] = [];
+      let truncated = false;
+
+      const pages = this.gitlabClient.iterate<any>(path, {
+        ...query,
+        archived: false,
+        order_by: 'last_activity_at',
+        sort: 'desc',
+      });
+
+      for await (const { data, hasNextPage } of pages) {
+        projects.push(...data);
+
+        if (maxRepositories && projects.length >= maxRepositories) {
+          truncated = projects.length > maxRepositories || hasNextPage;
+          projects.length = maxRepositories;
+          break;
+        }
+      }
+
+      return {
+        repositories: GitLabRepositoryMapper.toDomainList(projects),
+        truncated,
+      };
+    } catch (error: any) {
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
+      if (error.status === 404) {
+        throw new Error(notFoundMessage);
+      }
+      if (error.status === 401) {
+        throw new Error('GitLab authentication failed. Check your token.');
+      }
+      throw new Error(`Failed to fetch repositories: ${error.message}`);
+    }
+  }
+
+  /**
+   * Gets tags for a project
+   * Tags are dated by their creation (annotated tags), then their GitLab Release, then their commit
+   * @param owner - Full namespace path of the project (e.g. "group/subgroup")
+   * @param repo - Project path
+   */
+  async getRepositoryTags(owner: string, repo: string): Promise<RepositoryTagList> {
+    const projectPath = `/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+    const since = this.getTagHistoryStart();
+
+    try {
+      const [{ apiTags, hasMore }, apiReleases] = await Promise.all([
+        this.fetchTags(projectPath, since),
+        this.gitlabClient.paginate<any>(`${projectPath}/releases`),
+      ]);
+
+      const tags = GitLabReleaseMapper.mapTags(apiTags, GitLabReleaseMapper.mapReleaseDates(apiReleases));
+
+      if (!since) {
+        return { tags, truncated: false };
+      }
+
+      const recentTags = tags.filter(tag => tag.date >= since);
+      return { tags: recentTags, truncated: hasMore || recentTags.length < tags.length };
+    } catch (error: any) {
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
+      if (error.status === 404) {
+        throw new Error(`Repository '${owner}/${repo}' not found`);
+      }
+      if (error.status === 401) {
+        throw new Error('GitLab authentication failed. Check your token.');
+      }
+      throw new Error(`Failed to fetch tags for ${owner}/${repo}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Walks the pages of a project's tags
+   * Tags come most recently updated commit first, so walking stops after the first page
+   * reaching past the start date
+   * @param since - Oldest tag date to keep, or null for every tag
+   * @returns Tags, and whether older pages were left unfetched
+   */
+  private async fetchTags(projectPath: string, since: Date | null): Promise<{ apiTags: any[]; hasMore: boolean }> {
+    const apiTags: any[] = [];
+    const pages = this.gitlabClient.iterate<any>(`${projectPath}/repository/tags`, {
+      order_by: 'updated',
+      sort: 'desc',
+    });
+
+    for await (const { data, hasNextPage } of pages) {
+      apiTags.push(...data);
+
+      const oldestCommitDate = data[data.length - 1]?.commit?.committed_date;
+      if (hasNextPage && since && oldestCommitDate && new Date(oldestCommitDate) < since) {
+        return { apiTags, hasMore: true };
+      }
+    }
+
+    return { apiTags, hasMore: false };
+  }
+
+  /**
+   * Gets the oldest tag date to keep, or null if tag history is not capped
+   */
+  private getTagHistoryStart(): Date | null {
+    const months = this.options.tagHistoryMonths;
+    if (!months) {
+      return null;
+    }
+
+    const since = new Date();
+    since.setMonth(since.getMonth() - months);
+    return since;
+  }
+}
@@ -0,0 +1,5 @@
+export { GitLabClient, GitLabApiError } from './GitLabClient';
+export type { GitLabQuery, GitLabPage } from './GitLabClient';
+export { GitLabRepositoryProvider } from './GitLabRepositoryProvider';
+export type { GitLabRepositoryProviderOptions } from './GitLabRepositoryProvider';
+export * from './mappers';
@@ -0,0 +1,61 @@
+import { RepositoryTag } from '@/domain/ports/RepositoryProvider';
+
+/**
+ * Maps GitLab API tag and release responses to domain RepositoryTag objects
+ */
+export class GitLabReleaseMapper {
+  /**
+   * Map a GitLab tag to RepositoryTag
+   * The date is taken from the annotated tag's creation, then the release date,
+   * then the tagged commit
+   * @param apiTag - GitLab API tag object
+   * @param releaseDates - Release dates by tag name
+   * @returns RepositoryTag domain object, or null if no date is known for the tag
+   */
+  static mapTag(apiTag: any, releaseDates: Map<string, Date> = new Map()): RepositoryTag | null {
+    if (apiTag.created_at) {
+      return { name: apiTag.name, date: new Date(apiTag.created_at), dateSource: 'tagger' };
+    }
+
+    const releaseDate = releaseDates.get(apiTag.name);
+    if (releaseDate) {
+      return { name: apiTag.name, date: releaseDate, dateSource: 'release' };
+    }
+
+    const commitDate = apiTag.commit?.committed_date || apiTag.commit?.created_at;
+    if (commitDate) {
+      return { name: apiTag.name, date: new Date(commitDate), dateSource: 'commit' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Map GitLab tags to RepositoryTag array
+   * Tags without any known date are left out rather than dated "now"
+   * @param apiTags - GitLab API tag objects
+   * @param releaseDates - Release dates by tag name
+   * @returns Array of RepositoryTag domain objects
+   */
+  static mapTags(apiTags: any[], releaseDates: Map<string, Date> = new Map()): RepositoryTag[] {
+    return apiTags
+      .map(apiTag => this.mapTag(apiTag, releaseDates))
+      .filter((tag): tag is RepositoryTag => tag !== null);
+  }
+
+  /**
+   * Map GitLab releases to release dates by tag name
+   * Upcoming releases (dated in the future) are skipped
+   * @param apiReleases - GitLab API release objects
+   * @returns Release dates keyed by tag name
+   */
+  static mapReleaseDates(apiReleases: any[]): Map<string, Date> {
+    const dates = new Map<string, Date>();
+    apiReleases.forEach(release => {
+      if (!release.upcoming_release && release.released_at && release.tag_name) {
+        dates.set(release.tag_name, new Date(release.released_at));
+      }
+    });
+    return dates;
+  }
+}
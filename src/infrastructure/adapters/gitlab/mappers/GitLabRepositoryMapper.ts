@@ -0,0 +1,35 @@
+import { Repository } from '@/domain/models/Repository';
+
+/**
+ * Maps GitLab API project responses to domain Repository models
+ * The owner is the project's full namespace path (e.g. "group/subgroup")
+ */
+export class GitLabRepositoryMapper {
+  /**
+   * Maps a GitLab project object to domain Repository
+   * GitLab does not list a primary language with projects, so it is left empty
+   */
+  static toDomain(gitlabProject: any): Repository {
+    return new Repository(
+      gitlabProject.path,
+      gitlabProject.namespace?.full_path || 'unknown',
+      gitlabProject.web_url,
+      gitlabProject.description || null,
+      null,
+      gitlabProject.star_count || 0,
+      gitlabProject.last_activity_at ? new Date(gitlabProject.last_activity_at) : new Date(),
+      null,
+      null,
+      null,
+      null,
+      gitlabProject.default_branch || null
+    );
+  }
+
+  /**
+   * Maps an array of GitLab projects to domain Repositories
+   */
+  static toDomainList(gitlabProjects: any[]): Repository[] {
+    return gitlabProjects.map(project => this.toDomain(project));
+  }
+}
@@ -0,0 +1,2 @@
+export { GitLabRepositoryMapper } from './GitLabRepositoryMapper';
+export { GitLabReleaseMapper } from './GitLabReleaseMapper';
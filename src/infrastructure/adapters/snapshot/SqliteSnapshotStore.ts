@@ -0,0 +1,133 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import path from 'path';
+import { SnapshotQuery, SnapshotStore } from '@/domain/ports/SnapshotStore';
+import { RepositorySnapshot } from '@/domain/models/Snapshot';
+import { SnapshotRow, SnapshotRowMapper } from './mappers/SnapshotRowMapper';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS repository_snapshots (
+    snapshot_date TEXT NOT NULL,
+    owner TEXT NOT NULL,
+    name TEXT NOT NULL,
+    star_count INTEGER NOT NULL,
+    total_releases INTEGER,
+    releases_last_30_days INTEGER,
+    days_since_latest_release INTEGER,
+    median_days_between_releases REAL,
+    build_success_rate REAL,
+    commits INTEGER,
+    merged_pull_requests INTEGER,
+    active_contributors INTEGER,
+    deployments_per_week REAL,
+    lead_time_hours REAL,
+    change_failure_rate REAL,
+    time_to_restore_hours REAL,
+    PRIMARY KEY (snapshot_date, owner, name)
+  );
+  CREATE INDEX IF NOT EXISTS repository_snapshots_owner ON repository_snapshots (owner, name, snapshot_date);
+`;
+
+const COLUMNS: (keyof SnapshotRow)[] = [
+  'snapshot_date',
+  'owner',
+  'name',
+  'star_count',
+  'total_releases',
+  'releases_last_30_days',
+  'days_since_latest_release',
+  'median_days_between_releases',
+  'build_success_rate',
+  'commits',
+  'merged_pull_requests',
+  'active_contributors',
+  'deployments_per_week',
+  'lead_time_hours',
+  'change_failure_rate',
+  'time_to_restore_hours',
+];
+
+/**
+ * SQLite implementation of SnapshotStore
+ * Keeps one row per repository and day in a single database file,
+ * opened on first use so a broken path surfaces as a failed save or query
+ */
+export class SqliteSnapshotStore implements SnapshotStore {
+  // Kept on globalThis so the background refresh records into the connection the routes query
+  private static get instances(): Map<string, SqliteSnapshotStore> {
+    const store = globalThis as { sqliteSnapshotStoreInstances?: Map<string, SqliteSnapshotStore> };
+    store.sqliteSnapshotStoreInstances ??= new Map();
+    return store.sqliteSnapshotStoreInstances;
+  }
+
+  private db: Database.Database | null = null;
+
+  /**
+   * @param databasePath - Database file, created with its directory if missing (":memory:" for a throwaway store)
+   */
+  constructor(private databasePath: string) {}
+
+  /**
+   * Gets a shared store per database file, so the connection survives across requests
+   * @param databasePath - Database file
+   */
+  static getInstance(databasePath: string): SqliteSnapshotStore {
+    let instance = this.instances.get(databasePath);
+    if (!instance) {
+      instance = new SqliteSnapshotStore(databasePath);
+      this.instances.set(databasePath, instance);
+    }
+    return instance;
+  }
+
+  async save(snapshots: RepositorySnapshot[]): Promise<void> {
+    const db = this.getDatabase();
+    const insert = db.prepare(
+      `INSERT OR REPLACE INTO repository_snapshots (${COLUMNS.join(', ')})
+       VALUES (${COLUMNS.map(column => `@${column}`).join(', ')})`
+    );
+    db.transaction((rows: SnapshotRow[]) => {
+      rows.forEach(row => insert.run(row));
+    })(snapshots.map(snapshot => SnapshotRowMapper.toRow(snapshot)));
+  }
+
+  async find(query: SnapshotQuery): Promise<RepositorySnapshot[]> {
+    const rows = this.getDatabase().prepare(
+      `SELECT ${COLUMNS.join(', ')} FROM repository_snapshots
+       WHERE snapshot_date >= @since
+         AND (@owner IS NULL OR owner = @owner)
+         AND (@name IS NULL OR name = @name)
+       ORDER BY snapshot_date, owner, name`
+    ).all({
+      since: query.since,
+      owner: query.owner ?? null,
+      name: query.name ?? null,
+    }) as SnapshotRow[];
+
+    return rows.map(row => SnapshotRowMapper.toDomain(row));
+  }
+
+  /**
+   * Closes the database connection
+   */
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  /**
+   * Opens the database and creates the schema on first use
+   */
+  private getDatabase(): Database.Database {
+    if (!this.db) {
+      if (this.databasePath !== ':memory:') {
+        mkdirSync(path.dirname(this.databasePath), { recursive: true });
+      }
+      const db = new Database(this.databasePath);
+      db.pragma('journal_mode = WAL');
+      db.exec(SCHEMA);
+      this.db = db;
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,2 @@
+export { SqliteSnapshotStore } from './SqliteSnapshotStore';
+export * from './mappers';
@@ -0,0 +1,74 @@
+import { RepositorySnapshot } from '@/domain/models/Snapshot';
+
+/**
+ * Row of the repository_snapshots table
+ */
+export interface SnapshotRow {
+  snapshot_date: string;
+  owner: string;
+  name: string;
+  star_count: number;
+  total_releases: number | null;
+  releases_last_30_days: number | null;
+  days_since_latest_release: number | null;
+  median_days_between_releases: number | null;
+  build_success_rate: number | null;
+  commits: number | null;
+  merged_pull_requests: number | null;
+  active_contributors: number | null;
+  deployments_per_week: number | null;
+  lead_time_hours: number | null;
+  change_failure_rate: number | null;
+  time_to_restore_hours: number | null;
+}
+
+/**
+ * Maps between domain snapshots and SQLite rows
+ */
+export class SnapshotRowMapper {
+  /**
+   * Maps a domain snapshot to a table row
+   */
+  static toRow(snapshot: RepositorySnapshot): SnapshotRow {
+    const { metrics } = snapshot;
+    return {
+      snapshot_date: snapshot.date,
+      owner: snapshot.owner,
+      name: snapshot.name,
+      star_count: metrics.starCount,
+      total_releases: metrics.totalReleases,
+      releases_last_30_days: metrics.releasesLast30Days,
+      days_since_latest_release: metrics.daysSinceLatestRelease,
+      median_days_between_releases: metrics.medianDaysBetweenReleases,
+      build_success_rate: metrics.buildSuccessRate,
+      commits: metrics.commits,
+      merged_pull_requests: metrics.mergedPullRequests,
+      active_contributors: metrics.activeContributors,
+      deployments_per_week: metrics.deploymentsPerWeek,
+      lead_time_hours: metrics.leadTimeHours,
+      change_failure_rate: metrics.changeFailureRate,
+      time_to_restore_hours: metrics.timeToRestoreHours,
+    };
+  }
+
+  /**
+   * Maps a table row to a domain snapshot
+   */
+  static toDomain(row: SnapshotRow): RepositorySnapshot {
+    return new RepositorySnapshot(row.snapshot_date, row.owner, row.name, {
+      starCount: row.star_count,
+      totalReleases: row.total_releases,
+      releasesLast30Days: row.releases_last_30_days,
+      daysSinceLatestRelease: row.days_since_latest_release,
+      medianDaysBetweenReleases: row.median_days_between_releases,
+      buildSuccessRate: row.build_success_rate,
+      commits: row.commits,
+      mergedPullRequests: row.merged_pull_requests,
+      activeContributors: row.active_contributors,
+      deploymentsPerWeek: row.deployments_per_week,
+      leadTimeHours: row.lead_time_hours,
+      changeFailureRate: row.change_failure_rate,
+      timeToRestoreHours: row.time_to_restore_hours,
+    });
+  }
+}
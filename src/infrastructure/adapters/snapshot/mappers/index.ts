@@ -0,0 +1,2 @@
+export { SnapshotRowMapper } from './SnapshotRowMapper';
+export type { SnapshotRow } from './SnapshotRowMapper';
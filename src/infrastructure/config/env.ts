@@ -29,6 +29,21 @@ export class EnvironmentConfig {
     return process.env.NEXTAUTH_SECRET || '';
   }
 
+  // Access Control
+  /**
+   * Comma-separated email domains allowed to sign in (e.g. "example.com,example.org")
+   */
+  static get ALLOWED_EMAIL_DOMAINS(): string[] {
+    return this.parseList(process.env.ALLOWED_EMAIL_DOMAINS);
+  }
+
+  /**
+   * Comma-separated individual email addresses allowed to sign in regardless of domain
+   */
+  static get ALLOWED_EMAILS(): string[] {
+    return this.parseList(process.env.ALLOWED_EMAILS);
+  }
+
   // GitHub Configuration (for future features)
   static get GITHUB_TOKEN(): string {
     return process.env.GITHUB_TOKEN || '';
@@ -38,10 +53,213 @@ export class EnvironmentConfig {
     return process.env.GITHUB_ORG || '';
   }
 
+  /**
+   * How to authenticate against GitHub: "token" (GITHUB_TOKEN) or "app" (GitHub App installations)
+   * Default: "token"
+   */
+  static get GITHUB_AUTH(): 'token' | 'app' {
+    return process.env.GITHUB_AUTH === 'app' ? 'app' : 'token';
+  }
+
+  static get GITHUB_APP_ID(): string {
+    return process.env.GITHUB_APP_ID || '';
+  }
+
+  /**
+   * PEM private key of the GitHub App; escaped newlines ("\n") are accepted for single-line values
+   */
+  static get GITHUB_APP_PRIVATE_KEY(): string {
+    return (process.env.GITHUB_APP_PRIVATE_KEY || '').replace(/\\n/g, '\n');
+  }
+
+  /**
+   * Installation the GitHub App authenticates as
+   * Default: null (the installation of each organization is discovered)
+   */
+  static get GITHUB_APP_INSTALLATION_ID(): number | null {
+    const id = parseInt(process.env.GITHUB_APP_INSTALLATION_ID || '', 10);
+    return Number.isFinite(id) && id > 0 ? id : null;
+  }
+
+  /**
+   * Secret shared with GitHub webhooks, used to verify their signatures
+   * The webhook endpoint rejects every delivery while it is empty
+   */
+  static get GITHUB_WEBHOOK_SECRET(): string {
+    return process.env.GITHUB_WEBHOOK_SECRET || '';
+  }
+
+  /**
+   * Comma-separated repository sources combined into one dashboard
+   * "acme" or "org:acme", "user:svc-deploy", "acme/api" or "repo:acme/api"
+   * Default: empty (the single GITHUB_ORG, GITLAB_GROUP or LOCAL_GIT_OWNER of the host)
+   */
+  static get REPOSITORY_SOURCES(): string[] {
+    return this.parseList(process.env.REPOSITORY_SOURCES);
+  }
+
   static get WORKFLOW_NAME(): string {
     return process.env.WORKFLOW_NAME || 'Build and Push to ECR';
   }
 
+  /**
+   * Host of the repositories: "github", "gitlab" or "local" (bare clones on disk)
+   * Default: "github"
+   */
+  static get REPOSITORY_HOST(): 'github' | 'gitlab' | 'local' {
+    const host = process.env.REPOSITORY_HOST;
+    return host === 'gitlab' || host === 'local' ? host : 'github';
+  }
+
+  // GitLab Configuration
+  /**
+   * Base URL of the GitLab instance
+   * Default: "https://gitlab.com"
+   */
+  static get GITLAB_URL(): string {
+    return process.env.GITLAB_URL || 'https://gitlab.com';
+  }
+
+  static get GITLAB_TOKEN(): string {
+    return process.env.GITLAB_TOKEN || '';
+  }
+
+  /**
+   * Full path of the GitLab group whose projects (including subgroups) are listed
+   */
+  static get GITLAB_GROUP(): string {
+    return process.env.GITLAB_GROUP || '';
+  }
+
+  // Local Git Configuration
+  /**
+   * Directory containing bare or mirrored repositories (REPOSITORY_HOST=local)
+   */
+  static get LOCAL_GIT_ROOT(): string {
+    return process.env.LOCAL_GIT_ROOT || '';
+  }
+
+  /**
+   * Owner shown for local repositories
+   * Default: name of the LOCAL_GIT_ROOT directory
+   */
+  static get LOCAL_GIT_OWNER(): string {
+    return process.env.LOCAL_GIT_OWNER || this.LOCAL_GIT_ROOT.replace(/[\\/]+$/, '').split(/[\\/]/).pop() || '';
+  }
+
+  /**
+   * Base of the links to local repositories, e.g. the mirror server's web UI
+   * Default: "http://localhost"
+   */
+  static get LOCAL_GIT_WEB_URL(): string {
+    return process.env.LOCAL_GIT_WEB_URL || 'http://localhost';
+  }
+
+  /**
+   * Maximum number of repositories listed per organization
+   * Default: 0 (no limit)
+   */
+  static get MAX_REPOSITORIES(): number {
+    const max = parseInt(process.env.MAX_REPOSITORIES || '', 10);
+    return Number.isFinite(max) && max > 0 ? max : 0;
+  }
+
+  /**
+   * Only count tags from the last N months
+   * Default: 0 (full tag history)
+   */
+  static get TAG_HISTORY_MONTHS(): number {
+    const months = parseInt(process.env.TAG_HISTORY_MONTHS || '', 10);
+    return Number.isFinite(months) && months > 0 ? months : 0;
+  }
+
+  /**
+   * Comma-separated login patterns excluded from contributor statistics
+   * `*` is a wildcard. Default: "*[bot],dependabot*,renovate*"
+   */
+  static get BOT_PATTERNS(): string[] {
+    return this.parseList(process.env.BOT_PATTERNS || '*[bot],dependabot*,renovate*');
+  }
+
+  /**
+   * Version scheme used to read release versions from tags
+   * "auto", "semver", "calver" or "regex:<pattern with named groups>"
+   * Default: "auto" (detected per repository)
+   */
+  static get VERSION_SCHEME(): string {
+    return process.env.VERSION_SCHEME || 'auto';
+  }
+
+  /**
+   * Per-repository version schemes, separated by semicolons
+   * e.g. "payments-api=calver;legacy-app=regex:^release-(?<major>\d+)$"
+   */
+  static get REPOSITORY_VERSION_SCHEMES(): Record<string, string> {
+    const schemes: Record<string, string> = {};
+    (process.env.REPOSITORY_VERSION_SCHEMES || '').split(';').forEach(entry => {
+      const separator = entry.indexOf('=');
+      if (separator > 0) {
+        schemes[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+      }
+    });
+    return schemes;
+  }
+
+  /**
+   * Days after a release within which a patch release counts as its hotfix (DORA change failure rate)
+   * Default: 7
+   */
+  static get DORA_HOTFIX_WINDOW_DAYS(): number {
+    const days = parseInt(process.env.DORA_HOTFIX_WINDOW_DAYS || '', 10);
+    return Number.isFinite(days) && days > 0 ? days : 7;
+  }
+
+  // Snapshot Configuration
+  /**
+   * SQLite database file recording a daily snapshot of every repository
+   * Default: ".data/snapshots.db"
+   */
+  static get SNAPSHOT_DATABASE_PATH(): string {
+    return process.env.SNAPSHOT_DATABASE_PATH || '.data/snapshots.db';
+  }
+
+  // Cache Configuration
+  /**
+   * Time to live of cached repository data, in seconds
+   * Default: 900 (15 minutes)
+   */
+  static get CACHE_TTL(): number {
+    const ttl = parseInt(process.env.CACHE_TTL || '', 10);
+    return Number.isFinite(ttl) && ttl > 0 ? ttl : 900;
+  }
+
+  // Background Refresh Configuration
+  /**
+   * Interval of the background refresh, in seconds
+   * The refresh runs at startup and then on this interval. Default: 0 (disabled)
+   */
+  static get REFRESH_INTERVAL(): number {
+    const interval = parseInt(process.env.REFRESH_INTERVAL || '', 10);
+    return Number.isFinite(interval) && interval > 0 ? interval : 0;
+  }
+
+  /**
+   * Delay between enriching consecutive repositories during a background refresh, in milliseconds
+   * Default: 500
+   */
+  static get REFRESH_STAGGER_MS(): number {
+    const delay = parseInt(process.env.REFRESH_STAGGER_MS || '', 10);
+    return Number.isFinite(delay) && delay >= 0 ? delay : 500;
+  }
+
+  /**
+   * Email addresses allowed to use the admin endpoints
+   * When empty, every user allowed on the dashboard is an admin
+   */
+  static get ADMIN_EMAILS(): string[] {
+    return this.parseList(process.env.ADMIN_EMAILS);
+  }
+
   /**
    * Validates required environment variables based on features enabled
    * @throws Error if required variables are missing
@@ -60,6 +278,9 @@ export class EnvironmentConfig {
       if (!this.NEXTAUTH_SECRET) {
         errors.push('NEXTAUTH_SECRET is required when AUTH_ENABLED=true');
       }
+      if (this.ALLOWED_EMAIL_DOMAINS.length === 0 && this.ALLOWED_EMAILS.length === 0) {
+        errors.push('ALLOWED_EMAIL_DOMAINS or ALLOWED_EMAILS is required when AUTH_ENABLED=true');
+      }
     }
 
     if (errors.length > 0) {
@@ -72,18 +293,51 @@ export class EnvironmentConfig {
   /**
    * Gets a summary of current configuration (for debugging)
    */
-  static getSummary(): Record<string, string | boolean> {
+  static getSummary(): Record<string, string | number | boolean> {
     return {
       AUTH_ENABLED: this.AUTH_ENABLED,
       NEXTAUTH_URL: this.NEXTAUTH_URL,
-      ALLOWED_EMAIL_DOMAIN: this.ALLOWED_EMAIL_DOMAIN,
+      ALLOWED_EMAIL_DOMAINS: this.ALLOWED_EMAIL_DOMAINS.join(','),
+      ALLOWED_EMAILS_COUNT: this.ALLOWED_EMAILS.length,
+      REPOSITORY_HOST: this.REPOSITORY_HOST,
+      REPOSITORY_SOURCES: this.REPOSITORY_SOURCES.join(','),
       GITHUB_ORG: this.GITHUB_ORG,
+      GITHUB_AUTH: this.GITHUB_AUTH,
+      GITHUB_APP_ID: this.GITHUB_APP_ID,
+      GITHUB_APP_INSTALLATION_ID: this.GITHUB_APP_INSTALLATION_ID ?? '',
+      GITLAB_URL: this.GITLAB_URL,
+      GITLAB_GROUP: this.GITLAB_GROUP,
+      LOCAL_GIT_ROOT: this.LOCAL_GIT_ROOT,
       WORKFLOW_NAME: this.WORKFLOW_NAME,
+      MAX_REPOSITORIES: this.MAX_REPOSITORIES,
+      TAG_HISTORY_MONTHS: this.TAG_HISTORY_MONTHS,
+      BOT_PATTERNS: this.BOT_PATTERNS.join(','),
+      VERSION_SCHEME: this.VERSION_SCHEME,
+      REPOSITORY_VERSION_SCHEMES: Object.keys(this.REPOSITORY_VERSION_SCHEMES).length,
+      DORA_HOTFIX_WINDOW_DAYS: this.DORA_HOTFIX_WINDOW_DAYS,
+      CACHE_TTL: this.CACHE_TTL,
+      SNAPSHOT_DATABASE_PATH: this.SNAPSHOT_DATABASE_PATH,
+      REFRESH_INTERVAL: this.REFRESH_INTERVAL,
+      REFRESH_STAGGER_MS: this.REFRESH_STAGGER_MS,
+      ADMIN_EMAILS_COUNT: this.ADMIN_EMAILS.length,
       // Don't expose secrets
       HAS_GOOGLE_CLIENT_ID: !!this.GOOGLE_CLIENT_ID,
       HAS_GOOGLE_CLIENT_SECRET: !!this.GOOGLE_CLIENT_SECRET,
       HAS_NEXTAUTH_SECRET: !!this.NEXTAUTH_SECRET,
       HAS_GITHUB_TOKEN: !!this.GITHUB_TOKEN,
+      HAS_GITHUB_APP_PRIVATE_KEY: !!this.GITHUB_APP_PRIVATE_KEY,
+      HAS_GITHUB_WEBHOOK_SECRET: !!this.GITHUB_WEBHOOK_SECRET,
+      HAS_GITLAB_TOKEN: !!this.GITLAB_TOKEN,
     };
   }
+
+  /**
+   * Splits a comma-separated variable into trimmed, non-empty values
+   */
+  private static parseList(value: string | undefined): string[] {
+    return (value || '')
+      .split(',')
+      .map(item => item.trim())
+      .filter(item => item !== '');
+  }
 }
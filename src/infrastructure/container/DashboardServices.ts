@@ -0,0 +1,292 @@
+import { EnvironmentConfig } from '@/infrastructure/config';
+import { ConfigurationError } from '@/infrastructure/lib/errors';
+import {
+  OctokitClient,
+  ConditionalResponse,
+  GitHubAppAuth,
+  GitHubRepositoryProvider,
+  GitHubBuildProvider,
+  GitHubActivityProvider,
+  GitHubContributorProvider,
+  GitHubCommitProvider,
+} from '@/infrastructure/adapters/github';
+import { GitLabClient, GitLabRepositoryProvider } from '@/infrastructure/adapters/gitlab';
+import { LocalGitRepositoryProvider } from '@/infrastructure/adapters/git';
+import { InMemoryCacheProvider } from '@/infrastructure/adapters/cache';
+import { SqliteSnapshotStore } from '@/infrastructure/adapters/snapshot';
+import { FetchRepositories } from '@/usecase/FetchRepositories';
+import { FetchOrganizationData } from '@/usecase/FetchOrganizationData';
+import { FetchDashboardData } from '@/usecase/FetchDashboardData';
+import { RecordSnapshots } from '@/usecase/RecordSnapshots';
+import { SyncRepository } from '@/usecase/SyncRepository';
+import { FetchRepositoryDetail, RepositoryDetail } from '@/usecase/FetchRepositoryDetail';
+import { RepositoryEnrichmentOptions } from '@/usecase/FetchRepositoryData';
+import { RepositoryList, RepositoryProvider } from '@/domain/ports/RepositoryProvider';
+import { Logger } from '@/domain/ports/Logger';
+import { CacheEntry } from '@/domain/ports/CacheProvider';
+import { RepositorySource } from '@/domain/models/RepositorySource';
+import { VersionScheme } from '@/domain/models/VersionScheme';
+import { VersionSchemeResolver } from '@/domain/services/VersionSchemeResolver';
+
+/**
+ * Most GitHub responses kept for conditional requests, about 18 per repository for a few hundred repositories
+ */
+const RESPONSE_CACHE_MAX_ENTRIES = 5000;
+
+/**
+ * Settings parsed from the environment once, when the server starts
+ */
+interface ParsedConfiguration {
+  sources: RepositorySource[]; // empty means the single owner of the host
+  defaultVersionScheme: VersionScheme | null; // null means auto-detect
+  versionSchemes: Record<string, VersionScheme | null>;
+}
+
+/**
+ * Options of the dashboard wiring
+ */
+export interface DashboardServicesOptions {
+  /**
+   * Delay between starting the enrichment of consecutive repositories, in milliseconds (default: 0)
+   */
+  staggerMs?: number;
+}
+
+/**
+ * Use cases of the dashboard, wired to the adapters selected by the environment
+ * Shared by the API routes and the background refresh, so both fill the same cache and store
+ */
+export class DashboardServices {
+  private static configuration: ParsedConfiguration | null = null;
+
+  private constructor(
+    public readonly sources: RepositorySource[],
+    public readonly fetchDashboardData: FetchDashboardData,
+    public readonly recordSnapshots: RecordSnapshots,
+    public readonly syncRepository: SyncRepository,
+    public readonly fetchRepositoryDetail: FetchRepositoryDetail,
+    public readonly octokitClient: OctokitClient | null // null for GitLab and local repositories
+  ) {}
+
+  /**
+   * Wires the dashboard from the environment
+   * @param logger - Logger passed to every use case
+   * @param options - Wiring options
+   * @throws ConfigurationError if the repository host or its sources are not configured
+   */
+  static async create(logger: Logger, options: DashboardServicesOptions = {}): Promise<DashboardServices> {
+    const host = EnvironmentConfig.REPOSITORY_HOST;
+
+    // Validate repository host configuration
+    if (host === 'local' && !EnvironmentConfig.LOCAL_GIT_ROOT) {
+      throw new ConfigurationError('Local repository directory not configured');
+    }
+
+    const organization =
+      host === 'gitlab' ? EnvironmentConfig.GITLAB_GROUP
+      : host === 'local' ? EnvironmentConfig.LOCAL_GIT_OWNER
+      : EnvironmentConfig.GITHUB_ORG;
+    const { sources: configuredSources, defaultVersionScheme, versionSchemes } = this.getConfiguration();
+    // A GitHub App without configured sources covers every account it is installed on
+    const useGitHubApp = host === 'github' && EnvironmentConfig.GITHUB_AUTH === 'app';
+    if (!organization && configuredSources.length === 0 && !useGitHubApp) {
+      throw new ConfigurationError(
+        host === 'gitlab' ? 'GitLab group not configured'
+        : host === 'local' ? 'Local repository owner not configured'
+        : 'GitHub organization not configured'
+      );
+    }
+
+    const githubToken = EnvironmentConfig.GITHUB_TOKEN;
+    if (host === 'github' && !useGitHubApp && !githubToken) {
+      throw new ConfigurationError('GitHub token not configured');
+    }
+    if (useGitHubApp && (!EnvironmentConfig.GITHUB_APP_ID || !EnvironmentConfig.GITHUB_APP_PRIVATE_KEY)) {
+      throw new ConfigurationError('GitHub App not configured');
+    }
+    const githubAppAuth = useGitHubApp ? this.getGitHubAppAuth() : null;
+
+    const sources =
+      configuredSources.length > 0 ? configuredSources
+      : organization ? [RepositorySource.organization(organization)]
+      : (await githubAppAuth!.listInstallations()).map(installation =>
+          new RepositorySource(installation.accountType === 'User' ? 'user' : 'org', installation.account)
+        );
+    if (sources.length === 0) {
+      throw new ConfigurationError('GitHub App is not installed on any organization');
+    }
+
+    // Create infrastructure adapters
+    const cacheProvider = InMemoryCacheProvider.getInstance<RepositoryList>(
+      'repositories',
+      EnvironmentConfig.CACHE_TTL
+    );
+
+    const releaseOptions: RepositoryEnrichmentOptions = {
+      defaultVersionScheme,
+      versionSchemes,
+      hotfixWindowDays: EnvironmentConfig.DORA_HOTFIX_WINDOW_DAYS,
+      staggerMs: options.staggerMs,
+    };
+
+    // GitLab and local repositories carry release data only; builds, activity and contributors come from GitHub.
+    // The detail page shows a repository's full release history, so its provider has no tag or repository limits
+    let repositoryProvider: RepositoryProvider;
+    let detailRepositoryProvider: RepositoryProvider;
+    let enrichmentOptions: RepositoryEnrichmentOptions;
+    let octokitClient: OctokitClient | null = null;
+    if (host === 'local') {
+      repositoryProvider = new LocalGitRepositoryProvider(EnvironmentConfig.LOCAL_GIT_ROOT, {
+        webUrl: EnvironmentConfig.LOCAL_GIT_WEB_URL,
+        maxRepositories: EnvironmentConfig.MAX_REPOSITORIES,
+        tagHistoryMonths: EnvironmentConfig.TAG_HISTORY_MONTHS,
+      });
+      detailRepositoryProvider = new LocalGitRepositoryProvider(EnvironmentConfig.LOCAL_GIT_ROOT, {
+        webUrl: EnvironmentConfig.LOCAL_GIT_WEB_URL,
+      });
+      enrichmentOptions = releaseOptions;
+    } else if (host === 'gitlab') {
+      const gitlabClient = new GitLabClient(EnvironmentConfig.GITLAB_URL, EnvironmentConfig.GITLAB_TOKEN);
+      repositoryProvider = new GitLabRepositoryProvider(
+        gitlabClient,
+        organization,
+        {
+          maxRepositories: EnvironmentConfig.MAX_REPOSITORIES,
+          tagHistoryMonths: EnvironmentConfig.TAG_HISTORY_MONTHS,
+        }
+      );
+      detailRepositoryProvider = new GitLabRepositoryProvider(gitlabClient, organization);
+      enrichmentOptions = releaseOptions;
+    } else {
+      octokitClient = new OctokitClient(githubAppAuth || githubToken, {
+        responseCache: InMemoryCacheProvider.getInstance<ConditionalResponse>(
+          'github-responses',
+          EnvironmentConfig.CACHE_TTL,
+          { maxEntries: RESPONSE_CACHE_MAX_ENTRIES }
+        ),
+        logger,
+      });
+      repositoryProvider = new GitHubRepositoryProvider(
+        octokitClient,
+        organization,
+        {
+          maxRepositories: EnvironmentConfig.MAX_REPOSITORIES,
+          tagHistoryMonths: EnvironmentConfig.TAG_HISTORY_MONTHS,
+          // Releases, workflow lookup, workflow runs, commit activity, code frequency, pulls,
+          // contributors, recent commits and up to 10 release comparisons for DORA lead time
+          // (tags are fetched through GraphQL)
+          requestsPerRepository: 18,
+        }
+      );
+      detailRepositoryProvider = new GitHubRepositoryProvider(octokitClient, organization);
+      enrichmentOptions = {
+        ...releaseOptions,
+        buildProvider: new GitHubBuildProvider(octokitClient),
+        workflowName: EnvironmentConfig.WORKFLOW_NAME,
+        activityProvider: new GitHubActivityProvider(octokitClient),
+        contributorProvider: new GitHubContributorProvider(octokitClient),
+        botPatterns: EnvironmentConfig.BOT_PATTERNS,
+        commitProvider: new GitHubCommitProvider(octokitClient),
+      };
+    }
+
+    // Create use cases
+    const fetchRepositories = new FetchRepositories(
+      repositoryProvider,
+      logger,
+      enrichmentOptions
+    );
+    const fetchOrganizationData = new FetchOrganizationData(
+      fetchRepositories,
+      cacheProvider,
+      logger,
+      this.getRunningRefreshes()
+    );
+
+    return new DashboardServices(
+      sources,
+      new FetchDashboardData(fetchOrganizationData, logger),
+      new RecordSnapshots(SqliteSnapshotStore.getInstance(EnvironmentConfig.SNAPSHOT_DATABASE_PATH), logger),
+      new SyncRepository(repositoryProvider, cacheProvider, logger, enrichmentOptions),
+      new FetchRepositoryDetail(
+        detailRepositoryProvider,
+        InMemoryCacheProvider.getInstance<RepositoryDetail>('repository-details', EnvironmentConfig.CACHE_TTL),
+        logger,
+        enrichmentOptions
+      ),
+      octokitClient
+    );
+  }
+
+  /**
+   * Validates the settings that are parsed rather than read as is, so a mistake stops the
+   * server at startup instead of failing every request
+   * @throws ConfigurationError if a setting cannot be parsed
+   */
+  static validateConfiguration(): void {
+    this.getConfiguration();
+  }
+
+  /**
+   * Gets the settings parsed from the environment, parsed on first use
+   * @throws ConfigurationError if a setting cannot be parsed
+   */
+  private static getConfiguration(): ParsedConfiguration {
+    if (!this.configuration) {
+      const errors: string[] = [];
+      // Collects every error, so all mistakes are reported at once
+      const parse = <T>(name: string, parser: () => T): T | null => {
+        try {
+          return parser();
+        } catch (error) {
+          errors.push(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+          return null;
+        }
+      };
+
+      const sources = EnvironmentConfig.REPOSITORY_SOURCES
+        .map(spec => parse('REPOSITORY_SOURCES', () => RepositorySource.parse(spec)))
+        .filter((source): source is RepositorySource => source !== null);
+      const defaultVersionScheme = parse('VERSION_SCHEME', () =>
+        VersionSchemeResolver.fromSpec(EnvironmentConfig.VERSION_SCHEME)
+      );
+      const versionSchemes = Object.fromEntries(
+        Object.entries(EnvironmentConfig.REPOSITORY_VERSION_SCHEMES).map(([repo, spec]) => [
+          repo,
+          parse(`REPOSITORY_VERSION_SCHEMES (${repo})`, () => VersionSchemeResolver.fromSpec(spec)),
+        ])
+      );
+
+      if (errors.length > 0) {
+        throw new ConfigurationError(`Invalid configuration: ${errors.join('; ')}`);
+      }
+      this.configuration = { sources, defaultVersionScheme, versionSchemes };
+    }
+    return this.configuration;
+  }
+
+  /**
+   * Gets the repository refreshes that are running, by cache key
+   * Kept on globalThis so a page load and the background refresh wait for each other's refresh
+   */
+  private static getRunningRefreshes(): Map<string, Promise<CacheEntry<RepositoryList>>> {
+    const store = globalThis as { runningRepositoryRefreshes?: Map<string, Promise<CacheEntry<RepositoryList>>> };
+    store.runningRepositoryRefreshes ??= new Map();
+    return store.runningRepositoryRefreshes;
+  }
+
+  /**
+   * Gets the GitHub App authentication, created on first use
+   * Kept on globalThis so installation tokens and discovered installations outlive a request
+   * and are shared with the background refresh, which Next.js bundles apart from the route handlers
+   */
+  private static getGitHubAppAuth(): GitHubAppAuth {
+    const store = globalThis as { githubAppAuth?: GitHubAppAuth };
+    store.githubAppAuth ??= new GitHubAppAuth(
+      EnvironmentConfig.GITHUB_APP_ID,
+      EnvironmentConfig.GITHUB_APP_PRIVATE_KEY,
+      { installationId: EnvironmentConfig.GITHUB_APP_INSTALLATION_ID }
+    );
+    return store.githubAppAuth;
+  }
+}
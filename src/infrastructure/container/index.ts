@@ -0,0 +1,2 @@
+export { DashboardServices } from './DashboardServices';
+export type { DashboardServicesOptions } from './DashboardServices';
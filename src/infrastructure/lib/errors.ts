@@ -0,0 +1,12 @@
+// Providers raise rate limit errors through the domain so use cases can tell them apart
+export { RateLimitError, RateLimitBudgetError } from '@/domain/ports/RateLimitError';
+
+/**
+ * Raised when the environment lacks the settings needed to reach the repository host
+ */
+export class ConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigurationError';
+  }
+}
@@ -1 +1,2 @@
 export { ConsoleLogger } from './logger';
+export { RateLimitError, RateLimitBudgetError, ConfigurationError } from './errors';
@@ -0,0 +1,144 @@
+import { Logger } from '@/domain/ports/Logger';
+
+/**
+ * Status of the background refresh, as published by the admin endpoint
+ */
+export interface RefreshStatus {
+  enabled: boolean;
+  intervalMs: number | null;
+  running: boolean;
+  lastStartedAt: Date | null;
+  lastSuccessAt: Date | null;
+  lastErrorAt: Date | null;
+  lastError: string | null;
+  lastDurationMs: number | null;
+  runs: number;
+  skippedRuns: number;
+  nextRunAt: Date | null;
+}
+
+/**
+ * Runs a refresh job at startup and then on a fixed interval
+ * A run that is due while the previous one is still going is skipped, not queued
+ */
+export class RefreshScheduler {
+  private job: (() => Promise<unknown>) | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private intervalMs: number | null = null;
+  private current: Promise<void> | null = null;
+  private lastStartedAt: Date | null = null;
+  private lastSuccessAt: Date | null = null;
+  private lastErrorAt: Date | null = null;
+  private lastError: string | null = null;
+  private lastDurationMs: number | null = null;
+  private runs = 0;
+  private skippedRuns = 0;
+
+  constructor(private logger: Logger) {}
+
+  /**
+   * Gets the scheduler shared by the whole server process
+   * Kept on globalThis because Next.js bundles the instrumentation hook apart from the route handlers
+   * @param logger - Logger used when the instance is first created
+   */
+  static getInstance(logger: Logger): RefreshScheduler {
+    const store = globalThis as { refreshScheduler?: RefreshScheduler };
+    store.refreshScheduler ??= new RefreshScheduler(logger);
+    return store.refreshScheduler;
+  }
+
+  /**
+   * Starts running the job now and then every interval
+   * @param job - Refresh to run; a rejection is recorded as the last error
+   * @param intervalMs - Interval between runs, in milliseconds
+   * @returns Promise resolving when the first run has finished
+   */
+  start(job: () => Promise<unknown>, intervalMs: number): Promise<void> {
+    if (intervalMs <= 0) {
+      throw new Error('Refresh interval must be positive');
+    }
+    this.stop();
+
+    this.job = job;
+    this.intervalMs = intervalMs;
+    this.timer = setInterval(() => {
+      void this.run();
+    }, intervalMs);
+    // Don't keep the process alive just for the refresh
+    this.timer.unref?.();
+
+    this.logger.info('Background refresh scheduled', { intervalMs });
+    return this.run();
+  }
+
+  /**
+   * Stops scheduling runs; a run in progress is allowed to finish
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+    this.timer = null;
+    this.intervalMs = null;
+  }
+
+  /**
+   * Runs the job now, unless the previous run is still going
+   * @returns Promise resolving when the run (or the run in progress) has finished
+   */
+  run(): Promise<void> {
+    if (!this.job) {
+      throw new Error('Refresh scheduler has not been started');
+    }
+    if (this.current) {
+      this.skippedRuns++;
+      this.logger.warn('Skipping background refresh, previous run still in progress', {
+        startedAt: this.lastStartedAt?.toISOString(),
+      });
+      return this.current;
+    }
+
+    const job = this.job;
+    const startedAt = new Date();
+    this.lastStartedAt = startedAt;
+    this.runs++;
+    this.current = (async () => {
+      try {
+        await job();
+        this.lastSuccessAt = new Date();
+        this.lastDurationMs = this.lastSuccessAt.getTime() - startedAt.getTime();
+        this.logger.info('Background refresh completed', { durationMs: this.lastDurationMs });
+      } catch (error: any) {
+        this.lastErrorAt = new Date();
+        this.lastError = error?.message || 'Unknown error';
+        this.lastDurationMs = this.lastErrorAt.getTime() - startedAt.getTime();
+        this.logger.error('Background refresh failed', error, { durationMs: this.lastDurationMs });
+      } finally {
+        this.current = null;
+      }
+    })();
+    return this.current;
+  }
+
+  /**
+   * Gets the current status of the refresh
+   */
+  getStatus(): RefreshStatus {
+    return {
+      enabled: this.timer !== null,
+      intervalMs: this.intervalMs,
+      running: this.current !== null,
+      lastStartedAt: this.lastStartedAt,
+      lastSuccessAt: this.lastSuccessAt,
+      lastErrorAt: this.lastErrorAt,
+      lastError: this.lastError,
+      lastDurationMs: this.lastDurationMs,
+      runs: this.runs,
+      skippedRuns: this.skippedRuns,
+      nextRunAt:
+        this.intervalMs !== null && this.lastStartedAt
+          ? new Date(this.lastStartedAt.getTime() + this.intervalMs)
+          : null,
+    };
+  }
+}
@@ -0,0 +1,2 @@
+export { RefreshScheduler } from './RefreshScheduler';
+export type { RefreshStatus } from './RefreshScheduler';
@@ -0,0 +1,121 @@
+import { Logger } from '@/domain/ports/Logger';
+import { Repository } from '@/domain/models/Repository';
+import { RepositorySource } from '@/domain/models/RepositorySource';
+import { OrganizationStats } from '@/domain/models/Organization';
+import { DoraMetrics } from '@/domain/models/Dora';
+import { OrganizationStatistics } from '@/domain/services/OrganizationStatistics';
+import { DoraCalculator } from '@/domain/services/DoraCalculator';
+import { FetchOrganizationData } from './FetchOrganizationData';
+
+/**
+ * Result of fetching one source of the dashboard
+ */
+export interface SourceSummary {
+  source: RepositorySource;
+  stats: OrganizationStats;
+  truncated: boolean;
+  cachedAt: Date | null;
+  isStale: boolean;
+  isRefreshed: boolean; // Fetched from the provider rather than the cache
+  error: string | null; // Set when the source could not be fetched at all
+}
+
+/**
+ * Repositories of every source combined, with overall and per-source statistics
+ */
+export interface DashboardData {
+  repositories: Repository[];
+  truncated: boolean;
+  stats: OrganizationStats;
+  dora: DoraMetrics | null;
+  sources: SourceSummary[];
+  cachedAt: Date; // Oldest cache time across sources
+  isStale: boolean;
+  refreshedRepositories: Repository[]; // Repositories of the sources fetched from their provider rather than the cache
+}
+
+/**
+ * Use case: Fetch the repositories of several sources into one dashboard
+ * Sources are fetched (and cached) one after another; a failing source is reported
+ * without failing the others
+ */
+export class FetchDashboardData {
+  constructor(
+    private fetchOrganizationData: FetchOrganizationData,
+    private logger: Logger
+  ) {}
+
+  /**
+   * Executes the use case
+   * A repository listed by several sources is kept once, under the first source
+   * @param sources - Repository sources in display order
+   * @param forceRefresh - Bypass the cache and fetch fresh data (default: false)
+   * @returns Combined repositories with overall and per-source statistics
+   * @throws The first error if no source could be fetched
+   */
+  async execute(sources: RepositorySource[], forceRefresh: boolean = false): Promise<DashboardData> {
+    if (sources.length === 0) {
+      throw new Error('At least one repository source is required');
+    }
+
+    const repositories = new Map<string, Repository>();
+    const refreshedRepositories = new Map<string, Repository>();
+    const summaries: SourceSummary[] = [];
+    let firstError: unknown = null;
+
+    for (const source of sources) {
+      try {
+        const data = await this.fetchOrganizationData.execute(source, forceRefresh);
+        data.repositories.forEach(repo => {
+          if (!repositories.has(repo.getFullName())) {
+            repositories.set(repo.getFullName(), repo);
+          }
+        });
+        if (data.isRefreshed) {
+          data.repositories.forEach(repo => refreshedRepositories.set(repo.getFullName(), repo));
+        }
+        summaries.push({
+          source,
+          stats: data.stats,
+          truncated: data.truncated,
+          cachedAt: data.cachedAt,
+          isStale: data.isStale,
+          isRefreshed: data.isRefreshed,
+          error: null,
+        });
+      } catch (error: any) {
+        this.logger.warn('Failed to fetch repository source, continuing with the others', {
+          source: source.toString(),
+          error,
+        });
+        firstError = firstError ?? error;
+        summaries.push({
+          source,
+          stats: OrganizationStatistics.calculateStats([]),
+          truncated: false,
+          cachedAt: null,
+          isStale: false,
+          isRefreshed: false,
+          error: error.message || 'Unknown error',
+        });
+      }
+    }
+
+    const fetched = summaries.filter(summary => summary.cachedAt !== null);
+    if (fetched.length === 0) {
+      throw firstError;
+    }
+
+    const combined = Array.from(repositories.values());
+    return {
+      repositories: combined,
+      truncated: fetched.some(summary => summary.truncated),
+      stats: OrganizationStatistics.calculateStats(combined),
+      dora: DoraCalculator.aggregate(combined.map(repo => repo.doraMetrics)),
+      sources: summaries,
+      cachedAt: new Date(Math.min(...fetched.map(summary => summary.cachedAt!.getTime()))),
+      isStale: fetched.some(summary => summary.isStale),
+      refreshedRepositories: Array.from(refreshedRepositories.values()),
+    };
+  }
+}
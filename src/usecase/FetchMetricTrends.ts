@@ -0,0 +1,50 @@
+import { SnapshotStore } from '@/domain/ports/SnapshotStore';
+import { OrganizationSnapshot, RepositorySnapshot } from '@/domain/models/Snapshot';
+import { SnapshotCalculator } from '@/domain/services/SnapshotCalculator';
+
+/**
+ * Recorded metrics over a period, per organization and optionally for one repository
+ */
+export interface MetricTrends {
+  since: string; // First day of the period (YYYY-MM-DD)
+  organization: OrganizationSnapshot[];
+  repository: RepositorySnapshot[] | null; // Set when a repository was requested
+}
+
+/**
+ * Use case: Fetch the time series of recorded metrics
+ */
+export class FetchMetricTrends {
+  /**
+   * Longest period that can be requested, in days
+   */
+  static readonly MAX_DAYS = 5 * 365;
+
+  constructor(private snapshotStore: SnapshotStore) {}
+
+  /**
+   * Executes the use case
+   * @param owner - Organization or user to include (null: every recorded owner)
+   * @param repo - Repository of the owner to return a series for (null: none)
+   * @param days - Length of the period in days, capped at MAX_DAYS
+   * @param now - Reference date (default: current date)
+   * @returns Daily organization totals and the repository series
+   */
+  async execute(owner: string | null, repo: string | null, days: number, now: Date = new Date()): Promise<MetricTrends> {
+    if (repo && !owner) {
+      throw new Error('Repository trends require an owner');
+    }
+    if (!Number.isFinite(days) || days <= 0) {
+      throw new Error('Trend period must be a positive number of days');
+    }
+
+    const since = SnapshotCalculator.getPeriodStart(Math.min(days, FetchMetricTrends.MAX_DAYS), now);
+    const snapshots = await this.snapshotStore.find({ owner, since });
+
+    return {
+      since,
+      organization: SnapshotCalculator.aggregateByDate(snapshots),
+      repository: repo ? snapshots.filter(snapshot => snapshot.name === repo) : null,
+    };
+  }
+}
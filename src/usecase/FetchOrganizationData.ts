@@ -0,0 +1,123 @@
+import { CacheEntry, CacheProvider } from '@/domain/ports/CacheProvider';
+import { Logger } from '@/domain/ports/Logger';
+import { RepositoryList } from '@/domain/ports/RepositoryProvider';
+import { Repository } from '@/domain/models/Repository';
+import { OrganizationStats } from '@/domain/models/Organization';
+import { DoraMetrics } from '@/domain/models/Dora';
+import { RepositorySource } from '@/domain/models/RepositorySource';
+import { OrganizationStatistics } from '@/domain/services/OrganizationStatistics';
+import { DoraCalculator } from '@/domain/services/DoraCalculator';
+import { FetchRepositories } from './FetchRepositories';
+
+/**
+ * Result of fetching organization data
+ */
+export interface OrganizationData {
+  repositories: Repository[];
+  truncated: boolean;
+  stats: OrganizationStats;
+  dora: DoraMetrics | null;
+  cachedAt: Date;
+  isStale: boolean;
+  isRefreshed: boolean; // Fetched from the provider by this call rather than served from the cache
+}
+
+/**
+ * Use case: Fetch organization repositories through the cache
+ * Serves cached data while it is fresh and refreshes it from the provider otherwise;
+ * requests arriving while a source is being refreshed wait for that refresh instead of starting another
+ */
+export class FetchOrganizationData {
+  /**
+   * @param refreshes - Running refreshes by cache key; pass the same map to every instance that shares the cache
+   */
+  constructor(
+    private fetchRepositories: FetchRepositories,
+    private cacheProvider: CacheProvider<RepositoryList>,
+    private logger: Logger,
+    private refreshes: Map<string, Promise<CacheEntry<RepositoryList>>> = new Map()
+  ) {}
+
+  /**
+   * Executes the use case
+   * Falls back to expired cached data (marked as stale) if the refresh fails
+   * @param source - Repository source, or an organization name (its written form is the cache key)
+   * @param forceRefresh - Bypass the cache and fetch fresh data (default: false)
+   * @returns Repositories with organization statistics and cache metadata
+   */
+  async execute(source: RepositorySource | string, forceRefresh: boolean = false): Promise<OrganizationData> {
+    const orgName = source.toString();
+    const cached = await this.cacheProvider.get(orgName);
+
+    if (cached && !forceRefresh && cached.expiresAt.getTime() > Date.now()) {
+      this.logger.debug('Serving repositories from cache', {
+        organization: orgName,
+        cachedAt: cached.cachedAt.toISOString(),
+      });
+      return this.toOrganizationData(cached.value, cached.cachedAt, false, false);
+    }
+
+    try {
+      // Unchanged repositories keep the data of the previous sync, even if it expired;
+      // a forced refresh refetches every repository
+      const previous = forceRefresh ? undefined : cached?.value.repositories;
+      const entry = await this.refresh(source, previous);
+
+      return this.toOrganizationData(entry.value, entry.cachedAt, false, true);
+    } catch (error) {
+      if (!cached) {
+        throw error;
+      }
+
+      this.logger.warn('Failed to refresh repositories, serving stale cache', {
+        organization: orgName,
+        cachedAt: cached.cachedAt.toISOString(),
+        error,
+      });
+      return this.toOrganizationData(cached.value, cached.cachedAt, true, false);
+    }
+  }
+
+  /**
+   * Fetches the repositories of a source and caches them, joining a refresh of the source that is already running
+   * @returns The stored cache entry
+   */
+  private refresh(
+    source: RepositorySource | string,
+    previous: Repository[] | undefined
+  ): Promise<CacheEntry<RepositoryList>> {
+    const orgName = source.toString();
+    const running = this.refreshes.get(orgName);
+    if (running) {
+      this.logger.debug('Waiting for the running refresh of repositories', { organization: orgName });
+      return running;
+    }
+
+    const refresh = this.fetchRepositories
+      .execute(source, true, previous)
+      .then(repositoryList => this.cacheProvider.set(orgName, repositoryList))
+      .finally(() => this.refreshes.delete(orgName));
+    this.refreshes.set(orgName, refresh);
+    return refresh;
+  }
+
+  /**
+   * Builds the result, computing organization statistics at serve time
+   * so the current month is evaluated against the current date for cached data
+   */
+  private toOrganizationData(
+    repositoryList: RepositoryList,
+    cachedAt: Date,
+    isStale: boolean,
+    isRefreshed: boolean
+  ): OrganizationData {
+    return {
+      ...repositoryList,
+      stats: OrganizationStatistics.calculateStats(repositoryList.repositories),
+      dora: DoraCalculator.aggregate(repositoryList.repositories.map(repo => repo.doraMetrics)),
+      cachedAt,
+      isStale,
+      isRefreshed,
+    };
+  }
+}
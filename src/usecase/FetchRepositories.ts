@@ -1,53 +1,89 @@
-import { RepositoryProvider } from '@/domain/ports/RepositoryProvider';
+import { RepositoryProvider, RepositoryList } from '@/domain/ports/RepositoryProvider';
 import { Logger } from '@/domain/ports/Logger';
 import { Repository } from '@/domain/models/Repository';
-import { FetchRepositoryData } from './FetchRepositoryData';
+import { RepositorySource } from '@/domain/models/RepositorySource';
+import { FetchRepositoryData, RepositoryEnrichmentOptions } from './FetchRepositoryData';
 
 /**
- * Use case: Fetch repositories for an organization
+ * Time after a push within which the workflow runs it started may still be running
+ */
+const BUILD_SETTLE_MS = 60 * 60 * 1000;
+
+/**
+ * Use case: Fetch repositories for an organization, a user account or a single repository
  * Orchestrates repository data fetching using the provider
  */
 export class FetchRepositories {
   constructor(
     private repositoryProvider: RepositoryProvider,
-    private logger: Logger
+    private logger: Logger,
+    private enrichmentOptions: RepositoryEnrichmentOptions = {}
   ) {}
 
   /**
-   * Executes the use case to fetch repositories with release data
-   * @param orgName - GitHub organization name
-   * @param includeReleaseData - Whether to fetch release data for each repo (default: true)
-   * @returns Array of repositories with release statistics
+   * Executes the use case to fetch repositories with release, build and activity data
+   * @param source - Repository source, or an organization name
+   * @param includeReleaseData - Whether to fetch release/build/activity data for each repo (default: true)
+   * @param previous - Repositories enriched by an earlier sync; unchanged ones keep their data instead of being refetched
+   * @returns Enriched repositories, and whether the list is incomplete
    */
-  async execute(orgName: string, includeReleaseData: boolean = true): Promise<Repository[]> {
+  async execute(
+    source: RepositorySource | string,
+    includeReleaseData: boolean = true,
+    previous: Repository[] = []
+  ): Promise<RepositoryList> {
+    const orgName = source.toString();
     this.logger.info('Fetching repositories', { organization: orgName, includeReleaseData });
 
     try {
-      const repositories = await this.repositoryProvider.listRepositories(orgName);
+      const { repositories, truncated } = await this.listRepositories(source);
       
       this.logger.info('Successfully fetched repositories', {
         organization: orgName,
         count: repositories.length,
+        truncated,
       });
 
       // If release data is not needed, return repositories as-is
       if (!includeReleaseData) {
-        return repositories;
+        return { repositories, truncated };
       }
 
-      // Enrich each repository with release data
-      const fetchRepositoryData = new FetchRepositoryData(this.repositoryProvider, this.logger);
+      // Enrich each repository with release, build and activity data
+      const fetchRepositoryData = new FetchRepositoryData(
+        this.repositoryProvider,
+        this.logger,
+        this.enrichmentOptions
+      );
       
+      const staggerMs = this.enrichmentOptions.staggerMs ?? 0;
+      const previousByName = new Map(previous.map(repo => [repo.getFullName(), repo]));
+      const syncedAfter = Date.now() - (this.enrichmentOptions.maxSyncAgeHours ?? 24) * 60 * 60 * 1000;
+      let refetched = 0;
       const enrichedRepositories = await Promise.all(
-        repositories.map(repo => fetchRepositoryData.execute(repo))
+        repositories.map(repo => {
+          const synced = previousByName.get(repo.getFullName());
+          if (synced && this.isSyncCurrent(repo, synced, syncedAfter)) {
+            return this.withSyncedData(repo, synced);
+          }
+
+          // Statistics that fail to refetch keep the values of the previous sync
+          const base = synced ? this.withSyncedData(repo, synced) : repo;
+          const delayMs = refetched++ * staggerMs;
+          return delayMs > 0
+            ? this.delay(delayMs).then(() => fetchRepositoryData.execute(base))
+            : fetchRepositoryData.execute(base);
+        })
       );
 
       this.logger.info('Successfully enriched repositories with release data', {
         organization: orgName,
         count: enrichedRepositories.length,
+        refetched,
+        skipped: enrichedRepositories.length - refetched,
       });
 
-      return enrichedRepositories;
+      return { repositories: enrichedRepositories, truncated };
     } catch (error) {
       this.logger.error(
         'Failed to fetch repositories',
@@ -56,4 +92,70 @@ export class FetchRepositories {
       throw error;
     }
   }
+
+  /**
+   * Lists the repositories of a source through the provider
+   */
+  private async listRepositories(source: RepositorySource | string): Promise<RepositoryList> {
+    if (typeof source === 'string') {
+      return this.repositoryProvider.listRepositories(source);
+    }
+
+    switch (source.kind) {
+      case 'org':
+        return this.repositoryProvider.listRepositories(source.owner);
+      case 'user':
+        return this.repositoryProvider.listUserRepositories(source.owner);
+      case 'repo':
+        return {
+          repositories: [await this.repositoryProvider.getRepository(source.owner, source.repo!)],
+          truncated: false,
+        };
+    }
+  }
+
+  /**
+   * Checks if a repository can keep the data of an earlier sync instead of being enriched again
+   * With build statistics, the sync must also have come late enough after the last push
+   * for the workflow runs of that push to have finished
+   * @param syncedAfter - Oldest sync time still kept, in milliseconds
+   */
+  private isSyncCurrent(repo: Repository, synced: Repository, syncedAfter: number): boolean {
+    if (!synced.syncedAt || synced.syncedAt.getTime() <= syncedAfter || !repo.isUnchangedSince(synced)) {
+      return false;
+    }
+
+    const { buildProvider, workflowName } = this.enrichmentOptions;
+    if (!buildProvider || !workflowName) {
+      return true;
+    }
+    return synced.syncedAt.getTime() - repo.pushedAt!.getTime() >= BUILD_SETTLE_MS;
+  }
+
+  /**
+   * Carries the data of an earlier sync over to the repository as listed now
+   */
+  private withSyncedData(repo: Repository, synced: Repository): Repository {
+    return new Repository(
+      repo.name,
+      repo.owner,
+      repo.url,
+      repo.description,
+      repo.language,
+      repo.starCount,
+      repo.updatedAt,
+      synced.releaseStats,
+      synced.buildStats,
+      synced.activityStats,
+      synced.contributorStats,
+      repo.defaultBranch,
+      synced.doraMetrics,
+      repo.pushedAt,
+      synced.syncedAt
+    );
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
 }
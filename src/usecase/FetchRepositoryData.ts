@@ -1,61 +1,382 @@
 import { RepositoryProvider } from '@/domain/ports/RepositoryProvider';
+import { BuildProvider } from '@/domain/ports/BuildProvider';
+import { ActivityProvider } from '@/domain/ports/ActivityProvider';
+import { ContributorProvider } from '@/domain/ports/ContributorProvider';
+import { CommitProvider } from '@/domain/ports/CommitProvider';
 import { Logger } from '@/domain/ports/Logger';
+import { RateLimitError } from '@/domain/ports/RateLimitError';
 import { Repository } from '@/domain/models/Repository';
+import { Release, ReleaseStats } from '@/domain/models/Release';
+import { WorkflowRun } from '@/domain/models/Build';
+import { ActivityStats } from '@/domain/models/Activity';
+import { ContributorStats } from '@/domain/models/Contributor';
+import { DoraMetrics } from '@/domain/models/Dora';
+import { VersionScheme } from '@/domain/models/VersionScheme';
 import { ReleaseCalculator } from '@/domain/services/ReleaseCalculator';
+import { BuildStatistics } from '@/domain/services/BuildStatistics';
+import { ActivityAggregator } from '@/domain/services/ActivityAggregator';
+import { ContributorStatistics } from '@/domain/services/ContributorStatistics';
+import { VersionSchemeResolver } from '@/domain/services/VersionSchemeResolver';
+import { DoraCalculator } from '@/domain/services/DoraCalculator';
 
 /**
- * Use case: Fetch repository data enriched with release information
- * Orchestrates fetching repository and its tags/releases
+ * Optional providers used to enrich repositories beyond release data
+ */
+export interface RepositoryEnrichmentOptions {
+  /**
+   * Provider of CI workflow runs, used together with workflowName
+   */
+  buildProvider?: BuildProvider | null;
+
+  /**
+   * Name of the workflow used for build statistics
+   */
+  workflowName?: string | null;
+
+  /**
+   * Provider of commit, pull request and code churn activity
+   */
+  activityProvider?: ActivityProvider | null;
+
+  /**
+   * Provider of all-time and recently active contributors
+   */
+  contributorProvider?: ContributorProvider | null;
+
+  /**
+   * Login patterns excluded from contributor statistics (default: common bots)
+   */
+  botPatterns?: string[];
+
+  /**
+   * Version scheme for repositories without their own (default: auto-detected per repository)
+   */
+  defaultVersionScheme?: VersionScheme | null;
+
+  /**
+   * Version schemes by repository name or "owner/name"; null asks for auto-detection
+   */
+  versionSchemes?: Record<string, VersionScheme | null>;
+
+  /**
+   * Provider of the commits between release tags, used for DORA lead time
+   */
+  commitProvider?: CommitProvider | null;
+
+  /**
+   * Days after a release within which a patch release marks it as failed (default: 7)
+   */
+  hotfixWindowDays?: number;
+
+  /**
+   * Delay between starting the enrichment of consecutive repositories, in milliseconds (default: 0)
+   * Spreads API usage when a background refresh is not in a hurry
+   */
+  staggerMs?: number;
+
+  /**
+   * Hours after which a repository is enriched again even if nothing was pushed to it (default: 24)
+   * Keeps day-relative statistics such as days since the latest release current
+   */
+  maxSyncAgeHours?: number;
+}
+
+/**
+ * Enriched repository together with the releases its statistics were calculated from
+ */
+export interface EnrichedRepository {
+  repository: Repository;
+  releases: Release[] | null; // null if tags could not be fetched
+}
+
+/**
+ * Releases parsed from the tags of a repository
+ */
+interface ReleaseData {
+  releases: Release[];
+  stats: ReleaseStats;
+}
+
+/**
+ * Use case: Fetch repository data enriched with release, build, activity, contributor and DORA information
+ * Orchestrates fetching repository tags/releases, workflow runs, activity, contributors and release commits
  */
 export class FetchRepositoryData {
   constructor(
     private repositoryProvider: RepositoryProvider,
-    private logger: Logger
+    private logger: Logger,
+    private options: RepositoryEnrichmentOptions = {}
   ) {}
 
   /**
-   * Executes the use case to fetch repository with release data
+   * Executes the use case to fetch repository with release, build, activity, contributor and DORA data
    * @param repository - Base repository to enrich
-   * @returns Repository with release statistics
+   * @returns Repository with release, build, activity, contributor and DORA statistics
    */
   async execute(repository: Repository): Promise<Repository> {
+    return (await this.executeWithReleases(repository)).repository;
+  }
+
+  /**
+   * Executes the use case, also returning the parsed releases
+   * Statistics that cannot be fetched keep the values the repository already has, and the
+   * repository is only marked as synced when every configured statistic was fetched
+   * @param repository - Base repository to enrich
+   * @returns Enriched repository and its releases sorted by date (newest first)
+   */
+  async executeWithReleases(repository: Repository): Promise<EnrichedRepository> {
     this.logger.debug('Fetching release data for repository', {
       repo: repository.name,
       owner: repository.owner,
     });
 
+    const [releaseData, runs, activityStats, contributorStats] = await Promise.all([
+      this.fetchReleaseData(repository),
+      this.fetchWorkflowRuns(repository),
+      this.fetchActivityStats(repository),
+      this.fetchContributorStats(repository),
+    ]);
+    const leadTimes = releaseData ? await this.fetchLeadTimes(repository, releaseData.releases) : null;
+
+    const { buildProvider, workflowName, activityProvider, contributorProvider, commitProvider } = this.options;
+    const hasRuns = runs !== null || !buildProvider || !workflowName;
+    const hasLeadTimes = leadTimes !== null || !commitProvider;
+    const isComplete =
+      releaseData !== null &&
+      hasRuns &&
+      hasLeadTimes &&
+      (activityStats !== null || !activityProvider) &&
+      (contributorStats !== null || !contributorProvider);
+
+    // DORA metrics missing runs or lead times would replace complete ones from an earlier sync
+    const doraMetrics =
+      releaseData && ((hasRuns && hasLeadTimes) || !repository.doraMetrics)
+        ? this.calculateDoraMetrics(repository, releaseData.releases, leadTimes, runs)
+        : repository.doraMetrics;
+
+    // Return new repository with all available stats
+    const enriched = new Repository(
+      repository.name,
+      repository.owner,
+      repository.url,
+      repository.description,
+      repository.language,
+      repository.starCount,
+      repository.updatedAt,
+      releaseData?.stats ?? repository.releaseStats,
+      runs ? BuildStatistics.calculateStats(runs) : repository.buildStats,
+      activityStats ?? repository.activityStats,
+      contributorStats ?? repository.contributorStats,
+      repository.defaultBranch,
+      doraMetrics,
+      repository.pushedAt,
+      isComplete ? new Date() : null
+    );
+    return { repository: enriched, releases: releaseData?.releases ?? null };
+  }
+
+  /**
+   * Fetches tags, parses them into releases and calculates release statistics
+   * @returns Releases with their statistics, or null if tags could not be fetched
+   */
+  private async fetchReleaseData(repository: Repository): Promise<ReleaseData | null> {
     try {
       // Fetch tags from provider
-      const tags = await this.repositoryProvider.getRepositoryTags(
+      const { tags, truncated } = await this.repositoryProvider.getRepositoryTags(
         repository.owner,
         repository.name
       );
 
-      // Parse tags into releases
-      const releases = ReleaseCalculator.parseTags(tags);
+      // Parse tags into releases using the repository's version scheme
+      const scheme = VersionSchemeResolver.resolve(
+        this.getConfiguredVersionScheme(repository),
+        tags.map(tag => tag.name)
+      );
+      const releases = ReleaseCalculator.parseTags(tags, scheme);
 
       // Calculate release statistics
-      const releaseStats = ReleaseCalculator.calculateStats(releases);
+      return {
+        releases,
+        stats: ReleaseCalculator.calculateStats(releases, truncated, scheme.name),
+      };
+    } catch (error) {
+      // Running out of rate limit fails the whole refresh instead of caching a repository without stats
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
+      this.logger.warn('Failed to fetch release data, returning repository without stats', {
+        repo: repository.name,
+        error,
+      });
+      return null;
+    }
+  }
 
-      // Return new repository with release stats
-      return new Repository(
-        repository.name,
+  /**
+   * Fetches workflow runs used for build statistics and DORA time to restore
+   * @returns Workflow runs, or null if no build provider is configured or runs could not be fetched
+   */
+  private async fetchWorkflowRuns(repository: Repository): Promise<WorkflowRun[] | null> {
+    const { buildProvider, workflowName } = this.options;
+    if (!buildProvider || !workflowName) {
+      return null;
+    }
+
+    try {
+      return await buildProvider.getWorkflowRuns(
         repository.owner,
-        repository.url,
-        repository.description,
-        repository.language,
-        repository.starCount,
-        repository.updatedAt,
-        releaseStats
+        repository.name,
+        workflowName,
+        BuildStatistics.getWindowStart()
       );
     } catch (error) {
-      this.logger.warn('Failed to fetch release data, returning repository without stats', {
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
+      this.logger.warn('Failed to fetch build data, returning repository without build stats', {
         repo: repository.name,
+        workflow: workflowName,
         error,
       });
-      
-      // Return original repository if release fetch fails
-      return repository;
+      return null;
+    }
+  }
+
+  /**
+   * Fetches commit activity, code churn and merged pull requests
+   * @returns Activity statistics, or null if no activity provider is configured or data could not be fetched
+   */
+  private async fetchActivityStats(repository: Repository): Promise<ActivityStats | null> {
+    const { activityProvider } = this.options;
+    if (!activityProvider) {
+      return null;
+    }
+
+    try {
+      const [commitActivity, codeFrequency, mergedPullRequests] = await Promise.all([
+        activityProvider.getCommitActivity(repository.owner, repository.name),
+        activityProvider.getCodeFrequency(repository.owner, repository.name),
+        activityProvider.getMergedPullRequests(
+          repository.owner,
+          repository.name,
+          ActivityAggregator.getWindowStart()
+        ),
+      ]);
+
+      return ActivityAggregator.calculateStats(commitActivity, codeFrequency, mergedPullRequests);
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
+      this.logger.warn('Failed to fetch activity data, returning repository without activity stats', {
+        repo: repository.name,
+        error,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Fetches contributors and calculates contributor statistics
+   * @returns Contributor statistics, or null if no contributor provider is configured or data could not be fetched
+   */
+  private async fetchContributorStats(repository: Repository): Promise<ContributorStats | null> {
+    const { contributorProvider, botPatterns } = this.options;
+    if (!contributorProvider) {
+      return null;
+    }
+
+    try {
+      const [contributors, activeLogins] = await Promise.all([
+        contributorProvider.getContributors(repository.owner, repository.name),
+        contributorProvider.getActiveContributorLogins(
+          repository.owner,
+          repository.name,
+          ContributorStatistics.getActiveWindowStart()
+        ),
+      ]);
+
+      return ContributorStatistics.calculateStats(contributors, activeLogins, botPatterns);
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
+      this.logger.warn('Failed to fetch contributor data, returning repository without contributor stats', {
+        repo: repository.name,
+        error,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Calculates DORA metrics from releases, release commit lead times and workflow runs
+   * Lead time is left out if no commit provider is configured or commits could not be fetched
+   */
+  private calculateDoraMetrics(
+    repository: Repository,
+    releases: Release[],
+    leadTimes: number[] | null,
+    runs: WorkflowRun[] | null
+  ): DoraMetrics {
+    return DoraCalculator.calculateMetrics(
+      releases,
+      leadTimes,
+      runs,
+      repository.defaultBranch,
+      this.options.hotfixWindowDays
+    );
+  }
+
+  /**
+   * Fetches the commits of recent releases and calculates their commit-to-tag times
+   * @returns Lead times in hours, or null if no commit provider is configured or commits could not be fetched
+   */
+  private async fetchLeadTimes(repository: Repository, releases: Release[]): Promise<number[] | null> {
+    const { commitProvider } = this.options;
+    if (!commitProvider) {
+      return null;
+    }
+
+    try {
+      const leadTimes = await Promise.all(
+        DoraCalculator.getReleaseChanges(releases).map(async ({ previous, release }) => {
+          const commitDates = await commitProvider.getCommitDates(
+            repository.owner,
+            repository.name,
+            previous.tagName,
+            release.tagName
+          );
+          return DoraCalculator.calculateLeadTimes(release, commitDates);
+        })
+      );
+
+      return leadTimes.flat();
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
+      this.logger.warn('Failed to fetch release commits, returning DORA metrics without lead time', {
+        repo: repository.name,
+        error,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Gets the configured version scheme of a repository
+   * @returns Version scheme, or null/undefined if it should be auto-detected
+   */
+  private getConfiguredVersionScheme(repository: Repository): VersionScheme | null | undefined {
+    const { versionSchemes = {}, defaultVersionScheme } = this.options;
+    const keys = [`${repository.owner}/${repository.name}`, repository.name];
+
+    for (const key of keys) {
+      if (Object.prototype.hasOwnProperty.call(versionSchemes, key)) {
+        return versionSchemes[key];
+      }
     }
+    return defaultVersionScheme;
   }
 }
@@ -0,0 +1,96 @@
+import { CacheProvider } from '@/domain/ports/CacheProvider';
+import { Logger } from '@/domain/ports/Logger';
+import { RepositoryProvider } from '@/domain/ports/RepositoryProvider';
+import { Repository } from '@/domain/models/Repository';
+import { ReleaseHistory } from '@/domain/models/ReleaseHistory';
+import { ReleaseHistoryCalculator } from '@/domain/services/ReleaseHistoryCalculator';
+import { FetchRepositoryData, RepositoryEnrichmentOptions } from './FetchRepositoryData';
+
+/**
+ * Enriched repository with its full release history
+ */
+export interface RepositoryDetail {
+  repository: Repository;
+  history: ReleaseHistory | null; // null if tags could not be fetched
+}
+
+/**
+ * Result of fetching repository detail
+ */
+export interface RepositoryDetailData extends RepositoryDetail {
+  cachedAt: Date;
+  isStale: boolean;
+}
+
+/**
+ * Use case: Fetch a single repository with its full release history through the cache
+ * Serves cached data while it is fresh and refreshes it from the provider otherwise
+ */
+export class FetchRepositoryDetail {
+  constructor(
+    private repositoryProvider: RepositoryProvider,
+    private cacheProvider: CacheProvider<RepositoryDetail>,
+    private logger: Logger,
+    private enrichmentOptions: RepositoryEnrichmentOptions = {}
+  ) {}
+
+  /**
+   * Executes the use case
+   * Falls back to expired cached data (marked as stale) if the refresh fails
+   * @param owner - Owner of the repository
+   * @param name - Name of the repository
+   * @param forceRefresh - Bypass the cache and fetch fresh data (default: false)
+   * @returns Repository detail with cache metadata
+   */
+  async execute(owner: string, name: string, forceRefresh: boolean = false): Promise<RepositoryDetailData> {
+    const key = `${owner}/${name}`.toLowerCase();
+    const cached = await this.cacheProvider.get(key);
+
+    if (cached && !forceRefresh && cached.expiresAt.getTime() > Date.now()) {
+      this.logger.debug('Serving repository detail from cache', {
+        repository: key,
+        cachedAt: cached.cachedAt.toISOString(),
+      });
+      return { ...cached.value, cachedAt: cached.cachedAt, isStale: false };
+    }
+
+    try {
+      const listed = await this.repositoryProvider.getRepository(owner, name);
+      const { repository, releases } = await new FetchRepositoryData(
+        this.repositoryProvider,
+        this.logger,
+        this.enrichmentOptions
+      ).executeWithReleases(listed);
+
+      const detail: RepositoryDetail = {
+        repository,
+        history: releases
+          ? ReleaseHistoryCalculator.calculate(releases, repository.releaseStats?.isTruncated ?? false)
+          : null,
+      };
+      const entry = await this.cacheProvider.set(key, detail);
+
+      return { ...detail, cachedAt: entry.cachedAt, isStale: false };
+    } catch (error) {
+      if (!cached) {
+        throw error;
+      }
+
+      this.logger.warn('Failed to refresh repository detail, serving stale cache', {
+        repository: key,
+        cachedAt: cached.cachedAt.toISOString(),
+        error,
+      });
+      return { ...cached.value, cachedAt: cached.cachedAt, isStale: true };
+    }
+  }
+
+  /**
+   * Drops the cached detail of a repository, e.g. after a webhook reported a change
+   * @param owner - Owner of the repository
+   * @param name - Name of the repository
+   */
+  async invalidate(owner: string, name: string): Promise<void> {
+    await this.cacheProvider.delete(`${owner}/${name}`.toLowerCase());
+  }
+}
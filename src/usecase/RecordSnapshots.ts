@@ -0,0 +1,38 @@
+import { Logger } from '@/domain/ports/Logger';
+import { SnapshotStore } from '@/domain/ports/SnapshotStore';
+import { Repository } from '@/domain/models/Repository';
+import { SnapshotCalculator } from '@/domain/services/SnapshotCalculator';
+
+/**
+ * Use case: Record today's snapshot of each repository
+ * Recording again on the same day replaces the day's snapshots with the latest data
+ */
+export class RecordSnapshots {
+  constructor(
+    private snapshotStore: SnapshotStore,
+    private logger: Logger
+  ) {}
+
+  /**
+   * Executes the use case
+   * Failures are logged and swallowed, so the dashboard still serves live data
+   * @param repositories - Enriched repositories to record
+   * @param now - Date of the snapshot (default: current date)
+   * @returns Number of snapshots recorded
+   */
+  async execute(repositories: Repository[], now: Date = new Date()): Promise<number> {
+    try {
+      const snapshots = repositories.map(repo => SnapshotCalculator.fromRepository(repo, now));
+      await this.snapshotStore.save(snapshots);
+
+      this.logger.debug('Recorded repository snapshots', {
+        date: SnapshotCalculator.toDateKey(now),
+        count: snapshots.length,
+      });
+      return snapshots.length;
+    } catch (error: any) {
+      this.logger.error('Failed to record repository snapshots', error, { count: repositories.length });
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { CacheProvider } from '@/domain/ports/CacheProvider';
+import { Logger } from '@/domain/ports/Logger';
+import { RepositoryList, RepositoryProvider } from '@/domain/ports/RepositoryProvider';
+import { Repository } from '@/domain/models/Repository';
+import { RepositorySource } from '@/domain/models/RepositorySource';
+import { RepositoryChange } from '@/domain/models/RepositoryChange';
+import { FetchRepositoryData, RepositoryEnrichmentOptions } from './FetchRepositoryData';
+
+/**
+ * Use case: Update one repository in the cached repository lists
+ * Lets a reported change show up right away without refetching the rest of the list
+ */
+export class SyncRepository {
+  constructor(
+    private repositoryProvider: RepositoryProvider,
+    private cacheProvider: CacheProvider<RepositoryList>,
+    private logger: Logger,
+    private enrichmentOptions: RepositoryEnrichmentOptions = {}
+  ) {}
+
+  /**
+   * Executes the use case
+   * Lists that are not cached are left alone, as they are fetched in full on next use anyway;
+   * updated lists keep their cache time, so the rest of each list expires as before
+   * @param sources - Sources of the dashboard (their written forms are the cache keys)
+   * @param change - The changed repository
+   * @returns Number of cached lists updated
+   */
+  async execute(sources: RepositorySource[], change: RepositoryChange): Promise<number> {
+    const fullName = `${change.owner}/${change.name}`.toLowerCase();
+    let synced: Repository | null = null;
+    let updated = 0;
+
+    for (const source of sources.filter(source => source.covers(change.owner, change.name))) {
+      const key = source.toString();
+      const cached = await this.cacheProvider.get(key);
+      if (!cached) {
+        continue;
+      }
+
+      if (!change.removed && !synced) {
+        const repository = await this.repositoryProvider.getRepository(change.owner, change.name);
+        synced = await new FetchRepositoryData(this.repositoryProvider, this.logger, this.enrichmentOptions)
+          .execute(repository);
+      }
+
+      // Most recently updated first, as the providers list them
+      const others = cached.value.repositories.filter(repo => repo.getFullName().toLowerCase() !== fullName);
+      await this.cacheProvider.set(
+        key,
+        { ...cached.value, repositories: synced ? [synced, ...others] : others },
+        cached.cachedAt
+      );
+      updated++;
+    }
+
+    this.logger.info(change.removed ? 'Removed repository from cache' : 'Synchronized repository', {
+      repository: fullName,
+      cachedLists: updated,
+    });
+    return updated;
+  }
+}
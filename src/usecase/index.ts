@@ -1 +1,12 @@
 export { FetchRepositories } from './FetchRepositories';
+export type { RepositoryEnrichmentOptions, EnrichedRepository } from './FetchRepositoryData';
+export { FetchOrganizationData } from './FetchOrganizationData';
+export type { OrganizationData } from './FetchOrganizationData';
+export { FetchDashboardData } from './FetchDashboardData';
+export type { DashboardData, SourceSummary } from './FetchDashboardData';
+export { RecordSnapshots } from './RecordSnapshots';
+export { FetchMetricTrends } from './FetchMetricTrends';
+export type { MetricTrends } from './FetchMetricTrends';
+export { SyncRepository } from './SyncRepository';
+export { FetchRepositoryDetail } from './FetchRepositoryDetail';
+export type { RepositoryDetail, RepositoryDetailData } from './FetchRepositoryDetail';